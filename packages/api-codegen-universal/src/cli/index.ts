@@ -0,0 +1,293 @@
+/**
+ * 命令行入口
+ *
+ * 用法：api-codegen [--config <path>] [--dry-run] [--watch]
+ *
+ * 退出码：
+ * - 0: 全部数据源生成成功
+ * - 1: 存在解析/生成失败，或生成路径上存在手写文件(conflict)
+ * - 2: 参数错误或配置文件无效
+ *
+ * 监听模式(--watch)下解析失败不会退出，收到 SIGINT/SIGTERM 后以 0 退出
+ */
+
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { WarningsSummaryMeta } from '@api-codegen-universal/core';
+import {
+  CONFIG_FILE_NAMES,
+  findConfigFile,
+  loadConfig,
+  type CodegenConfig,
+} from '../config';
+import { watchSources } from '../watch';
+import { getSourceName, runSource, type SourceRunResult } from './run-source';
+
+export {
+  getSourceName,
+  parseSource,
+  resolveGenerators,
+  resolveSourceFile,
+  runSource,
+} from './run-source';
+export type { RunSourceOptions, SourceRunResult } from './run-source';
+
+/** 退出码 */
+export const EXIT_CODE = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  USAGE: 2,
+} as const;
+
+/**
+ * 命令行输出通道(便于测试时替换)
+ */
+export interface CliIO {
+  /** 工作目录(默认 process.cwd()) */
+  cwd?: string;
+  /** 标准输出 */
+  stdout?: (message: string) => void;
+  /** 错误输出 */
+  stderr?: (message: string) => void;
+  /**
+   * 监听模式的停止信号
+   * 默认在收到 SIGINT/SIGTERM 时停止
+   */
+  signal?: AbortSignal;
+}
+
+const HELP_TEXT = `Usage: api-codegen [options]
+
+Options:
+  -c, --config <path>  Config file (default: ${CONFIG_FILE_NAMES.join(' | ')})
+      --dry-run        Print the file plan without writing anything
+  -w, --watch          Regenerate when local spec files (and their $ref files) change
+  -h, --help           Show this help`;
+
+/**
+ * 执行命令行
+ *
+ * @param argv 命令行参数(不含 node 与脚本路径)
+ * @param io 输出通道
+ * @returns 退出码
+ */
+export async function runCli(argv: string[], io: CliIO = {}): Promise<number> {
+  const cwd = io.cwd ?? process.cwd();
+  const stdout = io.stdout ?? ((message: string) => console.log(message));
+  const stderr = io.stderr ?? ((message: string) => console.error(message));
+
+  // 1. 解析参数
+  let values: {
+    config?: string;
+    'dry-run'?: boolean;
+    watch?: boolean;
+    help?: boolean;
+  };
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        config: { type: 'string', short: 'c' },
+        'dry-run': { type: 'boolean' },
+        watch: { type: 'boolean', short: 'w' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error) {
+    stderr((error as Error).message);
+    stderr(HELP_TEXT);
+    return EXIT_CODE.USAGE;
+  }
+
+  if (values.help) {
+    stdout(HELP_TEXT);
+    return EXIT_CODE.SUCCESS;
+  }
+
+  // 2. 加载配置
+  const configPath = values.config
+    ? path.resolve(cwd, values.config)
+    : await findConfigFile(cwd);
+  if (!configPath) {
+    stderr(
+      `No config file found in ${cwd}. Expected one of: ${CONFIG_FILE_NAMES.join(', ')}`,
+    );
+    return EXIT_CODE.USAGE;
+  }
+
+  let config: CodegenConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (error) {
+    stderr(`Failed to load config: ${(error as Error).message}`);
+    return EXIT_CODE.USAGE;
+  }
+
+  const dryRun = values['dry-run'] ?? false;
+  const configDir = path.dirname(configPath);
+
+  if (values.watch) {
+    return runWatch(config, { configDir, dryRun, cwd, stdout, stderr, io });
+  }
+
+  // 3. 依次处理数据源，单个数据源失败不影响其他数据源
+  let exitCode: number = EXIT_CODE.SUCCESS;
+  const warnings: Array<{ name: string; summary: WarningsSummaryMeta }> = [];
+
+  for (const [index, source] of config.sources.entries()) {
+    const name = getSourceName(source, index);
+    let run: SourceRunResult;
+    try {
+      run = await runSource(source, index, { configDir, dryRun });
+    } catch (error) {
+      stderr(`✖ ${name}: ${(error as Error).message}`);
+      exitCode = EXIT_CODE.FAILURE;
+      continue;
+    }
+
+    for (const line of formatRunResult(run, cwd)) {
+      stdout(line);
+    }
+    const conflicts = run.result.files.filter((f) => f.action === 'conflict');
+    for (const file of conflicts) {
+      stderr(
+        `✖ ${name}: ${file.path} exists and was not generated by api-codegen-universal, skipped`,
+      );
+      exitCode = EXIT_CODE.FAILURE;
+    }
+    for (const summary of run.warnings) {
+      warnings.push({ name, summary });
+    }
+  }
+
+  // 4. 汇总输出 warnings summary
+  for (const { name, summary } of warnings) {
+    for (const line of formatWarningsSummary(name, summary)) {
+      stderr(line);
+    }
+  }
+
+  return exitCode;
+}
+
+/**
+ * 监听模式
+ * 初次生成后持续监听，直到收到停止信号
+ */
+async function runWatch(
+  config: CodegenConfig,
+  context: {
+    configDir: string;
+    dryRun: boolean;
+    cwd: string;
+    stdout: (message: string) => void;
+    stderr: (message: string) => void;
+    io: CliIO;
+  },
+): Promise<number> {
+  const { cwd, stdout, stderr, io } = context;
+
+  const watcher = await watchSources(config, {
+    configDir: context.configDir,
+    dryRun: context.dryRun,
+    onResult: (run) => {
+      for (const line of formatRunResult(run, cwd)) stdout(line);
+      for (const file of run.result.files) {
+        if (file.action === 'conflict') {
+          stderr(
+            `✖ ${run.name}: ${file.path} exists and was not generated by api-codegen-universal, skipped`,
+          );
+        }
+      }
+      for (const summary of run.warnings) {
+        for (const line of formatWarningsSummary(run.name, summary)) {
+          stderr(line);
+        }
+      }
+    },
+    onError: (name, error) => stderr(`✖ ${name}: ${error.message}`),
+    onWatch: (name, files) =>
+      stdout(
+        `👀 ${name}: watching ${files.map((f) => path.relative(cwd, f) || f).join(', ')}`,
+      ),
+  });
+
+  await new Promise<void>((resolve) => {
+    if (io.signal) {
+      if (io.signal.aborted) resolve();
+      io.signal.addEventListener('abort', () => resolve(), { once: true });
+      return;
+    }
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+
+  watcher.close();
+  return EXIT_CODE.SUCCESS;
+}
+
+/**
+ * 格式化单个数据源的生成结果
+ */
+export function formatRunResult(run: SourceRunResult, cwd: string): string[] {
+  const { result } = run;
+  const count = (action: string) =>
+    result.files.filter((f) => f.action === action).length;
+  const target = path.relative(cwd, result.outDir) || '.';
+  const lines = [
+    `${result.dryRun ? '[dry-run] ' : ''}✔ ${run.name} → ${target}: ` +
+      `${count('create')} created, ${count('update')} updated, ` +
+      `${count('unchanged')} unchanged, ${result.deleted.length} deleted`,
+  ];
+
+  if (result.dryRun) {
+    for (const file of result.files) {
+      if (file.action !== 'unchanged') {
+        lines.push(`  ${file.action.padEnd(8)} ${file.path}`);
+      }
+    }
+    for (const file of result.deleted) {
+      lines.push(`  ${'delete'.padEnd(8)} ${file}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * 格式化 warnings summary
+ */
+export function formatWarningsSummary(
+  name: string,
+  summary: WarningsSummaryMeta,
+): string[] {
+  const lines = [`⚠ ${name}: completed with warnings (${summary.code})`];
+  for (const [key, value] of Object.entries(summary.stats)) {
+    if (key === 'validation') {
+      if (value === 'skipped') lines.push('  validation: skipped');
+      continue;
+    }
+    if (value) lines.push(`  ${key}: ${value}`);
+  }
+
+  const samples = summary.samples ?? {};
+  for (const ref of samples.brokenRefs ?? []) {
+    lines.push(`    broken $ref: ${ref}`);
+  }
+  for (const { from, to } of samples.renamedSchemas ?? []) {
+    lines.push(`    renamed schema: ${from} -> ${to}`);
+  }
+  for (const {
+    from,
+    to,
+    method,
+    path: apiPath,
+  } of samples.duplicateOperationIds ?? []) {
+    lines.push(
+      `    renamed operationId: ${from} -> ${to} (${method} ${apiPath})`,
+    );
+  }
+  for (const { from, to, origin } of samples.collidingSchemas ?? []) {
+    lines.push(`    colliding schema: ${from} -> ${to} (${origin})`);
+  }
+  return lines;
+}
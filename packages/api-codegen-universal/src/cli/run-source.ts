@@ -0,0 +1,249 @@
+/**
+ * 数据源执行
+ * 解析单个数据源并生成文件，同时收集适配器输出的 warnings summary
+ */
+
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import {
+  createDefaultLogger,
+  type IGenerator,
+  type Logger,
+  type StandardOutput,
+  type WarningsSummaryMeta,
+} from '@api-codegen-universal/core';
+import { OpenAPIAdapter } from '@api-codegen-universal/openapi';
+import {
+  ApifoxAdapter,
+  isApifoxExportSource,
+  type ApifoxSource,
+} from '@api-codegen-universal/apifox';
+import {
+  AxiosClientGenerator,
+  FetchClientGenerator,
+  MswHandlersGenerator,
+  QueryHooksGenerator,
+  ZodSchemaGenerator,
+} from '@api-codegen-universal/generator';
+import type { GeneratorConfig, GeneratorName, SourceConfig } from '../config';
+import {
+  generate,
+  type GeneratorEntry,
+  type GenerateResult,
+} from '../generate';
+
+/** 内置生成器 */
+const GENERATOR_FACTORIES: Record<GeneratorName, () => IGenerator> = {
+  fetch: () => new FetchClientGenerator(),
+  axios: () => new AxiosClientGenerator(),
+  'query-hooks': () => new QueryHooksGenerator(),
+  zod: () => new ZodSchemaGenerator(),
+  msw: () => new MswHandlersGenerator(),
+};
+
+/**
+ * 数据源执行结果
+ */
+export interface SourceRunResult {
+  /** 数据源名称 */
+  name: string;
+  /** 生成结果 */
+  result: GenerateResult;
+  /** 适配器输出的 warnings summary */
+  warnings: WarningsSummaryMeta[];
+}
+
+/**
+ * 数据源执行选项
+ */
+export interface RunSourceOptions {
+  /** 配置文件所在目录(相对路径的基准) */
+  configDir: string;
+  /** 是否只计算文件计划 */
+  dryRun?: boolean;
+}
+
+/**
+ * 获取数据源的显示名称
+ */
+export function getSourceName(source: SourceConfig, index: number): string {
+  return source.name ?? `source#${index + 1}`;
+}
+
+/**
+ * 判断日志 meta 是否为适配器输出的 warnings summary
+ * 日志 meta 没有类型约束，除事件码外还需要确认 stats/samples 的结构
+ */
+function isWarningsSummaryMeta(
+  meta: Record<string, unknown> | undefined,
+): meta is Record<string, unknown> & WarningsSummaryMeta {
+  if (
+    typeof meta?.code !== 'string' ||
+    !meta.code.endsWith('_WARNINGS_SUMMARY') ||
+    typeof meta.adapter !== 'string'
+  ) {
+    return false;
+  }
+  const { stats, samples } = meta;
+  return (
+    typeof stats === 'object' &&
+    stats !== null &&
+    typeof (stats as { validation?: unknown }).validation === 'string' &&
+    (samples === undefined || (typeof samples === 'object' && samples !== null))
+  );
+}
+
+/**
+ * 解析数据源
+ * 适配器的 warnings summary 会被拦截并返回，其他日志照常输出
+ *
+ * @param source 数据源配置
+ * @param configDir 配置文件所在目录
+ */
+export async function parseSource(
+  source: SourceConfig,
+  configDir: string,
+): Promise<{ output: StandardOutput; warnings: WarningsSummaryMeta[] }> {
+  const warnings: WarningsSummaryMeta[] = [];
+  const baseLogger: Logger = source.options?.logger ?? createDefaultLogger();
+  const logger: Logger = {
+    ...baseLogger,
+    warn: (message, meta) => {
+      if (isWarningsSummaryMeta(meta)) {
+        warnings.push(meta);
+        return;
+      }
+      baseLogger.warn?.(message, meta);
+    },
+  };
+  // warnings summary 需要 logLevel >= warn 才会输出
+  const options = {
+    ...source.options,
+    logLevel: source.options?.logLevel ?? 'warn',
+    logger,
+  };
+
+  const output =
+    source.adapter === 'apifox'
+      ? await new ApifoxAdapter().parse(
+          resolveApifoxInput(source.input, configDir),
+          options,
+        )
+      : await new OpenAPIAdapter().parse(
+          resolveInput(source.input, configDir),
+          options,
+        );
+
+  return { output, warnings };
+}
+
+/**
+ * 执行单个数据源：解析 + 生成
+ *
+ * @param source 数据源配置
+ * @param index 数据源序号
+ * @param options 执行选项
+ */
+export async function runSource(
+  source: SourceConfig,
+  index: number,
+  options: RunSourceOptions,
+): Promise<SourceRunResult> {
+  const { output, warnings } = await parseSource(source, options.configDir);
+  const result = await generate(output, {
+    outDir: path.resolve(options.configDir, source.outDir),
+    generators: resolveGenerators(source.generators),
+    dryRun: options.dryRun,
+    prune: source.prune,
+  });
+
+  return { name: getSourceName(source, index), result, warnings };
+}
+
+/**
+ * 将生成器配置转换为生成器实例
+ */
+export function resolveGenerators(
+  configs: GeneratorConfig[] = ['fetch'],
+): GeneratorEntry[] {
+  return configs.map((config) => {
+    if (typeof config === 'string') {
+      return createGenerator(config);
+    }
+    if ('name' in config && typeof config.name === 'string') {
+      return {
+        generator: createGenerator(config.name),
+        options: config.options,
+      };
+    }
+    return config as GeneratorEntry;
+  });
+}
+
+function createGenerator(name: string): IGenerator {
+  const factory = GENERATOR_FACTORIES[name as GeneratorName];
+  if (!factory) {
+    throw new Error(
+      `Unknown generator "${name}". Expected one of: ${Object.keys(GENERATOR_FACTORIES).join(', ')}`,
+    );
+  }
+  return factory();
+}
+
+/**
+ * 解析 OpenAPI 输入
+ * openapi-typescript 只把字符串当作文档内容，因此文件路径需要转换为 file:// URL
+ */
+function resolveInput(
+  input: SourceConfig['input'],
+  configDir: string,
+): Parameters<OpenAPIAdapter['parse']>[0] {
+  if (typeof input !== 'string') {
+    return input as Parameters<OpenAPIAdapter['parse']>[0];
+  }
+  if (/^https?:\/\//i.test(input) || input.startsWith('file://')) {
+    return new URL(input);
+  }
+  // 多行或以 { 开头时视为文档内容
+  if (input.includes('\n') || input.trim().startsWith('{')) {
+    return input;
+  }
+  return pathToFileURL(path.resolve(configDir, input));
+}
+
+/**
+ * 解析 Apifox 输入
+ * 离线导出文件路径相对于配置文件所在目录
+ */
+function resolveApifoxInput(
+  input: ApifoxSource,
+  configDir: string,
+): ApifoxSource {
+  if (isApifoxExportSource(input) && typeof input.exportData === 'string') {
+    return { exportData: path.resolve(configDir, input.exportData) };
+  }
+  return input;
+}
+
+/**
+ * 获取数据源对应的本地文件路径
+ * OpenAPI 数据源的输入为文件路径(或 file:// URL)，或 Apifox 数据源的输入为离线导出文件时返回
+ *
+ * @param source 数据源配置
+ * @param configDir 配置文件所在目录
+ */
+export function resolveSourceFile(
+  source: SourceConfig,
+  configDir: string,
+): string | undefined {
+  if (source.adapter === 'apifox') {
+    const input = resolveApifoxInput(source.input, configDir);
+    return isApifoxExportSource(input) && typeof input.exportData === 'string'
+      ? input.exportData
+      : undefined;
+  }
+  const input = resolveInput(source.input, configDir);
+  return input instanceof URL && input.protocol === 'file:'
+    ? fileURLToPath(input)
+    : undefined;
+}
@@ -0,0 +1,11 @@
+/**
+ * 配置文件
+ */
+
+export * from './types';
+export {
+  CONFIG_FILE_NAMES,
+  defineConfig,
+  findConfigFile,
+  loadConfig,
+} from './loader';
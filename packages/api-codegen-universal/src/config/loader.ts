@@ -0,0 +1,179 @@
+/**
+ * 配置文件加载
+ * 支持 api-codegen.config.ts / .mts / .js / .mjs / .json
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import type { CodegenConfig } from './types';
+
+/** 配置文件名(按优先级排列) */
+export const CONFIG_FILE_NAMES = [
+  'api-codegen.config.ts',
+  'api-codegen.config.mts',
+  'api-codegen.config.js',
+  'api-codegen.config.mjs',
+  'api-codegen.config.json',
+];
+
+/** 支持的适配器 */
+const ADAPTERS = new Set(['openapi', 'apifox']);
+
+/**
+ * 在目录中查找配置文件
+ *
+ * @param cwd 查找目录
+ * @returns 配置文件绝对路径，找不到时返回 undefined
+ */
+export async function findConfigFile(cwd: string): Promise<string | undefined> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = path.resolve(cwd, fileName);
+    try {
+      const stat = await fs.stat(filePath);
+      if (stat.isFile()) return filePath;
+    } catch {
+      // 文件不存在，继续查找
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 加载并校验配置文件
+ *
+ * @param filePath 配置文件路径
+ * @returns 配置对象
+ */
+export async function loadConfig(filePath: string): Promise<CodegenConfig> {
+  const absolutePath = path.resolve(filePath);
+  const config = absolutePath.endsWith('.json')
+    ? JSON.parse(await fs.readFile(absolutePath, 'utf-8'))
+    : await importConfigModule(absolutePath);
+
+  validateConfig(config, absolutePath);
+  return config;
+}
+
+/**
+ * 定义配置(仅用于获得类型提示)
+ *
+ * @example
+ * // api-codegen.config.ts
+ * export default defineConfig({
+ *   sources: [{ adapter: 'openapi', input: './openapi.yaml', outDir: './src/api' }],
+ * });
+ */
+export function defineConfig(config: CodegenConfig): CodegenConfig {
+  return config;
+}
+
+/**
+ * 导入 JS/TS 配置模块
+ * TS 配置通过 typescript 转译为 ESM 临时文件后导入，
+ * 临时文件与配置文件位于同一目录，保证其中的相对导入和依赖解析不变
+ */
+async function importConfigModule(filePath: string): Promise<unknown> {
+  let modulePath = filePath;
+  let tempPath: string | undefined;
+
+  if (/\.m?ts$/.test(filePath)) {
+    const source = await fs.readFile(filePath, 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: filePath,
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+        esModuleInterop: true,
+      },
+    });
+    tempPath = path.join(
+      path.dirname(filePath),
+      `.${path.basename(filePath)}.${process.pid}.${Date.now()}.mjs`,
+    );
+    await fs.writeFile(tempPath, outputText, 'utf-8');
+    modulePath = tempPath;
+  }
+
+  try {
+    const mod = await import(pathToFileURL(modulePath).href);
+    return mod.default ?? mod.config;
+  } finally {
+    if (tempPath) {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+}
+
+/**
+ * 校验配置结构
+ */
+function validateConfig(
+  config: unknown,
+  filePath: string,
+): asserts config is CodegenConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config ${filePath}: ${message}`);
+  };
+
+  if (typeof config !== 'object' || config === null) {
+    fail('expected an object (default export)');
+  }
+  const sources = (config as { sources?: unknown }).sources;
+  if (!Array.isArray(sources) || sources.length === 0) {
+    fail('"sources" must be a non-empty array');
+  }
+
+  (sources as unknown[]).forEach((source, index) => {
+    const label = `sources[${index}]`;
+    if (typeof source !== 'object' || source === null) {
+      fail(`${label} must be an object`);
+    }
+    const { adapter, input, outDir } = source as Record<string, unknown>;
+    if (typeof adapter !== 'string' || !ADAPTERS.has(adapter)) {
+      fail(
+        `${label}.adapter must be one of: ${Array.from(ADAPTERS).join(', ')}`,
+      );
+    }
+    if (input === undefined || input === null) {
+      fail(`${label}.input is required`);
+    }
+    if (typeof outDir !== 'string' || !outDir) {
+      fail(`${label}.outDir must be a non-empty string`);
+    }
+  });
+
+  // 输出目录相同或嵌套时，各数据源的生成文件会相互覆盖或被清理
+  const outDirs = (sources as Array<{ outDir: string }>).map(
+    (source) => source.outDir,
+  );
+  const resolved = outDirs.map((outDir) =>
+    path.resolve(path.dirname(filePath), outDir),
+  );
+  resolved.forEach((outDir, index) => {
+    const other = resolved.findIndex(
+      (candidate, i) => i < index && isSameOrNested(candidate, outDir),
+    );
+    if (other !== -1) {
+      fail(
+        `sources[${index}].outDir "${outDirs[index]}" overlaps sources[${other}].outDir "${outDirs[other]}", each source needs its own output directory`,
+      );
+    }
+  });
+}
+
+/**
+ * 判断两个目录是否相同或其中一个位于另一个之内
+ */
+function isSameOrNested(a: string, b: string): boolean {
+  const inside = (parent: string, child: string) => {
+    const relative = path.relative(parent, child);
+    return (
+      relative !== '..' &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative)
+    );
+  };
+  return inside(a, b) || inside(b, a);
+}
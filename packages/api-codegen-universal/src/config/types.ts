@@ -0,0 +1,92 @@
+/**
+ * 配置文件类型定义
+ * 对应 api-codegen.config.ts / api-codegen.config.json
+ */
+
+import type { GeneratorOptions } from '@api-codegen-universal/core';
+import type {
+  InputSource,
+  OpenAPIOptions,
+} from '@api-codegen-universal/openapi';
+import type {
+  ApifoxAdapterOptions,
+  ApifoxSource,
+} from '@api-codegen-universal/apifox';
+import type { GeneratorEntry } from '../generate';
+
+/**
+ * 内置生成器名称
+ * - fetch: FetchClientGenerator
+ * - axios: AxiosClientGenerator
+ * - query-hooks: QueryHooksGenerator
+ * - zod: ZodSchemaGenerator
+ * - msw: MswHandlersGenerator
+ */
+export type GeneratorName = 'fetch' | 'axios' | 'query-hooks' | 'zod' | 'msw';
+
+/**
+ * 生成器配置
+ * JSON 配置文件中只能使用名称形式
+ */
+export type GeneratorConfig =
+  | GeneratorName
+  | { name: GeneratorName; options?: GeneratorOptions }
+  | GeneratorEntry;
+
+/**
+ * 数据源通用配置
+ */
+interface BaseSourceConfig {
+  /** 数据源名称(用于日志输出，默认使用序号) */
+  name?: string;
+
+  /** 输出目录(相对于配置文件所在目录) */
+  outDir: string;
+
+  /** 使用的生成器(默认 ['fetch']) */
+  generators?: GeneratorConfig[];
+
+  /** 是否清理过期的生成文件(默认 true) */
+  prune?: boolean;
+}
+
+/**
+ * OpenAPI 数据源
+ */
+export interface OpenAPISourceConfig extends BaseSourceConfig {
+  adapter: 'openapi';
+  /**
+   * OpenAPI 文档
+   * 字符串为 http(s) URL 或文件路径(相对于配置文件所在目录)，也可以直接传入文档对象
+   */
+  input: InputSource;
+  /** 解析选项 */
+  options?: OpenAPIOptions;
+}
+
+/**
+ * Apifox 数据源
+ */
+export interface ApifoxSourceConfig extends BaseSourceConfig {
+  adapter: 'apifox';
+  /**
+   * Apifox 项目配置，或离线导出数据 `{ exportData }`
+   * exportData 为文件路径时相对于配置文件所在目录
+   */
+  input: ApifoxSource;
+  /** 解析选项 */
+  options?: ApifoxAdapterOptions;
+}
+
+/**
+ * 数据源配置
+ */
+export type SourceConfig = OpenAPISourceConfig | ApifoxSourceConfig;
+
+/**
+ * 配置文件结构
+ */
+export interface CodegenConfig {
+  /** 数据源列表(按顺序处理) */
+  sources: SourceConfig[];
+}
@@ -0,0 +1,94 @@
+/**
+ * 文件计划
+ * 执行生成器并汇总为 路径 -> 内容 的映射，同时为生成文件添加标记
+ */
+
+import type { StandardOutput } from '@api-codegen-universal/core';
+import { FetchClientGenerator } from '@api-codegen-universal/generator';
+import type { GeneratorEntry } from './types';
+
+/**
+ * 生成文件标记
+ * 带有该标记的文件视为由工具生成，可以被覆盖和清理
+ */
+export const GENERATED_FILE_MARKER = '@generated by api-codegen-universal';
+
+/** 生成文件头部注释 */
+export const GENERATED_FILE_HEADER = `// ${GENERATED_FILE_MARKER}. DO NOT EDIT.`;
+
+/** 支持添加行注释标记的文件类型 */
+const markableFileRegex = /\.(c|m)?[jt]sx?$/;
+
+/**
+ * 判断文件内容是否带有生成标记
+ * 只检查第一行，避免误判正文中引用了标记的手写文件
+ */
+export function isGeneratedContent(content: string): boolean {
+  const end = content.indexOf('\n');
+  const firstLine = end === -1 ? content : content.slice(0, end);
+  return firstLine.includes(GENERATED_FILE_MARKER);
+}
+
+/**
+ * 为文件内容添加生成标记
+ */
+export function withGeneratedHeader(path: string, content: string): string {
+  if (!markableFileRegex.test(path) || isGeneratedContent(content)) {
+    return content;
+  }
+  return `${GENERATED_FILE_HEADER}\n${content}`;
+}
+
+/**
+ * 规范化生成文件路径
+ * 统一使用 '/' 分隔，并拒绝指向输出目录之外的路径
+ */
+export function normalizePlanPath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..' || segment.includes(':')) {
+      throw new Error(`Generated file path escapes output directory: ${path}`);
+    }
+    segments.push(segment);
+  }
+  if (segments.length === 0) {
+    throw new Error(`Invalid generated file path: "${path}"`);
+  }
+  return segments.join('/');
+}
+
+/**
+ * 执行生成器，计算文件计划
+ * 多个生成器输出同一路径时，内容一致则合并(如共享的 types.ts)，否则抛出错误
+ *
+ * @param output 标准输出
+ * @param generators 生成器列表(默认 FetchClientGenerator)
+ * @returns 路径 -> 内容(已包含生成标记)
+ */
+export function createFilePlan(
+  output: StandardOutput,
+  generators: GeneratorEntry[] = [new FetchClientGenerator()],
+): Map<string, string> {
+  const plan = new Map<string, string>();
+
+  for (const entry of generators) {
+    const { generator, options } =
+      'generator' in entry ? entry : { generator: entry, options: undefined };
+
+    for (const file of generator.generate(output, options)) {
+      const path = normalizePlanPath(file.path);
+      const content = withGeneratedHeader(path, file.content);
+      const existing = plan.get(path);
+
+      if (existing !== undefined && existing !== content) {
+        throw new Error(
+          `Conflicting generated file: "${path}" is emitted by multiple generators with different contents`,
+        );
+      }
+      plan.set(path, content);
+    }
+  }
+
+  return plan;
+}
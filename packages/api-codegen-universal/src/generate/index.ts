@@ -0,0 +1,82 @@
+/**
+ * 写盘编排
+ * 将解析结果转换为文件并写入输出目录
+ *
+ * 流程：
+ * 1. 执行生成器，计算文件计划(路径 -> 内容)，并为每个文件添加生成标记
+ * 2. 对比磁盘现状，得到每个文件的动作(create/update/unchanged/conflict)
+ * 3. 原子写入有变化的文件
+ * 4. 删除上一次生成、本次不再需要的文件(仅限生成清单中记录且带有生成标记的文件)
+ * 5. 更新生成清单
+ */
+
+import path from 'node:path';
+import type { StandardOutput } from '@api-codegen-universal/core';
+import { createFilePlan } from './file-plan';
+export { GENERATED_MANIFEST_FILE } from './writer';
+import {
+  findStaleFiles,
+  readManifest,
+  removeGeneratedFile,
+  resolvePlannedFiles,
+  writeFileAtomic,
+  writeManifest,
+} from './writer';
+import type { GenerateOptions, GenerateResult } from './types';
+
+export * from './types';
+export {
+  GENERATED_FILE_HEADER,
+  GENERATED_FILE_MARKER,
+  createFilePlan,
+  isGeneratedContent,
+} from './file-plan';
+
+/**
+ * 将解析结果生成到输出目录
+ *
+ * @param output 适配器解析得到的标准输出
+ * @param options 生成选项
+ * @returns 文件计划及执行结果
+ *
+ * @example
+ * const output = await new OpenAPIAdapter().parse('./openapi.json');
+ * const result = await generate(output, {
+ *   outDir: './src/api',
+ *   generators: [new FetchClientGenerator(), new ZodSchemaGenerator()],
+ * });
+ */
+export async function generate(
+  output: StandardOutput,
+  options: GenerateOptions,
+): Promise<GenerateResult> {
+  const outDir = path.resolve(options.outDir);
+  const dryRun = options.dryRun ?? false;
+  const prune = options.prune ?? true;
+
+  const plan = createFilePlan(output, options.generators);
+  const files = await resolvePlannedFiles(outDir, plan);
+  const previous = await readManifest(outDir);
+  const stale = await findStaleFiles(outDir, previous, plan);
+  const deleted = prune ? stale : [];
+
+  if (!dryRun) {
+    for (const file of files) {
+      if (file.action === 'create' || file.action === 'update') {
+        await writeFileAtomic(path.join(outDir, file.path), file.content);
+      }
+    }
+    for (const relativePath of deleted) {
+      await removeGeneratedFile(outDir, relativePath);
+    }
+    // 手写文件(conflict)不属于本次生成；未清理的过期文件保留在清单中，等待下次清理
+    await writeManifest(outDir, [
+      ...files
+        .filter((file) => file.action !== 'conflict')
+        .map((file) => file.path),
+      ...(prune ? [] : stale),
+    ]);
+  }
+
+  return { outDir, dryRun, files, deleted };
+}
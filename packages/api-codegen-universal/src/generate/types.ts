@@ -0,0 +1,77 @@
+/**
+ * 写盘编排相关类型定义
+ */
+
+import type { GeneratorOptions, IGenerator } from '@api-codegen-universal/core';
+
+/**
+ * 生成器配置项
+ * 可以直接传入生成器实例，也可以同时指定生成选项
+ */
+export type GeneratorEntry =
+  | IGenerator
+  | {
+      /** 生成器实例 */
+      generator: IGenerator;
+      /** 生成选项 */
+      options?: GeneratorOptions;
+    };
+
+/**
+ * generate() 选项
+ */
+export interface GenerateOptions {
+  /** 输出目录(生成文件路径均相对于该目录) */
+  outDir: string;
+
+  /**
+   * 使用的生成器列表(按顺序执行)
+   * 默认只使用 FetchClientGenerator
+   */
+  generators?: GeneratorEntry[];
+
+  /**
+   * 是否只计算文件计划而不写盘(默认 false)
+   * 开启后返回的结果与实际写盘时一致，便于预览或在 CI 中检查产物是否过期
+   */
+  dryRun?: boolean;
+
+  /**
+   * 是否删除上一次生成、本次不再需要的文件(默认 true)
+   * 只会删除输出目录生成清单中记录且带有生成标记的文件，
+   * 手写文件与其他数据源生成的文件永远不会被删除
+   */
+  prune?: boolean;
+}
+
+/**
+ * 文件计划中的单个文件
+ */
+export interface PlannedFile {
+  /** 相对于输出目录的路径 */
+  path: string;
+  /** 文件内容(已包含生成标记) */
+  content: string;
+  /**
+   * 写盘动作
+   * - create: 新文件
+   * - update: 内容发生变化
+   * - unchanged: 内容一致，不会重写
+   * - conflict: 目标位置存在手写文件(无生成标记)，不会覆盖
+   */
+  action: 'create' | 'update' | 'unchanged' | 'conflict';
+}
+
+/**
+ * generate() 结果
+ */
+export interface GenerateResult {
+  /** 输出目录(绝对路径) */
+  outDir: string;
+  /** 是否为 dry-run */
+  dryRun: boolean;
+  /** 文件计划 */
+  files: PlannedFile[];
+  /** 被删除(dry-run 时为将要删除)的过期生成文件，相对于输出目录 */
+  deleted: string[];
+}
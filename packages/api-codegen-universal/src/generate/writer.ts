@@ -0,0 +1,179 @@
+/**
+ * 文件写入
+ * 负责将文件计划原子写入磁盘，并根据生成清单清理上一次生成的过期文件
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { isGeneratedContent, normalizePlanPath } from './file-plan';
+import type { PlannedFile } from './types';
+
+/**
+ * 生成清单文件名
+ * 记录本输出目录上一次生成的文件，清理时只处理清单中的文件，
+ * 不会误删同一目录(或子目录)中其他数据源的生成文件
+ */
+export const GENERATED_MANIFEST_FILE = '.api-codegen-manifest.json';
+
+/**
+ * 生成清单内容
+ */
+interface GeneratedManifest {
+  /** 生成文件路径(相对于输出目录，使用 '/' 分隔) */
+  files: string[];
+}
+
+/**
+ * 读取文件内容，文件不存在时返回 undefined
+ */
+async function readFileIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 对比磁盘现状，计算每个文件的写盘动作
+ *
+ * @param outDir 输出目录(绝对路径)
+ * @param plan 文件计划
+ */
+export async function resolvePlannedFiles(
+  outDir: string,
+  plan: Map<string, string>,
+): Promise<PlannedFile[]> {
+  const files: PlannedFile[] = [];
+
+  for (const [relativePath, content] of plan) {
+    const existing = await readFileIfExists(path.join(outDir, relativePath));
+    let action: PlannedFile['action'];
+    if (existing === undefined) {
+      action = 'create';
+    } else if (existing === content) {
+      action = 'unchanged';
+    } else if (!isGeneratedContent(existing)) {
+      // 手写文件永远不会被覆盖
+      action = 'conflict';
+    } else {
+      action = 'update';
+    }
+    files.push({ path: relativePath, content, action });
+  }
+
+  return files;
+}
+
+/**
+ * 读取上一次生成的清单，清单不存在或无法解析时返回空列表
+ *
+ * @param outDir 输出目录(绝对路径)
+ */
+export async function readManifest(outDir: string): Promise<string[]> {
+  const content = await readFileIfExists(
+    path.join(outDir, GENERATED_MANIFEST_FILE),
+  );
+  if (content === undefined) return [];
+  try {
+    const manifest = JSON.parse(content) as Partial<GeneratedManifest>;
+    return Array.isArray(manifest.files)
+      ? manifest.files.filter((file) => typeof file === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 写入生成清单(内容不变时不重写)
+ *
+ * @param outDir 输出目录(绝对路径)
+ * @param files 本次生成的文件路径
+ */
+export async function writeManifest(
+  outDir: string,
+  files: string[],
+): Promise<void> {
+  const manifest: GeneratedManifest = { files: [...new Set(files)].sort() };
+  const content = `${JSON.stringify(manifest, null, 2)}\n`;
+  const filePath = path.join(outDir, GENERATED_MANIFEST_FILE);
+  if ((await readFileIfExists(filePath)) === content) return;
+  await writeFileAtomic(filePath, content);
+}
+
+/**
+ * 查找上一次生成、本次不在计划内的文件
+ * 只检查清单中记录的文件，并且跳过已被改为手写的文件(去掉了生成标记)
+ *
+ * @param outDir 输出目录(绝对路径)
+ * @param previous 上一次生成清单中的文件
+ * @param plan 文件计划
+ * @returns 过期文件路径(相对于输出目录，使用 '/' 分隔)
+ */
+export async function findStaleFiles(
+  outDir: string,
+  previous: string[],
+  plan: Map<string, string>,
+): Promise<string[]> {
+  const stale: string[] = [];
+
+  for (const relativePath of previous) {
+    if (plan.has(relativePath)) continue;
+    let normalized: string;
+    try {
+      normalized = normalizePlanPath(relativePath);
+    } catch {
+      // 清单被篡改为输出目录之外的路径时忽略
+      continue;
+    }
+    const content = await readFileIfExists(path.join(outDir, normalized));
+    if (content !== undefined && isGeneratedContent(content)) {
+      stale.push(normalized);
+    }
+  }
+
+  return stale.sort();
+}
+
+/**
+ * 原子写入文件
+ * 先写入同目录下的临时文件，再通过 rename 替换目标文件，
+ * 避免进程中断时留下写了一半的文件
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now().toString(36)}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * 删除文件，并向上清理因此变空的目录(不会超出输出目录)
+ */
+export async function removeGeneratedFile(
+  outDir: string,
+  relativePath: string,
+): Promise<void> {
+  const filePath = path.join(outDir, relativePath);
+  await fs.rm(filePath, { force: true });
+
+  let dir = path.dirname(filePath);
+  while (dir !== outDir && dir.startsWith(outDir)) {
+    const entries = await fs.readdir(dir).catch(() => null);
+    if (!entries || entries.length > 0) break;
+    await fs.rmdir(dir);
+    dir = path.dirname(dir);
+  }
+}
@@ -12,3 +12,34 @@ export * from '@api-codegen-universal/openapi';
 
 // 导出 Apifox 适配器
 export * from '@api-codegen-universal/apifox';
+
+// 导出 Postman 适配器
+export * from '@api-codegen-universal/postman';
+
+// 导出 HAR 适配器
+export * from '@api-codegen-universal/har';
+
+// 导出 GraphQL 适配器
+export * from '@api-codegen-universal/graphql';
+
+// 导出 AsyncAPI 适配器
+export * from '@api-codegen-universal/asyncapi';
+
+// 导出 Protobuf 适配器
+export * from '@api-codegen-universal/protobuf';
+
+// 导出代码生成器
+export * from '@api-codegen-universal/generator';
+
+// 导出写盘编排
+export * from './generate';
+
+// 导出配置文件与命令行
+export * from './config';
+export * from './cli';
+
+// 导出监听模式
+export * from './watch';
+
+// 导出本地 Mock 服务
+export * from './mock-server';
@@ -0,0 +1,364 @@
+/**
+ * 本地 Mock 服务
+ * 根据 StandardOutput 中的 ApiDefinition 注册路由，OpenAPI 与 Apifox 数据源表现一致
+ *
+ * - 路径参数按 {param} 匹配，静态路径优先
+ * - 响应体优先使用 example / examples，没有示例时按 Schema 生成(相同种子结果稳定)
+ * - 通过 x-mock-status / x-mock-example 请求头可临时切换响应状态码与示例
+ */
+
+import http, {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  MockDataGenerator,
+  type ApiDefinition,
+  type MediaTypeDefinition,
+  type MockOptions,
+  type ResponseDefinition,
+  type StandardOutput,
+} from '@api-codegen-universal/core';
+import { MockRouter } from './router';
+
+export { MockRouter, type RouteMatch } from './router';
+
+/** 指定响应状态码的请求头 */
+export const MOCK_STATUS_HEADER = 'x-mock-status';
+/** 指定 examples 中示例名称的请求头 */
+export const MOCK_EXAMPLE_HEADER = 'x-mock-example';
+
+/**
+ * Mock 请求处理选项
+ */
+export interface MockHandlerOptions {
+  /**
+   * 路由前缀(如 /api/v1)，匹配前从请求路径中去除
+   */
+  basePath?: string;
+
+  /**
+   * 响应状态码
+   * 可按接口返回；未指定时依次选择第一个 2xx、default、第一个响应
+   * 请求头 x-mock-status 优先于此选项
+   */
+  status?:
+    | number
+    | string
+    | ((api: ApiDefinition) => number | string | undefined);
+
+  /** 响应延迟(毫秒，默认 0) */
+  delay?: number;
+
+  /** 是否允许跨域(默认 true) */
+  cors?: boolean;
+
+  /** 无示例时的数据生成选项 */
+  mock?: MockOptions;
+
+  /** 每次请求处理完成 */
+  onRequest?: (entry: MockRequestLog) => void;
+}
+
+/**
+ * Mock 服务选项
+ */
+export interface MockServerOptions extends MockHandlerOptions {
+  /** 端口(默认 4010，0 表示随机端口) */
+  port?: number;
+  /** 监听地址(默认 127.0.0.1) */
+  host?: string;
+}
+
+/**
+ * 请求日志
+ */
+export interface MockRequestLog {
+  method: string;
+  path: string;
+  status: number;
+  /** 命中的接口(未命中时为空) */
+  api?: ApiDefinition;
+  /** 路径参数 */
+  params?: Record<string, string>;
+}
+
+/**
+ * 请求处理函数
+ * 可作为 Node http 服务的回调，也可作为 Connect/Express/Vite 中间件使用：
+ * 传入 next 时，未命中的请求交给 next 处理
+ */
+export type MockRequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: () => void,
+) => void;
+
+/**
+ * Mock 服务句柄
+ */
+export interface MockServer {
+  /** 服务地址(如 http://127.0.0.1:4010) */
+  url: string;
+  /** 实际监听的端口 */
+  port: number;
+  /** Node http 服务实例 */
+  server: Server;
+  /** 关闭服务 */
+  close: () => Promise<void>;
+}
+
+/**
+ * 创建 Mock 请求处理函数
+ *
+ * @param output 解析得到的标准输出
+ * @param options 处理选项
+ */
+export function createMockHandler(
+  output: StandardOutput,
+  options: MockHandlerOptions = {},
+): MockRequestHandler {
+  const responder = new MockResponder(output, options);
+  return (req, res, next) => {
+    responder.handle(req, res, next).catch((error: unknown) => {
+      if (!res.headersSent) {
+        sendJson(res, 500, {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } else {
+        res.end();
+      }
+    });
+  };
+}
+
+/**
+ * 启动本地 Mock 服务
+ *
+ * @param output 解析得到的标准输出
+ * @param options 服务选项
+ * @returns 服务句柄(开始监听后返回)
+ *
+ * @example
+ * const output = await new OpenAPIAdapter().parse('./openapi.yaml');
+ * const server = await startMockServer(output, { port: 4010 });
+ * // GET http://127.0.0.1:4010/users/1
+ * await server.close();
+ */
+export async function startMockServer(
+  output: StandardOutput,
+  options: MockServerOptions = {},
+): Promise<MockServer> {
+  const { port = 4010, host = '127.0.0.1', ...handlerOptions } = options;
+  const server = http.createServer(createMockHandler(output, handlerOptions));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const urlHost =
+    address.family === 'IPv6' ? `[${address.address}]` : address.address;
+  return {
+    url: `http://${urlHost}:${address.port}`,
+    port: address.port,
+    server,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * 根据路由匹配结果生成响应
+ */
+class MockResponder {
+  private router: MockRouter;
+  private basePath: string;
+
+  constructor(
+    private output: StandardOutput,
+    private options: MockHandlerOptions,
+  ) {
+    this.router = new MockRouter(output.apis);
+    this.basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  }
+
+  async handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+    next?: () => void,
+  ): Promise<void> {
+    const method = (req.method ?? 'GET').toUpperCase();
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const log = (status: number, extra: Partial<MockRequestLog> = {}) =>
+      this.options.onRequest?.({
+        method,
+        path: url.pathname,
+        status,
+        ...extra,
+      });
+
+    if (this.options.cors !== false) {
+      res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+      res.setHeader('Vary', 'Origin');
+      if (method === 'OPTIONS') {
+        res.setHeader(
+          'Access-Control-Allow-Methods',
+          req.headers['access-control-request-method'] ?? '*',
+        );
+        res.setHeader(
+          'Access-Control-Allow-Headers',
+          req.headers['access-control-request-headers'] ?? '*',
+        );
+        res.statusCode = 204;
+        res.end();
+        log(204);
+        return;
+      }
+    }
+
+    const pathname = this.stripBasePath(url.pathname);
+    // HEAD 请求按 GET 匹配，只返回响应头
+    const match =
+      pathname === undefined
+        ? undefined
+        : this.router.match(method === 'HEAD' ? 'GET' : method, pathname);
+
+    if (!match || match.type === 'not-found') {
+      if (next) return next();
+      sendJson(res, 404, {
+        message: `No mock route for ${method} ${url.pathname}`,
+      });
+      log(404);
+      return;
+    }
+    if (match.type === 'method-not-allowed') {
+      if (next) return next();
+      res.setHeader('Allow', match.allowed.join(', '));
+      sendJson(res, 405, { message: `Method ${method} not allowed` });
+      log(405);
+      return;
+    }
+
+    const { api, params } = match;
+    const { status, response } = this.selectResponse(api, req);
+    const delay = this.options.delay ?? 0;
+    if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+    res.statusCode = status;
+    const media = pickMediaType(response?.content);
+    if (!media || status === 204 || status === 304) {
+      res.end();
+      log(status, { api, params });
+      return;
+    }
+
+    const [mediaType, definition] = media;
+    const contentType = mediaType.includes('*')
+      ? 'application/json'
+      : mediaType;
+    const body = this.resolveBody(definition, req);
+    const payload =
+      typeof body === 'string' && !isJsonMediaType(contentType)
+        ? body
+        : JSON.stringify(body ?? null);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Length', Buffer.byteLength(payload));
+    res.end(method === 'HEAD' ? undefined : payload);
+    log(status, { api, params });
+  }
+
+  private stripBasePath(pathname: string): string | undefined {
+    if (!this.basePath) return pathname;
+    if (pathname === this.basePath) return '/';
+    if (!pathname.startsWith(`${this.basePath}/`)) return undefined;
+    return pathname.slice(this.basePath.length);
+  }
+
+  /**
+   * 选择响应状态码与响应定义
+   * 状态码不存在于响应定义中时，回退到 default 响应
+   */
+  private selectResponse(
+    api: ApiDefinition,
+    req: IncomingMessage,
+  ): { status: number; response?: ResponseDefinition } {
+    const header = req.headers[MOCK_STATUS_HEADER];
+    const option = this.options.status;
+    const requested =
+      (Array.isArray(header) ? header[0] : header) ??
+      (typeof option === 'function' ? option(api) : option);
+
+    const codes = Object.keys(api.responses);
+    const code =
+      requested !== undefined
+        ? String(requested)
+        : (codes.find((c) => /^2\d\d$/.test(c)) ??
+          (codes.includes('default') ? 'default' : codes[0]));
+
+    if (code === undefined) return { status: 200 };
+    const status = code === 'default' ? 200 : Number(code);
+    return {
+      status:
+        Number.isInteger(status) && status >= 100 && status < 600
+          ? status
+          : 200,
+      response: api.responses[code] ?? api.responses['default'],
+    };
+  }
+
+  /**
+   * 响应体：指定示例 > example > 第一个 examples > 按 Schema 生成
+   */
+  private resolveBody(
+    media: MediaTypeDefinition,
+    req: IncomingMessage,
+  ): unknown {
+    const header = req.headers[MOCK_EXAMPLE_HEADER];
+    const exampleName = Array.isArray(header) ? header[0] : header;
+    const examples = media.examples ?? {};
+
+    if (exampleName && examples[exampleName]) {
+      return examples[exampleName].value;
+    }
+    if (media.example !== undefined) return media.example;
+    const first = Object.values(examples)[0];
+    if (first) return first.value;
+
+    // 每次请求使用新的生成器，同一接口多次请求结果一致
+    return new MockDataGenerator(this.output, this.options.mock).fromReference(
+      media.schema,
+    );
+  }
+}
+
+/**
+ * 选择响应的媒体类型(JSON 优先)
+ */
+function pickMediaType(
+  content: Record<string, MediaTypeDefinition> | undefined,
+): [string, MediaTypeDefinition] | undefined {
+  const entries = Object.entries(content ?? {});
+  return entries.find(([type]) => isJsonMediaType(type)) ?? entries[0];
+}
+
+function isJsonMediaType(type: string): boolean {
+  return /[/+]json\b/i.test(type) || type.includes('*');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Content-Length', Buffer.byteLength(payload));
+  res.end(payload);
+}
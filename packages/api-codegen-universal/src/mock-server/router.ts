@@ -0,0 +1,88 @@
+/**
+ * Mock 路由匹配
+ */
+
+import type { ApiDefinition } from '@api-codegen-universal/core';
+
+/**
+ * 路由匹配结果
+ */
+export type RouteMatch =
+  | { type: 'matched'; api: ApiDefinition; params: Record<string, string> }
+  | { type: 'method-not-allowed'; allowed: string[] }
+  | { type: 'not-found' };
+
+interface Route {
+  api: ApiDefinition;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * 按 ApiDefinition 的路径与方法匹配请求
+ * 静态路径优先于带参数的路径(/users/me 优先于 /users/{id})
+ */
+export class MockRouter {
+  private routes: Route[];
+
+  constructor(apis: ApiDefinition[]) {
+    this.routes = apis
+      .map((api) => {
+        const paramNames: string[] = [];
+        const source = api.path
+          .split(/(\{[^}]+\})/)
+          .map((part) => {
+            const param = part.match(/^\{([^}]+)\}$/);
+            if (param) {
+              paramNames.push(param[1]!);
+              return '([^/]+)';
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          })
+          .join('');
+        return {
+          api,
+          paramNames,
+          pattern: new RegExp(`^${source.replace(/\/$/, '')}/?$`),
+        };
+      })
+      .sort((a, b) => a.paramNames.length - b.paramNames.length);
+  }
+
+  /**
+   * 匹配请求
+   *
+   * @param method HTTP 方法
+   * @param pathname 请求路径(不含查询参数)
+   */
+  match(method: string, pathname: string): RouteMatch {
+    const allowed = new Set<string>();
+    for (const route of this.routes) {
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+
+      if (route.api.method !== method.toUpperCase()) {
+        allowed.add(route.api.method);
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = safeDecode(match[index + 1]!);
+      });
+      return { type: 'matched', api: route.api, params };
+    }
+
+    return allowed.size > 0
+      ? { type: 'method-not-allowed', allowed: Array.from(allowed) }
+      : { type: 'not-found' };
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * 监听模式
+ * 监听本地 OpenAPI 文件与 Apifox 离线导出文件(及其通过相对 $ref 引用的文件)，变化后重新解析并生成
+ *
+ * - 同一数据源的多次变化会被合并(debounce)，生成过程中发生的变化会在本轮结束后再执行一次
+ * - 只有内容发生变化的输出文件才会被重写(由 generate() 对比磁盘内容保证)
+ * - 解析失败只会通过 onError 报告，不会中断监听
+ * - 非本地文件数据源(URL、文档对象、在线 Apifox 项目)只在启动时生成一次
+ */
+
+import fs, { type FSWatcher } from 'node:fs';
+import path from 'node:path';
+import type { CodegenConfig, SourceConfig } from '../config';
+import {
+  getSourceName,
+  resolveSourceFile,
+  runSource,
+  type SourceRunResult,
+} from '../cli/run-source';
+import { collectReferencedFiles } from './ref-files';
+
+export { collectReferencedFiles } from './ref-files';
+
+/**
+ * 监听选项
+ */
+export interface WatchOptions {
+  /** 配置文件所在目录(相对路径的基准) */
+  configDir: string;
+  /** 防抖时间(毫秒，默认 100) */
+  debounceMs?: number;
+  /** 是否只计算文件计划 */
+  dryRun?: boolean;
+  /** 每次生成完成 */
+  onResult?: (run: SourceRunResult) => void;
+  /** 解析或生成失败 */
+  onError?: (name: string, error: Error) => void;
+  /** 数据源开始监听(或监听的文件列表发生变化) */
+  onWatch?: (name: string, files: string[]) => void;
+}
+
+/**
+ * 监听器句柄
+ */
+export interface SourcesWatcher {
+  /** 停止监听 */
+  close: () => void;
+}
+
+/**
+ * 生成所有数据源，并监听本地文件数据源的变化
+ *
+ * @param config 配置
+ * @param options 监听选项
+ * @returns 监听器句柄(初次生成全部完成后返回)
+ */
+export async function watchSources(
+  config: CodegenConfig,
+  options: WatchOptions,
+): Promise<SourcesWatcher> {
+  const watchers: SourceWatcher[] = [];
+
+  for (const [index, source] of config.sources.entries()) {
+    const watcher = new SourceWatcher(source, index, options);
+    await watcher.run();
+    if (watcher.rootFile) {
+      await watcher.refreshWatchedFiles();
+      watchers.push(watcher);
+    }
+  }
+
+  return {
+    close: () => {
+      for (const watcher of watchers) watcher.close();
+    },
+  };
+}
+
+/**
+ * 单个数据源的监听器
+ */
+class SourceWatcher {
+  readonly name: string;
+  /** 根文档路径(非本地文件数据源为 undefined) */
+  readonly rootFile: string | undefined;
+
+  /** 当前监听的文件 */
+  private files = new Set<string>();
+  /** 目录 -> FSWatcher(监听目录以兼容编辑器的原子保存) */
+  private directoryWatchers = new Map<string, FSWatcher>();
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private pending = false;
+  private closed = false;
+
+  constructor(
+    private readonly source: SourceConfig,
+    private readonly index: number,
+    private readonly options: WatchOptions,
+  ) {
+    this.name = getSourceName(source, index);
+    this.rootFile = resolveSourceFile(source, options.configDir);
+  }
+
+  /**
+   * 解析并生成，失败时通过 onError 报告
+   */
+  async run(): Promise<void> {
+    try {
+      const result = await runSource(this.source, this.index, {
+        configDir: this.options.configDir,
+        dryRun: this.options.dryRun,
+      });
+      this.options.onResult?.(result);
+    } catch (error) {
+      this.options.onError?.(this.name, error as Error);
+    }
+  }
+
+  /**
+   * 重新收集引用文件并更新目录监听
+   */
+  async refreshWatchedFiles(): Promise<void> {
+    if (!this.rootFile || this.closed) return;
+
+    const files = await collectReferencedFiles(this.rootFile);
+    const changed =
+      files.length !== this.files.size ||
+      files.some((file) => !this.files.has(file));
+    this.files = new Set(files);
+
+    const directories = new Set(files.map((file) => path.dirname(file)));
+    for (const [dir, watcher] of this.directoryWatchers) {
+      if (!directories.has(dir)) {
+        watcher.close();
+        this.directoryWatchers.delete(dir);
+      }
+    }
+    for (const dir of directories) {
+      if (this.directoryWatchers.has(dir)) continue;
+      try {
+        const watcher = fs.watch(dir, (_event, fileName) => {
+          if (fileName && this.files.has(path.join(dir, fileName))) {
+            this.schedule();
+          }
+        });
+        // 目录被删除等情况不应导致进程崩溃
+        watcher.on('error', () => {
+          watcher.close();
+          this.directoryWatchers.delete(dir);
+        });
+        this.directoryWatchers.set(dir, watcher);
+      } catch {
+        // 目录不存在，等待下一次刷新
+      }
+    }
+
+    if (changed) {
+      this.options.onWatch?.(this.name, files);
+    }
+  }
+
+  /**
+   * 停止监听
+   */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.timer);
+    for (const watcher of this.directoryWatchers.values()) {
+      watcher.close();
+    }
+    this.directoryWatchers.clear();
+  }
+
+  /**
+   * 防抖调度
+   */
+  private schedule(): void {
+    if (this.closed) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      void this.rebuild();
+    }, this.options.debounceMs ?? 100);
+  }
+
+  /**
+   * 重新生成
+   * 生成过程中再次发生的变化会在本轮结束后合并执行
+   */
+  private async rebuild(): Promise<void> {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+    await this.run();
+    // $ref 可能新增或删除，需要重新收集
+    await this.refreshWatchedFiles();
+    this.running = false;
+
+    if (this.pending && !this.closed) {
+      this.pending = false;
+      await this.rebuild();
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * 本地引用文件收集
+ * 从根文档出发，沿着相对路径的 $ref 找到所有参与解析的本地文件
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { load as loadYaml } from 'js-yaml';
+
+/**
+ * 收集根文档及其通过相对 $ref 引用的所有本地文件
+ * 无法读取或解析的文件同样会被返回(修复后需要重新解析)，但不会继续向下查找
+ *
+ * @param rootFile 根文档的绝对路径
+ * @returns 文件绝对路径列表(包含根文档)
+ */
+export async function collectReferencedFiles(
+  rootFile: string,
+): Promise<string[]> {
+  const visited = new Set<string>();
+  const queue = [path.resolve(rootFile)];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    if (visited.has(file)) continue;
+    visited.add(file);
+
+    let document: unknown;
+    try {
+      const text = await fs.readFile(file, 'utf-8');
+      document = parseDocument(text);
+    } catch {
+      continue;
+    }
+
+    for (const ref of collectRefs(document)) {
+      const target = resolveRefFile(ref, file);
+      if (target && !visited.has(target)) {
+        queue.push(target);
+      }
+    }
+  }
+
+  return Array.from(visited);
+}
+
+/**
+ * 解析 JSON/YAML 文本
+ */
+function parseDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return loadYaml(text);
+  }
+}
+
+/**
+ * 收集文档中的所有 $ref 字符串
+ */
+function collectRefs(node: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(node)) {
+    for (const item of node) collectRefs(item, refs);
+  } else if (typeof node === 'object' && node !== null) {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref' && typeof value === 'string') {
+        refs.push(value);
+      } else {
+        collectRefs(value, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * 将 $ref 解析为本地文件路径
+ * 文档内引用(#/...)与远程引用(http/https)返回 undefined
+ */
+function resolveRefFile(ref: string, fromFile: string): string | undefined {
+  const filePart = ref.split('#')[0]!;
+  if (!filePart) return undefined;
+  if (filePart.startsWith('file://')) return fileURLToPath(filePart);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(filePart)) return undefined;
+  return path.resolve(path.dirname(fromFile), decodeURIComponent(filePart));
+}
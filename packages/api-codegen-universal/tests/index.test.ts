@@ -0,0 +1,554 @@
+import { test, expect } from '@rstest/core';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AxiosClientGenerator,
+  FetchClientGenerator,
+  GENERATED_FILE_HEADER,
+  GENERATED_MANIFEST_FILE,
+  OpenAPIAdapter,
+  ZodSchemaGenerator,
+  EXIT_CODE,
+  collectReferencedFiles,
+  createFilePlan,
+  formatWarningsSummary,
+  generate,
+  runCli,
+  startMockServer,
+  watchSources,
+  type SourceRunResult,
+} from '../src';
+
+const openapiDoc = {
+  openapi: '3.0.0',
+  info: { title: 'User API', version: '1.0.0' },
+  paths: {
+    '/users/{id}': {
+      get: {
+        operationId: 'getUser',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'ok',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/orders': {
+      get: {
+        operationId: 'listOrders',
+        responses: { '200': { description: 'ok' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        properties: { id: { type: 'integer' } },
+      },
+    },
+  },
+};
+
+const createTempDir = () =>
+  fs.mkdtempSync(path.join(os.tmpdir(), 'api-codegen-universal-'));
+
+const readFile = (dir: string, file: string) =>
+  fs.readFileSync(path.join(dir, file), 'utf-8');
+
+test('createFilePlan should add header markers and merge identical files', async () => {
+  const output = await new OpenAPIAdapter().parse(openapiDoc);
+  const plan = createFilePlan(output, [
+    new FetchClientGenerator(),
+    {
+      generator: new ZodSchemaGenerator(),
+      options: { filePath: 'schemas.ts' },
+    },
+  ]);
+
+  expect(Array.from(plan.keys())).toEqual([
+    'types.ts',
+    'runtime.ts',
+    'api/users/index.ts',
+    'api/orders/index.ts',
+    'schemas.ts',
+  ]);
+  for (const content of plan.values()) {
+    expect(content.startsWith(`${GENERATED_FILE_HEADER}\n`)).toBe(true);
+  }
+
+  // 不同生成器输出同一路径且内容不同时报错
+  expect(() =>
+    createFilePlan(output, [
+      new FetchClientGenerator(),
+      {
+        generator: new AxiosClientGenerator(),
+        options: { typesFilePath: 'types.ts' },
+      },
+    ]),
+  ).toThrow('Conflicting generated file: "api/users/index.ts"');
+});
+
+test('generate should support dry-run without touching the disk', async () => {
+  const outDir = path.join(createTempDir(), 'api');
+  const output = await new OpenAPIAdapter().parse(openapiDoc);
+
+  const result = await generate(output, { outDir, dryRun: true });
+
+  expect(result.dryRun).toBe(true);
+  expect(result.files.map((f) => f.action)).toEqual([
+    'create',
+    'create',
+    'create',
+    'create',
+  ]);
+  expect(fs.existsSync(outDir)).toBe(false);
+});
+
+test('generate should write files, prune stale generated files and keep hand-written ones', async () => {
+  const outDir = createTempDir();
+  const adapter = new OpenAPIAdapter();
+  const output = await adapter.parse(openapiDoc);
+
+  // 手写文件：位于计划路径上的不会被覆盖，其他位置的不会被删除
+  fs.mkdirSync(path.join(outDir, 'api/users'), { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'api/users/index.ts'), 'export {};\n');
+  fs.writeFileSync(path.join(outDir, 'custom.ts'), 'export const a = 1;\n');
+
+  const first = await generate(output, { outDir });
+  expect(first.files.find((f) => f.path === 'api/users/index.ts')!.action).toBe(
+    'conflict',
+  );
+  expect(readFile(outDir, 'api/users/index.ts')).toBe('export {};\n');
+  expect(readFile(outDir, 'api/orders/index.ts')).toContain(
+    GENERATED_FILE_HEADER,
+  );
+
+  // 移除 /orders 后重新生成：过期文件及空目录被清理，未变化的文件不会重写
+  fs.rmSync(path.join(outDir, 'api/users/index.ts'));
+  const next = await adapter.parse({
+    ...openapiDoc,
+    paths: { '/users/{id}': openapiDoc.paths['/users/{id}'] },
+  });
+  const second = await generate(next, { outDir });
+
+  expect(second.deleted).toEqual(['api/orders/index.ts']);
+  expect(fs.existsSync(path.join(outDir, 'api/orders'))).toBe(false);
+  expect(second.files.find((f) => f.path === 'runtime.ts')!.action).toBe(
+    'unchanged',
+  );
+  expect(
+    second.files.find((f) => f.path === 'api/users/index.ts')!.action,
+  ).toBe('create');
+  expect(readFile(outDir, 'custom.ts')).toBe('export const a = 1;\n');
+  expect(
+    fs
+      .readdirSync(outDir, { recursive: true })
+      .some((f) => String(f).endsWith('.tmp')),
+  ).toBe(false);
+});
+
+test('generate should only prune files recorded in its own manifest', async () => {
+  const outDir = createTempDir();
+  const adapter = new OpenAPIAdapter();
+  const usersOnly = await adapter.parse({
+    ...openapiDoc,
+    paths: { '/users/{id}': openapiDoc.paths['/users/{id}'] },
+  });
+  const ordersOnly = await adapter.parse({
+    ...openapiDoc,
+    paths: { '/orders': openapiDoc.paths['/orders'] },
+  });
+
+  // 另一个数据源生成到子目录中
+  await generate(usersOnly, { outDir });
+  await generate(ordersOnly, { outDir: path.join(outDir, 'partner') });
+  const again = await generate(usersOnly, { outDir });
+
+  expect(again.deleted).toEqual([]);
+  expect(readFile(outDir, 'partner/api/orders/index.ts')).toContain(
+    GENERATED_FILE_HEADER,
+  );
+  expect(readFile(outDir, 'partner/runtime.ts')).toContain(
+    GENERATED_FILE_HEADER,
+  );
+  expect(JSON.parse(readFile(outDir, GENERATED_MANIFEST_FILE)).files).toContain(
+    'api/users/index.ts',
+  );
+
+  // prune: false 时过期文件保留在清单中，之后开启清理仍会删除
+  await generate(ordersOnly, { outDir, prune: false });
+  expect(readFile(outDir, 'api/users/index.ts')).toContain(
+    GENERATED_FILE_HEADER,
+  );
+  const pruned = await generate(ordersOnly, { outDir });
+  expect(pruned.deleted).toEqual(['api/users/index.ts']);
+  expect(readFile(outDir, 'partner/runtime.ts')).toContain(
+    GENERATED_FILE_HEADER,
+  );
+});
+
+const runCliIn = async (cwd: string, argv: string[] = []) => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await runCli(argv, {
+    cwd,
+    stdout: (message) => stdout.push(message),
+    stderr: (message) => stderr.push(message),
+  });
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+};
+
+test('runCli should discover the config file and generate each source', async () => {
+  const cwd = createTempDir();
+  fs.writeFileSync(path.join(cwd, 'openapi.json'), JSON.stringify(openapiDoc));
+  fs.writeFileSync(
+    path.join(cwd, 'api-codegen.config.json'),
+    JSON.stringify({
+      sources: [
+        {
+          name: 'users',
+          adapter: 'openapi',
+          input: './openapi.json',
+          outDir: './src/api',
+          generators: ['fetch', { name: 'zod' }],
+        },
+      ],
+    }),
+  );
+
+  const dryRun = await runCliIn(cwd, ['--dry-run']);
+  expect(dryRun.code).toBe(EXIT_CODE.SUCCESS);
+  expect(dryRun.stdout).toContain('[dry-run] ✔ users → src/api: 5 created');
+  expect(dryRun.stdout).toContain('create   schemas.ts');
+  expect(fs.existsSync(path.join(cwd, 'src'))).toBe(false);
+
+  const run = await runCliIn(cwd);
+  expect(run.code).toBe(EXIT_CODE.SUCCESS);
+  expect(readFile(cwd, 'src/api/api/users/index.ts')).toContain(
+    'export function getUser(',
+  );
+});
+
+test('runCli should load TypeScript configs and report failures with exit codes', async () => {
+  const cwd = createTempDir();
+  fs.writeFileSync(path.join(cwd, 'openapi.json'), JSON.stringify(openapiDoc));
+  fs.writeFileSync(
+    path.join(cwd, 'api-codegen.config.ts'),
+    `const outDir: string = './out';
+export default {
+  sources: [
+    { adapter: 'openapi', input: './missing.json', outDir: './missing' },
+    { adapter: 'openapi', input: './openapi.json', outDir },
+  ],
+};
+`,
+  );
+
+  const result = await runCliIn(cwd);
+  expect(result.code).toBe(EXIT_CODE.FAILURE);
+  expect(result.stderr).toContain('✖ source#1:');
+  expect(result.stdout).toContain('✔ source#2 → out');
+  // 转译产生的临时文件会被清理
+  expect(fs.readdirSync(cwd).sort()).toEqual([
+    'api-codegen.config.ts',
+    'openapi.json',
+    'out',
+  ]);
+
+  expect((await runCliIn(createTempDir())).code).toBe(EXIT_CODE.USAGE);
+  expect((await runCliIn(cwd, ['--unknown'])).code).toBe(EXIT_CODE.USAGE);
+
+  fs.writeFileSync(
+    path.join(cwd, 'invalid.json'),
+    JSON.stringify({ sources: [{ adapter: 'graphql' }] }),
+  );
+  const invalid = await runCliIn(cwd, ['--config', 'invalid.json']);
+  expect(invalid.code).toBe(EXIT_CODE.USAGE);
+  expect(invalid.stderr).toContain('sources[0].adapter must be one of');
+
+  // 输出目录相同或嵌套的数据源会相互清理生成文件，直接拒绝
+  for (const outDirs of [
+    ['./src/api', './src/api/'],
+    ['./src/api', './src/api/partner'],
+  ]) {
+    fs.writeFileSync(
+      path.join(cwd, 'overlap.json'),
+      JSON.stringify({
+        sources: outDirs.map((outDir) => ({
+          adapter: 'openapi',
+          input: './openapi.json',
+          outDir,
+        })),
+      }),
+    );
+    const overlap = await runCliIn(cwd, ['--config', 'overlap.json']);
+    expect(overlap.code).toBe(EXIT_CODE.USAGE);
+    expect(overlap.stderr).toContain(
+      `sources[1].outDir "${outDirs[1]}" overlaps sources[0].outDir "./src/api"`,
+    );
+  }
+  expect(fs.existsSync(path.join(cwd, 'src'))).toBe(false);
+});
+
+test('runCli should resolve Apifox export files relative to the config file', async () => {
+  const cwd = createTempDir();
+  fs.mkdirSync(path.join(cwd, 'specs'));
+  fs.writeFileSync(
+    path.join(cwd, 'specs/apifox.json'),
+    JSON.stringify(openapiDoc),
+  );
+  fs.writeFileSync(
+    path.join(cwd, 'specs/api-codegen.config.json'),
+    JSON.stringify({
+      sources: [
+        {
+          name: 'apifox',
+          adapter: 'apifox',
+          input: { exportData: './apifox.json' },
+          outDir: '../out',
+        },
+      ],
+    }),
+  );
+
+  const result = await runCliIn(cwd, [
+    '--config',
+    'specs/api-codegen.config.json',
+  ]);
+  expect(result.code).toBe(EXIT_CODE.SUCCESS);
+  expect(readFile(cwd, 'out/api/users/index.ts')).toContain(
+    'export function getUser(',
+  );
+});
+
+test('formatWarningsSummary should print stats and samples', () => {
+  const lines = formatWarningsSummary('apifox', {
+    code: 'APIFOX_WARNINGS_SUMMARY',
+    adapter: 'apifox',
+    stats: { fixedBrokenRefs: 1, fixedNullTypes: 2, validation: 'skipped' },
+    samples: {
+      brokenRefs: ['#/components/schemas/Missing'],
+      collidingSchemas: [{ from: 'User', to: 'UserAdmin', origin: 'admin' }],
+    },
+  });
+
+  expect(lines).toEqual([
+    '⚠ apifox: completed with warnings (APIFOX_WARNINGS_SUMMARY)',
+    '  fixedBrokenRefs: 1',
+    '  fixedNullTypes: 2',
+    '  validation: skipped',
+    '    broken $ref: #/components/schemas/Missing',
+    '    colliding schema: User -> UserAdmin (admin)',
+  ]);
+});
+
+const splitDoc = (userProperties: string) => ({
+  root: `openapi: 3.0.0
+info: { title: Split API, version: 1.0.0 }
+paths:
+  /users/{id}:
+    get:
+      operationId: getUser
+      parameters:
+        - { name: id, in: path, required: true, schema: { type: integer } }
+      responses:
+        '200':
+          description: ok
+          content:
+            application/json:
+              schema: { $ref: './schemas/user.yaml' }
+`,
+  user: `type: object
+properties:
+${userProperties}
+`,
+});
+
+const waitFor = async (predicate: () => boolean, timeout = 5000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) throw new Error('waitFor timed out');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+test('collectReferencedFiles should follow relative $ref files', async () => {
+  const dir = createTempDir();
+  const doc = splitDoc(
+    '  id: { type: integer }\n  pet: { $ref: "./pet.json#/Pet" }',
+  );
+  fs.mkdirSync(path.join(dir, 'schemas'));
+  fs.writeFileSync(path.join(dir, 'openapi.yaml'), doc.root);
+  fs.writeFileSync(path.join(dir, 'schemas/user.yaml'), doc.user);
+  fs.writeFileSync(
+    path.join(dir, 'schemas/pet.json'),
+    JSON.stringify({
+      Pet: { type: 'object', properties: { owner: { $ref: './user.yaml' } } },
+    }),
+  );
+
+  const files = await collectReferencedFiles(path.join(dir, 'openapi.yaml'));
+  expect(files.map((file) => path.relative(dir, file)).sort()).toEqual([
+    'openapi.yaml',
+    path.join('schemas', 'pet.json'),
+    path.join('schemas', 'user.yaml'),
+  ]);
+});
+
+test('watchSources should regenerate changed outputs and survive parse errors', async () => {
+  const dir = createTempDir();
+  const doc = splitDoc('  id: { type: integer }');
+  fs.mkdirSync(path.join(dir, 'schemas'));
+  fs.writeFileSync(path.join(dir, 'openapi.yaml'), doc.root);
+  fs.writeFileSync(path.join(dir, 'schemas/user.yaml'), doc.user);
+
+  const results: SourceRunResult[] = [];
+  const errors: string[] = [];
+  const watched: string[][] = [];
+  const watcher = await watchSources(
+    {
+      sources: [
+        {
+          name: 'split',
+          adapter: 'openapi',
+          input: './openapi.yaml',
+          outDir: './out',
+          generators: ['fetch'],
+        },
+      ],
+    },
+    {
+      configDir: dir,
+      debounceMs: 20,
+      onResult: (run) => results.push(run),
+      onError: (_name, error) => errors.push(error.message),
+      onWatch: (_name, files) => watched.push(files),
+    },
+  );
+
+  try {
+    expect(results).toHaveLength(1);
+    expect(watched[0]?.map((file) => path.relative(dir, file)).sort()).toEqual([
+      'openapi.yaml',
+      path.join('schemas', 'user.yaml'),
+    ]);
+
+    // 修改被引用的文件：只有类型文件发生变化
+    fs.writeFileSync(
+      path.join(dir, 'schemas/user.yaml'),
+      splitDoc('  id: { type: integer }\n  name: { type: string }').user,
+    );
+    await waitFor(() => results.length === 2);
+    const actions = Object.fromEntries(
+      results[1]!.result.files.map((file) => [file.path, file.action]),
+    );
+    expect(actions['types.ts']).toBe('update');
+    expect(actions['runtime.ts']).toBe('unchanged');
+    expect(readFile(dir, 'out/types.ts')).toContain('name?: string');
+
+    // 解析失败不会中断监听
+    fs.writeFileSync(path.join(dir, 'openapi.yaml'), 'openapi: [');
+    await waitFor(() => errors.length === 1);
+
+    fs.writeFileSync(path.join(dir, 'openapi.yaml'), doc.root);
+    await waitFor(() => results.length === 3);
+    expect(
+      results[2]!.result.files.every((f) => f.action === 'unchanged'),
+    ).toBe(true);
+  } finally {
+    watcher.close();
+  }
+});
+
+test('startMockServer should route by path and method and serve examples or generated data', async () => {
+  const output = await new OpenAPIAdapter().parse({
+    ...openapiDoc,
+    paths: {
+      ...openapiDoc.paths,
+      '/users/me': {
+        get: {
+          operationId: 'getMe',
+          responses: {
+            '200': {
+              description: 'ok',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/User' },
+                  example: { id: 0 },
+                },
+              },
+            },
+            '404': {
+              description: 'missing',
+              content: {
+                'application/json': {
+                  schema: { type: 'object' },
+                  examples: {
+                    gone: { value: { message: 'gone' } },
+                    hidden: { value: { message: 'hidden' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  const requests: string[] = [];
+  const server = await startMockServer(output, {
+    port: 0,
+    basePath: '/api',
+    onRequest: (entry) => requests.push(`${entry.status} ${entry.path}`),
+  });
+
+  try {
+    const me = await fetch(`${server.url}/api/users/me`);
+    expect(me.status).toBe(200);
+    expect(me.headers.get('content-type')).toBe('application/json');
+    expect(await me.json()).toEqual({ id: 0 });
+
+    const user = await fetch(`${server.url}/api/users/7`);
+    const body = (await user.json()) as { id: number };
+    expect(typeof body.id).toBe('number');
+    // 相同种子多次请求结果一致
+    expect(await (await fetch(`${server.url}/api/users/8`)).json()).toEqual(
+      body,
+    );
+
+    const missing = await fetch(`${server.url}/api/users/me`, {
+      headers: { 'x-mock-status': '404', 'x-mock-example': 'hidden' },
+    });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ message: 'hidden' });
+
+    const empty = await fetch(`${server.url}/api/orders`);
+    expect(empty.status).toBe(200);
+    expect(await empty.text()).toBe('');
+
+    expect(
+      (await fetch(`${server.url}/api/orders`, { method: 'POST' })).status,
+    ).toBe(405);
+    expect((await fetch(`${server.url}/orders`)).status).toBe(404);
+  } finally {
+    await server.close();
+  }
+
+  expect(requests).toContain('404 /api/users/me');
+  expect(requests).toContain('405 /api/orders');
+});
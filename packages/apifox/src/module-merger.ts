@@ -0,0 +1,251 @@
+/**
+ * 多模块/多分支合并
+ * 负责在合并前解决各模块导出数据之间的命名冲突，并将解析结果合并为一个 StandardOutput
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  ApiOrigin,
+  StandardOutput,
+  createWarningsCollector,
+} from '@api-codegen-universal/core';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * 模块合并器
+ *
+ * 使用方式：按顺序对每个模块的原始数据调用 claim，解析后再调用 merge。
+ * 先出现的模块保留原名，因此合并结果只取决于 targets 的顺序。
+ */
+export class ModuleMerger {
+  /** 已占用的 Schema 名称 -> 内容(JSON) */
+  private claimedSchemas = new Map<string, string>();
+  /** 已占用的 operationId */
+  private claimedOperationIds = new Set<string>();
+
+  constructor(private warnings?: ReturnType<typeof createWarningsCollector>) {}
+
+  /**
+   * 登记一个模块的原始 OpenAPI 数据
+   * 与之前模块重名且内容不同的 Schema、重复的 operationId 会被原地重命名
+   *
+   * @param data 经过兼容性修复的 OpenAPI 数据(会被修改)
+   * @param name 模块名称(用于生成后缀与告警样本)
+   */
+  claim(data: unknown, name: string): void {
+    const suffix = toPascalCase(name);
+    this.renameCollidingSchemas(data as any, suffix, name);
+    this.renameCollidingOperationIds(data as any, suffix);
+  }
+
+  /**
+   * 合并各模块的解析结果
+   * 同名 Schema/Interface/鉴权方案此时内容一致(或由参数生成)，保留先出现的一方
+   *
+   * @param outputs 按顺序排列的解析结果
+   * @returns 合并后的标准输出
+   */
+  merge(
+    outputs: Array<{ output: StandardOutput; origin: ApiOrigin }>,
+  ): StandardOutput {
+    const merged: StandardOutput = {
+      schemas: {},
+      interfaces: {},
+      apis: [],
+      metadata: outputs[0]?.output.metadata ?? null,
+    };
+
+    for (const { output, origin } of outputs) {
+      for (const [name, schema] of Object.entries(output.schemas)) {
+        if (!(name in merged.schemas)) merged.schemas[name] = schema;
+      }
+      for (const [name, code] of Object.entries(output.interfaces)) {
+        if (!(name in merged.interfaces)) merged.interfaces[name] = code;
+      }
+      for (const [name, scheme] of Object.entries(
+        output.securitySchemes ?? {},
+      )) {
+        merged.securitySchemes ??= {};
+        if (!(name in merged.securitySchemes)) {
+          merged.securitySchemes[name] = scheme;
+        }
+      }
+      for (const api of output.apis) {
+        merged.apis.push({ ...api, origin });
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * 重命名与之前模块冲突的 Schema
+   * 引用了被重命名 Schema 的 Schema 内容也会变化，因此需要反复比较直到稳定
+   */
+  private renameCollidingSchemas(
+    data: any,
+    suffix: string,
+    origin: string,
+  ): void {
+    const schemas: Record<string, unknown> | undefined =
+      data?.components?.schemas;
+    if (!schemas) return;
+
+    const renames = new Map<string, string>();
+    const reserved = new Set(Object.keys(schemas));
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [key, schema] of Object.entries(schemas)) {
+        if (renames.has(key)) continue;
+        const claimed = this.claimedSchemas.get(key);
+        if (claimed === undefined) continue;
+
+        const content = JSON.stringify(
+          renameRefs(structuredClone(schema), renames),
+        );
+        if (content !== claimed) {
+          const to = this.uniqueName(key, suffix, reserved);
+          reserved.add(to);
+          renames.set(key, to);
+          this.warnings?.addCollidingSchema({ from: key, to, origin });
+          changed = true;
+        }
+      }
+    }
+
+    if (renames.size > 0) {
+      // 保持原有顺序
+      data.components.schemas = Object.fromEntries(
+        Object.entries(schemas).map(([key, schema]) => [
+          renames.get(key) ?? key,
+          schema,
+        ]),
+      );
+      renameRefs(data, renames);
+    }
+
+    for (const [key, schema] of Object.entries(data.components.schemas)) {
+      if (!this.claimedSchemas.has(key)) {
+        this.claimedSchemas.set(key, JSON.stringify(schema));
+      }
+    }
+  }
+
+  /**
+   * 重命名与之前模块重复的 operationId
+   * 参数接口、请求函数名都由 operationId 派生，重复会导致生成代码冲突
+   */
+  private renameCollidingOperationIds(data: any, suffix: string): void {
+    const seen = new Set<string>();
+    for (const [path, pathItem] of Object.entries<any>(data?.paths ?? {})) {
+      for (const [method, operation] of Object.entries<any>(pathItem ?? {})) {
+        const id = operation?.operationId;
+        if (typeof id !== 'string') continue;
+
+        if (this.claimedOperationIds.has(id)) {
+          let to = `${id}${suffix}`;
+          for (
+            let i = 2;
+            this.claimedOperationIds.has(to) || seen.has(to);
+            i++
+          ) {
+            to = `${id}${suffix}${i}`;
+          }
+          operation.operationId = to;
+          this.warnings?.addDuplicateOperationId({
+            from: id,
+            to,
+            path,
+            method: method.toUpperCase(),
+          });
+        }
+        seen.add(operation.operationId);
+      }
+    }
+
+    for (const id of seen) this.claimedOperationIds.add(id);
+  }
+
+  /**
+   * 生成未被占用的 Schema 名称
+   */
+  private uniqueName(
+    key: string,
+    suffix: string,
+    reserved: Set<string>,
+  ): string {
+    const base = `${key}${suffix}`;
+    let name = base;
+    for (let i = 2; this.claimedSchemas.has(name) || reserved.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    return name;
+  }
+}
+
+/**
+ * 根据导出目标生成默认名称
+ */
+export function getTargetName(target: {
+  moduleId?: number;
+  branchId?: number;
+  name?: string;
+}): string {
+  if (target.name) return target.name;
+
+  const parts: string[] = [];
+  if (target.moduleId !== undefined) parts.push(`module-${target.moduleId}`);
+  if (target.branchId !== undefined) parts.push(`branch-${target.branchId}`);
+  return parts.length > 0 ? parts.join('-') : 'default';
+}
+
+/**
+ * 改写指向被重命名 Schema 的 $ref (原地修改)
+ */
+function renameRefs<T>(node: T, renames: Map<string, string>): T {
+  if (renames.size === 0) return node;
+
+  const visit = (value: any) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, child] of Object.entries<any>(value)) {
+        if (
+          key === '$ref' &&
+          typeof child === 'string' &&
+          child.startsWith(SCHEMA_REF_PREFIX)
+        ) {
+          const name = safeDecode(child.slice(SCHEMA_REF_PREFIX.length));
+          const to = renames.get(name);
+          if (to) value.$ref = `${SCHEMA_REF_PREFIX}${to}`;
+        } else {
+          visit(child);
+        }
+      }
+    }
+  };
+
+  visit(node);
+  return node;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 'orders-service' -> 'OrdersService'
+ */
+function toPascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join('');
+}
@@ -4,8 +4,15 @@
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import fs from 'node:fs/promises';
+import path from 'node:path';
 import SwaggerParser from '@apidevtools/swagger-parser';
-import type { IAdapter, StandardOutput } from '@api-codegen-universal/core';
+import { load as loadYaml } from 'js-yaml';
+import type {
+  ApiOrigin,
+  IAdapter,
+  StandardOutput,
+} from '@api-codegen-universal/core';
 import {
   createAdapterLogger,
   createWarningsCollector,
@@ -18,41 +25,65 @@ import {
 import type {
   ApifoxAdapterOptions,
   ApifoxConfig,
+  ApifoxExportSource,
   ApifoxExportToOpenAPIOptions,
+  ApifoxSource,
 } from './types';
+import { ModuleMerger, getTargetName } from './module-merger';
+
+/** Apifox 开放 API 默认地址 */
+const APIFOX_BASE_URL = 'https://api.apifox.com/v1';
+
+/**
+ * 判断输入源是否为离线导出数据
+ *
+ * @param source ApifoxAdapter 输入源
+ */
+export function isApifoxExportSource(
+  source: ApifoxSource,
+): source is ApifoxExportSource {
+  return (
+    typeof source === 'object' && source !== null && 'exportData' in source
+  );
+}
 
 /**
  * Apifox 适配器类
  * 实现 IAdapter 接口，用于处理 Apifox 项目数据的导入和转换
  */
 export class ApifoxAdapter
-  implements IAdapter<ApifoxAdapterOptions, ApifoxConfig>
+  implements IAdapter<ApifoxAdapterOptions, ApifoxSource>
 {
   // Note: warnings collector is per-parse invocation.
   /**
    * 验证配置有效性
-   * 检查是否包含必要的 projectId 和 token
+   * 在线项目需要包含 projectId 和 token，离线导出需要包含 exportData
    *
-   * @param source Apifox 配置对象
+   * @param source Apifox 配置对象或离线导出数据
    * @returns 如果配置有效返回 true，否则返回 false
    */
-  async validate(source: ApifoxConfig): Promise<boolean> {
+  async validate(source: ApifoxSource): Promise<boolean> {
+    if (source && isApifoxExportSource(source)) {
+      return !!source.exportData;
+    }
     return !!(source && source.projectId && source.token);
   }
 
   /**
    * 解析主入口
-   * 1. 从 Apifox API 获取 OpenAPI 数据
+   * 1. 从 Apifox API 获取 OpenAPI 数据(离线导出则读取文件或使用传入的对象)
    * 2. 修复数据中的兼容性问题 (泛型命名、失效引用、非标字段)
    * 3. 验证修复后的数据是否符合 OpenAPI 标准
    * 4. 使用 OpenAPIAdapter 将其转换为标准输出格式
    *
-   * @param source Apifox 配置对象
+   * 配置了 targets 时，对每个模块/分支分别执行 1-4，并按顺序合并为一个输出
+   *
+   * @param source Apifox 配置对象或离线导出数据
    * @param options 适配器选项
    * @returns 标准输出格式 (StandardOutput)
    */
   async parse(
-    source: ApifoxConfig,
+    source: ApifoxSource,
     options: ApifoxAdapterOptions = {},
   ): Promise<StandardOutput> {
     /**
@@ -61,68 +92,61 @@ export class ApifoxAdapter
      * - 兼容性修复的“可预期告警”会以 warnings summary 形式汇总输出（Scheme A）
      */
     const startAt = Date.now();
+    const sourceLabel = this.getSourceLabel(source);
     const logger = createAdapterLogger(options, {
       adapter: 'apifox',
-      source: `Apifox Project ${source.projectId}`,
+      source: sourceLabel,
     });
     const warnings = createWarningsCollector({
       logger,
       code: 'APIFOX_WARNINGS_SUMMARY',
     });
 
-    // 1. 获取数据
-    let openApiData = await this.fetchOpenApiData(source);
-
-    // 2. 修复兼容性
-    openApiData = this.fixOpenApiCompatibility(openApiData, warnings);
-
-    // 3. 校验数据格式是否符合 OpenAPI 标准
     const shouldValidateOpenApi = options.validateOpenApi ?? true;
-    if (shouldValidateOpenApi) {
-      try {
-        type SwaggerValidateInput = Parameters<
-          typeof SwaggerParser.validate
-        >[0];
-
-        // swagger-parser 在校验过程中会修改输入对象，这里需要传入克隆副本。
-        // 优先使用 structuredClone (Node 20+) 避免 JSON stringify 带来的 CPU/内存峰值。
-        // 兜底：如果遇到不可克隆数据结构，再退回到 JSON 深拷贝。
-        const rawForValidation = openApiData as SwaggerValidateInput;
-        let validationInput: SwaggerValidateInput;
-        try {
-          validationInput = structuredClone(rawForValidation);
-        } catch {
-          validationInput = JSON.parse(
-            JSON.stringify(rawForValidation),
-          ) as SwaggerValidateInput;
-        }
-
-        await SwaggerParser.validate(validationInput);
-      } catch (err: unknown) {
-        if (err instanceof Error) {
-          // 即使校验失败，也尝试继续处理，因为有些非关键错误可能不影响代码生成
-          // 但这里选择抛出错误以保证数据质量，可视情况调整策略
-          throw new Error(
-            `Invalid OpenAPI data received from Apifox: ${err.message}`,
-          );
-        }
+    const config = isApifoxExportSource(source) ? undefined : source;
+
+    let result: StandardOutput;
+    if (config?.targets?.length) {
+      // 多模块/多分支：逐个导出，解决命名冲突后合并
+      const merger = new ModuleMerger(warnings);
+      const outputs: Array<{ output: StandardOutput; origin: ApiOrigin }> = [];
+      for (const target of config.targets) {
+        const moduleId = target.moduleId ?? config.exportOptions?.moduleId;
+        const branchId = target.branchId ?? config.exportOptions?.branchId;
+        const name = getTargetName({ moduleId, branchId, name: target.name });
+
+        let openApiData = await this.fetchOpenApiData({
+          ...config,
+          exportOptions: { ...config.exportOptions, moduleId, branchId },
+        });
+        openApiData = this.fixOpenApiCompatibility(openApiData, warnings);
+        merger.claim(openApiData, name);
+
+        const origin: ApiOrigin = { name };
+        if (moduleId !== undefined) origin.module = moduleId;
+        if (branchId !== undefined) origin.branch = branchId;
+        outputs.push({
+          output: await this.convert(openApiData, source, options, warnings),
+          origin,
+        });
       }
+      result = merger.merge(outputs);
     } else {
-      // 这不是错误：调用方显式关闭了校验（通常用于性能或容忍非标文档）。
-      warnings.inc('validationSkipped');
-    }
+      // 1. 获取数据
+      let openApiData = isApifoxExportSource(source)
+        ? await this.loadExportData(source)
+        : await this.fetchOpenApiData(source);
 
-    // 4. 转换为标准格式
-    const openApiAdapter = new OpenAPIAdapter();
+      // 2. 修复兼容性
+      openApiData = this.fixOpenApiCompatibility(openApiData, warnings);
 
-    const result = await openApiAdapter.parse(
-      openApiData as InputSource,
-      options as OpenAPIOptions,
-    );
+      // 3 & 4. 校验并转换
+      result = await this.convert(openApiData, source, options, warnings);
+    }
 
     // 补充元数据
     if (result.metadata) {
-      result.metadata.source = `Apifox Project ${source.projectId}`;
+      result.metadata.source = sourceLabel;
       result.metadata.generatedAt = new Date().toISOString();
     }
 
@@ -356,6 +380,99 @@ export class ApifoxAdapter
     visit(data);
   }
 
+  /**
+   * 校验修复后的数据，并使用 OpenAPIAdapter 转换为标准输出格式
+   *
+   * @param openApiData 修复后的 OpenAPI 数据
+   * @param source 输入源(用于错误信息)
+   * @param options 适配器选项
+   * @param warnings warnings 收集器
+   */
+  private async convert(
+    openApiData: unknown,
+    source: ApifoxSource,
+    options: ApifoxAdapterOptions,
+    warnings: ReturnType<typeof createWarningsCollector>,
+  ): Promise<StandardOutput> {
+    // 3. 校验数据格式是否符合 OpenAPI 标准
+    if (options.validateOpenApi ?? true) {
+      try {
+        type SwaggerValidateInput = Parameters<
+          typeof SwaggerParser.validate
+        >[0];
+
+        // swagger-parser 在校验过程中会修改输入对象，这里需要传入克隆副本。
+        // 优先使用 structuredClone (Node 20+) 避免 JSON stringify 带来的 CPU/内存峰值。
+        // 兜底：如果遇到不可克隆数据结构，再退回到 JSON 深拷贝。
+        const rawForValidation = openApiData as SwaggerValidateInput;
+        let validationInput: SwaggerValidateInput;
+        try {
+          validationInput = structuredClone(rawForValidation);
+        } catch {
+          validationInput = JSON.parse(
+            JSON.stringify(rawForValidation),
+          ) as SwaggerValidateInput;
+        }
+
+        await SwaggerParser.validate(validationInput);
+      } catch (err: unknown) {
+        if (err instanceof Error) {
+          // 即使校验失败，也尝试继续处理，因为有些非关键错误可能不影响代码生成
+          // 但这里选择抛出错误以保证数据质量，可视情况调整策略
+          throw new Error(
+            isApifoxExportSource(source)
+              ? `Invalid OpenAPI data in Apifox export: ${err.message}`
+              : `Invalid OpenAPI data received from Apifox: ${err.message}`,
+          );
+        }
+      }
+    } else {
+      // 这不是错误：调用方显式关闭了校验（通常用于性能或容忍非标文档）。
+      warnings.inc('validationSkipped');
+    }
+
+    // 4. 转换为标准格式
+    const openApiAdapter = new OpenAPIAdapter();
+
+    return openApiAdapter.parse(
+      openApiData as InputSource,
+      options as OpenAPIOptions,
+    );
+  }
+
+  /**
+   * 数据源的显示名称(用于日志与 metadata.source)
+   */
+  private getSourceLabel(source: ApifoxSource): string {
+    if (!isApifoxExportSource(source)) {
+      return `Apifox Project ${source.projectId}`;
+    }
+    return typeof source.exportData === 'string'
+      ? `Apifox Export ${source.exportData}`
+      : 'Apifox Export';
+  }
+
+  /**
+   * 读取离线导出数据
+   * 传入对象时返回克隆副本，因为兼容性修复会直接修改数据
+   *
+   * @param source 离线导出数据源
+   * @returns OpenAPI 数据
+   */
+  protected async loadExportData(source: ApifoxExportSource): Promise<unknown> {
+    if (typeof source.exportData !== 'string') {
+      return structuredClone(source.exportData);
+    }
+
+    const filePath = path.resolve(source.exportData);
+    const text = await fs.readFile(filePath, 'utf-8');
+    try {
+      return JSON.parse(text);
+    } catch {
+      return loadYaml(text);
+    }
+  }
+
   /**
    * 请求 Apifox 开放 API 获取 OpenAPI 数据
    *
@@ -368,7 +485,7 @@ export class ApifoxAdapter
      * - 避免适配器默认“重复输出”（业务侧通常会 catch 并记录）
      * - 如需记录，可通过调用方的 try/catch + logger 注入实现
      */
-    const baseUrl = 'https://api.apifox.com/v1';
+    const baseUrl = (config.baseUrl ?? APIFOX_BASE_URL).replace(/\/+$/, '');
     const url = `${baseUrl}/projects/${config.projectId}/export-openapi`;
 
     // 构建请求体
@@ -396,12 +513,14 @@ export class ApifoxAdapter
       };
     }
 
-    const response = await fetch(url, {
+    const fetchImpl = config.fetch ?? globalThis.fetch;
+    const response = await fetchImpl(url, {
       method: 'POST',
       headers: {
         Authorization: `Bearer ${config.token}`,
         'X-Apifox-Api-Version': config.apiVersion || '2024-03-28',
         'Content-Type': 'application/json',
+        ...config.headers,
       },
       body: JSON.stringify(requestBody),
     });
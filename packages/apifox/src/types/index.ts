@@ -28,8 +28,70 @@ export interface ApifoxConfig {
    * 如果不传，默认导出全部接口，OpenAPI 3.0 格式
    */
   exportOptions?: Partial<ApifoxExportToOpenAPIOptions>;
+
+  /**
+   * Apifox 开放 API 地址
+   * 默认为 'https://api.apifox.com/v1'，私有化部署时设置为自己的地址
+   */
+  baseUrl?: string;
+
+  /**
+   * 额外请求头
+   * 会覆盖同名的默认请求头(Authorization、X-Apifox-Api-Version 等)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * 自定义 fetch 实现
+   * 默认使用 globalThis.fetch，可用于代理、重试或测试
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * 导出多个模块/分支并合并为一个 StandardOutput (可选)
+   * 每一项会与 exportOptions 合并后单独导出，按顺序合并：
+   * - 重名且内容不同的 Schema，后出现的一方追加名称后缀(如 User -> UserOrders)
+   * - 重复的 operationId 同样追加名称后缀
+   * - 每个 ApiDefinition 通过 origin 记录所属模块/分支
+   */
+  targets?: ApifoxExportTarget[];
 }
 
+/**
+ * 多模块/多分支导出目标
+ */
+export interface ApifoxExportTarget {
+  /** 模块 ID，默认使用 exportOptions.moduleId */
+  moduleId?: number;
+  /** 分支 ID，默认使用 exportOptions.branchId */
+  branchId?: number;
+  /**
+   * 名称
+   * 用于 ApiDefinition.origin.name 以及重名 Schema 的后缀，
+   * 默认根据 ID 生成(如 'module-12'、'module-12-branch-3')
+   */
+  name?: string;
+}
+
+/**
+ * Apifox 离线导出数据源
+ * 使用 Apifox 手动导出(或缓存下来)的 OpenAPI 文件，无需网络与访问令牌，适用于 CI 环境
+ */
+export interface ApifoxExportSource {
+  /**
+   * 导出数据
+   * - 字符串：导出文件路径(JSON/YAML，相对路径基于 process.cwd())
+   * - 对象：已解析的导出文档(不会被修改)
+   */
+  exportData: string | Record<string, unknown>;
+}
+
+/**
+ * ApifoxAdapter 输入源
+ * 在线项目配置或离线导出数据
+ */
+export type ApifoxSource = ApifoxConfig | ApifoxExportSource;
+
 /** Apifox API 版本类型 */
 export type ApiFoxVersion = '2024-03-28' | '2025-09-01';
 
@@ -1,7 +1,11 @@
 import { test, expect } from '@rstest/core';
-import { ApifoxAdapter } from '../src';
+import { ApifoxAdapter, type ApifoxConfig } from '../src';
 import path from 'node:path';
 import fs from 'node:fs';
+import os from 'node:os';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { dump as dumpYaml } from 'js-yaml';
 
 class MockApifoxAdapter extends ApifoxAdapter {
   protected async fetchOpenApiData() {
@@ -367,3 +371,271 @@ test('ApifoxAdapter warnings summary should cap samples with logSampleLimit', as
     | undefined;
   expect(samples?.duplicateOperationIds).toHaveLength(1);
 });
+
+test('ApifoxAdapter should parse offline exports through the same pipeline', async () => {
+  class FixtureReader extends MockApifoxAdapterWithNullType {
+    read() {
+      return this.fetchOpenApiData() as Promise<Record<string, unknown>>;
+    }
+  }
+  const exported = await new FixtureReader().read();
+  const snapshot = JSON.stringify(exported);
+
+  const warnCalls: Array<Record<string, unknown> | undefined> = [];
+  const logger = {
+    warn: (_message: string, meta?: Record<string, unknown>) => {
+      warnCalls.push(meta);
+    },
+  };
+
+  // 1. 对象：兼容性修复不会修改调用方传入的数据
+  const adapter = new ApifoxAdapter();
+  const result = await adapter.parse(
+    { exportData: exported },
+    { logLevel: 'warn', logger },
+  );
+  expect(result.apis).toHaveLength(1);
+  expect(result.metadata?.source).toBe('Apifox Export');
+  expect(JSON.stringify(exported)).toBe(snapshot);
+  expect(warnCalls).toHaveLength(1);
+  expect(warnCalls[0]).toMatchObject({
+    code: 'APIFOX_WARNINGS_SUMMARY',
+    source: 'Apifox Export',
+    stats: { fixedNullTypes: 1, validation: 'enabled' },
+  });
+
+  // 2. 文件路径(YAML)
+  const file = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), 'apifox-export-')),
+    'export.yaml',
+  );
+  fs.writeFileSync(file, dumpYaml(exported));
+  const fromFile = await adapter.parse({ exportData: file });
+  expect(fromFile.metadata?.source).toBe(`Apifox Export ${file}`);
+  expect(fromFile.schemas).toEqual(result.schemas);
+
+  expect(await adapter.validate({ exportData: file })).toBe(true);
+  expect(await adapter.validate({ exportData: '' })).toBe(false);
+
+  await expect(
+    adapter.parse({ exportData: path.join(path.dirname(file), 'missing') }),
+  ).rejects.toThrow(/ENOENT/);
+});
+
+const validOpenApiFixture = () =>
+  JSON.parse(
+    fs.readFileSync(
+      path.resolve(
+        __dirname,
+        '../../openapi/tests/fixtures/valid-openapi.json',
+      ),
+      'utf-8',
+    ),
+  );
+
+/**
+ * 启动一个模拟 Apifox 开放 API 的本地服务
+ */
+const startMockApifoxServer = async () => {
+  const requests: Array<{
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: Record<string, unknown>;
+  }> = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: JSON.parse(body || '{}'),
+      });
+      if (req.url === '/v1/projects/42/export-openapi') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(validOpenApiFixture()));
+      } else {
+        res.writeHead(403);
+        res.end('forbidden');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1/`,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+test('ApifoxAdapter should fetch exports from a configurable base URL', async () => {
+  const server = await startMockApifoxServer();
+
+  try {
+    const adapter = new ApifoxAdapter();
+    const result = await adapter.parse({
+      projectId: 42,
+      token: 'secret',
+      baseUrl: server.baseUrl,
+      headers: { 'X-Tenant': 'acme' },
+      exportOptions: { moduleId: 7 },
+    });
+
+    expect(result.apis.length).toBeGreaterThan(0);
+    expect(result.metadata?.source).toBe('Apifox Project 42');
+
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request?.method).toBe('POST');
+    expect(request?.headers.authorization).toBe('Bearer secret');
+    expect(request?.headers['x-apifox-api-version']).toBe('2024-03-28');
+    expect(request?.headers['x-tenant']).toBe('acme');
+    expect(request?.body).toMatchObject({
+      moduleId: 7,
+      oasVersion: '3.0',
+      scope: { type: 'ALL' },
+    });
+
+    await expect(
+      adapter.parse({ projectId: 1, token: 'x', baseUrl: server.baseUrl }),
+    ).rejects.toThrow('Apifox Export API Failed: [403] forbidden');
+  } finally {
+    await server.close();
+  }
+});
+
+test('ApifoxAdapter should use an injected fetch implementation', async () => {
+  const calls: string[] = [];
+  const result = await new ApifoxAdapter().parse({
+    projectId: 'p1',
+    token: 't',
+    baseUrl: 'https://apifox.internal/api/v1',
+    fetch: async (input) => {
+      calls.push(String(input));
+      return new Response(JSON.stringify(validOpenApiFixture()));
+    },
+  });
+
+  expect(calls).toEqual([
+    'https://apifox.internal/api/v1/projects/p1/export-openapi',
+  ]);
+  expect(result.apis.length).toBeGreaterThan(0);
+});
+
+test('ApifoxAdapter should merge multiple modules and branches', async () => {
+  const userSchema = (extra: Record<string, unknown> = {}) => ({
+    type: 'object',
+    properties: { id: { type: 'integer' }, ...extra },
+  });
+  const moduleDoc = (
+    title: string,
+    apiPath: string,
+    operationId: string,
+    schemas: Record<string, unknown>,
+  ) => ({
+    openapi: '3.0.1',
+    info: { title, version: '1.0.0' },
+    paths: {
+      [apiPath]: {
+        get: {
+          operationId,
+          responses: {
+            '200': {
+              description: 'ok',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/Order' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Order: {
+          type: 'object',
+          properties: { user: { $ref: '#/components/schemas/User' } },
+        },
+        ...schemas,
+      },
+    },
+  });
+
+  const requested: Array<{ moduleId?: number; branchId?: number }> = [];
+  class MultiModuleAdapter extends ApifoxAdapter {
+    protected override async fetchOpenApiData(config: ApifoxConfig) {
+      const { moduleId, branchId } = config.exportOptions ?? {};
+      requested.push({ moduleId, branchId });
+      // 模块 2 的 User 多一个字段，因此 User 以及引用它的 Order 都需要重命名
+      return moduleId === 1
+        ? moduleDoc('Shop', '/orders', 'listOrders', { User: userSchema() })
+        : moduleDoc('Admin', '/admin/orders', 'listOrders', {
+            User: userSchema({ role: { type: 'string' } }),
+          });
+    }
+  }
+
+  const warnCalls: Array<Record<string, unknown> | undefined> = [];
+  const result = await new MultiModuleAdapter().parse(
+    {
+      projectId: 1,
+      token: 't',
+      exportOptions: { branchId: 9 },
+      targets: [{ moduleId: 1, name: 'shop' }, { moduleId: 2 }],
+    },
+    {
+      logLevel: 'warn',
+      logger: { warn: (_message, meta) => warnCalls.push(meta) },
+    },
+  );
+
+  expect(requested).toEqual([
+    { moduleId: 1, branchId: 9 },
+    { moduleId: 2, branchId: 9 },
+  ]);
+  expect(Object.keys(result.schemas).sort()).toEqual([
+    'Order',
+    'OrderModule2Branch9',
+    'User',
+    'UserModule2Branch9',
+  ]);
+  expect(result.schemas.OrderModule2Branch9?.properties?.user?.type).toBe(
+    'UserModule2Branch9',
+  );
+  expect(
+    result.apis.map((api) => [api.path, api.operationId, api.origin]),
+  ).toEqual([
+    ['/orders', 'listOrders', { name: 'shop', module: 1, branch: 9 }],
+    [
+      '/admin/orders',
+      'listOrdersModule2Branch9',
+      { name: 'module-2-branch-9', module: 2, branch: 9 },
+    ],
+  ]);
+  expect(
+    result.apis[1]?.responses['200']?.content?.['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'OrderModule2Branch9' });
+
+  expect(warnCalls).toHaveLength(1);
+  expect(warnCalls[0]).toMatchObject({
+    stats: { renamedCollidingSchemas: 2, renamedDuplicateOperationIds: 1 },
+    samples: {
+      collidingSchemas: [
+        { from: 'User', to: 'UserModule2Branch9', origin: 'module-2-branch-9' },
+        {
+          from: 'Order',
+          to: 'OrderModule2Branch9',
+          origin: 'module-2-branch-9',
+        },
+      ],
+    },
+  });
+});
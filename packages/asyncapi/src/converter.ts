@@ -0,0 +1,662 @@
+/**
+ * AsyncAPI 转换器
+ * 将 AsyncAPI 2.x / 3.x 文档拆分为两部分：
+ * - OpenAPI 3.0 文档(只包含 components.schemas 与 servers)，交给 OpenAPIAdapter 生成 schemas/interfaces
+ * - 通道定义(ChannelDefinition)，消息载荷、消息头与通道参数引用上述 Schema
+ *
+ * 映射规则：
+ * 1. components.schemas 原样保留；内联的载荷、消息头注册为 {Message}Payload、{Message}Headers
+ * 2. 通道参数注册为 {Channel}Parameters
+ * 3. 2.x 的 publish -> receive，subscribe -> send(与 3.x 的 action 语义一致)
+ * 4. JSON Schema 中 OpenAPI 3.0 不支持的写法(type 数组、const、examples 等)转换为等价写法
+ */
+
+import type {
+  AdapterLogger,
+  ChannelAction,
+  ChannelDefinition,
+  ChannelMessageDefinition,
+  ChannelOperationDefinition,
+  ChannelReplyDefinition,
+  NamingStyle,
+  SchemaReference,
+  ServerDefinition,
+  ServerVariableDefinition,
+} from '@api-codegen-universal/core';
+import { NamingUtils } from '@api-codegen-universal/openapi';
+import type {
+  AsyncAPIChannel,
+  AsyncAPIDocument,
+  AsyncAPIMessage,
+  AsyncAPIOperation,
+  AsyncAPIOperationReply,
+  AsyncAPIParameter,
+  AsyncAPIRefOr,
+  AsyncAPISchema,
+  AsyncAPIServer,
+} from './types';
+
+type SchemaObject = Record<string, unknown>;
+
+/**
+ * 转换结果
+ */
+export interface AsyncAPIConversion {
+  /** OpenAPI 3.0 文档 */
+  document: Record<string, unknown>;
+  /** 通道定义(按文档顺序) */
+  channels: ChannelDefinition[];
+}
+
+/** OpenAPI 3.0 可以直接使用的 Schema 格式 */
+const SUPPORTED_SCHEMA_FORMAT =
+  /^application\/(vnd\.aai\.asyncapi|schema|vnd\.oai\.openapi)([+;]|$)/;
+
+export class AsyncAPIConverter {
+  private schemas: Record<string, SchemaObject> = {};
+  private servers = new Map<string, ServerDefinition>();
+  /** 原始对象 -> 定义(同一个通道/消息被多次引用时共享同一个定义) */
+  private channels = new Map<object, ChannelDefinition>();
+  private messages = new Map<object, ChannelMessageDefinition>();
+  private operationIds = new Set<string>();
+
+  /**
+   * @param document AsyncAPI 文档
+   * @param namingStyle Schema 命名风格(与 OpenAPIAdapter 的 parameterNamingStyle 一致)
+   * @param logger 适配器日志
+   */
+  constructor(
+    private document: AsyncAPIDocument,
+    private namingStyle: NamingStyle = 'PascalCase',
+    private logger?: AdapterLogger,
+  ) {}
+
+  /**
+   * 执行转换
+   *
+   * @returns OpenAPI 文档与通道定义
+   */
+  convert(): AsyncAPIConversion {
+    const { info, components } = this.document;
+
+    for (const [name, schema] of Object.entries(components?.schemas ?? {})) {
+      this.schemas[name] = this.normalizeSchema(schema);
+    }
+    for (const [name, server] of Object.entries(this.document.servers ?? {})) {
+      const resolved = this.deref(server);
+      if (resolved) this.servers.set(name, this.convertServer(resolved));
+    }
+
+    if (this.document.asyncapi.startsWith('2.')) {
+      this.convertChannelsV2();
+    } else {
+      this.convertV3();
+    }
+
+    return {
+      document: {
+        openapi: '3.0.3',
+        info: {
+          title: info?.title ?? 'AsyncAPI',
+          version: info?.version ?? '1.0.0',
+          ...(info?.description && { description: info.description }),
+        },
+        ...(this.servers.size > 0 && { servers: [...this.servers.values()] }),
+        paths: {},
+        components: { schemas: this.schemas },
+      },
+      channels: [...this.channels.values()],
+    };
+  }
+
+  // ===================================================================================
+  // 通道与操作
+  // ===================================================================================
+
+  /**
+   * 2.x：通道键为地址，操作内联在通道中
+   */
+  private convertChannelsV2(): void {
+    for (const [address, raw] of Object.entries(this.document.channels ?? {})) {
+      const channel = this.deref(raw);
+      if (!channel) continue;
+      const definition = this.readChannel(address, channel, address);
+
+      for (const [key, action] of [
+        ['publish', 'receive'],
+        ['subscribe', 'send'],
+      ] as const) {
+        const operation = channel[key];
+        if (!operation) continue;
+        const merged = this.applyTraits(operation);
+        const operationId = this.uniqueOperationId(
+          merged.operationId ??
+            NamingUtils.convert(
+              this.identifier(`${action} ${address}`),
+              'camelCase',
+            ),
+        );
+
+        const message = this.deref(merged.message);
+        const candidates: AsyncAPIRefOr<AsyncAPIMessage>[] = !message
+          ? []
+          : 'oneOf' in message && Array.isArray(message.oneOf)
+            ? message.oneOf
+            : [merged.message as AsyncAPIRefOr<AsyncAPIMessage>];
+        const messages = candidates
+          .map((item, index) =>
+            this.readMessage(
+              item,
+              this.refName(item) ??
+                `${operationId}${candidates.length > 1 ? index + 1 : ''}Message`,
+            ),
+          )
+          .filter((item): item is ChannelMessageDefinition => !!item);
+        for (const item of messages) {
+          if (!definition.messages.includes(item))
+            definition.messages.push(item);
+        }
+
+        definition.operations.push(
+          this.buildOperation(operationId, action, merged, messages),
+        );
+      }
+    }
+  }
+
+  /**
+   * 3.x：通道声明消息，操作在顶层通过引用关联通道与消息
+   */
+  private convertV3(): void {
+    for (const [id, raw] of Object.entries(this.document.channels ?? {})) {
+      const channel = this.deref(raw);
+      if (channel) this.readChannel(id, channel, channel.address ?? undefined);
+    }
+
+    for (const [id, raw] of Object.entries(this.document.operations ?? {})) {
+      const operation = this.deref(raw);
+      if (!operation) continue;
+      const merged = this.applyTraits(operation);
+      const channel = this.channelOf(merged.channel);
+      if (!channel) {
+        this.logger?.warn(
+          `Operation "${id}" has no resolvable channel, skipped.`,
+          {
+            code: 'ASYNCAPI_OPERATION_CHANNEL_MISSING',
+            operationId: id,
+          },
+        );
+        continue;
+      }
+
+      // 未声明 messages 时表示通道上的全部消息
+      const messages = merged.messages
+        ? this.readMessages(merged.messages)
+        : [...channel.messages];
+      const action: ChannelAction =
+        merged.action === 'send' ? 'send' : 'receive';
+      channel.operations.push(
+        this.buildOperation(
+          this.uniqueOperationId(id),
+          action,
+          merged,
+          messages,
+        ),
+      );
+    }
+  }
+
+  private readChannel(
+    id: string,
+    channel: AsyncAPIChannel,
+    address: string | undefined,
+  ): ChannelDefinition {
+    const cached = this.channels.get(channel);
+    if (cached) return cached;
+
+    const parameters = Object.entries(channel.parameters ?? {});
+    const servers = (channel.servers ?? [])
+      .map((server) => {
+        if (typeof server === 'string') return this.servers.get(server);
+        const resolved = this.deref<AsyncAPIServer>(server);
+        return resolved && this.convertServer(resolved);
+      })
+      .filter((server): server is ServerDefinition => !!server);
+
+    const definition: ChannelDefinition = {
+      id,
+      ...(address !== undefined && { address }),
+      ...(channel.title && { title: channel.title }),
+      ...(channel.summary && { summary: channel.summary }),
+      ...(channel.description && { description: channel.description }),
+      ...(parameters.length > 0 && {
+        parameters: this.schemaRef(
+          this.parametersSchema(parameters),
+          `${this.identifier(id)}Parameters`,
+        ),
+      }),
+      messages: [],
+      operations: [],
+      ...(servers.length > 0 && { servers }),
+      ...(channel.bindings && { bindings: channel.bindings }),
+    };
+    // 先缓存再读取消息，避免消息中引用通道时重复创建
+    this.channels.set(channel, definition);
+
+    for (const [key, message] of Object.entries(channel.messages ?? {})) {
+      const item = this.readMessage(message, key);
+      if (item) definition.messages.push(item);
+    }
+    return definition;
+  }
+
+  /**
+   * 通道引用 -> 通道定义(引用 components.channels 中未出现在 channels 的通道时新建)
+   */
+  private channelOf(
+    ref: AsyncAPIRefOr<AsyncAPIChannel> | undefined,
+  ): ChannelDefinition | undefined {
+    const channel = this.deref(ref);
+    if (!channel) return undefined;
+    return (
+      this.channels.get(channel) ??
+      this.readChannel(
+        this.refName(ref) ?? 'channel',
+        channel,
+        channel.address ?? undefined,
+      )
+    );
+  }
+
+  private buildOperation(
+    operationId: string,
+    action: ChannelAction,
+    operation: AsyncAPIOperation,
+    messages: ChannelMessageDefinition[],
+  ): ChannelOperationDefinition {
+    const summary = operation.summary ?? operation.title;
+    const reply = this.readReply(operation.reply);
+    return {
+      operationId,
+      action,
+      ...(summary && { summary }),
+      ...(operation.description && { description: operation.description }),
+      ...(operation.tags?.length && {
+        tags: operation.tags.map((tag) => tag.name),
+      }),
+      messages,
+      ...(reply && { reply }),
+      ...(operation.bindings && { bindings: operation.bindings }),
+    };
+  }
+
+  /**
+   * 回复(3.x)：未声明 messages 时使用回复通道上的全部消息
+   */
+  private readReply(
+    ref: AsyncAPIRefOr<AsyncAPIOperationReply> | undefined,
+  ): ChannelReplyDefinition | undefined {
+    const reply = this.deref(ref);
+    if (!reply) return undefined;
+    const channel = this.channelOf(reply.channel);
+    // address 为运行时表达式(如 $message.header#/replyTo)时地址不固定
+    const address = reply.address ? undefined : channel?.address;
+    return {
+      ...(address !== undefined && { address }),
+      messages: reply.messages
+        ? this.readMessages(reply.messages)
+        : [...(channel?.messages ?? [])],
+    };
+  }
+
+  // ===================================================================================
+  // 消息
+  // ===================================================================================
+
+  private readMessages(
+    refs: AsyncAPIRefOr<AsyncAPIMessage>[],
+  ): ChannelMessageDefinition[] {
+    return refs
+      .map((ref) => this.readMessage(ref, this.refName(ref) ?? 'message'))
+      .filter((item): item is ChannelMessageDefinition => !!item);
+  }
+
+  /**
+   * @param raw 消息或引用
+   * @param fallbackName 消息没有 name 时使用的名称(通道中的键或引用名)
+   */
+  private readMessage(
+    raw: AsyncAPIRefOr<AsyncAPIMessage> | undefined,
+    fallbackName: string,
+  ): ChannelMessageDefinition | undefined {
+    const message = this.deref(raw);
+    if (!message) return undefined;
+    const cached = this.messages.get(message);
+    if (cached) return cached;
+
+    const merged = this.applyTraits(message);
+    const name = merged.name ?? fallbackName;
+    const baseName = this.identifier(name);
+    const contentType = merged.contentType ?? this.document.defaultContentType;
+    const example = merged.examples?.find(
+      (item) => item.payload !== undefined,
+    )?.payload;
+
+    const definition: ChannelMessageDefinition = {
+      name,
+      ...(merged.title && { title: merged.title }),
+      ...(merged.summary && { summary: merged.summary }),
+      ...(merged.description && { description: merged.description }),
+      ...(contentType && { contentType }),
+      payload: this.schemaRef(
+        this.multiFormatSchema(merged.payload, merged.schemaFormat, name),
+        `${baseName}Payload`,
+      ),
+      ...(merged.headers && {
+        headers: this.schemaRef(
+          this.multiFormatSchema(merged.headers, undefined, name),
+          `${baseName}Headers`,
+        ),
+      }),
+      ...(example !== undefined && { example }),
+      ...(merged.bindings && { bindings: merged.bindings }),
+    };
+    this.messages.set(message, definition);
+    return definition;
+  }
+
+  /**
+   * 载荷/消息头 Schema
+   * 3.x 可以是 { schemaFormat, schema }；Avro 等非 JSON Schema 格式无法转换，生成 unknown
+   */
+  private multiFormatSchema(
+    value: AsyncAPISchema | undefined,
+    schemaFormat: string | undefined,
+    messageName: string,
+  ): SchemaObject {
+    let schema = value;
+    let format = schemaFormat;
+    if (value && 'schemaFormat' in value && 'schema' in value) {
+      format = value.schemaFormat as string;
+      schema = value.schema as AsyncAPISchema;
+    }
+    if (format && !SUPPORTED_SCHEMA_FORMAT.test(format)) {
+      this.logger?.warn(
+        `Schema format "${format}" of message "${messageName}" is not supported.`,
+        {
+          code: 'ASYNCAPI_SCHEMA_FORMAT_UNSUPPORTED',
+          message: messageName,
+          schemaFormat: format,
+        },
+      );
+      return {};
+    }
+    return this.normalizeSchema(schema);
+  }
+
+  // ===================================================================================
+  // Schema
+  // ===================================================================================
+
+  /**
+   * 通道参数 -> object Schema(地址中的参数均为必填)
+   */
+  private parametersSchema(
+    parameters: Array<[string, AsyncAPIRefOr<AsyncAPIParameter>]>,
+  ): SchemaObject {
+    const properties: Record<string, SchemaObject> = {};
+    for (const [name, raw] of parameters) {
+      const parameter = this.deref(raw) ?? {};
+      properties[name] = {
+        ...(parameter.schema
+          ? this.normalizeSchema(parameter.schema)
+          : {
+              type: 'string',
+              ...(parameter.enum && { enum: parameter.enum }),
+              ...(parameter.default !== undefined && {
+                default: parameter.default,
+              }),
+              ...(parameter.examples?.length && {
+                example: parameter.examples[0],
+              }),
+            }),
+        ...(parameter.description && { description: parameter.description }),
+      };
+    }
+    return {
+      type: 'object',
+      properties,
+      required: parameters.map(([name]) => name),
+    };
+  }
+
+  /**
+   * Schema -> SchemaReference
+   * 已经是 components.schemas 引用时直接使用，否则以 name 注册(重名时追加序号)
+   */
+  private schemaRef(schema: SchemaObject, name: string): SchemaReference {
+    const ref = schema.$ref;
+    let rawName: string;
+    if (typeof ref === 'string' && Object.keys(schema).length === 1) {
+      rawName = ref.slice(ref.lastIndexOf('/') + 1);
+    } else {
+      rawName = name;
+      for (let i = 2; this.schemas[rawName]; i++) {
+        rawName = `${name}${i}`;
+      }
+      this.schemas[rawName] = schema;
+    }
+    return { type: 'ref', ref: this.schemaName(rawName) };
+  }
+
+  /**
+   * 与 SchemaExtractor 相同的名称转换，保证引用与 schemas/interfaces 的键一致
+   */
+  private schemaName(rawName: string): string {
+    let name = rawName;
+    if (name.includes('%')) {
+      try {
+        name = decodeURIComponent(name);
+      } catch {
+        // ignore
+      }
+    }
+    return NamingUtils.convert(name, this.namingStyle);
+  }
+
+  /**
+   * JSON Schema(AsyncAPI Schema) -> OpenAPI 3.0 Schema
+   * components.schemas 以外的引用内联展开(循环引用生成 unknown)
+   */
+  private normalizeSchema(
+    value: unknown,
+    seen: Set<string> = new Set(),
+  ): SchemaObject {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+    const schema = value as SchemaObject;
+
+    if (typeof schema.$ref === 'string') {
+      const ref = schema.$ref;
+      if (/^#\/components\/schemas\/[^/]+$/.test(ref)) return { $ref: ref };
+      if (seen.has(ref)) return {};
+      return this.normalizeSchema(this.resolveRef(ref), new Set(seen).add(ref));
+    }
+
+    const result: SchemaObject = { ...schema };
+    delete result.$schema;
+    delete result.$id;
+    delete result.const;
+    delete result.examples;
+
+    // type: ['string', 'null'] -> type: 'string', nullable: true
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.filter((type) => type !== 'null');
+      delete result.type;
+      if (types.length < schema.type.length) result.nullable = true;
+      if (types.length === 1) {
+        result.type = types[0];
+      } else if (types.length > 1) {
+        result.oneOf = types.map((type) => ({ type }));
+      }
+    }
+    if ('const' in schema) result.enum = [schema.const];
+    if (Array.isArray(schema.examples) && schema.example === undefined) {
+      result.example = schema.examples[0];
+    }
+    // Draft 07 的 exclusiveMinimum/exclusiveMaximum 为数值，OpenAPI 3.0 为布尔值
+    for (const [exclusive, bound] of [
+      ['exclusiveMinimum', 'minimum'],
+      ['exclusiveMaximum', 'maximum'],
+    ] as const) {
+      if (typeof schema[exclusive] === 'number') {
+        result[bound] = schema[exclusive];
+        result[exclusive] = true;
+      }
+    }
+
+    if (schema.properties && typeof schema.properties === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [
+          name,
+          this.normalizeSchema(property, seen),
+        ]),
+      );
+    }
+    if (Array.isArray(schema.items)) {
+      // 元组 -> 元素类型的联合
+      result.items = {
+        oneOf: schema.items.map((item) => this.normalizeSchema(item, seen)),
+      };
+    } else if (schema.items) {
+      result.items = this.normalizeSchema(schema.items, seen);
+    }
+    if (
+      schema.additionalProperties &&
+      typeof schema.additionalProperties === 'object'
+    ) {
+      result.additionalProperties = this.normalizeSchema(
+        schema.additionalProperties,
+        seen,
+      );
+    }
+    for (const key of ['allOf', 'oneOf', 'anyOf'] as const) {
+      if (Array.isArray(schema[key])) {
+        result[key] = schema[key].map((item) =>
+          this.normalizeSchema(item, seen),
+        );
+      }
+    }
+    if (schema.not) result.not = this.normalizeSchema(schema.not, seen);
+    return result;
+  }
+
+  // ===================================================================================
+  // 工具方法
+  // ===================================================================================
+
+  private convertServer(server: AsyncAPIServer): ServerDefinition {
+    const url = server.url ?? `${server.host ?? ''}${server.pathname ?? ''}`;
+    const variables: Record<string, ServerVariableDefinition> = {};
+    for (const [name, raw] of Object.entries(server.variables ?? {})) {
+      const variable = this.deref(raw);
+      if (!variable) continue;
+      variables[name] = {
+        default: variable.default ?? variable.enum?.[0] ?? '',
+        ...(variable.enum && { enum: variable.enum }),
+        ...(variable.description && { description: variable.description }),
+      };
+    }
+    return {
+      // 2.x 的 url 可以不带协议(如 broker.example.com:9092)
+      url: url.includes('://') ? url : `${server.protocol}://${url}`,
+      ...(server.description && { description: server.description }),
+      ...(Object.keys(variables).length > 0 && { variables }),
+    };
+  }
+
+  /**
+   * 合并 traits(对象自身的字段优先)
+   */
+  private applyTraits<T extends AsyncAPIOperation | AsyncAPIMessage>(
+    item: T,
+  ): T {
+    if (!item.traits?.length) return item;
+    const traits = item.traits.map((trait) => this.deref(trait) ?? {});
+    const merged = Object.assign({}, ...traits, item) as T;
+    delete merged.traits;
+    return merged;
+  }
+
+  private uniqueOperationId(operationId: string): string {
+    let unique = operationId;
+    for (let i = 2; this.operationIds.has(unique); i++) {
+      unique = `${operationId}${i}`;
+    }
+    this.operationIds.add(unique);
+    return unique;
+  }
+
+  /**
+   * 任意名称 -> PascalCase 标识符(如 user/{userId}/signedup -> UserUserIdSignedup)
+   */
+  private identifier(name: string): string {
+    return NamingUtils.convert(
+      name.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, ''),
+      'PascalCase',
+    );
+  }
+
+  /**
+   * 解析引用(沿引用链解析到最终对象)
+   */
+  private deref<T>(value: AsyncAPIRefOr<T> | undefined): T | undefined {
+    let current: unknown = value;
+    for (let depth = 0; depth < 32; depth++) {
+      if (!current || typeof current !== 'object') return undefined;
+      const ref = (current as { $ref?: unknown }).$ref;
+      if (typeof ref !== 'string') return current as T;
+      current = this.resolveRef(ref);
+    }
+    return undefined;
+  }
+
+  /**
+   * 引用的最后一段(如 #/components/messages/UserSignedUp -> UserSignedUp)
+   */
+  private refName(value: unknown): string | undefined {
+    const ref = (value as { $ref?: unknown } | undefined)?.$ref;
+    if (typeof ref !== 'string') return undefined;
+    const segment = ref.slice(ref.lastIndexOf('/') + 1);
+    return segment.replace(/~1/g, '/').replace(/~0/g, '~') || undefined;
+  }
+
+  /**
+   * 解析文档内引用(#/...)，外部文件引用不支持
+   */
+  private resolveRef(ref: string): unknown {
+    if (!ref.startsWith('#/')) {
+      this.logger?.warn(`External reference "${ref}" is not supported.`, {
+        code: 'ASYNCAPI_EXTERNAL_REF',
+        ref,
+      });
+      return undefined;
+    }
+    let current: unknown = this.document;
+    for (const segment of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(segment)
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~');
+      current =
+        current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined;
+    }
+    if (current === undefined) {
+      this.logger?.warn(`Reference "${ref}" cannot be resolved.`, {
+        code: 'ASYNCAPI_REF_UNRESOLVED',
+        ref,
+      });
+    }
+    return current;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * AsyncAPI 适配器
+ * 将 AsyncAPI 2.x / 3.x 文档中的消息载荷转换为 schemas/interfaces，
+ * 通道与操作转换为 StandardOutput.channels，使事件驱动接口可以复用同样的类型生成流程
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { load as loadYaml } from 'js-yaml';
+import type { IAdapter, StandardOutput } from '@api-codegen-universal/core';
+import { PluginRunner, createAdapterLogger } from '@api-codegen-universal/core';
+import {
+  type InputSource,
+  OpenAPIAdapter,
+} from '@api-codegen-universal/openapi';
+import { AsyncAPIConverter } from './converter';
+import type {
+  AsyncAPIAdapterOptions,
+  AsyncAPIDocument,
+  AsyncAPISource,
+} from './types';
+
+/**
+ * AsyncAPI 适配器类
+ * 实现 IAdapter 接口，用于处理 AsyncAPI 文档的导入和转换
+ */
+export class AsyncAPIAdapter
+  implements IAdapter<AsyncAPIAdapterOptions, AsyncAPISource>
+{
+  /**
+   * 验证输入源是否为支持的 AsyncAPI 文档
+   *
+   * @param source 文档文件路径、JSON/YAML 文本或对象
+   * @returns asyncapi 版本为 2.x 或 3.x 时返回 true
+   */
+  async validate(source: AsyncAPISource): Promise<boolean> {
+    try {
+      return this.isSupported(await this.loadDocument(source));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 解析主入口
+   * 1. 读取文档并执行插件的 transformDocument 钩子
+   * 2. 拆分为 OpenAPI 文档(Schema) 与通道定义
+   * 3. 使用 OpenAPIAdapter 生成 schemas/interfaces，附加 channels 后执行其余插件钩子
+   *
+   * @param source 文档文件路径、JSON/YAML 文本或对象
+   * @param options 适配器选项
+   * @returns 标准输出格式 (StandardOutput)
+   */
+  async parse(
+    source: AsyncAPISource,
+    options: AsyncAPIAdapterOptions = {},
+  ): Promise<StandardOutput> {
+    const sourceLabel = this.getSourceLabel(source);
+    const logger = createAdapterLogger(options, {
+      adapter: 'asyncapi',
+      source: sourceLabel,
+    });
+
+    let document = structuredClone(await this.loadDocument(source));
+    // 插件在 AsyncAPI 层面执行：transformDocument 接收原始文档，
+    // 其余钩子在 channels 附加之后执行，重命名 Schema 时通道中的引用同步更新
+    const { plugins = [], ...openApiOptions } = options;
+    const pluginRunner = new PluginRunner(plugins, {
+      adapter: 'asyncapi',
+      source: sourceLabel,
+      logger,
+    });
+    if (pluginRunner.hasDocumentHooks) {
+      document = (await pluginRunner.runDocumentHooks(
+        document as unknown as Record<string, unknown>,
+      )) as unknown as AsyncAPIDocument;
+    }
+    if (!this.isSupported(document)) {
+      throw new Error(
+        `Unsupported AsyncAPI version: ${String(document?.asyncapi)}`,
+      );
+    }
+
+    const { document: openApiDocument, channels } = new AsyncAPIConverter(
+      document,
+      options.codeGeneration?.parameterNamingStyle || 'PascalCase',
+      logger,
+    ).convert();
+
+    const result = await new OpenAPIAdapter().parse(
+      openApiDocument as unknown as InputSource,
+      openApiOptions,
+    );
+    result.channels = channels;
+    if (result.metadata) {
+      result.metadata.source = sourceLabel;
+    }
+    return pluginRunner.runOutputHooks(result);
+  }
+
+  private isSupported(document: AsyncAPIDocument | undefined): boolean {
+    return /^[23]\./.test(String(document?.asyncapi ?? ''));
+  }
+
+  /**
+   * 读取文档
+   * 不含换行的字符串视为文件路径，否则视为 JSON/YAML 文本
+   */
+  private async loadDocument(
+    source: AsyncAPISource,
+  ): Promise<AsyncAPIDocument> {
+    if (typeof source !== 'string') {
+      return source;
+    }
+    const text = source.includes('\n')
+      ? source
+      : await fs.readFile(path.resolve(source), 'utf-8');
+    try {
+      return JSON.parse(text) as AsyncAPIDocument;
+    } catch {
+      return loadYaml(text) as AsyncAPIDocument;
+    }
+  }
+
+  /**
+   * 数据源的显示名称(用于日志与 metadata.source)
+   */
+  private getSourceLabel(source: AsyncAPISource): string {
+    return typeof source === 'string' && !source.includes('\n')
+      ? `AsyncAPI ${source}`
+      : 'AsyncAPI Document';
+  }
+}
@@ -0,0 +1,174 @@
+import type { OpenAPIOptions } from '@api-codegen-universal/openapi';
+
+/**
+ * AsyncAPIAdapter 输入源
+ * - 字符串：文档文件路径(相对路径基于 process.cwd())或 JSON/YAML 文本
+ * - 对象：已解析的文档(不会被修改)
+ */
+export type AsyncAPISource = string | AsyncAPIDocument;
+
+/**
+ * 适配器选项
+ * 与 OpenAPIOptions 相同；插件的 transformDocument 钩子接收 AsyncAPI 原始文档
+ */
+export type AsyncAPIAdapterOptions = OpenAPIOptions;
+
+// ===================================================================================
+// AsyncAPI 2.x / 3.x 结构(只包含适配器用到的字段)
+// ===================================================================================
+
+/**
+ * 引用($ref 只支持文档内引用，如 #/components/messages/UserSignedUp)
+ */
+export interface AsyncAPIReference {
+  $ref: string;
+}
+
+/**
+ * 可以是对象本身或引用
+ */
+export type AsyncAPIRefOr<T> = T | AsyncAPIReference;
+
+/**
+ * Schema(AsyncAPI Schema 为 JSON Schema Draft 07 的超集)
+ */
+export type AsyncAPISchema = Record<string, unknown>;
+
+/**
+ * AsyncAPI 文档
+ */
+export interface AsyncAPIDocument {
+  /** 规范版本，如 2.6.0、3.0.0 */
+  asyncapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+    [key: string]: unknown;
+  };
+  /** 消息的默认内容类型 */
+  defaultContentType?: string;
+  servers?: Record<string, AsyncAPIRefOr<AsyncAPIServer>>;
+  /** 2.x：键为通道地址；3.x：键为通道 ID */
+  channels?: Record<string, AsyncAPIRefOr<AsyncAPIChannel>>;
+  /** 3.x：键为操作 ID */
+  operations?: Record<string, AsyncAPIRefOr<AsyncAPIOperation>>;
+  components?: {
+    schemas?: Record<string, AsyncAPISchema>;
+    messages?: Record<string, AsyncAPIRefOr<AsyncAPIMessage>>;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * 服务器
+ * 2.x 使用 url；3.x 使用 host + pathname
+ */
+export interface AsyncAPIServer {
+  url?: string;
+  host?: string;
+  pathname?: string;
+  protocol: string;
+  description?: string;
+  variables?: Record<
+    string,
+    AsyncAPIRefOr<{ default?: string; enum?: string[]; description?: string }>
+  >;
+  [key: string]: unknown;
+}
+
+/**
+ * 通道
+ */
+export interface AsyncAPIChannel {
+  /** 3.x：通道地址(null 表示运行时决定) */
+  address?: string | null;
+  title?: string;
+  summary?: string;
+  description?: string;
+  /** 2.x：服务器名称；3.x：服务器引用 */
+  servers?: Array<string | AsyncAPIReference>;
+  /** 2.x 参数包含 schema；3.x 参数只有字符串取值约束 */
+  parameters?: Record<string, AsyncAPIRefOr<AsyncAPIParameter>>;
+  /** 3.x：通道上的消息 */
+  messages?: Record<string, AsyncAPIRefOr<AsyncAPIMessage>>;
+  /** 2.x：应用接收的消息 */
+  publish?: AsyncAPIOperation;
+  /** 2.x：应用发送的消息 */
+  subscribe?: AsyncAPIOperation;
+  bindings?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * 通道参数
+ */
+export interface AsyncAPIParameter {
+  description?: string;
+  /** 2.x */
+  schema?: AsyncAPISchema;
+  /** 3.x */
+  enum?: string[];
+  /** 3.x */
+  default?: string;
+  /** 3.x */
+  examples?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * 操作
+ */
+export interface AsyncAPIOperation {
+  /** 3.x */
+  action?: 'send' | 'receive';
+  /** 3.x：通道引用 */
+  channel?: AsyncAPIReference;
+  /** 2.x */
+  operationId?: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  tags?: Array<{ name: string }>;
+  /** 2.x：单个消息或 oneOf */
+  message?: AsyncAPIRefOr<
+    AsyncAPIMessage | { oneOf: AsyncAPIRefOr<AsyncAPIMessage>[] }
+  >;
+  /** 3.x：通道消息的引用 */
+  messages?: AsyncAPIReference[];
+  /** 3.x */
+  reply?: AsyncAPIRefOr<AsyncAPIOperationReply>;
+  traits?: Array<AsyncAPIRefOr<Partial<AsyncAPIOperation>>>;
+  bindings?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * 操作回复(3.x)
+ */
+export interface AsyncAPIOperationReply {
+  address?: AsyncAPIRefOr<{ location: string; description?: string }>;
+  channel?: AsyncAPIReference;
+  messages?: AsyncAPIReference[];
+}
+
+/**
+ * 消息
+ */
+export interface AsyncAPIMessage {
+  name?: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  contentType?: string;
+  /** 2.x：载荷的 Schema 格式 */
+  schemaFormat?: string;
+  /** 3.x 中可以是 { schemaFormat, schema } */
+  payload?: AsyncAPISchema;
+  headers?: AsyncAPISchema;
+  examples?: Array<{ payload?: unknown; headers?: unknown; name?: string }>;
+  traits?: Array<AsyncAPIRefOr<Partial<AsyncAPIMessage>>>;
+  bindings?: Record<string, unknown>;
+  [key: string]: unknown;
+}
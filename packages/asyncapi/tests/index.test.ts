@@ -0,0 +1,254 @@
+import { test, expect } from '@rstest/core';
+import { AsyncAPIAdapter, type AsyncAPIDocument } from '../src';
+
+const v3 = `
+asyncapi: 3.0.0
+info:
+  title: Chat
+  version: 1.0.0
+defaultContentType: application/json
+servers:
+  production:
+    host: chat.example.com
+    pathname: /ws
+    protocol: wss
+channels:
+  room:
+    address: rooms/{roomId}
+    parameters:
+      roomId:
+        description: Room id
+    messages:
+      chatMessage:
+        $ref: '#/components/messages/ChatMessage'
+      typing:
+        name: Typing
+        payload:
+          type: object
+          required: [userId]
+          properties:
+            userId:
+              type: string
+            until:
+              type: [string, 'null']
+              format: date-time
+  rpc:
+    address: rpc
+    messages:
+      ping:
+        payload:
+          type: object
+          properties:
+            kind:
+              const: ping
+  rpcReply:
+    address: null
+    messages:
+      pong:
+        payload:
+          $ref: '#/components/schemas/Pong'
+operations:
+  sendMessage:
+    action: send
+    channel:
+      $ref: '#/channels/room'
+    messages:
+      - $ref: '#/channels/room/messages/chatMessage'
+  onRoomEvent:
+    action: receive
+    channel:
+      $ref: '#/channels/room'
+    tags:
+      - name: chat
+  ping:
+    action: send
+    channel:
+      $ref: '#/channels/rpc'
+    reply:
+      channel:
+        $ref: '#/channels/rpcReply'
+components:
+  messages:
+    ChatMessage:
+      summary: A chat message
+      payload:
+        $ref: '#/components/schemas/ChatMessage'
+      examples:
+        - payload:
+            text: hi
+  schemas:
+    ChatMessage:
+      type: object
+      required: [text]
+      properties:
+        text:
+          type: string
+        mentions:
+          type: array
+          items:
+            type: string
+    Pong:
+      type: object
+      properties:
+        latency:
+          type: integer
+`;
+
+test('AsyncAPIAdapter maps 3.x channels, operations and payloads', async () => {
+  const adapter = new AsyncAPIAdapter();
+  expect(await adapter.validate(v3)).toBe(true);
+  expect(await adapter.validate('{"openapi": "3.0.0"}\n')).toBe(false);
+
+  const result = await adapter.parse(v3);
+  expect(result.apis).toEqual([]);
+  expect(result.metadata?.baseUrl).toBe('wss://chat.example.com/ws');
+
+  // 载荷：引用的 Schema 直接使用，内联载荷注册为 {Message}Payload
+  const [room, rpc, rpcReply] = result.channels!;
+  expect(room?.address).toBe('rooms/{roomId}');
+  expect(room?.parameters).toEqual({ type: 'ref', ref: 'RoomParameters' });
+  expect(result.interfaces.RoomParameters).toContain('roomId: string');
+  expect(room?.messages.map((message) => message.payload.ref)).toEqual([
+    'ChatMessage',
+    'TypingPayload',
+  ]);
+  expect(room?.messages[0]).toMatchObject({
+    name: 'chatMessage',
+    summary: 'A chat message',
+    contentType: 'application/json',
+    example: { text: 'hi' },
+  });
+  expect(result.interfaces.ChatMessage).toContain('mentions?: string[]');
+  expect(result.interfaces.TypingPayload).toContain('userId: string');
+  expect(result.interfaces.TypingPayload).toContain('until?: string | null');
+  expect(result.interfaces.PingPayload).toContain('"ping"');
+
+  // 操作：声明 messages 时只包含引用的消息，否则为通道上的全部消息
+  expect(
+    room?.operations.map((operation) => ({
+      operationId: operation.operationId,
+      action: operation.action,
+      messages: operation.messages.map((message) => message.name),
+    })),
+  ).toEqual([
+    { operationId: 'sendMessage', action: 'send', messages: ['chatMessage'] },
+    {
+      operationId: 'onRoomEvent',
+      action: 'receive',
+      messages: ['chatMessage', 'Typing'],
+    },
+  ]);
+  expect(room?.operations[0]?.messages[0]).toBe(room?.messages[0]);
+  expect(room?.operations[1]?.tags).toEqual(['chat']);
+
+  // 请求-响应：回复通道地址为 null 时不设置 address
+  expect(rpcReply?.address).toBeUndefined();
+  const ping = rpc?.operations[0];
+  expect(ping?.reply?.address).toBeUndefined();
+  expect(ping?.reply?.messages[0]?.payload).toEqual({
+    type: 'ref',
+    ref: 'Pong',
+  });
+});
+
+test('AsyncAPIAdapter maps 2.x publish/subscribe operations', async () => {
+  const document: AsyncAPIDocument = {
+    asyncapi: '2.6.0',
+    info: { title: 'Accounts', version: '2.0.0' },
+    servers: {
+      kafka: { url: 'broker.example.com:9092', protocol: 'kafka' },
+    },
+    channels: {
+      'user/{userId}/events': {
+        parameters: {
+          userId: { schema: { type: 'integer' } },
+        },
+        servers: ['kafka'],
+        bindings: { kafka: { partitions: 3 } },
+        subscribe: {
+          operationId: 'publishUserEvent',
+          message: {
+            oneOf: [
+              { $ref: '#/components/messages/UserSignedUp' },
+              { $ref: '#/components/messages/UserDeleted' },
+            ],
+          },
+        },
+        publish: {
+          message: {
+            name: 'Command',
+            payload: { type: 'string', enum: ['ban', 'unban'] },
+            headers: {
+              type: 'object',
+              properties: { 'x-trace-id': { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      messages: {
+        UserSignedUp: {
+          payload: {
+            type: 'object',
+            properties: { email: { type: 'string', format: 'email' } },
+          },
+        },
+        UserDeleted: {
+          schemaFormat: 'application/vnd.apache.avro;version=1.9.0',
+          payload: { type: 'record', name: 'UserDeleted', fields: [] },
+        },
+      },
+    },
+  };
+  const snapshot = structuredClone(document);
+
+  const result = await new AsyncAPIAdapter().parse(document, {
+    plugins: [
+      {
+        name: 'rename-payloads',
+        transformSchema(schema) {
+          if (schema.name === 'UserSignedUpPayload') {
+            return { ...schema, name: 'UserSignedUpEvent' };
+          }
+        },
+      },
+    ],
+  });
+  expect(document).toEqual(snapshot);
+
+  const channel = result.channels![0]!;
+  expect(channel).toMatchObject({
+    id: 'user/{userId}/events',
+    address: 'user/{userId}/events',
+    parameters: { type: 'ref', ref: 'UserUserIdEventsParameters' },
+    servers: [{ url: 'kafka://broker.example.com:9092' }],
+    bindings: { kafka: { partitions: 3 } },
+  });
+  expect(result.interfaces.UserUserIdEventsParameters).toContain(
+    'userId: number',
+  );
+
+  // subscribe -> send，publish -> receive
+  expect(
+    channel.operations.map((operation) => [
+      operation.operationId,
+      operation.action,
+    ]),
+  ).toEqual([
+    ['receiveUserUserIdEvents', 'receive'],
+    ['publishUserEvent', 'send'],
+  ]);
+  const [command, signedUp, deleted] = channel.messages;
+  expect(command?.payload.ref).toBe('CommandPayload');
+  expect(command?.headers?.ref).toBe('CommandHeaders');
+  expect(result.schemas.CommandPayload?.enum).toEqual(['ban', 'unban']);
+
+  // 插件重命名 Schema 时通道中的引用同步更新
+  expect(signedUp?.payload.ref).toBe('UserSignedUpEvent');
+  expect(result.interfaces.UserSignedUpEvent).toContain('email?: string');
+
+  // Avro 等格式无法转换为 TypeScript
+  expect(deleted?.name).toBe('UserDeleted');
+  expect(result.interfaces[deleted!.payload.ref!]).toContain('unknown');
+});
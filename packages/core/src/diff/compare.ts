@@ -0,0 +1,791 @@
+/**
+ * StandardOutput 变更对比
+ */
+
+import type {
+  ApiDefinition,
+  MediaTypeDefinition,
+  PropertyDefinition,
+  SchemaDefinition,
+  SchemaReference,
+  StandardOutput,
+} from '../types';
+import type {
+  ChangeCode,
+  ChangeSeverity,
+  ChangeTarget,
+  DiffChange,
+  DiffOptions,
+  DiffReport,
+} from './types';
+import { collectSchemaUsage, type SchemaUsage } from './usage';
+
+/**
+ * 对比两份 StandardOutput，找出变更并按影响分级
+ *
+ * @param before 变更前(通常是上一个版本)
+ * @param after 变更后
+ * @param options 对比选项
+ * @returns 对比报告
+ *
+ * @example
+ * const report = diffStandardOutput(previous, current);
+ * if (report.hasBreakingChanges) {
+ *   console.log(formatDiffMarkdown(report));
+ * }
+ */
+export function diffStandardOutput(
+  before: StandardOutput,
+  after: StandardOutput,
+  options: DiffOptions = {},
+): DiffReport {
+  const differ = new StandardOutputDiffer(before, after, options);
+  const changes = differ.diff();
+
+  const summary = { breaking: 0, nonBreaking: 0, info: 0 };
+  for (const change of changes) {
+    if (change.severity === 'breaking') summary.breaking++;
+    else if (change.severity === 'non-breaking') summary.nonBreaking++;
+    else summary.info++;
+  }
+
+  return {
+    hasBreakingChanges: summary.breaking > 0,
+    summary,
+    changes,
+  };
+}
+
+/**
+ * 单位置的对比上下文
+ */
+interface SchemaContext {
+  /** 位置前缀 */
+  location: string;
+  /** 使用方向(为空表示未被引用，按两个方向处理) */
+  usage: Set<SchemaUsage>;
+}
+
+/**
+ * 对比实现
+ */
+class StandardOutputDiffer {
+  private readonly changes: DiffChange[] = [];
+  private readonly usage: Map<string, Set<SchemaUsage>>;
+
+  constructor(
+    private readonly before: StandardOutput,
+    private readonly after: StandardOutput,
+    private readonly options: DiffOptions,
+  ) {
+    this.usage = collectSchemaUsage([before, after]);
+  }
+
+  diff(): DiffChange[] {
+    this.diffApis();
+    this.diffSchemas();
+    this.diffMetadata();
+    return this.changes;
+  }
+
+  // ======== API ========
+
+  private diffApis(): void {
+    const afterApis = new Map(this.after.apis.map((api) => [apiKey(api), api]));
+    const beforeKeys = new Set<string>();
+
+    for (const api of this.before.apis) {
+      const key = apiKey(api);
+      beforeKeys.add(key);
+      const next = afterApis.get(key);
+      if (!next) {
+        this.add('API_REMOVED', 'breaking', 'api', key, 'API removed');
+      } else {
+        this.diffApi(key, api, next);
+      }
+    }
+
+    for (const [key] of afterApis) {
+      if (!beforeKeys.has(key)) {
+        this.add('API_ADDED', 'non-breaking', 'api', key, 'API added');
+      }
+    }
+  }
+
+  private diffApi(key: string, before: ApiDefinition, after: ApiDefinition) {
+    if (!before.deprecated && after.deprecated) {
+      this.add('API_DEPRECATED', 'info', 'api', key, 'API deprecated');
+    }
+
+    if (before.operationId !== after.operationId) {
+      this.add(
+        'OPERATION_ID_CHANGED',
+        'breaking',
+        'api',
+        key,
+        `operationId changed from \`${before.operationId}\` to \`${after.operationId}\`, generated function names change`,
+        before.operationId,
+        after.operationId,
+      );
+    }
+
+    // 参数(按位置)
+    const locations = ['path', 'query', 'header', 'cookie'] as const;
+    for (const location of locations) {
+      const prev = before.parameters?.[location];
+      const next = after.parameters?.[location];
+      if (prev && !next) {
+        this.add(
+          'PARAMETERS_REMOVED',
+          'breaking',
+          'api',
+          key,
+          `${location} parameters removed`,
+        );
+      } else if (!prev && next) {
+        const required = this.hasRequiredProperties(next);
+        this.add(
+          'PARAMETERS_ADDED',
+          required ? 'breaking' : 'non-breaking',
+          'api',
+          key,
+          required
+            ? `required ${location} parameters added`
+            : `optional ${location} parameters added`,
+        );
+      } else if (prev && next) {
+        this.diffReference(`${key} ${location} parameters`, prev, next, [
+          'request',
+        ]);
+      }
+    }
+
+    // 请求体
+    const prevBody = before.requestBody;
+    const nextBody = after.requestBody;
+    if (prevBody && !nextBody) {
+      this.add(
+        'REQUEST_BODY_REMOVED',
+        'breaking',
+        'api',
+        key,
+        'request body removed',
+      );
+    } else if (!prevBody && nextBody) {
+      this.add(
+        'REQUEST_BODY_ADDED',
+        nextBody.required ? 'breaking' : 'non-breaking',
+        'api',
+        key,
+        nextBody.required
+          ? 'required request body added'
+          : 'optional request body added',
+      );
+    } else if (prevBody && nextBody) {
+      if (!prevBody.required && nextBody.required) {
+        this.add(
+          'REQUEST_BODY_REQUIRED',
+          'breaking',
+          'api',
+          key,
+          'request body became required',
+        );
+      } else if (prevBody.required && !nextBody.required) {
+        this.add(
+          'REQUEST_BODY_OPTIONAL',
+          'non-breaking',
+          'api',
+          key,
+          'request body became optional',
+        );
+      }
+      this.diffContent(
+        `${key} request body`,
+        prevBody.content,
+        nextBody.content,
+        'request',
+      );
+    }
+
+    // 响应(按状态码)
+    for (const [status, response] of Object.entries(before.responses)) {
+      const next = after.responses[status];
+      if (!next) {
+        this.add(
+          'RESPONSE_REMOVED',
+          'breaking',
+          'api',
+          key,
+          `response ${status} removed`,
+          status,
+        );
+      } else {
+        this.diffContent(
+          `${key} ${status}`,
+          response.content ?? {},
+          next.content ?? {},
+          'response',
+        );
+      }
+    }
+    for (const status of Object.keys(after.responses)) {
+      if (!(status in before.responses)) {
+        this.add(
+          'RESPONSE_ADDED',
+          'non-breaking',
+          'api',
+          key,
+          `response ${status} added`,
+          undefined,
+          status,
+        );
+      }
+    }
+  }
+
+  /**
+   * 对比按媒体类型区分的内容
+   */
+  private diffContent(
+    location: string,
+    before: Record<string, MediaTypeDefinition>,
+    after: Record<string, MediaTypeDefinition>,
+    direction: SchemaUsage,
+  ): void {
+    for (const [mediaType, media] of Object.entries(before)) {
+      const next = after[mediaType];
+      if (!next) {
+        this.add(
+          'MEDIA_TYPE_REMOVED',
+          'breaking',
+          'api',
+          location,
+          `media type \`${mediaType}\` removed`,
+          mediaType,
+        );
+      } else {
+        this.diffReference(
+          `${location} ${mediaType}`,
+          media.schema,
+          next.schema,
+          [direction],
+        );
+      }
+    }
+    for (const mediaType of Object.keys(after)) {
+      if (!(mediaType in before)) {
+        this.add(
+          'MEDIA_TYPE_ADDED',
+          'non-breaking',
+          'api',
+          location,
+          `media type \`${mediaType}\` added`,
+          undefined,
+          mediaType,
+        );
+      }
+    }
+  }
+
+  /**
+   * 对比 Schema 引用
+   * 同名引用的内部变化由 Schema 对比负责，这里只处理引用本身的变化与内联 Schema
+   */
+  private diffReference(
+    location: string,
+    before: SchemaReference,
+    after: SchemaReference,
+    usage: SchemaUsage[],
+  ): void {
+    if (before.type === 'inline' && after.type === 'inline') {
+      this.diffSchema(before.schema ?? {}, after.schema ?? {}, {
+        location,
+        usage: new Set(usage),
+      });
+      return;
+    }
+
+    const prev = describeReference(before);
+    const next = describeReference(after);
+    if (prev !== next) {
+      this.add(
+        'SCHEMA_REF_CHANGED',
+        'breaking',
+        'api',
+        location,
+        `type changed from \`${prev}\` to \`${next}\``,
+        prev,
+        next,
+      );
+    }
+  }
+
+  /**
+   * 引用的 Schema 是否包含必填属性
+   */
+  private hasRequiredProperties(reference: SchemaReference): boolean {
+    const schema =
+      reference.type === 'ref'
+        ? this.after.schemas[reference.ref ?? '']
+        : reference.schema;
+    return Object.values(schema?.properties ?? {}).some((p) => p.required);
+  }
+
+  // ======== Schema ========
+
+  private diffSchemas(): void {
+    for (const [name, schema] of Object.entries(this.before.schemas)) {
+      const next = this.after.schemas[name];
+      if (!next) {
+        this.add(
+          'SCHEMA_REMOVED',
+          'breaking',
+          'schema',
+          name,
+          'schema removed',
+        );
+      } else {
+        this.diffSchema(schema, next, {
+          location: name,
+          usage: this.usage.get(name) ?? new Set(),
+        });
+      }
+    }
+    for (const name of Object.keys(this.after.schemas)) {
+      if (!(name in this.before.schemas)) {
+        this.add(
+          'SCHEMA_ADDED',
+          'non-breaking',
+          'schema',
+          name,
+          'schema added',
+        );
+      }
+    }
+  }
+
+  private diffSchema(
+    before: Partial<SchemaDefinition>,
+    after: Partial<SchemaDefinition>,
+    context: SchemaContext,
+  ): void {
+    const { location } = context;
+
+    if (!before.deprecated && after.deprecated) {
+      this.add(
+        'SCHEMA_DEPRECATED',
+        'info',
+        'schema',
+        location,
+        'schema deprecated',
+      );
+    }
+
+    if (before.type !== after.type) {
+      this.add(
+        'SCHEMA_TYPE_CHANGED',
+        'breaking',
+        'schema',
+        location,
+        `type changed from \`${before.type}\` to \`${after.type}\``,
+        before.type,
+        after.type,
+      );
+      // 类型整体变化后，细节对比没有意义
+      return;
+    }
+
+    // 继承
+    const prevExtends = before.extends ?? [];
+    const nextExtends = after.extends ?? [];
+    for (const base of prevExtends) {
+      if (!nextExtends.includes(base)) {
+        this.add(
+          'EXTENDS_REMOVED',
+          'breaking',
+          'schema',
+          location,
+          `no longer extends \`${base}\``,
+          base,
+        );
+      }
+    }
+    for (const base of nextExtends) {
+      if (!prevExtends.includes(base)) {
+        this.add(
+          'EXTENDS_ADDED',
+          this.directional(context, 'request'),
+          'schema',
+          location,
+          `now extends \`${base}\``,
+          undefined,
+          base,
+        );
+      }
+    }
+
+    // 数组元素 / 索引签名
+    this.diffNestedReference(
+      'ITEMS_CHANGED',
+      `${location}[]`,
+      before.items,
+      after.items,
+      context,
+    );
+    this.diffNestedReference(
+      'ADDITIONAL_PROPERTIES_CHANGED',
+      `${location}[key]`,
+      before.additionalProperties,
+      after.additionalProperties,
+      context,
+    );
+
+    // 枚举
+    this.diffEnum(location, before.enum, after.enum, context);
+
+    // 属性
+    const prevProperties = before.properties ?? {};
+    const nextProperties = after.properties ?? {};
+    for (const [name, property] of Object.entries(prevProperties)) {
+      const next = nextProperties[name];
+      const propertyLocation = `${location}.${name}`;
+      if (!next) {
+        this.add(
+          'PROPERTY_REMOVED',
+          'breaking',
+          'schema',
+          propertyLocation,
+          'property removed',
+        );
+      } else {
+        this.diffProperty(propertyLocation, property, next, context);
+      }
+    }
+    for (const [name, property] of Object.entries(nextProperties)) {
+      if (name in prevProperties) continue;
+      this.add(
+        'PROPERTY_ADDED',
+        property.required
+          ? this.directional(context, 'request')
+          : 'non-breaking',
+        'schema',
+        `${location}.${name}`,
+        property.required
+          ? 'required property added'
+          : 'optional property added',
+      );
+    }
+  }
+
+  private diffNestedReference(
+    code: ChangeCode,
+    location: string,
+    before: SchemaReference | undefined,
+    after: SchemaReference | undefined,
+    context: SchemaContext,
+  ): void {
+    if (!before && !after) return;
+    if (before?.type === 'inline' && after?.type === 'inline') {
+      this.diffSchema(before.schema ?? {}, after.schema ?? {}, {
+        ...context,
+        location,
+      });
+      return;
+    }
+
+    const prev = before ? describeReference(before) : undefined;
+    const next = after ? describeReference(after) : undefined;
+    if (prev !== next) {
+      this.add(
+        code,
+        'breaking',
+        'schema',
+        location,
+        `type changed from \`${prev ?? 'none'}\` to \`${next ?? 'none'}\``,
+        prev,
+        next,
+      );
+    }
+  }
+
+  private diffProperty(
+    location: string,
+    before: PropertyDefinition,
+    after: PropertyDefinition,
+    context: SchemaContext,
+  ): void {
+    // 枚举属性的类型字符串可能是字面量联合，取值变化交给枚举对比
+    const enumOnly = before.enum !== undefined && after.enum !== undefined;
+    if (before.type !== after.type && !enumOnly) {
+      this.add(
+        'PROPERTY_TYPE_CHANGED',
+        'breaking',
+        'schema',
+        location,
+        `type changed from \`${before.type}\` to \`${after.type}\``,
+        before.type,
+        after.type,
+      );
+    }
+
+    // 必填：新增必填影响请求方，取消必填影响响应的读取方
+    if (!before.required && after.required) {
+      this.add(
+        'PROPERTY_REQUIRED',
+        this.directional(context, 'request'),
+        'schema',
+        location,
+        'property became required',
+      );
+    } else if (before.required && !after.required) {
+      this.add(
+        'PROPERTY_OPTIONAL',
+        this.directional(context, 'response'),
+        'schema',
+        location,
+        'property became optional',
+      );
+    }
+
+    if (!before.nullable && after.nullable) {
+      this.add(
+        'PROPERTY_NULLABLE',
+        this.directional(context, 'response'),
+        'schema',
+        location,
+        'property became nullable',
+      );
+    } else if (before.nullable && !after.nullable) {
+      this.add(
+        'PROPERTY_NOT_NULLABLE',
+        this.directional(context, 'request'),
+        'schema',
+        location,
+        'property is no longer nullable',
+      );
+    }
+
+    if (before.format !== after.format) {
+      this.add(
+        'FORMAT_CHANGED',
+        'breaking',
+        'schema',
+        location,
+        `format changed from \`${before.format ?? 'none'}\` to \`${after.format ?? 'none'}\``,
+        before.format,
+        after.format,
+      );
+    }
+
+    this.diffEnum(location, before.enum, after.enum, context);
+    this.diffConstraints(location, before, after, context);
+  }
+
+  /**
+   * 对比枚举值
+   * 收窄影响请求方(原有取值被拒绝)，扩大影响响应的读取方(可能收到未知取值)
+   */
+  private diffEnum(
+    location: string,
+    before: Array<string | number> | undefined,
+    after: Array<string | number> | undefined,
+    context: SchemaContext,
+  ): void {
+    // 从无到有/从有到无等价于取值范围的收窄/放宽，由类型变化体现
+    if (!before || !after) return;
+
+    const removed = before.filter((value) => !after.includes(value));
+    const added = after.filter((value) => !before.includes(value));
+
+    if (removed.length > 0) {
+      this.add(
+        'ENUM_VALUES_REMOVED',
+        this.directional(context, 'request'),
+        'schema',
+        location,
+        `enum values removed: ${formatValues(removed)}`,
+        removed,
+      );
+    }
+    if (added.length > 0) {
+      this.add(
+        'ENUM_VALUES_ADDED',
+        this.directional(context, 'response'),
+        'schema',
+        location,
+        `enum values added: ${formatValues(added)}`,
+        undefined,
+        added,
+      );
+    }
+  }
+
+  /**
+   * 对比取值约束
+   * 收紧影响请求方，放宽影响基于约束校验响应的一方(如生成的 Zod Schema)
+   */
+  private diffConstraints(
+    location: string,
+    before: PropertyDefinition,
+    after: PropertyDefinition,
+    context: SchemaContext,
+  ): void {
+    const bounds = [
+      ['minLength', 'min'],
+      ['maxLength', 'max'],
+      ['minimum', 'min'],
+      ['maximum', 'max'],
+    ] as const;
+
+    for (const [key, kind] of bounds) {
+      const prev = before[key];
+      const next = after[key];
+      if (prev === next) continue;
+
+      // 新增下限/上限视为收紧，移除视为放宽
+      const tightened =
+        prev === undefined
+          ? true
+          : next === undefined
+            ? false
+            : kind === 'min'
+              ? next > prev
+              : next < prev;
+
+      this.addConstraintChange(location, key, prev, next, tightened, context);
+    }
+
+    if (before.pattern !== after.pattern) {
+      // 无法判断正则的宽严，新增视为收紧，移除视为放宽，修改按双向处理
+      if (before.pattern === undefined || after.pattern === undefined) {
+        this.addConstraintChange(
+          location,
+          'pattern',
+          before.pattern,
+          after.pattern,
+          after.pattern !== undefined,
+          context,
+        );
+      } else {
+        this.add(
+          'CONSTRAINT_TIGHTENED',
+          'breaking',
+          'schema',
+          location,
+          `pattern changed from \`${before.pattern}\` to \`${after.pattern}\``,
+          before.pattern,
+          after.pattern,
+        );
+      }
+    }
+  }
+
+  private addConstraintChange(
+    location: string,
+    key: string,
+    before: unknown,
+    after: unknown,
+    tightened: boolean,
+    context: SchemaContext,
+  ): void {
+    const detail = `${key} changed from ${formatConstraint(before)} to ${formatConstraint(after)}`;
+    if (tightened) {
+      this.add(
+        'CONSTRAINT_TIGHTENED',
+        this.directional(context, 'request'),
+        'schema',
+        location,
+        detail,
+        before,
+        after,
+      );
+    } else {
+      this.add(
+        'CONSTRAINT_RELAXED',
+        this.directional(context, 'response'),
+        'schema',
+        location,
+        detail,
+        before,
+        after,
+      );
+    }
+  }
+
+  // ======== 元数据 ========
+
+  private diffMetadata(): void {
+    const prev = this.before.metadata?.baseUrl;
+    const next = this.after.metadata?.baseUrl;
+    if (prev !== next) {
+      this.add(
+        'BASE_URL_CHANGED',
+        'info',
+        'metadata',
+        'baseUrl',
+        `baseUrl changed from \`${prev ?? 'none'}\` to \`${next ?? 'none'}\``,
+        prev,
+        next,
+      );
+    }
+  }
+
+  // ======== 工具方法 ========
+
+  /**
+   * 只对某个方向有破坏性的变化
+   * 未被任何 API 引用的 Schema 无法判断方向，按破坏性处理
+   */
+  private directional(
+    context: SchemaContext,
+    breaksOn: SchemaUsage,
+  ): ChangeSeverity {
+    return context.usage.size === 0 || context.usage.has(breaksOn)
+      ? 'breaking'
+      : 'non-breaking';
+  }
+
+  private add(
+    code: ChangeCode,
+    severity: ChangeSeverity,
+    target: ChangeTarget,
+    location: string,
+    message: string,
+    before?: unknown,
+    after?: unknown,
+  ): void {
+    const change: DiffChange = {
+      code,
+      severity: this.options.severityOverrides?.[code] ?? severity,
+      target,
+      location,
+      message,
+    };
+    if (before !== undefined) change.before = before;
+    if (after !== undefined) change.after = after;
+    this.changes.push(change);
+  }
+}
+
+/**
+ * API 唯一键(如 'GET /users/{id}')
+ */
+function apiKey(api: ApiDefinition): string {
+  return `${api.method} ${api.path}`;
+}
+
+/**
+ * Schema 引用的文本表示
+ */
+function describeReference(reference: SchemaReference): string {
+  if (reference.type === 'ref') return reference.ref ?? 'unknown';
+  return reference.schema?.name ?? 'inline schema';
+}
+
+function formatValues(values: Array<string | number>): string {
+  return values.map((value) => `\`${JSON.stringify(value)}\``).join(', ');
+}
+
+function formatConstraint(value: unknown): string {
+  return value === undefined ? 'none' : `\`${String(value)}\``;
+}
@@ -0,0 +1,8 @@
+/**
+ * StandardOutput 变更对比
+ * 对比两个版本的输出，按对前端的影响将变更分为 breaking / non-breaking / info
+ */
+
+export * from './types';
+export { diffStandardOutput } from './compare';
+export { formatDiffMarkdown } from './markdown';
@@ -0,0 +1,63 @@
+/**
+ * Markdown 变更日志
+ */
+
+import type {
+  ChangeSeverity,
+  DiffChange,
+  DiffMarkdownOptions,
+  DiffReport,
+} from './types';
+
+const SECTIONS: Array<{ severity: ChangeSeverity; title: string }> = [
+  { severity: 'breaking', title: '⚠️ Breaking Changes' },
+  { severity: 'non-breaking', title: 'Non-breaking Changes' },
+  { severity: 'info', title: 'Other Changes' },
+];
+
+/**
+ * 将对比报告格式化为 Markdown 变更日志
+ *
+ * @param report diffStandardOutput 的返回值
+ * @param options 格式化选项
+ * @returns Markdown 文本(以换行结尾)
+ *
+ * @example
+ * # API Changelog
+ *
+ * 1 breaking, 1 non-breaking, 0 info
+ *
+ * ## ⚠️ Breaking Changes
+ *
+ * - `DELETE /users/{id}`: API removed
+ */
+export function formatDiffMarkdown(
+  report: DiffReport,
+  options: DiffMarkdownOptions = {},
+): string {
+  const lines = [`# ${options.title ?? 'API Changelog'}`, ''];
+
+  if (report.changes.length === 0) {
+    lines.push('No changes.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  const { breaking, nonBreaking, info } = report.summary;
+  lines.push(`${breaking} breaking, ${nonBreaking} non-breaking, ${info} info`);
+
+  for (const { severity, title } of SECTIONS) {
+    const changes = report.changes.filter((c) => c.severity === severity);
+    if (changes.length === 0) continue;
+
+    lines.push('', `## ${title}`, '');
+    for (const change of changes) {
+      lines.push(formatChange(change));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function formatChange(change: DiffChange): string {
+  return `- \`${change.location}\`: ${change.message}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * 变更对比相关类型定义
+ */
+
+/**
+ * 变更级别
+ * - breaking: 前端需要修改代码或会在运行时出错
+ * - non-breaking: 向后兼容的新增或放宽
+ * - info: 仅供参考(废弃标记、baseUrl 变化等)
+ */
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'info';
+
+/**
+ * 变更对象
+ */
+export type ChangeTarget = 'api' | 'schema' | 'metadata';
+
+/**
+ * 变更代码
+ */
+export type ChangeCode =
+  // ======== API ========
+  | 'API_REMOVED'
+  | 'API_ADDED'
+  | 'API_DEPRECATED'
+  | 'OPERATION_ID_CHANGED'
+  | 'PARAMETERS_ADDED'
+  | 'PARAMETERS_REMOVED'
+  | 'REQUEST_BODY_ADDED'
+  | 'REQUEST_BODY_REMOVED'
+  | 'REQUEST_BODY_REQUIRED'
+  | 'REQUEST_BODY_OPTIONAL'
+  | 'RESPONSE_ADDED'
+  | 'RESPONSE_REMOVED'
+  | 'MEDIA_TYPE_ADDED'
+  | 'MEDIA_TYPE_REMOVED'
+  | 'SCHEMA_REF_CHANGED'
+  // ======== Schema ========
+  | 'SCHEMA_REMOVED'
+  | 'SCHEMA_ADDED'
+  | 'SCHEMA_DEPRECATED'
+  | 'SCHEMA_TYPE_CHANGED'
+  | 'EXTENDS_REMOVED'
+  | 'EXTENDS_ADDED'
+  | 'ITEMS_CHANGED'
+  | 'ADDITIONAL_PROPERTIES_CHANGED'
+  | 'PROPERTY_REMOVED'
+  | 'PROPERTY_ADDED'
+  | 'PROPERTY_TYPE_CHANGED'
+  | 'PROPERTY_REQUIRED'
+  | 'PROPERTY_OPTIONAL'
+  | 'PROPERTY_NULLABLE'
+  | 'PROPERTY_NOT_NULLABLE'
+  | 'FORMAT_CHANGED'
+  | 'ENUM_VALUES_REMOVED'
+  | 'ENUM_VALUES_ADDED'
+  | 'CONSTRAINT_TIGHTENED'
+  | 'CONSTRAINT_RELAXED'
+  // ======== 元数据 ========
+  | 'BASE_URL_CHANGED';
+
+/**
+ * 单条变更
+ */
+export interface DiffChange {
+  /** 变更代码 */
+  code: ChangeCode;
+  /** 变更级别 */
+  severity: ChangeSeverity;
+  /** 变更对象 */
+  target: ChangeTarget;
+  /**
+   * 变更位置
+   * - API: 'GET /users/{id}'
+   * - Schema: 'User' 或 'User.name'
+   * - 内联 Schema: 'GET /users/{id} 200 application/json'
+   */
+  location: string;
+  /** 人类可读的描述 */
+  message: string;
+  /** 变更前的值 */
+  before?: unknown;
+  /** 变更后的值 */
+  after?: unknown;
+}
+
+/**
+ * 各级别的变更数量
+ */
+export interface DiffSummary {
+  breaking: number;
+  nonBreaking: number;
+  info: number;
+}
+
+/**
+ * 对比报告(机器可读)
+ */
+export interface DiffReport {
+  /** 是否存在破坏性变更 */
+  hasBreakingChanges: boolean;
+  /** 各级别的变更数量 */
+  summary: DiffSummary;
+  /** 全部变更(先 API，再 Schema，最后元数据) */
+  changes: DiffChange[];
+}
+
+/**
+ * 对比选项
+ */
+export interface DiffOptions {
+  /**
+   * 覆盖指定变更代码的级别
+   * 例如团队约定 operationId 变化不算破坏性变更：
+   * `{ OPERATION_ID_CHANGED: 'info' }`
+   */
+  severityOverrides?: Partial<Record<ChangeCode, ChangeSeverity>>;
+}
+
+/**
+ * Markdown 变更日志选项
+ */
+export interface DiffMarkdownOptions {
+  /** 标题(默认 'API Changelog') */
+  title?: string;
+}
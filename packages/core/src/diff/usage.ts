@@ -0,0 +1,141 @@
+/**
+ * Schema 使用方向分析
+ *
+ * 同样的变化对请求和响应的影响相反：
+ * 属性变为必填会破坏请求方，却不会影响读取响应的一方。
+ * 因此需要先从 API 出发，找到每个 Schema 出现在请求中、响应中还是两者都有。
+ */
+
+import type {
+  ApiDefinition,
+  SchemaDefinition,
+  SchemaReference,
+  StandardOutput,
+} from '../types';
+
+/**
+ * Schema 的使用方向
+ */
+export type SchemaUsage = 'request' | 'response';
+
+/**
+ * 计算每个 Schema 的使用方向
+ * 未被任何 API 引用的 Schema 不在结果中(对比时按两个方向都使用处理)
+ *
+ * @param outputs 参与对比的输出(通常是变更前后两份)
+ * @returns Schema 名称 -> 使用方向
+ */
+export function collectSchemaUsage(
+  outputs: StandardOutput[],
+): Map<string, Set<SchemaUsage>> {
+  const usage = new Map<string, Set<SchemaUsage>>();
+
+  for (const output of outputs) {
+    const names = new Set(Object.keys(output.schemas));
+    const visit = (roots: string[], direction: SchemaUsage) => {
+      const queue = [...roots];
+      while (queue.length > 0) {
+        const name = queue.shift()!;
+        const directions = usage.get(name) ?? new Set<SchemaUsage>();
+        if (directions.has(direction)) continue;
+        directions.add(direction);
+        usage.set(name, directions);
+
+        const schema = output.schemas[name];
+        if (schema) queue.push(...collectSchemaDependencies(schema, names));
+      }
+    };
+
+    for (const api of output.apis) {
+      visit(collectApiRefs(api, 'request', names), 'request');
+      visit(collectApiRefs(api, 'response', names), 'response');
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * 收集 API 在某个方向上直接引用的 Schema
+ */
+function collectApiRefs(
+  api: ApiDefinition,
+  direction: SchemaUsage,
+  names: Set<string>,
+): string[] {
+  const refs: SchemaReference[] = [];
+
+  if (direction === 'request') {
+    refs.push(...Object.values(api.parameters ?? {}));
+    for (const media of Object.values(api.requestBody?.content ?? {})) {
+      refs.push(media.schema);
+    }
+  } else {
+    for (const response of Object.values(api.responses)) {
+      for (const media of Object.values(response.content ?? {})) {
+        refs.push(media.schema);
+      }
+      for (const header of Object.values(response.headers ?? {})) {
+        refs.push(header.schema);
+      }
+    }
+  }
+
+  return refs.flatMap((ref) => collectReferenceNames(ref, names));
+}
+
+/**
+ * 收集 Schema 依赖的其他 Schema
+ */
+function collectSchemaDependencies(
+  schema: Partial<SchemaDefinition>,
+  names: Set<string>,
+): string[] {
+  const result: string[] = [];
+
+  for (const property of Object.values(schema.properties ?? {})) {
+    result.push(...extractTypeNames(property.type, names));
+  }
+  if (schema.items) {
+    result.push(...collectReferenceNames(schema.items, names));
+  }
+  if (schema.additionalProperties) {
+    result.push(...collectReferenceNames(schema.additionalProperties, names));
+  }
+  for (const base of schema.extends ?? []) {
+    result.push(...extractTypeNames(base, names));
+  }
+  if (schema.baseType) {
+    result.push(...extractTypeNames(schema.baseType, names));
+  }
+  if (schema.genericParam) {
+    result.push(...extractTypeNames(schema.genericParam, names));
+  }
+
+  return result;
+}
+
+/**
+ * 收集 SchemaReference 引用的 Schema
+ */
+function collectReferenceNames(
+  reference: SchemaReference,
+  names: Set<string>,
+): string[] {
+  if (reference.type === 'ref') {
+    return extractTypeNames(reference.ref ?? '', names);
+  }
+  return reference.schema
+    ? collectSchemaDependencies(reference.schema, names)
+    : [];
+}
+
+/**
+ * 从 TS 类型字符串中提取 Schema 名称
+ * 例如 'Record<string, User[]>' -> ['User']
+ */
+function extractTypeNames(type: string, names: Set<string>): string[] {
+  return (type.match(/[A-Za-z_$][\w$]*/g) ?? []).filter((identifier) =>
+    names.has(identifier),
+  );
+}
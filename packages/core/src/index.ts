@@ -6,3 +6,12 @@
 
 // 导出标准类型定义
 export * from './types';
+
+// 导出变更对比
+export * from './diff';
+
+// 导出 Mock 数据生成
+export * from './mock';
+
+// 导出插件
+export * from './plugin';
@@ -141,6 +141,7 @@ export type WarningType =
   | 'fixedBrokenRefs'
   | 'fixedNullTypes'
   | 'renamedDuplicateOperationIds'
+  | 'renamedCollidingSchemas'
   | 'validationSkipped';
 
 export interface WarningsSummaryMeta {
@@ -198,6 +199,12 @@ export interface WarningsSummaryMeta {
      * openapi-typescript / redocly 等工具要求每个 operationId 唯一。
      */
     renamedDuplicateOperationIds?: number;
+    /**
+     * 合并多个模块/分支时，因重名且内容不同而重命名的 schema 数量。
+     *
+     * 先出现的模块保留原名，后出现的模块追加模块名后缀。
+     */
+    renamedCollidingSchemas?: number;
     /**
      * 是否启用了 swagger-parser 校验。
      *
@@ -236,6 +243,15 @@ export interface WarningsSummaryMeta {
       path: string;
       method: string;
     }>;
+    /**
+     * 合并模块时的 schema 重名样本列表。
+     *
+     * - from/to: 重命名前后的 schema key
+     * - origin: schema 所属模块/分支的名称
+     *
+     * 仅保留部分样本，数量受 `logSampleLimit` 限制。
+     */
+    collidingSchemas?: Array<{ from: string; to: string; origin: string }>;
   };
 }
 
@@ -260,6 +276,8 @@ export function createWarningsCollector(params: {
     path: string;
     method: string;
   }) => void;
+  /** 记录一次合并模块时的 schema 重名（带 sample） */
+  addCollidingSchema: (p: { from: string; to: string; origin: string }) => void;
   /**
    * 输出 warnings summary（Scheme A：仅在末尾输出一次汇总）。
    *
@@ -294,6 +312,7 @@ export function createWarningsCollector(params: {
     (stats.fixedBrokenRefs ?? 0) +
     (stats.fixedNullTypes ?? 0) +
     (stats.renamedDuplicateOperationIds ?? 0) +
+    (stats.renamedCollidingSchemas ?? 0) +
     (stats.validation === 'skipped' ? 1 : 0);
 
   return {
@@ -312,6 +331,9 @@ export function createWarningsCollector(params: {
       } else if (type === 'renamedDuplicateOperationIds') {
         stats.renamedDuplicateOperationIds =
           (stats.renamedDuplicateOperationIds ?? 0) + 1;
+      } else if (type === 'renamedCollidingSchemas') {
+        stats.renamedCollidingSchemas =
+          (stats.renamedCollidingSchemas ?? 0) + 1;
       }
     },
     addRenamedSchema: (from, to) => {
@@ -333,6 +355,10 @@ export function createWarningsCollector(params: {
         p,
       );
     },
+    addCollidingSchema: (p) => {
+      stats.renamedCollidingSchemas = (stats.renamedCollidingSchemas ?? 0) + 1;
+      samples.collidingSchemas = ensureLimitPush(samples.collidingSchemas, p);
+    },
     flush: ({ durationMs, validation }) => {
       stats.validation = validation;
       if (!shouldLog('warn', logger.logLevel)) return;
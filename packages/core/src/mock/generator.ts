@@ -0,0 +1,537 @@
+/**
+ * Mock 数据生成
+ */
+
+import type {
+  PropertyDefinition,
+  SchemaDefinition,
+  SchemaReference,
+  StandardOutput,
+} from '../types';
+import { SeededRandom } from './random';
+import { parseTypeString, type TypeNode } from './type-string';
+import type { MockOptions } from './types';
+
+/** 超过最大深度时的占位值，由上层决定如何截断 */
+const TOO_DEEP = Symbol('too-deep');
+type MockValue = unknown;
+
+const WORDS = [
+  'alpha',
+  'bravo',
+  'charlie',
+  'delta',
+  'echo',
+  'foxtrot',
+  'golf',
+  'hotel',
+  'india',
+  'juliet',
+  'kilo',
+  'lima',
+];
+
+const DEFAULT_BASE_DATE = new Date('2024-01-01T00:00:00.000Z');
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * 根据 Schema 生成 Mock 数据
+ *
+ * @param output 标准输出(或只包含 schemas/interfaces 的子集)
+ * @param target Schema 名称、类型字符串(如 User[])或 SchemaReference
+ * @param options 生成选项
+ * @returns 生成的数据
+ *
+ * @example
+ * const user = generateMockData(output, 'User', { seed: 42 });
+ * const users = generateMockData(output, 'User[]');
+ */
+export function generateMockData(
+  output: Pick<StandardOutput, 'schemas'> & Partial<StandardOutput>,
+  target: string | SchemaReference,
+  options: MockOptions = {},
+): unknown {
+  const generator = new MockDataGenerator(output, options);
+  return typeof target === 'string'
+    ? generator.fromType(target)
+    : generator.fromReference(target);
+}
+
+/**
+ * Mock 数据生成器
+ * 同一实例内随机序列连续推进，需要复现时使用相同种子创建新实例
+ */
+export class MockDataGenerator {
+  private random: SeededRandom;
+  private schemas: Record<string, SchemaDefinition>;
+  private interfaces: Record<string, string>;
+  private maxDepth: number;
+  private arrayLength: { min: number; max: number };
+  private optionalProperties: boolean;
+  private useExamples: boolean;
+  private baseDate: Date;
+  /** 自增序号(用于生成不重复的 email 等) */
+  private sequence = 0;
+
+  constructor(
+    output: Pick<StandardOutput, 'schemas'> & Partial<StandardOutput>,
+    options: MockOptions = {},
+  ) {
+    this.schemas = output.schemas;
+    this.interfaces = output.interfaces ?? {};
+    this.random = new SeededRandom(options.seed ?? 1);
+    this.maxDepth = options.maxDepth ?? 3;
+    this.arrayLength = options.arrayLength ?? { min: 1, max: 3 };
+    this.optionalProperties = options.optionalProperties ?? true;
+    this.useExamples = options.useExamples ?? true;
+    this.baseDate = options.baseDate ?? DEFAULT_BASE_DATE;
+  }
+
+  /**
+   * 按类型字符串生成(如 User、User[]、string | null)
+   */
+  fromType(type: string): unknown {
+    return this.finalize(this.typeValue(parseTypeString(type), [], new Map()));
+  }
+
+  /**
+   * 按 SchemaReference 生成
+   */
+  fromReference(reference: SchemaReference): unknown {
+    return this.finalize(this.referenceValue(reference, [], new Map()));
+  }
+
+  /**
+   * 按 Schema 名称生成
+   */
+  fromSchema(name: string): unknown {
+    return this.fromType(name);
+  }
+
+  // ===================================================================================
+  // Schema
+  // ===================================================================================
+
+  private referenceValue(
+    reference: SchemaReference,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    if (reference.type === 'ref' && reference.ref) {
+      return this.typeValue(parseTypeString(reference.ref), stack, bindings);
+    }
+    if (reference.schema) {
+      return this.schemaValue(reference.schema, stack, bindings);
+    }
+    return {};
+  }
+
+  private schemaValue(
+    schema: Partial<SchemaDefinition>,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    if (this.useExamples && schema.example !== undefined) {
+      return structuredClone(schema.example);
+    }
+    if (this.useExamples && schema.default !== undefined) {
+      return structuredClone(schema.default);
+    }
+
+    switch (schema.type) {
+      case 'enum':
+        return schema.enum?.length ? this.random.pick(schema.enum) : null;
+      case 'array':
+        return this.arrayValue(
+          (s) =>
+            schema.items
+              ? this.referenceValue(schema.items, s, bindings)
+              : this.stringValue(),
+          stack,
+        );
+      case 'union':
+        return this.unionValue(schema, stack, bindings);
+      case 'primitive':
+        return (
+          this.aliasValue(schema.name, stack, bindings) ?? this.stringValue()
+        );
+      default:
+        return this.objectValue(schema, stack, bindings);
+    }
+  }
+
+  private objectValue(
+    schema: Partial<SchemaDefinition>,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    const hasStructure =
+      Object.keys(schema.properties ?? {}).length > 0 ||
+      !!schema.extends?.length ||
+      !!schema.additionalProperties;
+    // 无法从结构推断(如类型别名)时尝试解析接口代码
+    if (!hasStructure) {
+      const alias = this.aliasValue(schema.name, stack, bindings);
+      if (alias !== undefined) return alias;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const base of schema.extends ?? []) {
+      const value = this.typeValue(parseTypeString(base), stack, bindings);
+      if (isPlainObject(value)) Object.assign(result, value);
+    }
+    if (schema.additionalProperties) {
+      const value = this.referenceValue(
+        schema.additionalProperties,
+        stack,
+        bindings,
+      );
+      if (value !== TOO_DEEP) result.additionalProp1 = value;
+    }
+    for (const property of Object.values(schema.properties ?? {})) {
+      if (!property.required && !this.optionalProperties) continue;
+      const value = this.propertyValue(property, stack, bindings);
+      if (value === TOO_DEEP) {
+        if (!property.required) continue;
+        result[property.name] = property.nullable ? null : {};
+      } else {
+        result[property.name] = value;
+      }
+    }
+    return result;
+  }
+
+  private unionValue(
+    schema: Partial<SchemaDefinition>,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    const variants = schema.variants ?? [];
+    if (variants.length === 0) return {};
+
+    const variant = this.random.pick(variants);
+    const value = this.referenceValue(variant, stack, bindings);
+
+    // 可辨识联合：保证鉴别属性与所选成员一致
+    const discriminator = schema.discriminator;
+    if (discriminator && isPlainObject(value) && variant.type === 'ref') {
+      const tag = Object.entries(discriminator.mapping ?? {}).find(
+        ([, target]) => target === variant.ref,
+      )?.[0];
+      if (tag !== undefined) value[discriminator.propertyName] = tag;
+    }
+    return value;
+  }
+
+  /**
+   * 解析类型别名代码(export type X = ...)生成数据
+   */
+  private aliasValue(
+    name: string | undefined,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue | undefined {
+    const code = name ? this.interfaces[name] : undefined;
+    const match = code?.match(
+      /type\s+[\w$]+(?:<[^=]*>)?\s*=\s*([\s\S]*?);?\s*$/,
+    );
+    if (!match) return undefined;
+    return this.typeValue(parseTypeString(match[1]!), stack, bindings);
+  }
+
+  // ===================================================================================
+  // 属性
+  // ===================================================================================
+
+  private propertyValue(
+    property: PropertyDefinition,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    if (this.useExamples && property.example !== undefined) {
+      return structuredClone(property.example);
+    }
+    if (this.useExamples && property.default !== undefined) {
+      return structuredClone(property.default);
+    }
+    if (property.enum?.length) {
+      return this.random.pick(property.enum);
+    }
+
+    const node = parseTypeString(property.type);
+    const keyword = this.nonNullable(node);
+    if (keyword?.kind === 'keyword' && keyword.name === 'string') {
+      return this.stringValue(property);
+    }
+    if (keyword?.kind === 'keyword' && keyword.name === 'number') {
+      return this.numberValue(property);
+    }
+    return this.typeValue(node, stack, bindings);
+  }
+
+  // ===================================================================================
+  // 类型字符串
+  // ===================================================================================
+
+  private typeValue(
+    node: TypeNode,
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    switch (node.kind) {
+      case 'union': {
+        // 不主动生成 null/undefined，除非没有其他选择
+        const candidates = node.types.filter((t) => !isEmptyType(t));
+        if (candidates.length === 0) return null;
+        return this.typeValue(this.random.pick(candidates), stack, bindings);
+      }
+      case 'intersection': {
+        const result: Record<string, unknown> = {};
+        for (const part of node.types) {
+          const value = this.typeValue(part, stack, bindings);
+          if (value === TOO_DEEP) return TOO_DEEP;
+          if (isPlainObject(value)) Object.assign(result, value);
+        }
+        return result;
+      }
+      case 'array':
+        return this.arrayValue(
+          (s) => this.typeValue(node.element, s, bindings),
+          stack,
+        );
+      case 'record': {
+        const value = this.typeValue(node.value, stack, bindings);
+        return value === TOO_DEEP ? {} : { additionalProp1: value };
+      }
+      case 'literal':
+        return node.value;
+      case 'object': {
+        const result: Record<string, unknown> = {};
+        if (node.index && node.members.length === 0) {
+          const value = this.typeValue(node.index, stack, bindings);
+          if (value !== TOO_DEEP) result.additionalProp1 = value;
+        }
+        for (const member of node.members) {
+          if (member.optional && !this.optionalProperties) continue;
+          const value = this.typeValue(member.type, stack, bindings);
+          if (value === TOO_DEEP) {
+            if (!member.optional) result[member.name] = {};
+          } else {
+            result[member.name] = value;
+          }
+        }
+        return result;
+      }
+      case 'keyword':
+        return this.keywordValue(node.name);
+      case 'reference':
+        return this.namedValue(node.name, node.args, stack, bindings);
+    }
+  }
+
+  /**
+   * 生成命名类型(Schema 或泛型参数)的数据
+   */
+  private namedValue(
+    name: string,
+    args: TypeNode[],
+    stack: readonly string[],
+    bindings: Map<string, TypeNode>,
+  ): MockValue {
+    const bound = bindings.get(name);
+    if (bound) return this.typeValue(bound, stack, bindings);
+
+    const schema = this.schemas[name];
+    if (!schema) {
+      const alias = this.aliasValue(name, stack, bindings);
+      return alias ?? {};
+    }
+    // 同一 Schema 在当前路径上出现次数达到上限时截断(处理递归结构)
+    if (stack.filter((n) => n === name).length >= this.maxDepth) {
+      return TOO_DEEP;
+    }
+
+    // 泛型基类: PageVO<User> 中将 T 绑定为 User
+    const scope = new Map<string, TypeNode>();
+    if (schema.genericParam && args[0]) {
+      scope.set(schema.genericParam, args[0]);
+    } else if (schema.isGeneric && args[0]) {
+      scope.set('T', args[0]);
+    }
+    const resolvedScope = new Map(
+      Array.from(scope, ([key, value]) => [
+        key,
+        // 参数在调用方作用域内解析
+        this.bindNode(value, bindings),
+      ]),
+    );
+    return this.schemaValue(schema, [...stack, name], resolvedScope);
+  }
+
+  /**
+   * 将类型中引用的泛型参数替换为调用方作用域中的绑定
+   */
+  private bindNode(node: TypeNode, bindings: Map<string, TypeNode>): TypeNode {
+    if (bindings.size === 0) return node;
+    switch (node.kind) {
+      case 'reference':
+        if (node.args.length === 0 && bindings.has(node.name)) {
+          return bindings.get(node.name)!;
+        }
+        return {
+          ...node,
+          args: node.args.map((arg) => this.bindNode(arg, bindings)),
+        };
+      case 'union':
+      case 'intersection':
+        return {
+          ...node,
+          types: node.types.map((t) => this.bindNode(t, bindings)),
+        };
+      case 'array':
+        return { ...node, element: this.bindNode(node.element, bindings) };
+      case 'record':
+        return { ...node, value: this.bindNode(node.value, bindings) };
+      case 'object':
+        return {
+          ...node,
+          members: node.members.map((member) => ({
+            ...member,
+            type: this.bindNode(member.type, bindings),
+          })),
+        };
+      default:
+        return node;
+    }
+  }
+
+  private arrayValue(
+    item: (stack: readonly string[]) => MockValue,
+    stack: readonly string[],
+  ): MockValue {
+    const length = this.random.int(this.arrayLength.min, this.arrayLength.max);
+    const result: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      const value = item(stack);
+      // 元素超过深度时返回空数组，用于终止递归
+      if (value === TOO_DEEP) return [];
+      result.push(value);
+    }
+    return result;
+  }
+
+  private keywordValue(name: string): MockValue {
+    switch (name) {
+      case 'string':
+        return this.stringValue();
+      case 'number':
+        return this.numberValue();
+      case 'boolean':
+        return this.random.bool();
+      case 'date':
+        return this.dateValue().toISOString();
+      case 'binary':
+        return '';
+      case 'undefined':
+        return null;
+      default:
+        return {};
+    }
+  }
+
+  // ===================================================================================
+  // 基础值
+  // ===================================================================================
+
+  private stringValue(property?: PropertyDefinition): string {
+    let value: string;
+    switch (property?.format) {
+      case 'email':
+        value = `${this.random.pick(WORDS)}${++this.sequence}@example.com`;
+        break;
+      case 'date-time':
+        value = this.dateValue().toISOString();
+        break;
+      case 'date':
+        value = this.dateValue().toISOString().slice(0, 10);
+        break;
+      case 'uuid':
+        value = this.uuidValue();
+        break;
+      case 'uri':
+      case 'url':
+        value = `https://example.com/${this.random.pick(WORDS)}/${this.random.int(1, 999)}`;
+        break;
+      case 'hostname':
+        value = `${this.random.pick(WORDS)}.example.com`;
+        break;
+      case 'ipv4':
+        value = Array.from({ length: 4 }, () => this.random.int(1, 254)).join(
+          '.',
+        );
+        break;
+      case 'binary':
+      case 'byte':
+        value = '';
+        break;
+      default:
+        value = `${this.random.pick(WORDS)} ${this.random.pick(WORDS)}`;
+    }
+
+    const min = property?.minLength;
+    const max = property?.maxLength;
+    if (min !== undefined && value.length < min) {
+      value = value.padEnd(min, 'x');
+    }
+    if (max !== undefined && value.length > max) {
+      value = value.slice(0, max);
+    }
+    return value;
+  }
+
+  private numberValue(property?: PropertyDefinition): number {
+    const min = property?.minimum ?? 0;
+    const max = property?.maximum ?? min + 1000;
+    if (property?.format === 'float' || property?.format === 'double') {
+      const value = min + this.random.next() * (max - min);
+      return Math.round(value * 100) / 100;
+    }
+    return this.random.int(min, max);
+  }
+
+  private dateValue(): Date {
+    return new Date(
+      this.baseDate.getTime() + Math.floor(this.random.next() * YEAR_MS),
+    );
+  }
+
+  private uuidValue(): string {
+    const hex = (length: number) =>
+      Array.from({ length }, () => this.random.int(0, 15).toString(16)).join(
+        '',
+      );
+    const variant = this.random.pick(['8', '9', 'a', 'b']);
+    return `${hex(8)}-${hex(4)}-4${hex(3)}-${variant}${hex(3)}-${hex(12)}`;
+  }
+
+  private nonNullable(node: TypeNode): TypeNode | undefined {
+    if (node.kind !== 'union') return node;
+    const types = node.types.filter((t) => !isEmptyType(t));
+    return types.length === 1 ? types[0] : undefined;
+  }
+
+  private finalize(value: MockValue): unknown {
+    return value === TOO_DEEP ? null : value;
+  }
+}
+
+function isEmptyType(node: TypeNode): boolean {
+  return (
+    (node.kind === 'literal' && node.value === null) ||
+    (node.kind === 'keyword' && node.name === 'undefined')
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
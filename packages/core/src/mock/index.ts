@@ -0,0 +1,7 @@
+/**
+ * Mock 数据生成
+ * 根据 SchemaDefinition 生成贴近真实的示例数据，相同种子总是得到相同结果
+ */
+
+export * from './types';
+export { generateMockData, MockDataGenerator } from './generator';
@@ -0,0 +1,46 @@
+/**
+ * 可设置种子的伪随机数生成器 (mulberry32)
+ * Math.random 无法复现，测试快照与 fixture 需要稳定的输出
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * [0, 1) 区间的随机数
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * [min, max] 区间的随机整数
+   */
+  int(min: number, max: number): number {
+    const low = Math.ceil(min);
+    const high = Math.floor(max);
+    if (high <= low) return low;
+    return low + Math.floor(this.next() * (high - low + 1));
+  }
+
+  /**
+   * 随机选取数组中的一项
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)]!;
+  }
+
+  /**
+   * 随机布尔值
+   */
+  bool(): boolean {
+    return this.next() < 0.5;
+  }
+}
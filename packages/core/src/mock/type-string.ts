@@ -0,0 +1,240 @@
+/**
+ * TypeScript 类型字符串解析
+ * PropertyDefinition.type / SchemaReference.ref 中保存的是 TS 类型字符串(如 User[] | null)，
+ * 这里解析为简单的结构，供 Mock 数据生成使用
+ */
+
+/**
+ * 类型节点
+ */
+export type TypeNode =
+  | { kind: 'union'; types: TypeNode[] }
+  | { kind: 'intersection'; types: TypeNode[] }
+  | { kind: 'array'; element: TypeNode }
+  | { kind: 'record'; value: TypeNode }
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'keyword'; name: KeywordType }
+  | { kind: 'object'; members: ObjectMember[]; index?: TypeNode }
+  | { kind: 'reference'; name: string; args: TypeNode[] };
+
+/**
+ * 关键字类型
+ */
+export type KeywordType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'unknown'
+  | 'undefined'
+  | 'date'
+  | 'binary';
+
+/**
+ * 对象字面量成员
+ */
+export interface ObjectMember {
+  name: string;
+  optional: boolean;
+  type: TypeNode;
+}
+
+const KEYWORDS: Record<string, KeywordType> = {
+  string: 'string',
+  number: 'number',
+  integer: 'number',
+  bigint: 'number',
+  boolean: 'boolean',
+  any: 'unknown',
+  unknown: 'unknown',
+  object: 'unknown',
+  never: 'undefined',
+  void: 'undefined',
+  undefined: 'undefined',
+  Date: 'date',
+  Blob: 'binary',
+  File: 'binary',
+};
+
+const OPENERS: Record<string, string> = {
+  '(': ')',
+  '<': '>',
+  '{': '}',
+  '[': ']',
+};
+
+/**
+ * 解析类型字符串
+ * 无法识别的写法会被视为 unknown
+ *
+ * @example
+ * parseTypeString('User[] | null')
+ * // { kind: 'union', types: [{ kind: 'array', ... }, { kind: 'literal', value: null }] }
+ */
+export function parseTypeString(text: string): TypeNode {
+  let type = text.trim();
+  if (!type) return { kind: 'keyword', name: 'unknown' };
+
+  // 去除包裹整个类型的括号: (A | B)
+  while (type.startsWith('(') && closingIndex(type, 0) === type.length - 1) {
+    type = type.slice(1, -1).trim();
+  }
+
+  const union = splitTopLevel(type, '|');
+  if (union.length > 1) {
+    return { kind: 'union', types: union.map(parseTypeString) };
+  }
+  const intersection = splitTopLevel(type, '&');
+  if (intersection.length > 1) {
+    return { kind: 'intersection', types: intersection.map(parseTypeString) };
+  }
+
+  if (type.endsWith('[]')) {
+    return { kind: 'array', element: parseTypeString(type.slice(0, -2)) };
+  }
+
+  const literal = parseLiteral(type);
+  if (literal) return literal;
+
+  if (type.startsWith('{')) {
+    return parseObjectLiteral(type.slice(1, -1));
+  }
+
+  const generic = type.match(/^([\w$.]+)\s*<([\s\S]*)>$/);
+  if (generic) {
+    const name = generic[1]!;
+    const args = splitTopLevel(generic[2]!, ',').map(parseTypeString);
+    if (name === 'Array' || name === 'ReadonlyArray') {
+      return { kind: 'array', element: args[0] ?? unknownNode() };
+    }
+    if (name === 'Record') {
+      return { kind: 'record', value: args[1] ?? unknownNode() };
+    }
+    return { kind: 'reference', name, args };
+  }
+
+  const keyword = KEYWORDS[type];
+  if (keyword) return { kind: 'keyword', name: keyword };
+
+  if (/^[\w$.]+$/.test(type)) {
+    return { kind: 'reference', name: type, args: [] };
+  }
+  return unknownNode();
+}
+
+function unknownNode(): TypeNode {
+  return { kind: 'keyword', name: 'unknown' };
+}
+
+function parseLiteral(type: string): TypeNode | undefined {
+  if (type === 'null') return { kind: 'literal', value: null };
+  if (type === 'true' || type === 'false') {
+    return { kind: 'literal', value: type === 'true' };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(type)) {
+    return { kind: 'literal', value: Number(type) };
+  }
+  const quote = type[0];
+  if ((quote === '"' || quote === "'") && type.endsWith(quote)) {
+    return {
+      kind: 'literal',
+      value: type.slice(1, -1).replace(/\\(.)/g, '$1'),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * 解析对象字面量: `a: string; b?: number; [key: string]: unknown`
+ */
+function parseObjectLiteral(body: string): TypeNode {
+  const members: ObjectMember[] = [];
+  let index: TypeNode | undefined;
+  for (const part of splitTopLevel(body, ';').flatMap((p) =>
+    splitTopLevel(p, ','),
+  )) {
+    // 去除成员前的注释与 readonly 修饰
+    const text = part
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .trim()
+      .replace(/^readonly\s+/, '');
+    const colon = topLevelIndex(text, ':');
+    if (colon < 0) continue;
+
+    let name = text.slice(0, colon).trim();
+    // 索引签名 [key: string]: T
+    if (name.startsWith('[')) {
+      index = parseTypeString(text.slice(colon + 1));
+      continue;
+    }
+    const optional = name.endsWith('?');
+    if (optional) name = name.slice(0, -1).trim();
+    name = name.replace(/^["'](.*)["']$/, '$1');
+
+    members.push({
+      name,
+      optional,
+      type: parseTypeString(text.slice(colon + 1)),
+    });
+  }
+  return { kind: 'object', members, ...(index && { index }) };
+}
+
+/**
+ * 按顶层分隔符拆分(忽略括号与字符串内部)
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char in OPENERS || char === '"' || char === "'") {
+      i = closingIndex(text, i);
+    } else if (char === separator) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function topLevelIndex(text: string, target: string): number {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char in OPENERS || char === '"' || char === "'") {
+      i = closingIndex(text, i);
+    } else if (char === target) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 查找与 start 处括号/引号匹配的结束位置(找不到时返回末尾)
+ */
+function closingIndex(text: string, start: number): number {
+  const open = text[start]!;
+  if (open === '"' || open === "'") {
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === '\\') i++;
+      else if (text[i] === open) return i;
+    }
+    return text.length - 1;
+  }
+
+  const close = OPENERS[open]!;
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === '"' || char === "'") {
+      i = closingIndex(text, i);
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && !(close === '>' && text[i - 1] === '=')) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return text.length - 1;
+}
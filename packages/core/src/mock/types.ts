@@ -0,0 +1,36 @@
+/**
+ * Mock 数据生成相关类型定义
+ */
+
+/**
+ * Mock 数据生成选项
+ */
+export interface MockOptions {
+  /**
+   * 随机数种子(默认 1)
+   * 相同的种子与输入总是生成相同的数据
+   */
+  seed?: number;
+
+  /**
+   * 递归深度上限(默认 3)
+   * 同一 Schema 在嵌套路径上出现的次数达到上限时截断：
+   * 可选属性省略、数组置空、必填属性置为 null(可空时) 或 {}
+   */
+  maxDepth?: number;
+
+  /** 数组长度范围(默认 { min: 1, max: 3 }) */
+  arrayLength?: { min: number; max: number };
+
+  /** 是否生成可选属性(默认 true) */
+  optionalProperties?: boolean;
+
+  /** 是否优先使用 example / default(默认 true) */
+  useExamples?: boolean;
+
+  /**
+   * date / date-time 的基准时间(默认 2024-01-01T00:00:00.000Z)
+   * 生成的时间位于基准时间之后一年内
+   */
+  baseDate?: Date;
+}
@@ -0,0 +1,8 @@
+/**
+ * 适配器插件
+ * 在解析前后对原始文档、Schema、API 与最终输出进行加工
+ */
+
+export * from './types';
+export { PluginRunner } from './runner';
+export { renameSchemas } from './rename';
@@ -0,0 +1,118 @@
+/**
+ * Schema 重命名
+ * 将 StandardOutput 中所有对旧名称的引用替换为新名称
+ */
+
+import type {
+  MediaTypeDefinition,
+  SchemaDefinition,
+  SchemaReference,
+  StandardOutput,
+} from '../types/standard';
+
+/**
+ * 类型字符串/代码中的可替换标识符
+ * 注释与字符串字面量(如鉴别值 "User")原样保留，属性名(后接 : 或 ?:)不替换
+ */
+const TOKEN_REGEX =
+  /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[A-Za-z_$][\w$]*(?![\w$]|\s*\??:)/g;
+
+/**
+ * 重命名 Schema 并更新所有引用(原地修改)
+ * 包括 schemas、interfaces 的键与代码，API 中的参数、请求体、响应引用，以及通道参数与消息引用
+ *
+ * @param output 标准输出
+ * @param renames 旧名称 -> 新名称
+ */
+export function renameSchemas(
+  output: StandardOutput,
+  renames: Map<string, string>,
+): void {
+  if (renames.size === 0) return;
+
+  const renameType = (type: string) =>
+    type.replace(TOKEN_REGEX, (token) => renames.get(token) ?? token);
+
+  const renameRef = (ref: SchemaReference | undefined) => {
+    if (!ref) return;
+    if (ref.ref) ref.ref = renameType(ref.ref);
+    if (ref.schema) renameSchema(ref.schema);
+  };
+
+  const renameSchema = (schema: Partial<SchemaDefinition>) => {
+    for (const prop of Object.values(schema.properties ?? {})) {
+      prop.type = renameType(prop.type);
+    }
+    renameRef(schema.items);
+    renameRef(schema.additionalProperties);
+    schema.variants?.forEach(renameRef);
+    if (schema.extends) schema.extends = schema.extends.map(renameType);
+    const mapping = schema.discriminator?.mapping;
+    if (mapping) {
+      for (const [value, target] of Object.entries(mapping)) {
+        mapping[value] = renameType(target);
+      }
+    }
+  };
+
+  const renameContent = (
+    content: Record<string, MediaTypeDefinition> | undefined,
+  ) => {
+    for (const media of Object.values(content ?? {})) {
+      renameRef(media.schema);
+    }
+  };
+
+  output.schemas = renameKeys(output.schemas, renames);
+  for (const schema of Object.values(output.schemas)) {
+    renameSchema(schema);
+  }
+
+  output.interfaces = renameKeys(output.interfaces, renames);
+  for (const [name, code] of Object.entries(output.interfaces)) {
+    output.interfaces[name] = renameType(code);
+  }
+
+  for (const api of output.apis) {
+    for (const ref of Object.values(api.parameters ?? {})) {
+      renameRef(ref);
+    }
+    renameContent(api.requestBody?.content);
+    for (const response of Object.values(api.responses)) {
+      renameContent(response.content);
+      for (const header of Object.values(response.headers ?? {})) {
+        renameRef(header.schema);
+      }
+    }
+  }
+
+  for (const channel of output.channels ?? []) {
+    renameRef(channel.parameters);
+    const messages = [
+      ...channel.messages,
+      ...channel.operations.flatMap((operation) => [
+        ...operation.messages,
+        ...(operation.reply?.messages ?? []),
+      ]),
+    ];
+    // 操作与通道可能共享同一个消息对象，避免重复替换
+    for (const message of new Set(messages)) {
+      renameRef(message.payload);
+      renameRef(message.headers);
+    }
+  }
+}
+
+/**
+ * 按顺序重建对象，替换其中需要重命名的键
+ */
+function renameKeys<T>(
+  record: Record<string, T>,
+  renames: Map<string, string>,
+): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    result[renames.get(key) ?? key] = value;
+  }
+  return result;
+}
@@ -0,0 +1,170 @@
+/**
+ * 插件执行器
+ * 由适配器在解析前后调用，按阶段依次执行插件钩子
+ */
+
+import type {
+  ApiDefinition,
+  SchemaDefinition,
+  StandardOutput,
+} from '../types/standard';
+import { renameSchemas } from './rename';
+import type {
+  AdapterPlugin,
+  PluginContext,
+  PluginItemContext,
+  PluginItemResult,
+} from './types';
+
+export class PluginRunner {
+  constructor(
+    private plugins: AdapterPlugin[],
+    private context: PluginContext,
+  ) {}
+
+  /**
+   * 是否存在文档钩子
+   * 适配器可据此决定是否需要将处理后的文档(而不是原始输入)交给解析器
+   */
+  get hasDocumentHooks(): boolean {
+    return this.plugins.some((plugin) => plugin.transformDocument);
+  }
+
+  /**
+   * 执行 transformDocument 钩子
+   *
+   * @param document 原始文档(会被钩子修改，调用方需要时自行拷贝)
+   * @returns 处理后的文档
+   */
+  async runDocumentHooks(
+    document: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    let current = document;
+    for (const plugin of this.plugins) {
+      if (!plugin.transformDocument) continue;
+      const result = await this.call(plugin, 'transformDocument', () =>
+        plugin.transformDocument!(current, this.context),
+      );
+      if (result) current = result;
+    }
+    return current;
+  }
+
+  /**
+   * 依次执行 transformSchema、transformApi、transformOutput 钩子
+   *
+   * @param output 适配器提取得到的标准输出(会被原地修改)
+   * @returns 处理后的标准输出
+   */
+  async runOutputHooks(output: StandardOutput): Promise<StandardOutput> {
+    const itemContext: PluginItemContext = { ...this.context, output };
+
+    if (this.plugins.some((plugin) => plugin.transformSchema)) {
+      await this.transformSchemas(output, itemContext);
+    }
+
+    if (this.plugins.some((plugin) => plugin.transformApi)) {
+      const apis: ApiDefinition[] = [];
+      for (const api of output.apis) {
+        apis.push(
+          ...(await this.transformItem(api, 'transformApi', (plugin, item) =>
+            plugin.transformApi?.(item, itemContext),
+          )),
+        );
+      }
+      output.apis = apis;
+    }
+
+    let current = output;
+    for (const plugin of this.plugins) {
+      if (!plugin.transformOutput) continue;
+      const result = await this.call(plugin, 'transformOutput', () =>
+        plugin.transformOutput!(current, this.context),
+      );
+      if (result) current = result;
+    }
+    return current;
+  }
+
+  /**
+   * 处理所有 Schema
+   * 删除的 Schema 同时删除对应的 interfaces 代码；重命名的 Schema 同步更新所有引用
+   */
+  private async transformSchemas(
+    output: StandardOutput,
+    itemContext: PluginItemContext,
+  ): Promise<void> {
+    const schemas: Record<string, SchemaDefinition> = {};
+    const renames = new Map<string, string>();
+
+    for (const [name, schema] of Object.entries(output.schemas)) {
+      const results = await this.transformItem(
+        schema,
+        'transformSchema',
+        (plugin, item) => plugin.transformSchema?.(item, itemContext),
+      );
+
+      const [replacement] = results;
+      if (!replacement) {
+        delete output.interfaces[name];
+      } else if (replacement.name !== name) {
+        renames.set(name, replacement.name);
+      }
+      for (const result of results) {
+        schemas[result.name] = result;
+      }
+    }
+
+    output.schemas = schemas;
+    renameSchemas(output, renames);
+  }
+
+  /**
+   * 让单个条目依次经过所有插件
+   * 某个插件返回多个条目时，后续插件会分别处理每一个
+   */
+  private async transformItem<T>(
+    item: T,
+    hook: 'transformSchema' | 'transformApi',
+    invoke: (
+      plugin: AdapterPlugin,
+      item: T,
+    ) => PluginItemResult<T> | Promise<PluginItemResult<T>>,
+  ): Promise<T[]> {
+    let items = [item];
+    for (const plugin of this.plugins) {
+      if (!plugin[hook]) continue;
+
+      const next: T[] = [];
+      for (const current of items) {
+        const result = await this.call(plugin, hook, () =>
+          invoke(plugin, current),
+        );
+        if (result === undefined) next.push(current);
+        else if (result === null) continue;
+        else if (Array.isArray(result)) next.push(...result);
+        else next.push(result as T);
+      }
+      items = next;
+    }
+    return items;
+  }
+
+  /**
+   * 调用钩子，出错时在错误信息中注明插件名称与钩子名称
+   */
+  private async call<T>(
+    plugin: AdapterPlugin,
+    hook: keyof AdapterPlugin,
+    fn: () => T | Promise<T>,
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Plugin "${plugin.name}" failed in ${hook}: ${message}`, {
+        cause: error,
+      });
+    }
+  }
+}
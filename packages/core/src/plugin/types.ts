@@ -0,0 +1,103 @@
+/**
+ * 插件相关类型定义
+ */
+
+import type { AdapterLogger } from '../logging';
+import type {
+  ApiDefinition,
+  SchemaDefinition,
+  StandardOutput,
+} from '../types/standard';
+
+/**
+ * 可为 Promise 的返回值
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * 条目钩子的返回值
+ * - undefined: 保留(钩子可直接修改传入的对象)
+ * - null / []: 删除
+ * - 单个对象: 替换；Schema 的 name 发生变化时视为重命名
+ * - 数组: 第一项替换原条目，其余项为新增条目
+ */
+export type PluginItemResult<T> = T | T[] | null | undefined | void;
+
+/**
+ * 插件上下文
+ */
+export interface PluginContext {
+  /** 适配器名称(如 openapi、apifox) */
+  adapter: string;
+  /** 输入源描述(文件路径、URL 或 object) */
+  source?: string;
+  /** 适配器日志 */
+  logger: AdapterLogger;
+}
+
+/**
+ * Schema / API 钩子的上下文
+ */
+export interface PluginItemContext extends PluginContext {
+  /** 当前的标准输出(条目钩子执行期间仍在变化，只建议读取) */
+  output: StandardOutput;
+}
+
+/**
+ * 适配器插件
+ *
+ * 钩子执行顺序：
+ * 1. transformDocument: 解析前处理原始文档
+ * 2. transformSchema: 逐个处理提取出的 SchemaDefinition
+ * 3. transformApi: 逐个处理提取出的 ApiDefinition
+ * 4. transformOutput: 处理最终的 StandardOutput
+ *
+ * 同一阶段内按插件顺序依次执行，前一个插件的结果作为后一个插件的输入
+ *
+ * @example
+ * const unwrapEnvelope: AdapterPlugin = {
+ *   name: 'unwrap-envelope',
+ *   transformApi(api) {
+ *     if (api.path.startsWith('/internal')) return null;
+ *   },
+ * };
+ */
+export interface AdapterPlugin {
+  /** 插件名称(用于错误信息) */
+  name: string;
+
+  /**
+   * 处理原始文档(OpenAPI 文档在 Swagger 2.0 升级之后传入)
+   * 可直接修改传入的文档，也可返回新文档
+   */
+  transformDocument?: (
+    document: Record<string, unknown>,
+    context: PluginContext,
+  ) => MaybePromise<Record<string, unknown> | undefined | void>;
+
+  /**
+   * 处理单个 Schema
+   * 新增的 Schema 不会自动生成 interfaces 代码，需要时可在 transformOutput 中补充
+   */
+  transformSchema?: (
+    schema: SchemaDefinition,
+    context: PluginItemContext,
+  ) => MaybePromise<PluginItemResult<SchemaDefinition>>;
+
+  /**
+   * 处理单个 API
+   */
+  transformApi?: (
+    api: ApiDefinition,
+    context: PluginItemContext,
+  ) => MaybePromise<PluginItemResult<ApiDefinition>>;
+
+  /**
+   * 处理最终输出
+   * 可直接修改传入的输出，也可返回新的输出
+   */
+  transformOutput?: (
+    output: StandardOutput,
+    context: PluginContext,
+  ) => MaybePromise<StandardOutput | undefined | void>;
+}
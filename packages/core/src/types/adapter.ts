@@ -5,6 +5,7 @@
 
 import type { StandardOutput } from './standard.js';
 import type { LogLevel, Logger } from '../logging/index.js';
+import type { AdapterPlugin } from '../plugin/types.js';
 
 /**
  * 适配器基础接口
@@ -57,5 +58,10 @@ export interface AdapterOptions {
    * 用于避免单次解析产生过大的日志 payload。
    */
   logSampleLimit?: number;
+  /**
+   * 插件列表(按顺序执行)
+   * 可在解析前后处理原始文档、Schema、API 与最终输出
+   */
+  plugins?: AdapterPlugin[];
   [key: string]: unknown;
 }
@@ -0,0 +1,44 @@
+/**
+ * 生成器接口定义
+ * 定义了所有代码生成器（Emitter）必须遵循的规范
+ */
+
+import type { StandardOutput } from './standard.js';
+
+/**
+ * 生成器基础接口
+ * 所有生成器（如 FetchClientGenerator）都必须实现此接口
+ *
+ * 生成器只负责将 StandardOutput 转换为文件内容，不直接写入磁盘，
+ * 落盘、清理等工作由上层流程统一处理。
+ *
+ * @template TOptions 生成器特定的配置选项类型
+ */
+export interface IGenerator<TOptions = GeneratorOptions> {
+  /**
+   * 根据标准输出生成文件列表
+   *
+   * @param output 适配器解析得到的标准输出
+   * @param options 生成器特定选项
+   * @returns 生成的文件列表(路径相对于输出根目录)
+   */
+  generate(output: StandardOutput, options?: TOptions): GeneratedFile[];
+}
+
+/**
+ * 生成器选项(基类)
+ * 不同生成器可以继承此类型添加特定选项
+ */
+export interface GeneratorOptions {
+  [key: string]: unknown;
+}
+
+/**
+ * 生成的文件
+ */
+export interface GeneratedFile {
+  /** 文件路径(相对于输出根目录，使用 / 分隔，如 'api/users/index.ts') */
+  path: string;
+  /** 文件内容 */
+  content: string;
+}
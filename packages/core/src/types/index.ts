@@ -1,5 +1,6 @@
 export * from './standard.js';
 export * from './adapter.js';
+export * from './generator.js';
 export * from './config';
 export * from '../logging';
 
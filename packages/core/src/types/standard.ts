@@ -36,6 +36,18 @@ export interface StandardOutput {
    * 包含文档标题、版本、生成时间等
    */
   metadata: Metadata | null;
+
+  /**
+   * 鉴权方案定义集合
+   * Key 为方案名称（如 bearerAuth），与 ApiDefinition.security 中的名称对应
+   */
+  securitySchemes?: Record<string, SecuritySchemeDefinition>;
+
+  /**
+   * 消息通道定义列表(AsyncAPI 等事件驱动规范)
+   * 通道不绑定 HTTP 方法，因此与 apis 分开存放；消息载荷引用 schemas 中的定义
+   */
+  channels?: ChannelDefinition[];
 }
 
 /**
@@ -66,6 +78,20 @@ export interface SchemaDefinition {
   /** 枚举值列表 (当 type='enum' 时有效) */
   enum?: Array<string | number>;
 
+  // ======== union 类型特有 ========
+  /**
+   * 联合成员 (当 type='union' 时有效)
+   * 引用成员为类型字符串(如 Cat)，内联对象成员为 inline 定义；null 成员不计入
+   */
+  variants?: SchemaReference[];
+  /** 联合方式: oneOf 恰好匹配一个成员 / anyOf 匹配至少一个成员 */
+  unionKind?: 'oneOf' | 'anyOf';
+  /**
+   * 鉴别器
+   * 存在时为可辨识联合；也可能出现在被子类型 allOf 继承的基类上
+   */
+  discriminator?: DiscriminatorDefinition;
+
   // ======== 泛型相关 ========
   /** 是否为泛型类型 */
   isGeneric?: boolean;
@@ -94,7 +120,25 @@ export type SchemaType =
   | 'array' // 数组类型
   | 'enum' // 枚举类型
   | 'primitive' // 基础类型(string, number, boolean等)
-  | 'generic'; // 泛型类型
+  | 'generic' // 泛型类型
+  | 'union'; // 联合类型(oneOf/anyOf)
+
+/**
+ * 鉴别器定义
+ *
+ * @example
+ * // Pet = Cat | Dog，按 petType 区分
+ * { propertyName: 'petType', mapping: { cat: 'Cat', Dog: 'Dog' } }
+ */
+export interface DiscriminatorDefinition {
+  /** 鉴别属性名 */
+  propertyName: string;
+  /**
+   * 鉴别值 -> Schema 名称
+   * 包含显式 mapping 与按 Schema 名称推导的隐式映射
+   */
+  mapping?: Record<string, string>;
+}
 
 /**
  * 属性定义
@@ -111,12 +155,18 @@ export interface PropertyDefinition {
   required: boolean;
   /** 是否可为 null */
   nullable?: boolean;
+  /** 是否只读(仅出现在响应中，如 id、createdAt) */
+  readOnly?: boolean;
+  /** 是否只写(仅出现在请求中，如 password) */
+  writeOnly?: boolean;
   /** 默认值 */
   default?: unknown;
   /** 示例值 */
   example?: unknown;
   /** 格式(date-time, email等) */
   format?: string;
+  /** 是否为整数(type: integer，TS 类型同为 number) */
+  integer?: boolean;
   /** 正则模式 */
   pattern?: string;
   /** 最小长度 */
@@ -183,6 +233,117 @@ export interface ApiDefinition {
   // ======== 分类信息 ========
   /** 分类信息(用于生成文件路径) */
   category: CategoryInfo;
+
+  // ======== 鉴权相关 ========
+  /**
+   * 鉴权要求(已合并文档级默认值)
+   * 数组中任意一项满足即可，单项内的所有方案需同时满足
+   * 空数组表示显式无需鉴权；未定义表示文档未声明鉴权
+   */
+  security?: SecurityRequirement[];
+
+  // ======== 服务地址 ========
+  /**
+   * 服务地址覆盖(操作级优先于路径级)
+   * 未定义表示使用文档级服务地址(Metadata.servers)
+   */
+  servers?: ServerDefinition[];
+
+  /** 来源信息(由多个模块/分支合并而来时记录) */
+  origin?: ApiOrigin;
+}
+
+/**
+ * 鉴权要求
+ * Key 为鉴权方案名称，Value 为所需的 scope 列表(非 OAuth2 方案为空数组)
+ *
+ * @example
+ * { bearerAuth: [] }
+ * { oauth: ['read:users'] }
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+/**
+ * 鉴权方案定义
+ *
+ * @example
+ * // Bearer Token
+ * { name: 'bearerAuth', type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+ *
+ * // API Key
+ * { name: 'apiKey', type: 'apiKey', in: 'header', parameterName: 'X-API-Key' }
+ */
+export interface SecuritySchemeDefinition {
+  /** 方案名称 */
+  name: string;
+  /** 方案类型 */
+  type: SecuritySchemeType;
+  /** 描述信息 */
+  description?: string;
+
+  // ======== apiKey 类型特有 ========
+  /** 凭证位置 */
+  in?: 'query' | 'header' | 'cookie';
+  /** 凭证参数名(如 X-API-Key) */
+  parameterName?: string;
+
+  // ======== http 类型特有 ========
+  /** HTTP 鉴权方式(如 bearer, basic) */
+  scheme?: string;
+  /** Bearer Token 格式提示(如 JWT) */
+  bearerFormat?: string;
+
+  // ======== oauth2 / openIdConnect 类型特有 ========
+  /** OAuth2 授权流程 */
+  flows?: Partial<Record<OAuthFlowType, OAuthFlowDefinition>>;
+  /** OpenID Connect 发现地址 */
+  openIdConnectUrl?: string;
+}
+
+/**
+ * 鉴权方案类型
+ */
+export type SecuritySchemeType =
+  | 'apiKey'
+  | 'http'
+  | 'oauth2'
+  | 'openIdConnect'
+  | 'mutualTLS';
+
+/**
+ * OAuth2 授权流程类型
+ */
+export type OAuthFlowType =
+  | 'implicit'
+  | 'password'
+  | 'clientCredentials'
+  | 'authorizationCode';
+
+/**
+ * OAuth2 授权流程定义
+ */
+export interface OAuthFlowDefinition {
+  /** 授权地址(implicit / authorizationCode) */
+  authorizationUrl?: string;
+  /** Token 地址(password / clientCredentials / authorizationCode) */
+  tokenUrl?: string;
+  /** 刷新 Token 地址 */
+  refreshUrl?: string;
+  /** 可用的 scope 及其描述 */
+  scopes: Record<string, string>;
+}
+
+/**
+ * API 来源信息
+ * 适配器将多个模块/分支合并为一个输出时，用于标记每个 API 的出处
+ */
+export interface ApiOrigin {
+  /** 模块标识(如 Apifox moduleId) */
+  module?: string | number;
+  /** 分支标识(如 Apifox branchId) */
+  branch?: string | number;
+  /** 显示名称(如 'orders'、'Module12') */
+  name?: string;
 }
 
 /**
@@ -295,6 +456,110 @@ export interface CategoryInfo {
   filePath: string;
 }
 
+/**
+ * 消息通道定义
+ *
+ * @example
+ * {
+ *   id: 'userSignedUp',
+ *   address: 'user/{userId}/signedup',
+ *   parameters: { type: 'ref', ref: 'UserSignedUpParameters' },
+ *   messages: [{ name: 'UserSignedUp', payload: { type: 'ref', ref: 'UserSignedUpPayload' } }],
+ *   operations: [{ operationId: 'onUserSignedUp', action: 'receive', messages: [...] }]
+ * }
+ */
+export interface ChannelDefinition {
+  /** 通道 ID (AsyncAPI 3.x 中 channels 的键；2.x 与地址相同) */
+  id: string;
+  /**
+   * 通道地址(可能包含 {param} 占位符)，如 Kafka topic、WebSocket 路径
+   * 未定义表示地址在运行时决定(如请求-响应模式中的回复通道)
+   */
+  address?: string;
+  /** 标题 */
+  title?: string;
+  /** 摘要 */
+  summary?: string;
+  /** 详细描述 */
+  description?: string;
+  /** 地址参数(引用生成的接口) */
+  parameters?: SchemaReference;
+  /** 通道上可以传递的消息 */
+  messages: ChannelMessageDefinition[];
+  /** 通道上的操作(发送/接收) */
+  operations: ChannelOperationDefinition[];
+  /**
+   * 服务地址限制
+   * 未定义表示可用于所有文档级服务地址(Metadata.servers)
+   */
+  servers?: ServerDefinition[];
+  /** 协议绑定(原样保留，如 { kafka: { partitions: 3 } }) */
+  bindings?: Record<string, unknown>;
+}
+
+/**
+ * 通道操作动作
+ * - send: 应用向通道发送消息
+ * - receive: 应用从通道接收消息
+ */
+export type ChannelAction = 'send' | 'receive';
+
+/**
+ * 通道操作定义
+ */
+export interface ChannelOperationDefinition {
+  /** 操作 ID(唯一标识) */
+  operationId: string;
+  /** 动作 */
+  action: ChannelAction;
+  /** 摘要 */
+  summary?: string;
+  /** 详细描述 */
+  description?: string;
+  /** 标签列表 */
+  tags?: string[];
+  /** 操作发送/接收的消息(通道消息的子集) */
+  messages: ChannelMessageDefinition[];
+  /** 请求-响应模式下的回复 */
+  reply?: ChannelReplyDefinition;
+  /** 协议绑定(原样保留) */
+  bindings?: Record<string, unknown>;
+}
+
+/**
+ * 通道操作的回复定义
+ */
+export interface ChannelReplyDefinition {
+  /** 回复通道地址(未定义表示运行时决定，如由消息头指定) */
+  address?: string;
+  /** 回复消息 */
+  messages: ChannelMessageDefinition[];
+}
+
+/**
+ * 通道消息定义
+ */
+export interface ChannelMessageDefinition {
+  /** 消息名称 */
+  name: string;
+  /** 标题 */
+  title?: string;
+  /** 摘要 */
+  summary?: string;
+  /** 详细描述 */
+  description?: string;
+  /** 内容类型(未声明时使用文档级 defaultContentType) */
+  contentType?: string;
+  /** 消息载荷 */
+  payload: SchemaReference;
+  /** 消息头 */
+  headers?: SchemaReference;
+  /** 载荷示例 */
+  example?: unknown;
+  /** 协议绑定(原样保留) */
+  bindings?: Record<string, unknown>;
+}
+
 /**
  * 元数据信息
  */
@@ -303,8 +568,10 @@ export interface Metadata {
   title?: string;
   /** API 描述 */
   description?: string;
-  /** 基础 URL */
+  /** 基础 URL (servers 中第一项的 url) */
   baseUrl?: string;
+  /** 文档级服务地址列表 */
+  servers?: ServerDefinition[];
   /** 生成时间 */
   generatedAt: string;
   /** 原始文档来源 */
@@ -312,3 +579,33 @@ export interface Metadata {
   /** 生成选项/配置参数 */
   options?: Record<string, unknown>;
 }
+
+/**
+ * 服务地址定义
+ *
+ * @example
+ * {
+ *   url: 'https://{region}.example.com/v1',
+ *   variables: { region: { default: 'eu', enum: ['eu', 'us'] } }
+ * }
+ */
+export interface ServerDefinition {
+  /** 服务地址(可能包含 {variable} 占位符) */
+  url: string;
+  /** 描述信息 */
+  description?: string;
+  /** 地址变量 */
+  variables?: Record<string, ServerVariableDefinition>;
+}
+
+/**
+ * 服务地址变量定义
+ */
+export interface ServerVariableDefinition {
+  /** 默认值 */
+  default: string;
+  /** 可选值列表 */
+  enum?: string[];
+  /** 描述信息 */
+  description?: string;
+}
@@ -6,6 +6,11 @@ import type {
   SchemaReference,
   StandardOutput,
 } from '../src';
+import {
+  diffStandardOutput,
+  formatDiffMarkdown,
+  generateMockData,
+} from '../src';
 
 test('core package should load and export runtime module', async () => {
   const Core = await import('../src');
@@ -61,3 +66,357 @@ test('core types should be usable in TS (compile-time)', () => {
 
   expect(output.schemas.User?.name).toBe('User');
 });
+
+const category = {
+  segments: ['users'],
+  depth: 1,
+  isUnclassified: false,
+  filePath: 'api/users/index.ts',
+};
+
+const json = (ref: string) => ({
+  'application/json': { schema: { type: 'ref' as const, ref } },
+});
+
+const createOutput = (
+  overrides: {
+    user?: SchemaDefinition['properties'];
+    input?: SchemaDefinition['properties'];
+    apis?: ApiDefinition[];
+  } = {},
+): StandardOutput => ({
+  schemas: {
+    User: {
+      name: 'User',
+      type: 'object',
+      properties: overrides.user ?? {
+        id: { name: 'id', type: 'number', required: true },
+        nickname: { name: 'nickname', type: 'string', required: false },
+        status: {
+          name: 'status',
+          type: 'string',
+          required: true,
+          enum: ['active', 'banned'],
+        },
+      },
+    },
+    CreateUserInput: {
+      name: 'CreateUserInput',
+      type: 'object',
+      properties: overrides.input ?? {
+        nickname: { name: 'nickname', type: 'string', required: false },
+        role: {
+          name: 'role',
+          type: 'string',
+          required: true,
+          enum: ['admin', 'member'],
+        },
+      },
+    },
+  },
+  interfaces: {},
+  apis: overrides.apis ?? [
+    {
+      path: '/users/{id}',
+      method: 'GET',
+      operationId: 'getUser',
+      category,
+      responses: {
+        '200': { description: 'ok', content: json('User') },
+        '404': { description: 'not found' },
+      },
+    },
+    {
+      path: '/users',
+      method: 'POST',
+      operationId: 'createUser',
+      category,
+      requestBody: { required: true, content: json('CreateUserInput') },
+      responses: { '201': { description: 'created', content: json('User') } },
+    },
+    {
+      path: '/users/{id}',
+      method: 'DELETE',
+      operationId: 'deleteUser',
+      category,
+      responses: { '204': { description: 'deleted' } },
+    },
+  ],
+  metadata: null,
+});
+
+test('diffStandardOutput should classify changes by direction', () => {
+  const before = createOutput();
+  const after = createOutput({
+    user: {
+      id: { name: 'id', type: 'string', required: true },
+      // 响应中的属性变为必填：不影响调用方
+      nickname: { name: 'nickname', type: 'string', required: true },
+      status: {
+        name: 'status',
+        type: 'string',
+        required: true,
+        enum: ['active', 'banned', 'deleted'],
+      },
+    },
+    input: {
+      // 请求中的属性变为必填：破坏调用方
+      nickname: { name: 'nickname', type: 'string', required: true },
+      role: {
+        name: 'role',
+        type: 'string',
+        required: true,
+        enum: ['member'],
+      },
+    },
+    apis: [
+      {
+        ...before.apis[0]!,
+        deprecated: true,
+        responses: { '200': { description: 'ok', content: json('User') } },
+      },
+      before.apis[1]!,
+      {
+        path: '/users',
+        method: 'GET',
+        operationId: 'listUsers',
+        category,
+        responses: { '200': { description: 'ok', content: json('User[]') } },
+      },
+    ],
+  });
+
+  const report = diffStandardOutput(before, after);
+  const changes = report.changes.map(
+    (c) => `${c.severity} ${c.code} ${c.location}`,
+  );
+
+  expect(changes).toEqual([
+    'info API_DEPRECATED GET /users/{id}',
+    'breaking RESPONSE_REMOVED GET /users/{id}',
+    'breaking API_REMOVED DELETE /users/{id}',
+    'non-breaking API_ADDED GET /users',
+    'breaking PROPERTY_TYPE_CHANGED User.id',
+    'non-breaking PROPERTY_REQUIRED User.nickname',
+    'breaking ENUM_VALUES_ADDED User.status',
+    'breaking PROPERTY_REQUIRED CreateUserInput.nickname',
+    'breaking ENUM_VALUES_REMOVED CreateUserInput.role',
+  ]);
+  expect(report.summary).toEqual({ breaking: 6, nonBreaking: 2, info: 1 });
+  expect(report.hasBreakingChanges).toBe(true);
+  expect(report.changes[6]).toMatchObject({
+    message: 'enum values added: `"deleted"`',
+    after: ['deleted'],
+  });
+});
+
+test('formatDiffMarkdown should group changes by severity', () => {
+  const before = createOutput();
+  const after = createOutput({ apis: before.apis.slice(0, 2) });
+  after.apis[0] = { ...after.apis[0]!, operationId: 'fetchUser' };
+
+  const report = diffStandardOutput(before, after, {
+    severityOverrides: { OPERATION_ID_CHANGED: 'info' },
+  });
+
+  expect(formatDiffMarkdown(report, { title: 'v2.0.0' })).toBe(
+    [
+      '# v2.0.0',
+      '',
+      '1 breaking, 0 non-breaking, 1 info',
+      '',
+      '## ⚠️ Breaking Changes',
+      '',
+      '- `DELETE /users/{id}`: API removed',
+      '',
+      '## Other Changes',
+      '',
+      '- `GET /users/{id}`: operationId changed from `getUser` to `fetchUser`, generated function names change',
+      '',
+    ].join('\n'),
+  );
+  expect(formatDiffMarkdown(diffStandardOutput(before, before))).toBe(
+    '# API Changelog\n\nNo changes.\n',
+  );
+});
+
+test('generateMockData should honour constraints and be reproducible', () => {
+  const output: Pick<StandardOutput, 'schemas'> = {
+    schemas: {
+      User: {
+        name: 'User',
+        type: 'object',
+        required: ['id', 'email', 'name', 'age', 'role'],
+        properties: {
+          id: { name: 'id', type: 'string', required: true, format: 'uuid' },
+          email: {
+            name: 'email',
+            type: 'string',
+            required: true,
+            format: 'email',
+          },
+          name: {
+            name: 'name',
+            type: 'string',
+            required: true,
+            minLength: 3,
+            maxLength: 5,
+          },
+          age: {
+            name: 'age',
+            type: 'number',
+            required: true,
+            minimum: 18,
+            maximum: 20,
+          },
+          role: {
+            name: 'role',
+            type: 'string',
+            required: true,
+            enum: ['admin', 'member'],
+          },
+          createdAt: {
+            name: 'createdAt',
+            type: 'string',
+            required: false,
+            format: 'date-time',
+          },
+          website: {
+            name: 'website',
+            type: 'string',
+            required: false,
+            format: 'uri',
+          },
+          nickname: {
+            name: 'nickname',
+            type: 'string | null',
+            required: false,
+            example: 'neo',
+          },
+          status: {
+            name: 'status',
+            type: 'string',
+            required: false,
+            default: 'active',
+          },
+          pet: { name: 'pet', type: 'Pet', required: false },
+        },
+      },
+      Pet: {
+        name: 'Pet',
+        type: 'union',
+        variants: [
+          { type: 'ref', ref: 'Cat' },
+          { type: 'ref', ref: 'Dog' },
+        ],
+        discriminator: {
+          propertyName: 'kind',
+          mapping: { cat: 'Cat', dog: 'Dog' },
+        },
+      },
+      Cat: {
+        name: 'Cat',
+        type: 'object',
+        properties: { kind: { name: 'kind', type: 'string', required: true } },
+      },
+      Dog: {
+        name: 'Dog',
+        type: 'object',
+        properties: { kind: { name: 'kind', type: 'string', required: true } },
+      },
+    },
+  };
+
+  const users = generateMockData(output, 'User[]', {
+    seed: 42,
+    arrayLength: { min: 5, max: 5 },
+  }) as Array<Record<string, unknown>>;
+
+  expect(users).toHaveLength(5);
+  for (const user of users) {
+    expect(user.id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+    expect(user.email).toMatch(/^[a-z]+\d+@example\.com$/);
+    expect((user.name as string).length).toBeGreaterThanOrEqual(3);
+    expect((user.name as string).length).toBeLessThanOrEqual(5);
+    expect(user.age).toBeGreaterThanOrEqual(18);
+    expect(user.age).toBeLessThanOrEqual(20);
+    expect(Number.isInteger(user.age)).toBe(true);
+    expect(['admin', 'member']).toContain(user.role);
+    expect(new Date(user.createdAt as string).toISOString()).toBe(
+      user.createdAt,
+    );
+    expect(user.website).toMatch(/^https:\/\/example\.com\//);
+    expect(user.nickname).toBe('neo');
+    expect(user.status).toBe('active');
+
+    const pet = user.pet as { kind: string };
+    expect(['cat', 'dog']).toContain(pet.kind);
+  }
+
+  expect(generateMockData(output, 'User[]', { seed: 42 })).toEqual(
+    generateMockData(output, 'User[]', { seed: 42 }),
+  );
+  expect(generateMockData(output, 'User', { seed: 1 })).not.toEqual(
+    generateMockData(output, 'User', { seed: 2 }),
+  );
+  expect(
+    generateMockData(output, 'User', { optionalProperties: false }),
+  ).not.toHaveProperty('createdAt');
+});
+
+test('generateMockData should cut recursive schemas at maxDepth', () => {
+  const output: Pick<StandardOutput, 'schemas'> = {
+    schemas: {
+      Node: {
+        name: 'Node',
+        type: 'object',
+        properties: {
+          value: { name: 'value', type: 'number', required: true },
+          children: { name: 'children', type: 'Node[]', required: true },
+          parent: { name: 'parent', type: 'Node', required: false },
+        },
+      },
+      Page: {
+        name: 'Page',
+        type: 'generic',
+        isGeneric: true,
+        genericParam: 'T',
+        properties: {
+          items: { name: 'items', type: 'T[]', required: true },
+        },
+      },
+      Tree: {
+        name: 'Tree',
+        type: 'object',
+        extends: ['Node'],
+      },
+    },
+  };
+
+  const depth = (node: unknown): number => {
+    const { children } = node as { children: unknown[] };
+    return 1 + Math.max(0, ...children.map(depth));
+  };
+
+  const node = generateMockData(output, 'Node', {
+    maxDepth: 2,
+    arrayLength: { min: 1, max: 1 },
+  });
+  expect(depth(node)).toBe(2);
+  expect((node as { parent: unknown }).parent).toEqual({
+    value: expect.any(Number),
+    children: [],
+  });
+
+  const tree = generateMockData(output, 'Tree', { maxDepth: 1 });
+  expect(tree).toEqual({ value: expect.any(Number), children: [] });
+
+  const page = generateMockData(output, 'Page<Node>', {
+    maxDepth: 1,
+    arrayLength: { min: 2, max: 2 },
+  }) as { items: unknown[] };
+  expect(page.items).toHaveLength(2);
+  expect(page.items[0]).toEqual({ value: expect.any(Number), children: [] });
+});
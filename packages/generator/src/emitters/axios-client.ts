@@ -0,0 +1,162 @@
+/**
+ * Axios 客户端生成器
+ * 将 StandardOutput 转换为基于 axios 实例的类型化请求函数
+ *
+ * 映射规则：
+ * - parameters.path   -> url 模板
+ * - parameters.query  -> params
+ * - parameters.header -> headers
+ * - requestBody       -> data
+ */
+
+import posixPath from 'node:path/posix';
+import type {
+  GeneratedFile,
+  IGenerator,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import type { AxiosClientOptions } from '../types';
+import {
+  DEFAULT_TYPES_FILE_PATH,
+  buildOperationJSDoc,
+  buildPathTemplate,
+  createTypesFile,
+  emitOperationModules,
+  isJsonContentType,
+  quote,
+  relativeImportPath,
+  type OperationInfo,
+} from '../utils';
+
+/** 生成代码中 axios 实例的本地变量名 */
+const INSTANCE_NAME = 'axiosInstance';
+
+export class AxiosClientGenerator implements IGenerator<AxiosClientOptions> {
+  /**
+   * 生成 axios 客户端文件
+   *
+   * @param output 标准输出
+   * @param options 生成选项
+   * @returns 生成的文件列表
+   */
+  generate(
+    output: StandardOutput,
+    options: AxiosClientOptions = {},
+  ): GeneratedFile[] {
+    const typesFilePath = options.typesFilePath ?? DEFAULT_TYPES_FILE_PATH;
+    const unwrapData = options.unwrapData ?? true;
+
+    const files: GeneratedFile[] = [];
+    if (typesFilePath !== false) {
+      files.push(createTypesFile(output, typesFilePath));
+    }
+
+    files.push(
+      ...emitOperationModules(output, {
+        typesFilePath,
+        imports: (filePath) => [
+          "import type { AxiosRequestConfig } from 'axios';",
+          this.generateInstanceImport(filePath, options),
+        ],
+        render: (operation) => this.generateFunction(operation, unwrapData),
+      }),
+    );
+
+    return files;
+  }
+
+  /**
+   * 生成 axios 实例导入语句
+   */
+  private generateInstanceImport(
+    filePath: string,
+    options: AxiosClientOptions,
+  ): string {
+    if (!options.instancePath) {
+      return `import ${INSTANCE_NAME} from 'axios';`;
+    }
+
+    const from = options.instancePath.startsWith('.')
+      ? relativeImportPath(filePath, posixPath.normalize(options.instancePath))
+      : options.instancePath;
+
+    const exportName = options.instanceExportName ?? 'default';
+    return exportName === 'default'
+      ? `import ${INSTANCE_NAME} from ${quote(from)};`
+      : `import { ${exportName} as ${INSTANCE_NAME} } from ${quote(from)};`;
+  }
+
+  /**
+   * 生成单个请求函数
+   */
+  private generateFunction(
+    operation: OperationInfo,
+    unwrapData: boolean,
+  ): string {
+    const { api, requestBody, responseType, returnType } = operation;
+    const lines: string[] = [...buildOperationJSDoc(operation)];
+
+    const args: string[] = [];
+    if (operation.paramsType) {
+      args.push(
+        operation.paramsOptional
+          ? `params: ${operation.paramsType} = {}`
+          : `params: ${operation.paramsType}`,
+      );
+    }
+    args.push('config?: AxiosRequestConfig');
+
+    lines.push(`export function ${operation.functionName}(`);
+    for (const arg of args) {
+      lines.push(`  ${arg},`);
+    }
+    lines.push(`): Promise<${returnType}> {`);
+
+    // 请求配置
+    const hasPath = operation.parameters.some((g) => g.location === 'path');
+    const requestConfig: string[] = [
+      `method: '${api.method}'`,
+      `url: ${hasPath ? buildPathTemplate(api.path, 'params.path') : quote(api.path)}`,
+    ];
+    if (operation.parameters.some((g) => g.location === 'query')) {
+      requestConfig.push('params: params.query');
+    }
+    if (requestBody) {
+      requestConfig.push('data: params.body');
+    }
+    if (responseType) {
+      requestConfig.push(`responseType: '${responseType}'`);
+    }
+    requestConfig.push('...config');
+
+    // 请求头：header 参数 < 非 JSON 请求体的 Content-Type < config.headers
+    const headers: string[] = [];
+    if (operation.parameters.some((g) => g.location === 'header')) {
+      headers.push('...params.header');
+    }
+    if (requestBody && !isJsonContentType(requestBody.contentType)) {
+      headers.push(`'Content-Type': ${quote(requestBody.contentType)}`);
+    }
+    if (headers.length > 0) {
+      headers.push('...config?.headers');
+      requestConfig.push(`headers: { ${headers.join(', ')} }`);
+    }
+
+    const generic = unwrapData
+      ? `<${returnType}>`
+      : `<${returnType}, ${returnType}>`;
+
+    lines.push(`  return ${INSTANCE_NAME}`);
+    lines.push(`    .request${generic}({`);
+    for (const item of requestConfig) {
+      lines.push(`      ${item},`);
+    }
+    lines.push(unwrapData ? '    })' : '    });');
+    if (unwrapData) {
+      lines.push('    .then((response) => response.data);');
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+}
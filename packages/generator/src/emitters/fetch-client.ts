@@ -0,0 +1,119 @@
+/**
+ * Fetch 客户端生成器
+ * 将 StandardOutput 转换为基于 fetch 的类型化请求函数
+ *
+ * 输出文件：
+ * 1. 类型文件(默认 types.ts)：汇总所有 interfaces
+ * 2. 运行时文件(默认 runtime.ts)：request 方法、ApiError、全局配置
+ * 3. 请求文件：按 category.filePath 分组，每个 API 生成一个请求函数
+ */
+
+import type {
+  GeneratedFile,
+  IGenerator,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import type { FetchClientOptions } from '../types';
+import {
+  DEFAULT_TYPES_FILE_PATH,
+  buildOperationJSDoc,
+  createTypesFile,
+  emitOperationModules,
+  quote,
+  relativeImportPath,
+  type OperationInfo,
+} from '../utils';
+import { createFetchRuntime } from './fetch-runtime';
+
+export class FetchClientGenerator implements IGenerator<FetchClientOptions> {
+  /**
+   * 生成 fetch 客户端文件
+   *
+   * @param output 标准输出
+   * @param options 生成选项
+   * @returns 生成的文件列表
+   */
+  generate(
+    output: StandardOutput,
+    options: FetchClientOptions = {},
+  ): GeneratedFile[] {
+    const typesFilePath = options.typesFilePath ?? DEFAULT_TYPES_FILE_PATH;
+    const runtimeFilePath = options.runtimeFilePath ?? 'runtime.ts';
+    const baseUrl = options.baseUrl ?? output.metadata?.baseUrl ?? '';
+
+    const files: GeneratedFile[] = [];
+    if (typesFilePath !== false) {
+      files.push(createTypesFile(output, typesFilePath));
+    }
+    files.push({
+      path: runtimeFilePath,
+      content: createFetchRuntime(baseUrl),
+    });
+
+    files.push(
+      ...emitOperationModules(output, {
+        typesFilePath,
+        imports: (filePath) => [
+          `import { request } from '${relativeImportPath(filePath, runtimeFilePath)}';`,
+        ],
+        render: (operation) => this.generateFunction(operation),
+      }),
+    );
+
+    return files;
+  }
+
+  /**
+   * 生成单个请求函数
+   */
+  private generateFunction(operation: OperationInfo): string {
+    const { api, requestBody, responseType, returnType } = operation;
+    const lines: string[] = [...buildOperationJSDoc(operation)];
+
+    // 函数签名
+    const args: string[] = [];
+    if (operation.paramsType) {
+      args.push(
+        operation.paramsOptional
+          ? `params: ${operation.paramsType} = {}`
+          : `params: ${operation.paramsType}`,
+      );
+    }
+    args.push('init?: RequestInit');
+
+    lines.push(`export function ${operation.functionName}(`);
+    for (const arg of args) {
+      lines.push(`  ${arg},`);
+    }
+    lines.push(`): Promise<${returnType}> {`);
+
+    // 请求描述
+    const requestOptions: string[] = [
+      `method: '${api.method}'`,
+      `url: ${quote(api.path)}`,
+    ];
+    for (const group of operation.parameters) {
+      const key = group.location === 'header' ? 'headers' : group.location;
+      requestOptions.push(`${key}: params.${group.location}`);
+    }
+    if (requestBody) {
+      requestOptions.push('body: params.body');
+      requestOptions.push(`contentType: ${quote(requestBody.contentType)}`);
+    }
+    if (responseType) {
+      requestOptions.push(`responseType: '${responseType}'`);
+    }
+
+    lines.push(`  return request<${returnType}>(`);
+    lines.push('    {');
+    for (const option of requestOptions) {
+      lines.push(`      ${option},`);
+    }
+    lines.push('    },');
+    lines.push('    init,');
+    lines.push('  );');
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+}
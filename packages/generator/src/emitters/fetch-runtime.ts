@@ -0,0 +1,200 @@
+/**
+ * Fetch 运行时模板
+ * 生成的请求函数统一调用该运行时中的 request 方法
+ *
+ * 注意：模板中的生成代码避免使用模板字符串，减少转义带来的可读性问题
+ */
+
+/**
+ * 生成 fetch 运行时文件内容
+ *
+ * @param baseUrl 默认 baseUrl
+ */
+export function createFetchRuntime(baseUrl: string): string {
+  return `/**
+ * 请求运行时
+ * 提供 request 方法、ApiError 以及全局客户端配置
+ */
+
+export interface ClientConfig {
+  /** 请求基础地址 */
+  baseUrl: string;
+  /** 公共请求头 */
+  headers?: Record<string, string>;
+  /** 自定义 fetch 实现(默认使用全局 fetch) */
+  fetch?: typeof fetch;
+}
+
+export const clientConfig: ClientConfig = {
+  baseUrl: ${JSON.stringify(baseUrl)},
+};
+
+/**
+ * 修改全局客户端配置
+ */
+export function configureClient(config: Partial<ClientConfig>): void {
+  Object.assign(clientConfig, config);
+}
+
+/**
+ * 非 2xx 响应时抛出的错误
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  readonly response: Response;
+
+  constructor(response: Response, body: unknown) {
+    super('Request failed with status ' + response.status);
+    this.name = 'ApiError';
+    this.status = response.status;
+    this.body = body;
+    this.response = response;
+  }
+}
+
+export type ResponseType = 'json' | 'text' | 'blob';
+
+export interface RequestOptions {
+  method: string;
+  url: string;
+  path?: object;
+  query?: object;
+  headers?: object;
+  body?: unknown;
+  contentType?: string;
+  responseType?: ResponseType;
+}
+
+function isJson(contentType: string): boolean {
+  const type = contentType.split(';')[0]!.trim().toLowerCase();
+  return type === 'application/json' || type.endsWith('+json');
+}
+
+function buildUrl(options: RequestOptions): string {
+  const pathParams = (options.path ?? {}) as Record<string, unknown>;
+  let url = options.url.replace(/\\{([^}]+)\\}/g, (_match, name: string) =>
+    encodeURIComponent(String(pathParams[name])),
+  );
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value === undefined || value === null) continue;
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    for (const item of items) {
+      search.append(
+        key,
+        typeof item === 'object' ? JSON.stringify(item) : String(item),
+      );
+    }
+  }
+
+  const query = search.toString();
+  if (query) {
+    url += (url.includes('?') ? '&' : '?') + query;
+  }
+
+  return clientConfig.baseUrl.replace(/\\/+$/, '') + url;
+}
+
+function encodeBody(
+  body: unknown,
+  contentType: string | undefined,
+): BodyInit | undefined {
+  if (body === undefined || body === null) return undefined;
+
+  if (contentType?.includes('multipart/form-data')) {
+    if (body instanceof FormData) return body;
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(body as object)) {
+      if (value === undefined || value === null) continue;
+      const items: unknown[] = Array.isArray(value) ? value : [value];
+      for (const item of items) {
+        formData.append(
+          key,
+          item instanceof Blob
+            ? item
+            : typeof item === 'object'
+              ? JSON.stringify(item)
+              : String(item),
+        );
+      }
+    }
+    return formData;
+  }
+
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    const form = new URLSearchParams();
+    for (const [key, value] of Object.entries(body as object)) {
+      if (value !== undefined && value !== null) form.append(key, String(value));
+    }
+    return form;
+  }
+
+  if (contentType && isJson(contentType)) {
+    return JSON.stringify(body);
+  }
+
+  return body as BodyInit;
+}
+
+async function readBody(
+  response: Response,
+  responseType: ResponseType | undefined,
+): Promise<unknown> {
+  if (response.status === 204 || response.status === 205) return undefined;
+  if (responseType === 'blob') return response.blob();
+
+  const text = await response.text();
+  if (!text || responseType === 'text') return text || undefined;
+
+  if (responseType === 'json' || isJson(response.headers.get('Content-Type') ?? '')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * 发送请求
+ *
+ * @param options 请求描述(由生成的请求函数构造)
+ * @param init 额外的 fetch 选项(如 signal、credentials)，其中的 headers 优先级最高
+ */
+export async function request<T>(
+  options: RequestOptions,
+  init: RequestInit = {},
+): Promise<T> {
+  const headers = new Headers(clientConfig.headers);
+  for (const [key, value] of Object.entries(options.headers ?? {})) {
+    if (value !== undefined && value !== null) headers.set(key, String(value));
+  }
+  // multipart 的 boundary 由 fetch 自动生成，不能手动设置 Content-Type
+  if (
+    options.contentType &&
+    options.body !== undefined &&
+    !options.contentType.includes('multipart/form-data')
+  ) {
+    headers.set('Content-Type', options.contentType);
+  }
+  new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+
+  const fetchImpl = clientConfig.fetch ?? fetch;
+  const response = await fetchImpl(buildUrl(options), {
+    ...init,
+    method: options.method,
+    headers,
+    body: encodeBody(options.body, options.contentType),
+  });
+
+  const data = await readBody(response, options.responseType);
+  if (!response.ok) {
+    throw new ApiError(response, data);
+  }
+  return data as T;
+}
+`;
+}
@@ -0,0 +1,9 @@
+/**
+ * 代码生成器(Emitter)导出
+ */
+
+export * from './fetch-client';
+export * from './axios-client';
+export * from './query-hooks';
+export * from './zod-schemas';
+export * from './msw-handlers';
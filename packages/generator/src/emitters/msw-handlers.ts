@@ -0,0 +1,224 @@
+/**
+ * MSW Handlers 生成器
+ * 为每个 API 生成 Mock Service Worker 的 `http.<method>` handler 工厂函数
+ *
+ * 规则：
+ * - handler 的路径参数、请求体、响应体均使用适配器生成的类型
+ * - 默认 resolver 返回成功响应的示例数据(example / examples，没有时按 Schema 生成)
+ * - 示例数据单独导出为 `<name>MockResponse`，测试中可基于它覆盖部分字段
+ * - 每个文件额外导出 `handlers` 数组，可直接传给 setupServer / setupWorker
+ */
+
+import {
+  MockDataGenerator,
+  type GeneratedFile,
+  type IGenerator,
+  type StandardOutput,
+} from '@api-codegen-universal/core';
+import type { MswHandlersOptions } from '../types';
+import {
+  DEFAULT_TYPES_FILE_PATH,
+  buildOperationJSDoc,
+  emitOperationModules,
+  isJsonContentType,
+  quote,
+  type OperationInfo,
+} from '../utils';
+
+/**
+ * 单个 handler 的生成信息
+ */
+interface HandlerInfo {
+  /** handler 工厂函数名 */
+  handlerName: string;
+  /** 示例数据常量名 */
+  dataName: string;
+  /** 请求体类型 */
+  requestType: string;
+  /** 响应体类型 */
+  responseType: string;
+  /** 响应体格式 */
+  body: 'json' | 'text' | 'empty';
+  /** 响应状态码 */
+  status: number;
+}
+
+export class MswHandlersGenerator implements IGenerator<MswHandlersOptions> {
+  /**
+   * 生成 handlers 文件
+   * 类型文件由客户端生成器负责输出，这里只生成 handlers 模块
+   *
+   * @param output 标准输出
+   * @param options 生成选项
+   * @returns 生成的文件列表
+   */
+  generate(
+    output: StandardOutput,
+    options: MswHandlersOptions = {},
+  ): GeneratedFile[] {
+    const typesFilePath = options.typesFilePath ?? DEFAULT_TYPES_FILE_PATH;
+    const baseUrl = (options.baseUrl ?? '*').replace(/\/+$/, '');
+    const resolveFilePath =
+      options.resolveFilePath ?? MswHandlersGenerator.defaultHandlersFilePath;
+
+    return emitOperationModules(output, {
+      typesFilePath,
+      resolveFilePath,
+      types: (operation) => {
+        const info = this.resolveHandler(operation);
+        return [info.requestType, info.responseType];
+      },
+      imports: (_filePath, operations) => {
+        const infos = operations.map((op) => this.resolveHandler(op));
+        const typeImports = [
+          ...(infos.some((info) =>
+            [info.requestType, info.responseType].includes('DefaultBodyType'),
+          )
+            ? ['DefaultBodyType']
+            : []),
+          'HttpResponseResolver',
+          'PathParams',
+          'RequestHandlerOptions',
+        ];
+        return [
+          "import { http, HttpResponse } from 'msw';",
+          `import type { ${typeImports.join(', ')} } from 'msw';`,
+        ];
+      },
+      render: (operation) =>
+        this.generateHandler(operation, output, baseUrl, options),
+      footer: (_filePath, operations) => {
+        const names = operations.map(
+          (op) => `  ${this.resolveHandler(op).handlerName}(),`,
+        );
+        return [
+          '/** 当前模块的全部默认 handlers */',
+          'export const handlers = [',
+          ...names,
+          '];',
+        ].join('\n');
+      },
+    });
+  }
+
+  /**
+   * 默认 handlers 文件路径
+   * 'api/users/index.ts' -> 'api/users/handlers.ts'
+   * 'api/unclassified.ts' -> 'api/unclassified.handlers.ts'
+   */
+  static defaultHandlersFilePath(categoryFilePath: string): string {
+    if (/(^|\/)index\.ts$/.test(categoryFilePath)) {
+      return categoryFilePath.replace(/index\.ts$/, 'handlers.ts');
+    }
+    return categoryFilePath.replace(/\.ts$/, '.handlers.ts');
+  }
+
+  /**
+   * 解析 handler 的名称、类型与响应格式
+   */
+  private resolveHandler(operation: OperationInfo): HandlerInfo {
+    const { functionName, requestBody, response } = operation;
+    // 保留字后缀(delete_)拼接后已不是保留字，去掉以免出现 delete_Handler
+    const baseName = functionName.replace(/_$/, '');
+
+    let body: HandlerInfo['body'] = 'empty';
+    if (response.contentType && response.type !== 'void') {
+      if (isJsonContentType(response.contentType)) {
+        body = 'json';
+      } else if (/^text\//i.test(response.contentType)) {
+        body = 'text';
+      }
+    }
+
+    const status = Number(response.statusCode);
+    return {
+      handlerName: `${baseName}Handler`,
+      dataName: `${baseName}MockResponse`,
+      requestType: requestBody ? this.toBodyType(requestBody.type) : 'never',
+      responseType:
+        body === 'empty'
+          ? 'undefined'
+          : body === 'text'
+            ? 'string'
+            : this.toBodyType(response.type),
+      body,
+      // default / 2XX 等非数字状态码按 200 处理
+      status: Number.isInteger(status) ? status : 200,
+    };
+  }
+
+  /**
+   * MSW 要求请求体/响应体类型满足 DefaultBodyType，无法确定的类型使用 DefaultBodyType
+   */
+  private toBodyType(type: string): string {
+    return type === 'unknown' || type === 'void' ? 'DefaultBodyType' : type;
+  }
+
+  /**
+   * 生成示例数据常量与 handler 工厂函数
+   */
+  private generateHandler(
+    operation: OperationInfo,
+    output: StandardOutput,
+    baseUrl: string,
+    options: MswHandlersOptions,
+  ): string {
+    const { api, response } = operation;
+    const info = this.resolveHandler(operation);
+    const { handlerName, dataName, requestType, responseType, status } = info;
+
+    // MSW 路径参数写法: /users/{id} -> /users/:id
+    const paramNames = Array.from(
+      api.path.matchAll(/\{([^}]+)\}/g),
+      (match) => match[1]!,
+    );
+    const mswPath = `${baseUrl}${api.path.replace(/\{([^}]+)\}/g, ':$1')}`;
+    const paramsType =
+      paramNames.length > 0
+        ? `PathParams<${paramNames.map(quote).join(' | ')}>`
+        : 'PathParams';
+
+    const lines: string[] = [];
+    let defaultResolver: string;
+    if (info.body === 'empty') {
+      defaultResolver = `new HttpResponse(null, { status: ${status} })`;
+    } else {
+      const media = response.media!;
+      const data =
+        media.example ??
+        Object.values(media.examples ?? {})[0]?.value ??
+        new MockDataGenerator(output, options.mock).fromReference(media.schema);
+
+      if (info.body === 'text') {
+        const text = typeof data === 'string' ? data : JSON.stringify(data);
+        lines.push(
+          `export const ${dataName}: string = ${JSON.stringify(text)};`,
+        );
+        defaultResolver = `HttpResponse.text(${dataName}, { status: ${status} })`;
+      } else {
+        const annotation =
+          responseType === 'DefaultBodyType' ? '' : `: ${responseType}`;
+        lines.push(
+          `export const ${dataName}${annotation} = ${JSON.stringify(data ?? null, null, 2)};`,
+        );
+        defaultResolver = `HttpResponse.json(${dataName}, { status: ${status} })`;
+      }
+      lines.push('');
+    }
+
+    lines.push(...buildOperationJSDoc(operation));
+    lines.push(`export function ${handlerName}(`);
+    lines.push(
+      `  resolver: HttpResponseResolver<${paramsType}, ${requestType}, ${responseType}> = () =>`,
+    );
+    lines.push(`    ${defaultResolver},`);
+    lines.push('  options?: RequestHandlerOptions,');
+    lines.push(') {');
+    lines.push(
+      `  return http.${api.method.toLowerCase()}(${quote(mswPath)}, resolver, options);`,
+    );
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * TanStack Query Hooks 生成器
+ * 基于请求函数生成 useQuery / useMutation hooks
+ *
+ * 规则：
+ * - GET / HEAD               -> useQuery hook + queryKey 工厂函数
+ * - POST / PUT / PATCH / DELETE -> useMutation hook
+ * - 其他方法(OPTIONS)不生成 hook
+ *
+ * Hooks 不直接发请求，而是调用 FetchClientGenerator / AxiosClientGenerator
+ * 生成的同名请求函数，因此需要与客户端生成器一起使用。
+ */
+
+import type {
+  GeneratedFile,
+  HttpMethod,
+  IGenerator,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import type { QueryHooksOptions } from '../types';
+import {
+  DEFAULT_TYPES_FILE_PATH,
+  buildOperationJSDoc,
+  emitOperationModules,
+  quote,
+  relativeImportPath,
+  toIdentifier,
+  type OperationInfo,
+} from '../utils';
+
+const QUERY_METHODS: HttpMethod[] = ['GET', 'HEAD'];
+const MUTATION_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+export class QueryHooksGenerator implements IGenerator<QueryHooksOptions> {
+  /**
+   * 生成 hooks 文件
+   * 类型文件由客户端生成器负责输出，这里只生成 hooks 模块
+   *
+   * @param output 标准输出
+   * @param options 生成选项
+   * @returns 生成的文件列表
+   */
+  generate(
+    output: StandardOutput,
+    options: QueryHooksOptions = {},
+  ): GeneratedFile[] {
+    const typesFilePath = options.typesFilePath ?? DEFAULT_TYPES_FILE_PATH;
+    const queryPackage = options.queryPackage ?? '@tanstack/react-query';
+    const errorType = options.errorType ?? 'Error';
+    const resolveFilePath =
+      options.resolveFilePath ?? QueryHooksGenerator.defaultHooksFilePath;
+    const resolveClientFilePath =
+      options.resolveClientFilePath ?? ((filePath: string) => filePath);
+
+    // 只保留能生成 hook 的 API
+    const supported = output.apis.filter((api) =>
+      [...QUERY_METHODS, ...MUTATION_METHODS].includes(api.method),
+    );
+
+    // hooks 文件路径 -> 请求文件路径
+    const clientFiles = new Map<string, string>();
+    for (const api of output.apis) {
+      const categoryFilePath = api.category.filePath;
+      clientFiles.set(
+        resolveFilePath(categoryFilePath),
+        resolveClientFilePath(categoryFilePath),
+      );
+    }
+
+    // 文件路径 -> 已使用的 hook 名
+    const hookNames = new Map<string, Set<string>>();
+
+    // 函数名去重需要与客户端生成器保持一致，因此基于完整 API 列表解析，渲染时再跳过
+    return emitOperationModules(output, {
+      typesFilePath,
+      resolveFilePath,
+      imports: (filePath, operations) => {
+        const hookOperations = operations.filter((op) =>
+          supported.includes(op.api),
+        );
+        const hasQuery = hookOperations.some((op) => this.isQuery(op));
+        const hasMutation = hookOperations.some((op) => !this.isQuery(op));
+
+        const runtimeImports = [
+          ...(hasQuery ? ['useQuery'] : []),
+          ...(hasMutation ? ['useMutation'] : []),
+        ];
+        const typeImports = [
+          ...(hasQuery ? ['UseQueryOptions'] : []),
+          ...(hasMutation ? ['UseMutationOptions'] : []),
+        ];
+
+        // 空文件已由 emitOperationModules 跳过，这里至少存在一个 hook
+        const clientFile = clientFiles.get(filePath) ?? filePath;
+        const names = hookOperations.map((op) => op.functionName);
+        const lines = [
+          `import { ${runtimeImports.join(', ')} } from ${quote(queryPackage)};`,
+          `import type { ${typeImports.join(', ')} } from ${quote(queryPackage)};`,
+          `import { ${names.join(', ')} } from ${quote(relativeImportPath(filePath, clientFile))};`,
+        ];
+        return lines;
+      },
+      render: (operation) => {
+        if (!supported.includes(operation.api)) return '';
+        const filePath = operation.api.category.filePath;
+        if (!hookNames.has(filePath)) hookNames.set(filePath, new Set());
+        const hookName = this.uniqueHookName(
+          operation,
+          hookNames.get(filePath)!,
+        );
+        return this.isQuery(operation)
+          ? this.generateQueryHook(operation, hookName, errorType)
+          : this.generateMutationHook(operation, hookName, errorType);
+      },
+    });
+  }
+
+  /**
+   * 默认 hooks 文件路径
+   * 'api/users/index.ts' -> 'api/users/hooks.ts'
+   * 'api/unclassified.ts' -> 'api/unclassified.hooks.ts'
+   */
+  static defaultHooksFilePath(categoryFilePath: string): string {
+    if (/(^|\/)index\.ts$/.test(categoryFilePath)) {
+      return categoryFilePath.replace(/index\.ts$/, 'hooks.ts');
+    }
+    return categoryFilePath.replace(/\.ts$/, '.hooks.ts');
+  }
+
+  /**
+   * 生成文件内唯一的 hook 名称
+   * 与请求函数名一致，operationId 转换后重名时追加数字后缀(useGetUser2)
+   *
+   * @param operation 请求函数描述
+   * @param usedNames 当前文件已使用的 hook 名(会被更新)
+   */
+  private uniqueHookName(
+    operation: OperationInfo,
+    usedNames: Set<string>,
+  ): string {
+    const baseName = `use${toIdentifier(operation.api.operationId, 'PascalCase')}`;
+    let hookName = baseName;
+    for (let i = 2; usedNames.has(hookName); i++) {
+      hookName = `${baseName}${i}`;
+    }
+    usedNames.add(hookName);
+    return hookName;
+  }
+
+  private isQuery(operation: OperationInfo): boolean {
+    return QUERY_METHODS.includes(operation.api.method);
+  }
+
+  /**
+   * 生成 queryKey 工厂与 useQuery hook
+   */
+  private generateQueryHook(
+    operation: OperationInfo,
+    hookName: string,
+    errorType: string,
+  ): string {
+    const { api, functionName, returnType } = operation;
+    const keyName = `${functionName}QueryKey`;
+
+    // queryKey 由 operationId 与 path/query 参数组成
+    const keyGroups = operation.parameters.filter(
+      (g) => g.location === 'path' || g.location === 'query',
+    );
+    const keyParamsType = keyGroups
+      .map((g) => `${g.location}${g.required ? '' : '?'}: ${g.type}`)
+      .join('; ');
+    const keyOptional = keyGroups.every((g) => !g.required);
+    const keyItems = [
+      quote(api.operationId),
+      ...keyGroups.map((g) => `params.${g.location}`),
+    ];
+
+    const lines: string[] = [];
+    lines.push(`/** ${api.method} ${api.path} 的 queryKey */`);
+    if (keyGroups.length > 0) {
+      lines.push(
+        `export const ${keyName} = (params: { ${keyParamsType} }${keyOptional ? ' = {}' : ''}) =>`,
+        `  [${keyItems.join(', ')}] as const;`,
+      );
+    } else {
+      lines.push(`export const ${keyName} = () => [${keyItems[0]}] as const;`);
+    }
+    lines.push('');
+
+    lines.push(...buildOperationJSDoc(operation));
+    lines.push(`export function ${hookName}(`);
+    if (operation.paramsType) {
+      lines.push(
+        operation.paramsOptional
+          ? `  params: ${operation.paramsType} = {},`
+          : `  params: ${operation.paramsType},`,
+      );
+    }
+    lines.push(
+      `  options?: Omit<UseQueryOptions<${returnType}, ${errorType}, ${returnType}, ReturnType<typeof ${keyName}>>, 'queryKey' | 'queryFn'>,`,
+    );
+    lines.push(') {');
+    lines.push('  return useQuery({');
+    lines.push(
+      `    queryKey: ${keyName}(${keyGroups.length > 0 ? 'params' : ''}),`,
+    );
+    lines.push(
+      `    queryFn: ({ signal }) => ${functionName}(${operation.paramsType ? 'params, ' : ''}{ signal }),`,
+    );
+    lines.push('    ...options,');
+    lines.push('  });');
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 生成 useMutation hook
+   * mutation 的 variables 即请求函数的 params 对象
+   */
+  private generateMutationHook(
+    operation: OperationInfo,
+    hookName: string,
+    errorType: string,
+  ): string {
+    const { functionName, returnType } = operation;
+    const variablesType = operation.paramsType ?? 'void';
+
+    const lines: string[] = [...buildOperationJSDoc(operation)];
+    lines.push(`export function ${hookName}(`);
+    lines.push(
+      `  options?: Omit<UseMutationOptions<${returnType}, ${errorType}, ${variablesType}>, 'mutationFn'>,`,
+    );
+    lines.push(') {');
+    lines.push('  return useMutation({');
+    lines.push(
+      operation.paramsType
+        ? `    mutationFn: (params: ${variablesType}) => ${functionName}(params),`
+        : `    mutationFn: () => ${functionName}(),`,
+    );
+    lines.push('    ...options,');
+    lines.push('  });');
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+}
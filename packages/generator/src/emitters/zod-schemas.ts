@@ -0,0 +1,692 @@
+/**
+ * Zod Schema 生成器
+ * 将 StandardOutput.schemas 转换为 Zod 运行时校验 schema
+ *
+ * 转换规则：
+ * - object: z.object()，可选属性追加 .optional()，additionalProperties 对应 .catchall() / z.record()
+ * - extends: 基类为对象时使用 .extend()，否则使用 .and()
+ * - array: z.array(items)
+ * - enum: 字符串枚举使用 z.enum()，其他使用 z.literal() 联合
+ * - 属性约束: pattern/minLength/maxLength -> .regex()/.min()/.max()，minimum/maximum -> .min()/.max()
+ * - integer: type: integer 或 format 为 int32/int64 的数字追加 .int()
+ * - format: email/uuid/uri/date-time/date 映射为对应的字符串校验，binary(文件)映射为 z.instanceof(Blob)
+ * - nullable: .nullable()
+ *
+ * Schema 按依赖顺序输出，循环引用使用 z.lazy() 并显式标注类型。
+ * 属性类型(TS 类型字符串)通过 TypeScript AST 解析，无法映射的类型降级为 z.unknown()。
+ */
+
+import ts from 'typescript';
+import type {
+  GeneratedFile,
+  IGenerator,
+  PropertyDefinition,
+  SchemaDefinition,
+  SchemaReference,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import type { ZodSchemaOptions } from '../types';
+import {
+  DEFAULT_TYPES_FILE_PATH,
+  buildJSDoc,
+  collectTypeNames,
+  createTypeImport,
+  formatPropertyName,
+  quote,
+  toIdentifier,
+} from '../utils';
+
+/** 合法标识符 */
+const identifierRegex = /^[A-Za-z_$][\w$]*$/;
+
+/** 字符串 format -> Zod 校验方法 */
+const STRING_FORMATS: Record<string, string> = {
+  email: '.email()',
+  uuid: '.uuid()',
+  uri: '.url()',
+  url: '.url()',
+  'date-time': '.datetime({ offset: true })',
+  date: '.date()',
+};
+
+/** 表示整数的数字 format */
+const INTEGER_FORMATS = new Set(['int32', 'int64']);
+
+/**
+ * 单次生成的上下文
+ */
+interface EmitContext {
+  /** 所有 Schema 定义 */
+  schemas: Record<string, SchemaDefinition>;
+  /** 接口代码(用于解析类型别名) */
+  interfaces: Record<string, string>;
+  /** 变量名后缀 */
+  suffix: string;
+  /** 已输出的 Schema */
+  declared: Set<string>;
+  /** 输出为 ZodObject 的 Schema(可以被 .extend() 继承) */
+  objects: Set<string>;
+  /** 当前作用域内的泛型参数 -> 运行时参数名 */
+  typeParams: Map<string, string>;
+}
+
+export class ZodSchemaGenerator implements IGenerator<ZodSchemaOptions> {
+  /**
+   * 生成 Zod schema 文件
+   * 类型文件由客户端生成器负责输出，这里仅在循环引用时导入类型
+   *
+   * @param output 标准输出
+   * @param options 生成选项
+   * @returns 生成的文件列表
+   */
+  generate(
+    output: StandardOutput,
+    options: ZodSchemaOptions = {},
+  ): GeneratedFile[] {
+    const filePath = options.filePath ?? 'schemas.ts';
+    const typesFilePath = options.typesFilePath ?? DEFAULT_TYPES_FILE_PATH;
+    const ctx: EmitContext = {
+      schemas: output.schemas,
+      interfaces: output.interfaces,
+      suffix: options.schemaSuffix ?? 'Schema',
+      declared: new Set(),
+      objects: new Set(),
+      typeParams: new Map(),
+    };
+
+    const { order, cyclic } = this.sortSchemas(output);
+    const blocks: string[] = [];
+    const typeNames = new Set<string>();
+
+    for (const name of order) {
+      const schema = output.schemas[name]!;
+      const isCyclic = cyclic.has(name);
+      // 循环引用的 schema 需要显式标注类型，否则 TS 无法推断
+      const annotatedType =
+        isCyclic && output.interfaces[name] ? name : undefined;
+      if (annotatedType) typeNames.add(annotatedType);
+
+      blocks.push(this.generateSchema(schema, ctx, isCyclic, annotatedType));
+      ctx.declared.add(name);
+    }
+
+    const imports = [
+      "import { z } from 'zod';",
+      ...createTypeImport(filePath, typesFilePath, typeNames),
+    ];
+
+    return [
+      {
+        path: filePath,
+        content: `${imports.join('\n')}\n\n${blocks.join('\n\n')}\n`,
+      },
+    ];
+  }
+
+  /**
+   * 按依赖关系排序 Schema
+   * 依赖(extends/items/additionalProperties/属性类型引用)总是先于使用方输出，
+   * 处于循环中的 Schema 会被标记出来
+   */
+  private sortSchemas(output: StandardOutput): {
+    order: string[];
+    cyclic: Set<string>;
+  } {
+    const knownTypes = new Set(Object.keys(output.schemas));
+    const order: string[] = [];
+    const cyclic = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (name: string) => {
+      const current = state.get(name);
+      if (current === 'done') return;
+      if (current === 'visiting') {
+        // 回边：栈中从该节点开始的所有 Schema 都处于循环中
+        for (const item of stack.slice(stack.indexOf(name))) {
+          cyclic.add(item);
+        }
+        return;
+      }
+
+      state.set(name, 'visiting');
+      stack.push(name);
+      for (const dep of this.collectDependencies(
+        output.schemas[name]!,
+        output.interfaces[name],
+        knownTypes,
+      )) {
+        visit(dep);
+      }
+      stack.pop();
+      state.set(name, 'done');
+      order.push(name);
+    };
+
+    for (const name of Object.keys(output.schemas)) {
+      visit(name);
+    }
+
+    return { order, cyclic };
+  }
+
+  /**
+   * 收集 Schema 依赖的其他 Schema 名称
+   */
+  private collectDependencies(
+    schema: SchemaDefinition,
+    interfaceCode: string | undefined,
+    knownTypes: Set<string>,
+  ): string[] {
+    const deps = new Set<string>();
+    const collectRef = (ref: SchemaReference | undefined) => {
+      if (ref?.type === 'ref' && ref.ref) {
+        collectTypeNames(ref.ref, knownTypes, deps);
+      } else if (ref?.schema) {
+        for (const dep of this.collectDependencies(
+          ref.schema as SchemaDefinition,
+          undefined,
+          knownTypes,
+        )) {
+          deps.add(dep);
+        }
+      }
+    };
+
+    for (const base of schema.extends ?? []) {
+      collectTypeNames(base, knownTypes, deps);
+    }
+    collectRef(schema.items);
+    collectRef(schema.additionalProperties);
+    for (const prop of Object.values(schema.properties ?? {})) {
+      collectTypeNames(prop.type, knownTypes, deps);
+    }
+    // 无法从结构推断时会回退到类型别名，因此别名中的引用也算作依赖
+    if (interfaceCode && this.needsAliasFallback(schema)) {
+      // 只收集等号右侧，避免把声明本身的名称当作自引用
+      collectTypeNames(
+        interfaceCode.slice(interfaceCode.indexOf('=') + 1),
+        knownTypes,
+        deps,
+      );
+    }
+
+    // 自引用同样会被收集，排序时标记为循环
+    return Array.from(deps);
+  }
+
+  /**
+   * 生成单个 Schema 的声明
+   */
+  private generateSchema(
+    schema: SchemaDefinition,
+    ctx: EmitContext,
+    isCyclic: boolean,
+    annotatedType: string | undefined,
+  ): string {
+    const varName = this.schemaVarName(schema.name, ctx);
+    const lines = buildJSDoc([schema.description]);
+
+    // 泛型基类生成为工厂函数: PageVOSchema(UserSchema)
+    if (schema.genericParam) {
+      const param = schema.genericParam;
+      const argName = param.toLowerCase();
+      ctx.typeParams = new Map([[param, argName]]);
+      const body = this.generateDefinition(schema, ctx);
+      ctx.typeParams = new Map();
+      lines.push(
+        `export const ${varName} = <${param} extends z.ZodTypeAny>(${argName}: ${param}) =>`,
+        `  ${body};`,
+      );
+      return lines.join('\n');
+    }
+
+    const body = this.generateDefinition(schema, ctx);
+    if (isCyclic) {
+      const type = annotatedType
+        ? `z.ZodType<${annotatedType}>`
+        : 'z.ZodTypeAny';
+      lines.push(`export const ${varName}: ${type} = ${body};`);
+    } else {
+      lines.push(`export const ${varName} = ${body};`);
+      if (body.startsWith('z.object(') || this.isObjectChain(body, ctx)) {
+        ctx.objects.add(schema.name);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 判断表达式是否为基于已有对象 Schema 的 .extend() 链
+   */
+  private isObjectChain(body: string, ctx: EmitContext): boolean {
+    const match = body.match(/^([\w$]+)\.extend\(/);
+    if (!match) return false;
+    return Array.from(ctx.objects).some(
+      (name) => this.schemaVarName(name, ctx) === match[1],
+    );
+  }
+
+  /**
+   * 生成 Schema 定义表达式
+   */
+  private generateDefinition(
+    schema: Partial<SchemaDefinition>,
+    ctx: EmitContext,
+  ): string {
+    if (schema.type === 'enum' && schema.enum && schema.enum.length > 0) {
+      return this.enumExpression(schema.enum);
+    }
+
+    if (schema.type === 'array') {
+      if (schema.items) {
+        return `z.array(${this.refExpression(schema.items, ctx)})`;
+      }
+      return this.aliasExpression(schema, ctx) ?? 'z.array(z.unknown())';
+    }
+
+    if (this.needsAliasFallback(schema)) {
+      return (
+        this.aliasExpression(schema, ctx) ??
+        (schema.type === 'primitive'
+          ? 'z.unknown()'
+          : 'z.object({}).passthrough()')
+      );
+    }
+
+    return this.objectExpression(schema, ctx);
+  }
+
+  /**
+   * 是否需要回退到类型别名解析
+   * union、没有属性/继承/索引签名的 object 以及 primitive 无法从结构推断
+   */
+  private needsAliasFallback(schema: Partial<SchemaDefinition>): boolean {
+    if (schema.type === 'primitive') return true;
+    if (schema.type === 'enum' || schema.type === 'array') return false;
+    return (
+      Object.keys(schema.properties ?? {}).length === 0 &&
+      !schema.extends?.length &&
+      !schema.additionalProperties
+    );
+  }
+
+  /**
+   * 生成对象 Schema 表达式
+   */
+  private objectExpression(
+    schema: Partial<SchemaDefinition>,
+    ctx: EmitContext,
+  ): string {
+    const properties = Object.values(schema.properties ?? {});
+    const catchall = schema.additionalProperties
+      ? this.refExpression(schema.additionalProperties, ctx)
+      : undefined;
+
+    // 纯索引签名对象
+    if (properties.length === 0 && !schema.extends?.length && catchall) {
+      return `z.record(z.string(), ${catchall})`;
+    }
+
+    let shape = 'z.object({})';
+    if (properties.length > 0) {
+      const entries = properties.map(
+        (prop) =>
+          `  ${formatPropertyName(prop.name)}: ${this.propertyExpression(prop, ctx)},`,
+      );
+      shape = `z.object({\n${entries.join('\n')}\n})`;
+    }
+
+    const bases = (schema.extends ?? []).filter((base) => ctx.schemas[base]);
+    let expression = shape;
+    if (bases.length > 0) {
+      const objectBases = bases.every(
+        (base) => ctx.objects.has(base) && ctx.declared.has(base),
+      );
+      const [first, ...rest] = bases.map((base) => this.schemaRef(base, ctx));
+      if (objectBases) {
+        // 对象继承：First.extend(Second.shape).extend({ ... })
+        expression = first!;
+        for (const base of rest) {
+          expression += `.extend(${base}.shape)`;
+        }
+        if (properties.length > 0) {
+          expression += `.extend(${shape.slice('z.object('.length, -1)})`;
+        }
+      } else {
+        expression = [first!, ...rest].reduce(
+          (acc, base) => `${acc}.and(${base})`,
+        );
+        if (properties.length > 0) {
+          expression += `.and(${shape})`;
+        }
+      }
+    }
+
+    if (catchall) {
+      expression += `.catchall(${catchall})`;
+    }
+    return expression;
+  }
+
+  /**
+   * 生成属性表达式，并应用约束
+   */
+  private propertyExpression(
+    prop: PropertyDefinition,
+    ctx: EmitContext,
+  ): string {
+    // 去除类型中的 null，统一通过 .nullable() 表达
+    const typeNode = this.parseType(prop.type);
+    let nullable = !!prop.nullable;
+    let baseNode: ts.TypeNode | undefined = typeNode;
+    if (typeNode && ts.isUnionTypeNode(typeNode)) {
+      const rest = typeNode.types.filter((t) => !this.isNullType(t));
+      if (rest.length !== typeNode.types.length) {
+        nullable = true;
+        baseNode =
+          rest.length === 1
+            ? rest[0]
+            : ts.factory.createUnionTypeNode(rest as ts.TypeNode[]);
+      }
+    }
+
+    let expression: string;
+    if (prop.enum && prop.enum.length > 0) {
+      expression = this.enumExpression(prop.enum);
+    } else {
+      expression = baseNode
+        ? this.typeNodeExpression(baseNode, ctx)
+        : 'z.unknown()';
+      const kind = baseNode?.kind;
+      if (kind === ts.SyntaxKind.StringKeyword && prop.format === 'binary') {
+        // 文件字段(multipart/form-data)运行时为 Blob/File
+        expression = 'z.instanceof(Blob)';
+      } else if (kind === ts.SyntaxKind.StringKeyword) {
+        expression += this.stringConstraints(prop);
+      } else if (kind === ts.SyntaxKind.NumberKeyword) {
+        if (prop.integer || INTEGER_FORMATS.has(prop.format ?? '')) {
+          expression += '.int()';
+        }
+        if (prop.minimum !== undefined) expression += `.min(${prop.minimum})`;
+        if (prop.maximum !== undefined) expression += `.max(${prop.maximum})`;
+      }
+    }
+
+    if (nullable) expression += '.nullable()';
+    if (!prop.required) expression += '.optional()';
+    return expression;
+  }
+
+  /**
+   * 字符串约束
+   */
+  private stringConstraints(prop: PropertyDefinition): string {
+    let constraints = '';
+    if (prop.format && STRING_FORMATS[prop.format]) {
+      constraints += STRING_FORMATS[prop.format];
+    }
+    if (prop.minLength !== undefined) constraints += `.min(${prop.minLength})`;
+    if (prop.maxLength !== undefined) constraints += `.max(${prop.maxLength})`;
+    if (prop.pattern !== undefined) {
+      constraints += `.regex(new RegExp(${quote(prop.pattern)}))`;
+    }
+    return constraints;
+  }
+
+  /**
+   * 生成枚举表达式
+   */
+  private enumExpression(values: Array<string | number>): string {
+    if (values.every((v) => typeof v === 'string')) {
+      return `z.enum([${values.map((v) => quote(v as string)).join(', ')}])`;
+    }
+    const literals = values.map(
+      (v) => `z.literal(${typeof v === 'string' ? quote(v) : v})`,
+    );
+    return literals.length === 1
+      ? literals[0]!
+      : `z.union([${literals.join(', ')}])`;
+  }
+
+  /**
+   * 生成 SchemaReference 表达式
+   * type='ref' 时 ref 为类型字符串(如 User、string、User[])
+   */
+  private refExpression(ref: SchemaReference, ctx: EmitContext): string {
+    if (ref.type === 'ref' && ref.ref) {
+      const node = this.parseType(ref.ref);
+      return node ? this.typeNodeExpression(node, ctx) : 'z.unknown()';
+    }
+    if (ref.schema) {
+      return this.generateDefinition(ref.schema, ctx);
+    }
+    return 'z.unknown()';
+  }
+
+  /**
+   * 从类型别名代码解析 Schema 表达式
+   * 例如 `export type Pet = Cat | Dog;` -> z.union([CatSchema, DogSchema])
+   */
+  private aliasExpression(
+    schema: Partial<SchemaDefinition>,
+    ctx: EmitContext,
+  ): string | undefined {
+    const code = schema.name ? ctx.interfaces[schema.name] : undefined;
+    if (!code) return undefined;
+
+    const sourceFile = ts.createSourceFile(
+      'alias.ts',
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+    );
+    for (const statement of sourceFile.statements) {
+      if (ts.isTypeAliasDeclaration(statement)) {
+        return this.typeNodeExpression(statement.type, ctx);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 将类型字符串解析为 TypeNode
+   */
+  private parseType(typeStr: string): ts.TypeNode | undefined {
+    const sourceFile = ts.createSourceFile(
+      'type.ts',
+      `type __Type = ${typeStr};`,
+      ts.ScriptTarget.Latest,
+      true,
+    );
+    const statement = sourceFile.statements[0];
+    return statement && ts.isTypeAliasDeclaration(statement)
+      ? statement.type
+      : undefined;
+  }
+
+  private isNullType(node: ts.TypeNode): boolean {
+    return (
+      node.kind === ts.SyntaxKind.NullKeyword ||
+      (ts.isLiteralTypeNode(node) &&
+        node.literal.kind === ts.SyntaxKind.NullKeyword)
+    );
+  }
+
+  /**
+   * 将 TypeNode 转换为 Zod 表达式
+   */
+  private typeNodeExpression(node: ts.TypeNode, ctx: EmitContext): string {
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return 'z.string()';
+      case ts.SyntaxKind.NumberKeyword:
+        return 'z.number()';
+      case ts.SyntaxKind.BooleanKeyword:
+        return 'z.boolean()';
+      case ts.SyntaxKind.NullKeyword:
+        return 'z.null()';
+      case ts.SyntaxKind.UndefinedKeyword:
+        return 'z.undefined()';
+      case ts.SyntaxKind.VoidKeyword:
+        return 'z.void()';
+      case ts.SyntaxKind.NeverKeyword:
+        return 'z.never()';
+      case ts.SyntaxKind.ObjectKeyword:
+        return 'z.record(z.string(), z.unknown())';
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.typeNodeExpression(node.type, ctx);
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+      const literal = node.literal;
+      if (ts.isStringLiteral(literal))
+        return `z.literal(${quote(literal.text)})`;
+      if (ts.isNumericLiteral(literal)) return `z.literal(${literal.text})`;
+      if (
+        ts.isPrefixUnaryExpression(literal) &&
+        ts.isNumericLiteral(literal.operand)
+      ) {
+        return `z.literal(-${literal.operand.text})`;
+      }
+      if (literal.kind === ts.SyntaxKind.TrueKeyword) return 'z.literal(true)';
+      if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+        return 'z.literal(false)';
+      }
+      if (literal.kind === ts.SyntaxKind.NullKeyword) return 'z.null()';
+    }
+
+    if (ts.isArrayTypeNode(node)) {
+      return `z.array(${this.typeNodeExpression(node.elementType, ctx)})`;
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+      const rest = node.types.filter((t) => !this.isNullType(t));
+      const nullable = rest.length !== node.types.length;
+      let expression: string;
+      if (
+        rest.length > 1 &&
+        rest.every(
+          (t) => ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal),
+        )
+      ) {
+        const values = rest.map((t) =>
+          quote(((t as ts.LiteralTypeNode).literal as ts.StringLiteral).text),
+        );
+        expression = `z.enum([${values.join(', ')}])`;
+      } else if (rest.length === 1) {
+        expression = this.typeNodeExpression(rest[0]!, ctx);
+      } else {
+        const members = rest.map((t) => this.typeNodeExpression(t, ctx));
+        expression = `z.union([${members.join(', ')}])`;
+      }
+      return nullable ? `${expression}.nullable()` : expression;
+    }
+
+    if (ts.isIntersectionTypeNode(node)) {
+      return node.types
+        .map((t) => this.typeNodeExpression(t, ctx))
+        .reduce((acc, expression) => `${acc}.and(${expression})`);
+    }
+
+    if (ts.isTypeLiteralNode(node)) {
+      return this.typeLiteralExpression(node, ctx);
+    }
+
+    if (ts.isTypeReferenceNode(node)) {
+      return this.typeReferenceExpression(node, ctx);
+    }
+
+    // any / unknown 以及无法映射的类型
+    return 'z.unknown()';
+  }
+
+  /**
+   * 内联对象类型 -> z.object() / z.record()
+   */
+  private typeLiteralExpression(
+    node: ts.TypeLiteralNode,
+    ctx: EmitContext,
+  ): string {
+    const entries: string[] = [];
+    let catchall: string | undefined;
+
+    for (const member of node.members) {
+      if (ts.isPropertySignature(member) && member.type) {
+        const name =
+          ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)
+            ? member.name.text
+            : member.name.getText();
+        let expression = this.typeNodeExpression(member.type, ctx);
+        if (member.questionToken) expression += '.optional()';
+        entries.push(`${formatPropertyName(name)}: ${expression}`);
+      } else if (ts.isIndexSignatureDeclaration(member) && member.type) {
+        catchall = this.typeNodeExpression(member.type, ctx);
+      }
+    }
+
+    if (entries.length === 0) {
+      return catchall
+        ? `z.record(z.string(), ${catchall})`
+        : 'z.object({}).passthrough()';
+    }
+    const shape = `z.object({ ${entries.join(', ')} })`;
+    return catchall ? `${shape}.catchall(${catchall})` : shape;
+  }
+
+  /**
+   * 类型引用 -> Schema 引用 / 内置泛型
+   */
+  private typeReferenceExpression(
+    node: ts.TypeReferenceNode,
+    ctx: EmitContext,
+  ): string {
+    const name = node.typeName.getText();
+    const args = node.typeArguments ?? [];
+
+    const typeParam = ctx.typeParams.get(name);
+    if (typeParam) return typeParam;
+
+    if (name === 'Array' && args.length === 1) {
+      return `z.array(${this.typeNodeExpression(args[0]!, ctx)})`;
+    }
+    if (name === 'Record' && args.length === 2) {
+      const key =
+        args[0]!.kind === ts.SyntaxKind.StringKeyword
+          ? 'z.string()'
+          : this.typeNodeExpression(args[0]!, ctx);
+      return `z.record(${key}, ${this.typeNodeExpression(args[1]!, ctx)})`;
+    }
+
+    const target = ctx.schemas[name];
+    if (!target) return 'z.unknown()';
+
+    // 泛型实例: PageVO<User> -> PageVOSchema(UserSchema)
+    if (target.genericParam && args.length === 1) {
+      const call = `${this.schemaVarName(name, ctx)}(${this.typeNodeExpression(args[0]!, ctx)})`;
+      return ctx.declared.has(name) ? call : `z.lazy(() => ${call})`;
+    }
+    return this.schemaRef(name, ctx);
+  }
+
+  /**
+   * 引用其他 Schema
+   * 尚未声明的 Schema(循环引用)使用 z.lazy() 延迟求值
+   */
+  private schemaRef(name: string, ctx: EmitContext): string {
+    const varName = this.schemaVarName(name, ctx);
+    return ctx.declared.has(name) ? varName : `z.lazy(() => ${varName})`;
+  }
+
+  /**
+   * Schema 变量名：User -> UserSchema
+   */
+  private schemaVarName(name: string, ctx: EmitContext): string {
+    const base = identifierRegex.test(name)
+      ? name
+      : toIdentifier(name, 'PascalCase');
+    return `${base}${ctx.suffix}`;
+  }
+}
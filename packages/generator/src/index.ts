@@ -0,0 +1,8 @@
+/**
+ * @api-codegen-universal/generator
+ * 基于 StandardOutput 的代码生成器
+ */
+
+export * from './emitters';
+export * from './types';
+export * from './utils';
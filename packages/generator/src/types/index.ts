@@ -0,0 +1,128 @@
+/**
+ * 生成器专用类型定义
+ */
+
+import type {
+  GeneratorOptions,
+  MockOptions,
+} from '@api-codegen-universal/core';
+
+/**
+ * 生成器通用选项
+ * 所有 Emitter 共享的基础配置
+ */
+export interface BaseEmitterOptions extends GeneratorOptions {
+  /**
+   * 类型定义文件路径(相对于输出根目录，默认 'types.ts')
+   *
+   * 生成器会将 `StandardOutput.interfaces` 汇总写入该文件，
+   * 各请求文件通过相对路径从这里导入类型。
+   * 设置为 false 时不生成类型文件，也不生成类型导入
+   * (适用于 interfaceExportMode='declare' 的全局声明场景)。
+   */
+  typesFilePath?: string | false;
+}
+
+/**
+ * Fetch 客户端生成选项
+ */
+export interface FetchClientOptions extends BaseEmitterOptions {
+  /**
+   * 运行时文件路径(相对于输出根目录，默认 'runtime.ts')
+   * 该文件包含 request 函数、ApiError 与全局客户端配置
+   */
+  runtimeFilePath?: string;
+
+  /**
+   * 默认 baseUrl
+   * 未设置时使用 `metadata.baseUrl`，两者都没有则为空字符串
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Axios 客户端生成选项
+ */
+export interface AxiosClientOptions extends BaseEmitterOptions {
+  /**
+   * axios 实例的导入路径
+   * - 以 '.' 开头时视为相对于输出根目录的路径，会按文件位置自动换算
+   * - 其他值(如 '@/utils/request')原样作为模块路径使用
+   *
+   * 未设置时直接使用 axios 默认导出。
+   * 拦截器、baseURL、鉴权等均在该实例上自行配置。
+   */
+  instancePath?: string;
+
+  /**
+   * 实例的导出名(默认 'default'，即默认导出)
+   * 例如实例通过 `export const http = axios.create()` 导出时设置为 'http'
+   */
+  instanceExportName?: string;
+
+  /**
+   * 是否返回 `response.data`(默认 true)
+   * 如果实例的响应拦截器已经将响应解包为 data，设置为 false
+   */
+  unwrapData?: boolean;
+}
+
+/**
+ * TanStack Query Hooks 生成选项
+ */
+export interface QueryHooksOptions extends BaseEmitterOptions {
+  /**
+   * TanStack Query 包名(默认 '@tanstack/react-query')
+   * 也可以设置为 '@tanstack/vue-query'、'@tanstack/solid-query' 等
+   */
+  queryPackage?: string;
+
+  /**
+   * 计算 hooks 文件路径
+   * 默认与请求文件同目录：'api/users/index.ts' -> 'api/users/hooks.ts'
+   */
+  resolveFilePath?: (categoryFilePath: string) => string;
+
+  /**
+   * Hooks 调用的请求函数所在文件
+   * 默认即 category.filePath(与 FetchClientGenerator / AxiosClientGenerator 的输出一致)
+   */
+  resolveClientFilePath?: (categoryFilePath: string) => string;
+
+  /** 错误类型(默认 'Error') */
+  errorType?: string;
+}
+
+/**
+ * Zod Schema 生成选项
+ */
+export interface ZodSchemaOptions extends BaseEmitterOptions {
+  /** 输出文件路径(相对于输出根目录，默认 'schemas.ts') */
+  filePath?: string;
+
+  /**
+   * Schema 变量名后缀(默认 'Schema')
+   * 例如 User -> UserSchema
+   */
+  schemaSuffix?: string;
+}
+
+/**
+ * MSW Handlers 生成选项
+ */
+export interface MswHandlersOptions extends BaseEmitterOptions {
+  /**
+   * handler 匹配的地址前缀(默认 '*'，即匹配任意域名)
+   * 例如设置为 'https://api.example.com/v1'
+   */
+  baseUrl?: string;
+
+  /**
+   * 计算 handlers 文件路径
+   * 默认与请求文件同目录：'api/users/index.ts' -> 'api/users/handlers.ts'
+   */
+  resolveFilePath?: (categoryFilePath: string) => string;
+
+  /** 没有 example 时生成示例数据的选项 */
+  mock?: MockOptions;
+}
@@ -0,0 +1,335 @@
+/**
+ * ApiDefinition 工具函数
+ * 负责从标准输出中解析出生成请求函数所需的信息
+ * (参数分组、请求体、成功响应类型、文件分组等)
+ */
+
+import type {
+  ApiDefinition,
+  MediaTypeDefinition,
+  SchemaDefinition,
+  SchemaReference,
+} from '@api-codegen-universal/core';
+import { buildJSDoc, collectTypeNames, toIdentifier } from './code-utils';
+
+/** 参数位置(Cookie 参数无法由客户端直接设置，这里不处理) */
+export type ParameterLocation = 'path' | 'query' | 'header';
+
+/**
+ * 参数分组信息
+ */
+export interface ParameterGroup {
+  /** 参数位置 */
+  location: ParameterLocation;
+  /** 参数接口类型 */
+  type: string;
+  /** 是否必填(path 参数始终必填；其余位置存在必填字段时为必填) */
+  required: boolean;
+}
+
+/**
+ * 请求体信息
+ */
+export interface RequestBodyInfo {
+  /** 请求体类型 */
+  type: string;
+  /** 内容类型(如 application/json) */
+  contentType: string;
+  /** 是否必填 */
+  required: boolean;
+}
+
+/**
+ * 成功响应信息
+ */
+export interface SuccessResponseInfo {
+  /** 响应状态码(没有成功响应时为 undefined) */
+  statusCode?: string;
+  /** 响应类型(无响应体时为 'void') */
+  type: string;
+  /** 内容类型 */
+  contentType?: string;
+  /** 媒体类型定义(包含 example/examples) */
+  media?: MediaTypeDefinition;
+}
+
+const PARAMETER_LOCATIONS: ParameterLocation[] = ['path', 'query', 'header'];
+
+/**
+ * 将 SchemaReference 转换为类型字符串
+ * 内联定义无法直接引用，回退为 unknown
+ */
+export function schemaRefToType(ref: SchemaReference | undefined): string {
+  if (ref?.type === 'ref' && ref.ref) {
+    return ref.ref;
+  }
+  return 'unknown';
+}
+
+/**
+ * 按 category.filePath 对 API 进行分组
+ * 保持 API 在原始列表中的顺序
+ */
+export function groupApisByFile(
+  apis: ApiDefinition[],
+): Map<string, ApiDefinition[]> {
+  const groups = new Map<string, ApiDefinition[]>();
+  for (const api of apis) {
+    const filePath = api.category.filePath;
+    if (!groups.has(filePath)) {
+      groups.set(filePath, []);
+    }
+    groups.get(filePath)!.push(api);
+  }
+  return groups;
+}
+
+/**
+ * 解析 API 的参数分组
+ *
+ * @param api API 定义
+ * @param schemas Schema 定义集合(用于判断参数组是否必填)
+ */
+export function resolveParameterGroups(
+  api: ApiDefinition,
+  schemas: Record<string, SchemaDefinition>,
+): ParameterGroup[] {
+  const groups: ParameterGroup[] = [];
+  if (!api.parameters) return groups;
+
+  for (const location of PARAMETER_LOCATIONS) {
+    const ref = api.parameters[location];
+    if (!ref) continue;
+
+    const type = schemaRefToType(ref);
+    const schema = ref.type === 'ref' && ref.ref ? schemas[ref.ref] : undefined;
+    const required =
+      location === 'path' ||
+      (schema?.required !== undefined && schema.required.length > 0);
+
+    groups.push({ location, type, required });
+  }
+
+  return groups;
+}
+
+/**
+ * 从 content 中挑选最合适的媒体类型
+ * 优先 JSON，其次第一个可用类型
+ */
+export function pickMediaType(
+  content: Record<string, MediaTypeDefinition> | undefined,
+): [string, MediaTypeDefinition] | undefined {
+  if (!content) return undefined;
+
+  const entries = Object.entries(content);
+  return (
+    entries.find(([contentType]) => isJsonContentType(contentType)) ??
+    entries[0]
+  );
+}
+
+/**
+ * 判断是否为 JSON 内容类型
+ * 支持 application/json、application/problem+json、*\/*;charset=utf-8 等形式
+ */
+export function isJsonContentType(contentType: string): boolean {
+  const normalized = contentType.split(';')[0]!.trim().toLowerCase();
+  return (
+    normalized === 'application/json' ||
+    normalized.endsWith('+json') ||
+    normalized === '*/*'
+  );
+}
+
+/**
+ * 解析 API 的请求体信息
+ */
+export function resolveRequestBody(
+  api: ApiDefinition,
+): RequestBodyInfo | undefined {
+  const picked = pickMediaType(api.requestBody?.content);
+  if (!picked) return undefined;
+
+  const [contentType, media] = picked;
+  return {
+    type: schemaRefToType(media.schema),
+    contentType,
+    required: api.requestBody?.required !== false,
+  };
+}
+
+/**
+ * 解析 API 的成功响应
+ * 规则：按状态码升序取第一个 2xx 响应；没有 2xx 时尝试 default
+ */
+export function resolveSuccessResponse(
+  api: ApiDefinition,
+): SuccessResponseInfo {
+  const statusCodes = Object.keys(api.responses)
+    .filter((code) => /^2\d\d$/.test(code) || /^2XX$/i.test(code))
+    .sort();
+
+  if (statusCodes.length === 0 && api.responses['default']) {
+    statusCodes.push('default');
+  }
+
+  const statusCode = statusCodes[0];
+  if (!statusCode) {
+    return { type: 'void' };
+  }
+
+  const picked = pickMediaType(api.responses[statusCode]?.content);
+  if (!picked) {
+    return { statusCode, type: 'void' };
+  }
+
+  const [contentType, media] = picked;
+  return {
+    statusCode,
+    type: schemaRefToType(media.schema),
+    contentType,
+    media,
+  };
+}
+
+/**
+ * 请求函数描述
+ * 汇总了生成单个请求函数所需的全部信息，供不同 Emitter 复用
+ */
+export interface OperationInfo {
+  /** 原始 API 定义 */
+  api: ApiDefinition;
+  /** 函数名(合法标识符，文件内唯一) */
+  functionName: string;
+  /** 参数分组 */
+  parameters: ParameterGroup[];
+  /** 请求体 */
+  requestBody?: RequestBodyInfo;
+  /** 成功响应 */
+  response: SuccessResponseInfo;
+  /**
+   * 非 JSON 成功响应的读取方式(JSON 由运行时根据响应头自动识别)
+   */
+  responseType?: 'text' | 'blob';
+  /**
+   * 请求函数返回的数据类型
+   * 二进制响应在 openapi-typescript 中通常表示为 string，这里修正为 Blob
+   */
+  returnType: string;
+  /**
+   * 参数对象的类型字面量
+   * 例如: `{ path: GetUserPathParams; query?: GetUserQueryParams; body: User }`
+   * 没有任何参数时为 undefined
+   */
+  paramsType?: string;
+  /** 参数对象是否可省略(所有成员均为可选) */
+  paramsOptional: boolean;
+}
+
+/**
+ * 解析单个 API 的请求函数描述
+ *
+ * @param api API 定义
+ * @param schemas Schema 定义集合
+ * @param usedNames 当前文件已使用的函数名(用于去重，会被更新)
+ */
+export function resolveOperation(
+  api: ApiDefinition,
+  schemas: Record<string, SchemaDefinition>,
+  usedNames: Set<string>,
+): OperationInfo {
+  const baseName = toIdentifier(api.operationId);
+  let functionName = baseName;
+  let i = 2;
+  while (usedNames.has(functionName)) {
+    functionName = `${baseName}${i}`;
+    i++;
+  }
+  usedNames.add(functionName);
+
+  const parameters = resolveParameterGroups(api, schemas);
+  const requestBody = resolveRequestBody(api);
+  const response = resolveSuccessResponse(api);
+  const responseType = resolveResponseType(response.contentType);
+
+  const members = parameters.map(
+    (group) => `${group.location}${group.required ? '' : '?'}: ${group.type}`,
+  );
+  if (requestBody) {
+    members.push(`body${requestBody.required ? '' : '?'}: ${requestBody.type}`);
+  }
+
+  return {
+    api,
+    functionName,
+    parameters,
+    requestBody,
+    response,
+    responseType,
+    returnType:
+      responseType === 'blob' && response.type === 'string'
+        ? 'Blob'
+        : response.type,
+    paramsType: members.length > 0 ? `{ ${members.join('; ')} }` : undefined,
+    paramsOptional:
+      parameters.every((group) => !group.required) && !requestBody?.required,
+  };
+}
+
+/**
+ * 根据成功响应的内容类型推断读取方式
+ * JSON 由运行时根据响应头自动识别，这里只处理文本与二进制
+ */
+function resolveResponseType(
+  contentType: string | undefined,
+): 'text' | 'blob' | undefined {
+  if (!contentType || isJsonContentType(contentType)) return undefined;
+  if (contentType.startsWith('text/')) return 'text';
+  return 'blob';
+}
+
+/**
+ * 收集请求函数引用到的类型名
+ *
+ * @param operation 请求函数描述
+ * @param knownTypes 可导入的类型名集合
+ * @param collected 收集结果(输出)
+ */
+export function collectOperationTypes(
+  operation: OperationInfo,
+  knownTypes: Set<string>,
+  collected: Set<string>,
+): void {
+  for (const group of operation.parameters) {
+    collectTypeNames(group.type, knownTypes, collected);
+  }
+  if (operation.requestBody) {
+    collectTypeNames(operation.requestBody.type, knownTypes, collected);
+  }
+  collectTypeNames(operation.returnType, knownTypes, collected);
+}
+
+/**
+ * 生成请求函数的 JSDoc 注释
+ */
+export function buildOperationJSDoc(
+  operation: OperationInfo,
+  indent = '',
+): string[] {
+  const { api } = operation;
+  return buildJSDoc(
+    [
+      api.summary,
+      api.description && api.description !== api.summary
+        ? `@description ${api.description}`
+        : undefined,
+      `@request ${api.method} ${api.path}`,
+      api.tags && api.tags.length > 0
+        ? `@tags ${api.tags.join(', ')}`
+        : undefined,
+      api.deprecated ? '@deprecated' : undefined,
+    ],
+    indent,
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * 代码拼接工具
+ * 提供标识符处理、相对导入路径计算、类型名收集等通用能力
+ */
+
+import type { NamingStyle } from '@api-codegen-universal/core';
+import { NamingUtils } from '@api-codegen-universal/openapi';
+
+/** JavaScript 保留字(不能直接作为函数名/变量名) */
+const RESERVED_WORDS = new Set([
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'new',
+  'null',
+  'return',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+  'let',
+  'static',
+  'implements',
+  'interface',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'await',
+]);
+
+/** 类型字符串中的标识符 */
+const identifierRegex = /[A-Za-z_$][\w$]*/g;
+
+/** 合法的属性名(无需加引号) */
+const plainPropertyRegex = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * 将任意名称转换为合法的标识符
+ * 例如: AuthController_register -> authControllerRegister, delete -> delete_
+ *
+ * @param name 原始名称(如 operationId)
+ * @param style 命名风格(默认 camelCase)
+ */
+export function toIdentifier(
+  name: string,
+  style: NamingStyle = 'camelCase',
+): string {
+  // 非法字符统一替换为下划线，交给 NamingUtils 按分隔符处理
+  const sanitized = name.replace(/[^A-Za-z0-9_$-]+/g, '_');
+  let identifier = NamingUtils.convert(sanitized, style).replace(/-/g, '');
+
+  if (!identifier) identifier = '_';
+  if (/^[0-9]/.test(identifier)) identifier = `_${identifier}`;
+  if (RESERVED_WORDS.has(identifier)) identifier = `${identifier}_`;
+
+  return identifier;
+}
+
+/**
+ * 格式化对象属性名
+ * 合法标识符原样输出，否则加引号
+ */
+export function formatPropertyName(name: string): string {
+  return plainPropertyRegex.test(name) ? name : quote(name);
+}
+
+/**
+ * 生成单引号字符串字面量
+ * 例如: /users/{id} -> '/users/{id}'
+ */
+export function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * 将路径模板转换为模板字符串表达式
+ * 例如: ('/users/{id}', 'params.path') -> `/users/${encodeURIComponent(String(params.path.id))}`
+ *
+ * @param path 路径模板
+ * @param accessor path 参数对象的访问表达式
+ */
+export function buildPathTemplate(path: string, accessor: string): string {
+  const parts = path.split(/(\{[^}]+\})/);
+  const content = parts
+    .map((part) => {
+      const match = part.match(/^\{([^}]+)\}$/);
+      if (match) {
+        const name = match[1]!;
+        const access = plainPropertyRegex.test(name)
+          ? `${accessor}.${name}`
+          : `${accessor}[${quote(name)}]`;
+        return `\${encodeURIComponent(String(${access}))}`;
+      }
+      return part.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+    })
+    .join('');
+  return `\`${content}\``;
+}
+
+/**
+ * 计算两个输出文件之间的相对导入路径
+ * 例如: ('api/users/index.ts', 'types.ts') -> '../../types'
+ *
+ * @param fromFile 发起导入的文件路径
+ * @param toFile 被导入的文件路径
+ */
+export function relativeImportPath(fromFile: string, toFile: string): string {
+  const fromDir = fromFile.split('/').slice(0, -1);
+  const target = toFile.replace(/\.(d\.)?tsx?$/, '').split('/');
+
+  let common = 0;
+  while (
+    common < fromDir.length &&
+    common < target.length - 1 &&
+    fromDir[common] === target[common]
+  ) {
+    common++;
+  }
+
+  const up = fromDir.slice(common).map(() => '..');
+  const rest = target.slice(common);
+  const relative = [...up, ...rest].join('/');
+
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * 收集类型字符串中引用到的已知类型名
+ * 例如: ('ApiResponse<User[]> | null', {ApiResponse, User}) -> ['ApiResponse', 'User']
+ *
+ * @param typeStr 类型字符串
+ * @param knownTypes 可导入的类型名集合
+ * @param collected 收集结果(输出)
+ */
+export function collectTypeNames(
+  typeStr: string,
+  knownTypes: Set<string>,
+  collected: Set<string>,
+): void {
+  for (const match of typeStr.matchAll(identifierRegex)) {
+    if (knownTypes.has(match[0])) {
+      collected.add(match[0]);
+    }
+  }
+}
+
+/**
+ * 生成 JSDoc 注释行
+ *
+ * @param lines 注释内容(空值会被忽略)
+ * @param indent 缩进
+ */
+export function buildJSDoc(
+  lines: Array<string | undefined>,
+  indent = '',
+): string[] {
+  const content = lines
+    .filter((line): line is string => !!line)
+    .flatMap((line) => line.split('\n'))
+    .map((line) => line.replace(/\*\//g, '*\\/'));
+
+  if (content.length === 0) return [];
+
+  return [
+    `${indent}/**`,
+    ...content.map((line) => `${indent} * ${line}`.trimEnd()),
+    `${indent} */`,
+  ];
+}
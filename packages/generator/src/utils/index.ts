@@ -0,0 +1,8 @@
+/**
+ * 生成器工具函数导出
+ */
+
+export * from './code-utils';
+export * from './api-utils';
+export * from './types-file';
+export * from './module-utils';
@@ -0,0 +1,98 @@
+/**
+ * 请求模块工具
+ * 按 category.filePath 分组生成模块文件，供各类 Emitter 复用
+ */
+
+import type {
+  GeneratedFile,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import {
+  collectOperationTypes,
+  groupApisByFile,
+  resolveOperation,
+  type OperationInfo,
+} from './api-utils';
+import { collectTypeNames } from './code-utils';
+import { createTypeImport } from './types-file';
+
+/**
+ * 模块生成选项
+ */
+export interface OperationModuleOptions {
+  /** 类型文件路径(false 表示不生成类型导入) */
+  typesFilePath: string | false;
+  /**
+   * 计算输出文件路径
+   * 默认直接使用 category.filePath
+   */
+  resolveFilePath?: (categoryFilePath: string) => string;
+  /** 生成文件顶部的导入语句(位于类型导入之前) */
+  imports: (filePath: string, operations: OperationInfo[]) => string[];
+  /** 生成单个请求函数的代码(返回空字符串表示跳过该 API) */
+  render: (operation: OperationInfo) => string;
+  /**
+   * 代码块引用到的类型字符串(用于收集类型导入)
+   * 默认为参数、请求体与成功响应的类型
+   */
+  types?: (operation: OperationInfo) => string[];
+  /** 生成文件末尾的代码(位于所有代码块之后，返回空字符串表示不输出) */
+  footer?: (filePath: string, operations: OperationInfo[]) => string;
+}
+
+/**
+ * 按 category.filePath 生成模块文件
+ * 每个 API 对应一个代码块，文件内函数名自动去重，类型导入自动收集
+ * 所有 API 都被跳过的文件不会输出
+ *
+ * @param output 标准输出
+ * @param options 模块生成选项
+ */
+export function emitOperationModules(
+  output: StandardOutput,
+  options: OperationModuleOptions,
+): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
+  const knownTypes = new Set(Object.keys(output.interfaces));
+
+  for (const [categoryFilePath, apis] of groupApisByFile(output.apis)) {
+    const filePath = options.resolveFilePath
+      ? options.resolveFilePath(categoryFilePath)
+      : categoryFilePath;
+    const usedNames = new Set<string>();
+    const typeNames = new Set<string>();
+
+    const operations = apis.map((api) =>
+      resolveOperation(api, output.schemas, usedNames),
+    );
+    for (const operation of operations) {
+      if (options.types) {
+        for (const type of options.types(operation)) {
+          collectTypeNames(type, knownTypes, typeNames);
+        }
+      } else {
+        collectOperationTypes(operation, knownTypes, typeNames);
+      }
+    }
+
+    const blocks = operations
+      .map((operation) => options.render(operation))
+      .filter((block) => block !== '');
+    if (blocks.length === 0) continue;
+
+    const footer = options.footer?.(filePath, operations);
+    if (footer) blocks.push(footer);
+
+    const imports = [
+      ...options.imports(filePath, operations),
+      ...createTypeImport(filePath, options.typesFilePath, typeNames),
+    ];
+
+    files.push({
+      path: filePath,
+      content: `${imports.join('\n')}\n\n${blocks.join('\n\n')}\n`,
+    });
+  }
+
+  return files;
+}
@@ -0,0 +1,49 @@
+/**
+ * 类型文件工具
+ * 负责汇总 interfaces 生成类型文件，以及为请求文件生成类型导入语句
+ */
+
+import type {
+  GeneratedFile,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import { relativeImportPath } from './code-utils';
+
+/** 类型文件默认路径 */
+export const DEFAULT_TYPES_FILE_PATH = 'types.ts';
+
+/**
+ * 汇总 StandardOutput.interfaces 生成类型文件
+ *
+ * @param output 标准输出
+ * @param typesFilePath 类型文件路径
+ */
+export function createTypesFile(
+  output: StandardOutput,
+  typesFilePath: string,
+): GeneratedFile {
+  const blocks = Object.values(output.interfaces);
+  return {
+    path: typesFilePath,
+    content: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : 'export {};\n',
+  };
+}
+
+/**
+ * 生成类型导入语句
+ *
+ * @param fromFile 当前文件路径
+ * @param typesFilePath 类型文件路径(false 表示不导入)
+ * @param typeNames 需要导入的类型名
+ */
+export function createTypeImport(
+  fromFile: string,
+  typesFilePath: string | false,
+  typeNames: Set<string>,
+): string[] {
+  if (typesFilePath === false || typeNames.size === 0) return [];
+
+  const names = Array.from(typeNames).sort();
+  const from = relativeImportPath(fromFile, typesFilePath);
+  return [`import type { ${names.join(', ')} } from '${from}';`];
+}
@@ -0,0 +1,627 @@
+import { test, expect } from '@rstest/core';
+import type { StandardOutput } from '@api-codegen-universal/core';
+import { OpenAPIAdapter } from '@api-codegen-universal/openapi';
+import {
+  AxiosClientGenerator,
+  FetchClientGenerator,
+  MswHandlersGenerator,
+  QueryHooksGenerator,
+  ZodSchemaGenerator,
+  buildPathTemplate,
+  relativeImportPath,
+  toIdentifier,
+} from '../src';
+
+const openapiDoc = {
+  openapi: '3.0.0',
+  info: { title: 'User API', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com' }],
+  paths: {
+    '/users/{id}': {
+      get: {
+        operationId: 'getUser',
+        summary: 'Get user by id',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+          { name: 'expand', in: 'query', schema: { type: 'string' } },
+          { name: 'X-Trace-Id', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'ok',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+              },
+            },
+          },
+          '404': { description: 'not found' },
+        },
+      },
+      delete: {
+        operationId: 'delete',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        responses: { '204': { description: 'deleted' } },
+      },
+    },
+    '/users': {
+      post: {
+        operationId: 'createUser',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/User' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/health': {
+      get: {
+        operationId: 'health',
+        responses: {
+          '200': {
+            description: 'ok',
+            content: { 'text/plain': { schema: { type: 'string' } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+        },
+        required: ['id', 'name'],
+      },
+    },
+  },
+};
+
+const parseDoc = () => new OpenAPIAdapter().parse(openapiDoc);
+
+test('FetchClientGenerator should emit one file per category.filePath', async () => {
+  const output = await parseDoc();
+  const files = new FetchClientGenerator().generate(output);
+  const paths = files.map((f) => f.path);
+
+  expect(paths).toContain('types.ts');
+  expect(paths).toContain('runtime.ts');
+  expect(paths).toContain('api/users/index.ts');
+  expect(paths).toContain('api/health/index.ts');
+
+  const runtime = files.find((f) => f.path === 'runtime.ts')!;
+  expect(runtime.content).toContain('baseUrl: "https://api.example.com"');
+});
+
+test('FetchClientGenerator should type parameters, body and success response', async () => {
+  const output = await parseDoc();
+  const files = new FetchClientGenerator().generate(output);
+  const users = files.find((f) => f.path === 'api/users/index.ts')!.content;
+
+  expect(users).toContain("import { request } from '../../runtime';");
+  expect(users).toContain(
+    "import type { DeletePathParams, GetUserHeaderParams, GetUserPathParams, GetUserQueryParams, User } from '../../types';",
+  );
+
+  // path 必填，query/header 可选
+  expect(users).toContain(
+    'params: { path: GetUserPathParams; query?: GetUserQueryParams; header?: GetUserHeaderParams }',
+  );
+  expect(users).toContain('): Promise<User> {');
+  expect(users).toContain("url: '/users/{id}'");
+  expect(users).toContain('headers: params.header');
+
+  // 保留字函数名
+  expect(users).toContain('export function delete_(');
+  expect(users).toContain('): Promise<void> {');
+
+  // 请求体
+  expect(users).toContain('params: { body: User }');
+  expect(users).toContain("contentType: 'application/json'");
+
+  const health = files.find((f) => f.path === 'api/health/index.ts')!.content;
+  expect(health).toContain('export function health(');
+  expect(health).toContain("responseType: 'text'");
+  expect(health).not.toContain("from '../../types'");
+});
+
+test('FetchClientGenerator should skip types file when typesFilePath=false', () => {
+  const output: StandardOutput = {
+    schemas: {},
+    interfaces: { Pong: 'declare interface Pong { ok: boolean; }' },
+    apis: [
+      {
+        path: '/ping',
+        method: 'GET',
+        operationId: 'ping',
+        category: {
+          segments: ['ping'],
+          depth: 1,
+          isUnclassified: false,
+          filePath: 'api/ping/index.ts',
+        },
+        responses: {
+          '200': {
+            description: 'ok',
+            content: {
+              'application/json': { schema: { type: 'ref', ref: 'Pong' } },
+            },
+          },
+        },
+      },
+    ],
+    metadata: null,
+  };
+
+  const files = new FetchClientGenerator().generate(output, {
+    typesFilePath: false,
+    runtimeFilePath: 'lib/http.ts',
+    baseUrl: '/api',
+  });
+
+  expect(files.map((f) => f.path)).toEqual([
+    'lib/http.ts',
+    'api/ping/index.ts',
+  ]);
+  const ping = files[1]!.content;
+  expect(ping).toContain("import { request } from '../../lib/http';");
+  expect(ping).toContain('export function ping(\n  init?: RequestInit,\n)');
+  expect(ping).not.toContain('import type');
+});
+
+test('AxiosClientGenerator should map parameters to params/headers/data', async () => {
+  const output = await parseDoc();
+  const files = new AxiosClientGenerator().generate(output, {
+    instancePath: './lib/http',
+    instanceExportName: 'http',
+  });
+
+  expect(files.map((f) => f.path)).toEqual([
+    'types.ts',
+    'api/users/index.ts',
+    'api/health/index.ts',
+  ]);
+
+  const users = files.find((f) => f.path === 'api/users/index.ts')!.content;
+  expect(users).toContain(
+    "import { http as axiosInstance } from '../../lib/http';",
+  );
+  expect(users).toContain('config?: AxiosRequestConfig');
+  expect(users).toContain(
+    'url: `/users/${encodeURIComponent(String(params.path.id))}`',
+  );
+  expect(users).toContain('params: params.query');
+  expect(users).toContain('headers: { ...params.header, ...config?.headers }');
+  expect(users).toContain('data: params.body');
+  expect(users).toContain('.then((response) => response.data);');
+});
+
+test('AxiosClientGenerator should support package instance paths and unwrapped interceptors', async () => {
+  const output = await parseDoc();
+  const files = new AxiosClientGenerator().generate(output, {
+    instancePath: '@/utils/request',
+    unwrapData: false,
+  });
+
+  const users = files.find((f) => f.path === 'api/users/index.ts')!.content;
+  expect(users).toContain("import axiosInstance from '@/utils/request';");
+  expect(users).toContain('.request<User, User>({');
+  expect(users).not.toContain('response.data');
+
+  const defaultFiles = new AxiosClientGenerator().generate(output);
+  expect(defaultFiles[1]!.content).toContain(
+    "import axiosInstance from 'axios';",
+  );
+});
+
+test('QueryHooksGenerator should emit useQuery for GET and useMutation for writes', async () => {
+  const output = await parseDoc();
+  const files = new QueryHooksGenerator().generate(output);
+
+  expect(files.map((f) => f.path)).toEqual([
+    'api/users/hooks.ts',
+    'api/health/hooks.ts',
+  ]);
+
+  const users = files[0]!.content;
+  expect(users).toContain(
+    "import { useQuery, useMutation } from '@tanstack/react-query';",
+  );
+  expect(users).toContain(
+    "import { getUser, delete_, createUser } from './index';",
+  );
+
+  // queryKey 只包含 operationId 与 path/query 参数
+  expect(users).toContain(
+    'export const getUserQueryKey = (params: { path: GetUserPathParams; query?: GetUserQueryParams }) =>',
+  );
+  expect(users).toContain("['getUser', params.path, params.query] as const;");
+  expect(users).toContain('export function useGetUser(');
+  expect(users).toContain(
+    "options?: Omit<UseQueryOptions<User, Error, User, ReturnType<typeof getUserQueryKey>>, 'queryKey' | 'queryFn'>",
+  );
+  expect(users).toContain(
+    'queryFn: ({ signal }) => getUser(params, { signal }),',
+  );
+
+  // 写操作使用 useMutation，variables 为请求参数对象
+  expect(users).toContain('export function useDelete(');
+  expect(users).toContain(
+    "options?: Omit<UseMutationOptions<User, Error, { body: User }>, 'mutationFn'>",
+  );
+  expect(users).toContain(
+    'mutationFn: (params: { body: User }) => createUser(params),',
+  );
+
+  const health = files[1]!.content;
+  expect(health).toContain(
+    "export const healthQueryKey = () => ['health'] as const;",
+  );
+  expect(health).toContain('queryFn: ({ signal }) => health({ signal }),');
+  expect(health).not.toContain('useMutation');
+});
+
+test('QueryHooksGenerator should support custom package and file paths', async () => {
+  const output = await parseDoc();
+  const files = new QueryHooksGenerator().generate(output, {
+    queryPackage: '@tanstack/vue-query',
+    resolveFilePath: (filePath) => filePath.replace(/^api\//, 'hooks/'),
+    resolveClientFilePath: (filePath) => filePath.replace(/^api\//, 'client/'),
+  });
+
+  const users = files.find((f) => f.path === 'hooks/users/index.ts')!.content;
+  expect(users).toContain("from '@tanstack/vue-query';");
+  expect(users).toContain("from '../../client/users/index';");
+  expect(users).toContain("from '../../types';");
+});
+
+test('QueryHooksGenerator should use client return types and dedupe hook names', async () => {
+  const output = await new OpenAPIAdapter().parse({
+    openapi: '3.0.0',
+    info: { title: 'Files', version: '1.0.0' },
+    paths: {
+      '/files/{id}': {
+        get: {
+          tags: ['files'],
+          operationId: 'download-file',
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/octet-stream': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/files': {
+        post: {
+          tags: ['files'],
+          operationId: 'download_file',
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/pdf': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const hooks = new QueryHooksGenerator().generate(output)[0]!.content;
+  expect(hooks).toContain('export function useDownloadFile(');
+  expect(hooks).toContain('export function useDownloadFile2(');
+  expect(hooks).toContain('UseQueryOptions<Blob, Error, Blob,');
+  expect(hooks).toContain('UseMutationOptions<Blob, Error, void>');
+
+  const client = new AxiosClientGenerator().generate(output)[1]!.content;
+  expect(client).toContain('.request<Blob>({');
+  expect(client).toContain("responseType: 'blob',");
+});
+
+test('MswHandlersGenerator should emit typed handlers with example data', async () => {
+  const output = await new OpenAPIAdapter().parse({
+    ...openapiDoc,
+    paths: {
+      ...openapiDoc.paths,
+      '/users': {
+        post: {
+          ...openapiDoc.paths['/users'].post,
+          responses: {
+            '201': {
+              description: 'created',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/User' },
+                  example: { id: 7, name: 'Ada' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  const files = new MswHandlersGenerator().generate(output, {
+    mock: { seed: 1 },
+  });
+
+  expect(files.map((f) => f.path)).toEqual([
+    'api/users/handlers.ts',
+    'api/health/handlers.ts',
+  ]);
+
+  const users = files[0]!.content;
+  expect(users).toContain("import { http, HttpResponse } from 'msw';");
+  expect(users).toContain(
+    "import type { HttpResponseResolver, PathParams, RequestHandlerOptions } from 'msw';",
+  );
+  // 只导入 handler 实际用到的类型
+  expect(users).toContain("import type { User } from '../../types';");
+
+  // 没有示例时按 Schema 生成，有示例时直接使用
+  expect(users).toMatch(
+    /export const getUserMockResponse: User = \{\n {2}"id": -?\d+,/,
+  );
+  expect(users).toContain(
+    'export const createUserMockResponse: User = {\n  "id": 7,\n  "name": "Ada"\n};',
+  );
+
+  expect(users).toContain(
+    "resolver: HttpResponseResolver<PathParams<'id'>, never, User> = () =>\n    HttpResponse.json(getUserMockResponse, { status: 200 }),",
+  );
+  expect(users).toContain("return http.get('*/users/:id', resolver, options);");
+  expect(users).toContain(
+    "resolver: HttpResponseResolver<PathParams<'id'>, never, undefined> = () =>\n    new HttpResponse(null, { status: 204 }),",
+  );
+  expect(users).toContain('export function deleteHandler(');
+  expect(users).toContain(
+    'resolver: HttpResponseResolver<PathParams, User, User> = () =>\n    HttpResponse.json(createUserMockResponse, { status: 201 }),',
+  );
+  expect(users).toContain(
+    'export const handlers = [\n  getUserHandler(),\n  deleteHandler(),\n  createUserHandler(),\n];',
+  );
+
+  const health = new MswHandlersGenerator().generate(output, {
+    baseUrl: 'https://api.example.com/',
+  })[1]!.content;
+  expect(health).toContain('export const healthMockResponse: string = "');
+  expect(health).toContain(
+    'HttpResponse.text(healthMockResponse, { status: 200 })',
+  );
+  expect(health).toContain(
+    "return http.get('https://api.example.com/health', resolver, options);",
+  );
+});
+
+test('ZodSchemaGenerator should enforce constraints and resolve dependency order', async () => {
+  const output = await new OpenAPIAdapter().parse({
+    openapi: '3.0.0',
+    info: { title: 'Zod API', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        UserList: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/User' },
+        },
+        User: {
+          allOf: [
+            { $ref: '#/components/schemas/Base' },
+            {
+              type: 'object',
+              required: ['email'],
+              properties: {
+                email: { type: 'string', format: 'email' },
+                name: {
+                  type: 'string',
+                  pattern: '^[a-z]+$',
+                  minLength: 2,
+                  maxLength: 20,
+                  nullable: true,
+                },
+                age: { type: 'integer', minimum: 0, maximum: 150 },
+                score: { type: 'number', format: 'double', minimum: 0 },
+                visits: { type: 'number', format: 'int64' },
+                role: { $ref: '#/components/schemas/Role' },
+              },
+            },
+          ],
+        },
+        Base: {
+          type: 'object',
+          required: ['id'],
+          properties: { id: { type: 'string', format: 'uuid' } },
+        },
+        Role: { type: 'string', enum: ['admin', 'user'] },
+        UserMap: {
+          type: 'object',
+          additionalProperties: { $ref: '#/components/schemas/User' },
+        },
+      },
+    },
+  });
+
+  const [file] = new ZodSchemaGenerator().generate(output);
+  const content = file!.content;
+
+  expect(file!.path).toBe('schemas.ts');
+  expect(content).toContain("import { z } from 'zod';");
+  expect(content).toContain(
+    "export const RoleSchema = z.enum(['admin', 'user']);",
+  );
+  expect(content).toContain('export const UserSchema = BaseSchema.extend({');
+  expect(content).toContain('  id: z.string().uuid(),');
+  expect(content).toContain('  email: z.string().email(),');
+  expect(content).toContain(
+    "  name: z.string().min(2).max(20).regex(new RegExp('^[a-z]+$')).nullable().optional(),",
+  );
+  // 整数保留 .int()，普通数字不受影响
+  expect(content).toContain(
+    '  age: z.number().int().min(0).max(150).optional(),',
+  );
+  expect(content).toContain('  score: z.number().min(0).optional(),');
+  expect(content).toContain('  visits: z.number().int().optional(),');
+  expect(content).toContain('  role: RoleSchema.optional(),');
+  expect(content).toContain(
+    'export const UserListSchema = z.array(UserSchema);',
+  );
+  expect(content).toContain(
+    'export const UserMapSchema = z.record(z.string(), UserSchema);',
+  );
+
+  // 依赖先于使用方输出
+  const indexOf = (name: string) => content.indexOf(`export const ${name}`);
+  expect(indexOf('BaseSchema')).toBeLessThan(indexOf('UserSchema'));
+  expect(indexOf('RoleSchema')).toBeLessThan(indexOf('UserSchema'));
+  expect(indexOf('UserSchema')).toBeLessThan(indexOf('UserListSchema'));
+});
+
+test('ZodSchemaGenerator should apply constraints to parameter schemas and files', async () => {
+  const output = await new OpenAPIAdapter().parse({
+    openapi: '3.0.0',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {
+      '/owners/{owner-id}/pets/{pet-id}': {
+        parameters: [
+          {
+            name: 'owner-id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string', format: 'uuid' },
+          },
+        ],
+        get: {
+          operationId: 'getPet',
+          parameters: [
+            {
+              name: 'pet-id',
+              in: 'path',
+              required: true,
+              schema: { type: 'integer', format: 'int32' },
+            },
+            {
+              name: 'page',
+              in: 'query',
+              schema: { type: 'integer', minimum: 1 },
+            },
+          ],
+          responses: { '204': { description: 'OK' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Upload: {
+          type: 'object',
+          required: ['file'],
+          properties: { file: { type: 'string', format: 'binary' } },
+        },
+      },
+    },
+  });
+
+  const content = new ZodSchemaGenerator().generate(output)[0]!.content;
+  expect(content).toContain("'owner-id': z.string().uuid(),");
+  expect(content).toContain("'pet-id': z.number().int(),");
+  expect(content).toContain('page: z.number().int().min(1).optional(),');
+  expect(content).toContain('file: z.instanceof(Blob),');
+});
+
+test('ZodSchemaGenerator should use z.lazy for recursive schemas', async () => {
+  const output = await new OpenAPIAdapter().parse({
+    openapi: '3.0.0',
+    info: { title: 'Tree API', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        TreeNode: {
+          type: 'object',
+          required: ['value'],
+          properties: {
+            value: { type: 'number' },
+            children: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TreeNode' },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const content = new ZodSchemaGenerator().generate(output, {
+    filePath: 'validation/index.ts',
+  })[0]!.content;
+
+  expect(content).toContain("import type { TreeNode } from '../types';");
+  expect(content).toContain(
+    'export const TreeNodeSchema: z.ZodType<TreeNode> = z.object({',
+  );
+  expect(content).toContain(
+    '  children: z.array(z.lazy(() => TreeNodeSchema)).optional(),',
+  );
+});
+
+test('generator utils should build identifiers and relative paths', () => {
+  expect(toIdentifier('AuthController_register')).toBe(
+    'authControllerRegister',
+  );
+  expect(toIdentifier('get user.list')).toBe('getUserList');
+  expect(toIdentifier('404')).toBe('_404');
+
+  expect(relativeImportPath('api/users/index.ts', 'types.ts')).toBe(
+    '../../types',
+  );
+  expect(relativeImportPath('index.ts', 'types.ts')).toBe('./types');
+  expect(relativeImportPath('api/a/index.ts', 'api/runtime.ts')).toBe(
+    '../runtime',
+  );
+
+  expect(buildPathTemplate('/files/{file-id}/raw', 'p')).toBe(
+    "`/files/${encodeURIComponent(String(p['file-id']))}/raw`",
+  );
+});
@@ -0,0 +1,283 @@
+/**
+ * GraphQL 转换器
+ * 将 Schema 模型转换为 OpenAPI 3.0 文档，再交给 OpenAPIAdapter 解析
+ *
+ * 映射规则：
+ * 1. object / interface / input -> object Schema；enum -> 字符串枚举；union -> oneOf
+ * 2. 非空类型(!) -> 必填；可空类型 -> 可选且 nullable
+ * 3. 查询/变更字段 -> POST {endpoint}/query/{field}、POST {endpoint}/mutation/{field}
+ *    参数 -> 请求体({Operation}Variables)，返回类型 -> 200 响应
+ */
+
+import type { AdapterLogger } from '@api-codegen-universal/core';
+import { NamingUtils } from '@api-codegen-universal/openapi';
+import type {
+  GraphQLField,
+  GraphQLInputValue,
+  GraphQLSchemaModel,
+  GraphQLTypeDefinition,
+  GraphQLTypeRef,
+} from './types';
+import { DEFAULT_DEPRECATION_REASON } from './sdl-parser';
+
+type SchemaObject = Record<string, unknown>;
+
+/** 内置标量 */
+const BUILT_IN_SCALARS: Record<string, SchemaObject> = {
+  Int: { type: 'integer', format: 'int32' },
+  Float: { type: 'number', format: 'double' },
+  String: { type: 'string' },
+  Boolean: { type: 'boolean' },
+  ID: { type: 'string' },
+};
+
+export class GraphQLConverter {
+  private schemas: Record<string, SchemaObject> = {};
+  private operationIds = new Set<string>();
+  private rootTypes: Set<string>;
+
+  /**
+   * @param model Schema 模型
+   * @param options 合成路径前缀与自定义标量映射
+   * @param logger 适配器日志
+   */
+  constructor(
+    private model: GraphQLSchemaModel,
+    private options: {
+      endpoint?: string;
+      scalars?: Record<string, SchemaObject>;
+    } = {},
+    private logger?: AdapterLogger,
+  ) {
+    this.rootTypes = new Set(
+      [model.queryType, model.mutationType, model.subscriptionType].filter(
+        (name): name is string => !!name,
+      ),
+    );
+  }
+
+  /**
+   * 转换为 OpenAPI 文档
+   *
+   * @param title 文档标题
+   * @returns OpenAPI 文档
+   */
+  convert(title: string): Record<string, unknown> {
+    // 先注册类型，操作生成的 Variables 名称冲突时追加序号
+    for (const type of this.model.types.values()) {
+      if (this.rootTypes.has(type.name) || BUILT_IN_SCALARS[type.name]) {
+        continue;
+      }
+      this.schemas[type.name] = this.convertType(type);
+    }
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    const endpoint = `/${(this.options.endpoint ?? '/graphql').replace(/^\/+|\/+$/g, '')}`;
+    for (const [operationType, typeName] of [
+      ['query', this.model.queryType],
+      ['mutation', this.model.mutationType],
+    ] as const) {
+      const rootType = typeName ? this.model.types.get(typeName) : undefined;
+      for (const field of rootType?.fields ?? []) {
+        const path = `${endpoint === '/' ? '' : endpoint}/${operationType}/${field.name}`;
+        paths[path] = {
+          post: this.convertOperation(operationType, field),
+        };
+      }
+    }
+
+    const subscriptions = this.model.subscriptionType
+      ? this.model.types.get(this.model.subscriptionType)?.fields
+      : undefined;
+    if (subscriptions?.length) {
+      this.logger?.debug('GraphQL subscriptions are skipped.', {
+        code: 'GRAPHQL_SUBSCRIPTIONS_SKIPPED',
+        count: subscriptions.length,
+      });
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: { title, version: '1.0.0' },
+      paths,
+      components: { schemas: this.schemas },
+    };
+  }
+
+  private convertType(type: GraphQLTypeDefinition): SchemaObject {
+    const description = type.description
+      ? { description: type.description }
+      : {};
+
+    switch (type.kind) {
+      case 'object':
+      case 'interface':
+        return {
+          ...this.objectSchema(type.fields ?? []),
+          ...description,
+        };
+      case 'input':
+        return {
+          ...this.objectSchema(type.inputFields ?? []),
+          ...description,
+        };
+      case 'enum': {
+        const values = type.values ?? [];
+        const documented = values.filter(
+          (value) => value.description || value.deprecated,
+        );
+        return {
+          type: 'string',
+          enum: values.map((value) => value.name),
+          ...(type.description || documented.length > 0
+            ? {
+                description: [
+                  type.description,
+                  ...documented.map(
+                    (value) =>
+                      `- ${value.name}: ${[
+                        value.description,
+                        value.deprecated && `(deprecated: ${value.deprecated})`,
+                      ]
+                        .filter(Boolean)
+                        .join(' ')}`,
+                  ),
+                ]
+                  .filter(Boolean)
+                  .join('\n'),
+              }
+            : {}),
+        };
+      }
+      case 'union':
+        return {
+          oneOf: (type.members ?? []).map((member) => this.ref(member)),
+          ...description,
+        };
+      case 'scalar':
+        return { ...(this.options.scalars?.[type.name] ?? {}), ...description };
+    }
+  }
+
+  /**
+   * object / input 字段 -> object Schema
+   */
+  private objectSchema(
+    fields: Array<GraphQLInputValue | GraphQLField>,
+  ): SchemaObject {
+    const properties: Record<string, SchemaObject> = {};
+    const required: string[] = [];
+    for (const field of fields) {
+      const schema = this.typeSchema(field.type);
+      // 不使用 default：带默认值的 Schema 会被生成为必填属性，而 GraphQL 中带默认值的参数可以省略
+      const defaultValue =
+        'defaultValue' in field && field.defaultValue !== undefined
+          ? `Default: ${JSON.stringify(field.defaultValue)}`
+          : undefined;
+      const deprecated =
+        field.deprecated && field.deprecated !== DEFAULT_DEPRECATION_REASON
+          ? `Deprecated: ${field.deprecated}`
+          : undefined;
+      const description = [field.description, defaultValue, deprecated]
+        .filter(Boolean)
+        .join('\n');
+      if (description) schema.description = description;
+      if (field.deprecated) schema.deprecated = true;
+      properties[field.name] = schema;
+      if (field.type.kind === 'nonNull' && !defaultValue) {
+        required.push(field.name);
+      }
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    };
+  }
+
+  /**
+   * 类型引用 -> Schema
+   * 可空类型(没有 !)标记 nullable
+   */
+  private typeSchema(type: GraphQLTypeRef, nonNull = false): SchemaObject {
+    if (type.kind === 'nonNull') return this.typeSchema(type.ofType, true);
+
+    let schema: SchemaObject;
+    if (type.kind === 'list') {
+      schema = { type: 'array', items: this.typeSchema(type.ofType) };
+    } else if (BUILT_IN_SCALARS[type.name]) {
+      schema = { ...BUILT_IN_SCALARS[type.name] };
+    } else if (this.model.types.has(type.name)) {
+      schema = this.ref(type.name);
+    } else {
+      this.logger?.warn(`Unknown GraphQL type "${type.name}".`, {
+        code: 'GRAPHQL_UNKNOWN_TYPE',
+        type: type.name,
+      });
+      schema = {};
+    }
+
+    if (nonNull) return schema;
+    // $ref 不能与 nullable 并列，使用 allOf 包装
+    return '$ref' in schema
+      ? { allOf: [schema], nullable: true }
+      : { ...schema, nullable: true };
+  }
+
+  /**
+   * 查询/变更字段 -> operation
+   */
+  private convertOperation(
+    operationType: 'query' | 'mutation',
+    field: GraphQLField,
+  ): SchemaObject {
+    let operationId = field.name;
+    if (this.operationIds.has(operationId)) {
+      operationId = `${field.name}${NamingUtils.convert(operationType, 'PascalCase')}`;
+    }
+    this.operationIds.add(operationId);
+
+    let requestBody: SchemaObject | undefined;
+    if (field.args.length > 0) {
+      const name = this.uniqueSchemaName(
+        `${NamingUtils.convert(operationId, 'PascalCase')}Variables`,
+      );
+      this.schemas[name] = this.objectSchema(field.args);
+      requestBody = {
+        required: field.args.some(
+          (arg) =>
+            arg.type.kind === 'nonNull' && arg.defaultValue === undefined,
+        ),
+        content: { 'application/json': { schema: this.ref(name) } },
+      };
+    }
+
+    return {
+      operationId,
+      summary: `${operationType} ${field.name}`,
+      ...(field.description && { description: field.description }),
+      ...(field.deprecated && { deprecated: true }),
+      ...(requestBody && { requestBody }),
+      responses: {
+        '200': {
+          description: 'OK',
+          content: {
+            'application/json': { schema: this.typeSchema(field.type) },
+          },
+        },
+      },
+    };
+  }
+
+  private uniqueSchemaName(name: string): string {
+    let unique = name;
+    for (let i = 2; this.schemas[unique] || this.model.types.has(unique); i++) {
+      unique = `${name}${i}`;
+    }
+    return unique;
+  }
+
+  private ref(name: string): SchemaObject {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+}
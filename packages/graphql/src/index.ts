@@ -0,0 +1,5 @@
+export * from './converter';
+export * from './introspection';
+export * from './parser';
+export * from './sdl-parser';
+export * from './types';
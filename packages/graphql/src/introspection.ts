@@ -0,0 +1,154 @@
+/**
+ * 内省结果读取器
+ * 将内省查询结果(__schema)转换为与 SDL 相同的 Schema 模型
+ */
+
+import { DEFAULT_DEPRECATION_REASON, SdlParser } from './sdl-parser';
+import type {
+  GraphQLField,
+  GraphQLInputValue,
+  GraphQLIntrospectionResult,
+  GraphQLSchemaModel,
+  GraphQLTypeDefinition,
+  GraphQLTypeRef,
+  IntrospectionInputValue,
+  IntrospectionSchema,
+  IntrospectionType,
+  IntrospectionTypeRef,
+} from './types';
+
+const KINDS: Record<string, GraphQLTypeDefinition['kind']> = {
+  OBJECT: 'object',
+  INTERFACE: 'interface',
+  INPUT_OBJECT: 'input',
+  ENUM: 'enum',
+  UNION: 'union',
+  SCALAR: 'scalar',
+};
+
+export class IntrospectionReader {
+  /**
+   * 判断对象是否为内省查询结果
+   */
+  static isIntrospection(value: unknown): value is GraphQLIntrospectionResult {
+    return !!IntrospectionReader.schemaOf(value);
+  }
+
+  /**
+   * 读取内省查询结果
+   *
+   * @param result { data: { __schema } } 或 { __schema }
+   * @returns Schema 模型(不包含 __ 开头的内省类型)
+   */
+  read(result: GraphQLIntrospectionResult): GraphQLSchemaModel {
+    const schema = IntrospectionReader.schemaOf(result);
+    if (!schema) {
+      throw new Error('Invalid GraphQL introspection result: missing __schema');
+    }
+
+    const model: GraphQLSchemaModel = {
+      queryType: schema.queryType?.name,
+      mutationType: schema.mutationType?.name ?? undefined,
+      subscriptionType: schema.subscriptionType?.name ?? undefined,
+      types: new Map(),
+    };
+    for (const type of schema.types) {
+      const kind = KINDS[type.kind];
+      if (!kind || type.name.startsWith('__')) continue;
+      model.types.set(type.name, this.readType(type, kind));
+    }
+    return model;
+  }
+
+  private static schemaOf(value: unknown): IntrospectionSchema | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const record = value as Record<string, unknown>;
+    const data = record.data as Record<string, unknown> | undefined;
+    const schema = (data?.__schema ?? record.__schema) as
+      | IntrospectionSchema
+      | undefined;
+    return Array.isArray(schema?.types) ? schema : undefined;
+  }
+
+  private readType(
+    type: IntrospectionType,
+    kind: GraphQLTypeDefinition['kind'],
+  ): GraphQLTypeDefinition {
+    const definition: GraphQLTypeDefinition = {
+      kind,
+      name: type.name,
+      ...(type.description && { description: type.description }),
+    };
+
+    switch (kind) {
+      case 'object':
+      case 'interface':
+        definition.fields = (type.fields ?? []).map(
+          (field): GraphQLField => ({
+            name: field.name,
+            type: this.readTypeRef(field.type),
+            args: (field.args ?? []).map((arg) => this.readInputValue(arg)),
+            ...(field.description && { description: field.description }),
+            ...(field.isDeprecated && {
+              deprecated: field.deprecationReason ?? DEFAULT_DEPRECATION_REASON,
+            }),
+          }),
+        );
+        if (type.interfaces?.length) {
+          definition.interfaces = type.interfaces.map((item) => item.name);
+        }
+        break;
+      case 'input':
+        definition.inputFields = (type.inputFields ?? []).map((field) =>
+          this.readInputValue(field),
+        );
+        break;
+      case 'enum':
+        definition.values = (type.enumValues ?? []).map((value) => ({
+          name: value.name,
+          ...(value.description && { description: value.description }),
+          ...(value.isDeprecated && {
+            deprecated: value.deprecationReason ?? DEFAULT_DEPRECATION_REASON,
+          }),
+        }));
+        break;
+      case 'union':
+        definition.members = (type.possibleTypes ?? []).map(
+          (item) => item.name,
+        );
+        break;
+    }
+    return definition;
+  }
+
+  private readInputValue(value: IntrospectionInputValue): GraphQLInputValue {
+    const input: GraphQLInputValue = {
+      name: value.name,
+      type: this.readTypeRef(value.type),
+      ...(value.description && { description: value.description }),
+    };
+    if (value.defaultValue !== undefined && value.defaultValue !== null) {
+      try {
+        input.defaultValue = SdlParser.parseValue(value.defaultValue);
+      } catch {
+        input.defaultValue = value.defaultValue;
+      }
+    }
+    return input;
+  }
+
+  private readTypeRef(ref: IntrospectionTypeRef): GraphQLTypeRef {
+    if (ref.kind === 'NON_NULL' && ref.ofType) {
+      return { kind: 'nonNull', ofType: this.readTypeRef(ref.ofType) };
+    }
+    if (ref.kind === 'LIST' && ref.ofType) {
+      return { kind: 'list', ofType: this.readTypeRef(ref.ofType) };
+    }
+    if (!ref.name) {
+      throw new Error(
+        `Invalid GraphQL introspection result: unnamed ${ref.kind} type`,
+      );
+    }
+    return { kind: 'named', name: ref.name };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * GraphQL 适配器
+ * 读取 SDL 或内省查询结果，将类型与查询/变更映射为标准输出，
+ * 使 GraphQL 网关可以复用同样的代码生成与变更检测流程
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { IAdapter, StandardOutput } from '@api-codegen-universal/core';
+import { createAdapterLogger } from '@api-codegen-universal/core';
+import {
+  type InputSource,
+  OpenAPIAdapter,
+} from '@api-codegen-universal/openapi';
+import { GraphQLConverter } from './converter';
+import { IntrospectionReader } from './introspection';
+import { SdlParser } from './sdl-parser';
+import type {
+  GraphQLAdapterOptions,
+  GraphQLSchemaModel,
+  GraphQLSource,
+} from './types';
+
+/**
+ * GraphQL 适配器类
+ * 实现 IAdapter 接口，用于处理 GraphQL Schema 的导入和转换
+ */
+export class GraphQLAdapter
+  implements IAdapter<GraphQLAdapterOptions, GraphQLSource>
+{
+  /**
+   * 验证输入源是否为可解析的 GraphQL Schema
+   *
+   * @param source SDL / 内省结果文件路径、文本或内省结果对象
+   * @returns 可以解析且包含查询或变更类型时返回 true
+   */
+  async validate(source: GraphQLSource): Promise<boolean> {
+    try {
+      const model = await this.loadModel(source);
+      return !!(model.queryType || model.mutationType);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 解析主入口
+   * 1. 读取 SDL 或内省结果，统一转换为 Schema 模型
+   * 2. 转换为 OpenAPI 文档：类型 -> components.schemas，查询/变更 -> 合成的 POST 接口
+   * 3. 使用 OpenAPIAdapter 转换为标准输出
+   *
+   * @param source SDL / 内省结果文件路径、文本或内省结果对象
+   * @param options 适配器选项
+   * @returns 标准输出格式 (StandardOutput)
+   */
+  async parse(
+    source: GraphQLSource,
+    options: GraphQLAdapterOptions = {},
+  ): Promise<StandardOutput> {
+    const sourceLabel = this.getSourceLabel(source);
+    const logger = createAdapterLogger(options, {
+      adapter: 'graphql',
+      source: sourceLabel,
+    });
+
+    const model = await this.loadModel(source);
+    const { endpoint, scalars, ...openApiOptions } = options;
+    const document = new GraphQLConverter(
+      model,
+      { endpoint, scalars },
+      logger,
+    ).convert(sourceLabel);
+
+    const result = await new OpenAPIAdapter().parse(
+      document as unknown as InputSource,
+      openApiOptions,
+    );
+
+    if (result.metadata) {
+      result.metadata.source = sourceLabel;
+    }
+    return result;
+  }
+
+  /**
+   * 读取 Schema 模型
+   * - 对象：内省结果
+   * - 不含换行与 { 的字符串：文件路径(.json 或内容以 { 开头时按内省结果解析)
+   * - 其他字符串：以 { 开头时为内省结果 JSON，否则为 SDL
+   */
+  private async loadModel(source: GraphQLSource): Promise<GraphQLSchemaModel> {
+    if (typeof source !== 'string') {
+      return new IntrospectionReader().read(source);
+    }
+
+    const isFilePath = !/[\n{]/.test(source);
+    const text = isFilePath
+      ? await fs.readFile(path.resolve(source), 'utf-8')
+      : source;
+    if (
+      (isFilePath && source.toLowerCase().endsWith('.json')) ||
+      text.trimStart().startsWith('{')
+    ) {
+      return new IntrospectionReader().read(JSON.parse(text));
+    }
+    return new SdlParser(text).parse();
+  }
+
+  /**
+   * 数据源的显示名称(用于日志、文档标题与 metadata.source)
+   */
+  private getSourceLabel(source: GraphQLSource): string {
+    return typeof source === 'string' && !/[\n{]/.test(source)
+      ? `GraphQL ${source}`
+      : 'GraphQL Schema';
+  }
+}
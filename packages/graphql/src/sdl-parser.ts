@@ -0,0 +1,497 @@
+/**
+ * GraphQL SDL 解析器
+ * 只解析类型系统定义(schema、type、interface、input、enum、union、scalar、directive 及 extend)，
+ * 查询文档(query/mutation/fragment)会被拒绝
+ */
+
+import type {
+  GraphQLField,
+  GraphQLInputValue,
+  GraphQLSchemaModel,
+  GraphQLTypeDefinition,
+  GraphQLTypeRef,
+} from './types';
+
+/**
+ * 词法单元
+ */
+interface Token {
+  kind: 'punct' | 'name' | 'number' | 'string' | 'eof';
+  value: string;
+  /** 字符偏移(用于错误信息) */
+  start: number;
+}
+
+/** @deprecated 未写 reason 时的默认原因(与 GraphQL 规范一致) */
+export const DEFAULT_DEPRECATION_REASON = 'No longer supported';
+
+const PUNCTUATORS = new Set([
+  '!',
+  '$',
+  '&',
+  '(',
+  ')',
+  ':',
+  '=',
+  '@',
+  '[',
+  ']',
+  '{',
+  '|',
+  '}',
+]);
+
+export class SdlParser {
+  private tokens: Token[] = [];
+  private position = 0;
+
+  constructor(private source: string) {}
+
+  /**
+   * 解析 SDL
+   *
+   * @returns Schema 模型；未声明 schema 时根类型默认为 Query / Mutation / Subscription
+   */
+  parse(): GraphQLSchemaModel {
+    this.tokens = this.tokenize();
+    this.position = 0;
+
+    const model: GraphQLSchemaModel = { types: new Map() };
+    let hasSchemaDefinition = false;
+
+    while (this.peek().kind !== 'eof') {
+      const description = this.parseDescription();
+      const extend = this.peekName('extend');
+      if (extend) this.next();
+
+      const keyword = this.expect('name').value;
+      switch (keyword) {
+        case 'schema':
+          this.parseDirectives();
+          this.parseSchemaDefinition(model);
+          hasSchemaDefinition = true;
+          break;
+        case 'scalar':
+        case 'type':
+        case 'interface':
+        case 'union':
+        case 'enum':
+        case 'input':
+          this.addType(model, this.parseTypeDefinition(keyword, description));
+          break;
+        case 'directive':
+          this.parseDirectiveDefinition();
+          break;
+        case 'query':
+        case 'mutation':
+        case 'subscription':
+        case 'fragment':
+          throw this.error(
+            `Expected a schema definition, found executable "${keyword}"`,
+          );
+        default:
+          throw this.error(`Unexpected "${keyword}"`);
+      }
+    }
+
+    if (!hasSchemaDefinition) {
+      for (const [field, name] of [
+        ['queryType', 'Query'],
+        ['mutationType', 'Mutation'],
+        ['subscriptionType', 'Subscription'],
+      ] as const) {
+        if (model.types.get(name)?.kind === 'object') model[field] = name;
+      }
+    }
+    return model;
+  }
+
+  /**
+   * 解析单个 GraphQL 值字面量(用于内省结果中的 defaultValue)
+   *
+   * @param text 字面量文本(如 10、"name"、ASC、[1, 2]、{ a: 1 })
+   * @returns 对应的 JSON 值；枚举值返回名称字符串
+   */
+  static parseValue(text: string): unknown {
+    const parser = new SdlParser(text);
+    parser.tokens = parser.tokenize();
+    return parser.parseValueLiteral();
+  }
+
+  // ===================================================================================
+  // 定义
+  // ===================================================================================
+
+  private parseSchemaDefinition(model: GraphQLSchemaModel): void {
+    this.expect('punct', '{');
+    while (!this.skip('}')) {
+      const operation = this.expect('name').value;
+      this.expect('punct', ':');
+      const type = this.expect('name').value;
+      if (operation === 'query') model.queryType = type;
+      else if (operation === 'mutation') model.mutationType = type;
+      else if (operation === 'subscription') model.subscriptionType = type;
+    }
+  }
+
+  private parseTypeDefinition(
+    keyword: string,
+    description: string | undefined,
+  ): GraphQLTypeDefinition {
+    const name = this.expect('name').value;
+    const kind = keyword === 'type' ? 'object' : keyword;
+    const type: GraphQLTypeDefinition = {
+      kind: kind as GraphQLTypeDefinition['kind'],
+      name,
+      ...(description && { description }),
+    };
+
+    if (keyword === 'type' || keyword === 'interface') {
+      if (this.peekName('implements')) {
+        this.next();
+        this.skip('&');
+        type.interfaces = [this.expect('name').value];
+        while (this.skip('&')) type.interfaces.push(this.expect('name').value);
+      }
+      this.parseDirectives();
+      type.fields = this.peekPunct('{') ? this.parseFields() : [];
+    } else if (keyword === 'input') {
+      this.parseDirectives();
+      type.inputFields = this.peekPunct('{')
+        ? this.parseInputValues('{', '}')
+        : [];
+    } else if (keyword === 'enum') {
+      this.parseDirectives();
+      type.values = [];
+      if (this.skip('{')) {
+        while (!this.skip('}')) {
+          const valueDescription = this.parseDescription();
+          const value = this.expect('name').value;
+          const deprecated = this.parseDirectives();
+          type.values.push({
+            name: value,
+            ...(valueDescription && { description: valueDescription }),
+            ...(deprecated && { deprecated }),
+          });
+        }
+      }
+    } else if (keyword === 'union') {
+      this.parseDirectives();
+      type.members = [];
+      if (this.skip('=')) {
+        this.skip('|');
+        type.members.push(this.expect('name').value);
+        while (this.skip('|')) type.members.push(this.expect('name').value);
+      }
+    } else {
+      this.parseDirectives();
+    }
+    return type;
+  }
+
+  /**
+   * directive @name(args) repeatable on LOCATION | LOCATION
+   * 指令定义不影响数据模型，解析后丢弃
+   */
+  private parseDirectiveDefinition(): void {
+    this.expect('punct', '@');
+    this.expect('name');
+    if (this.peekPunct('(')) this.parseInputValues('(', ')');
+    if (this.peekName('repeatable')) this.next();
+    if (!this.peekName('on')) throw this.error('Expected "on"');
+    this.next();
+    this.skip('|');
+    this.expect('name');
+    while (this.skip('|')) this.expect('name');
+  }
+
+  /**
+   * 合并同名类型(extend 或重复定义)
+   */
+  private addType(
+    model: GraphQLSchemaModel,
+    type: GraphQLTypeDefinition,
+  ): void {
+    const existing = model.types.get(type.name);
+    if (!existing) {
+      model.types.set(type.name, type);
+      return;
+    }
+    existing.description ??= type.description;
+    if (type.fields)
+      existing.fields = [...(existing.fields ?? []), ...type.fields];
+    if (type.inputFields) {
+      existing.inputFields = [
+        ...(existing.inputFields ?? []),
+        ...type.inputFields,
+      ];
+    }
+    if (type.values)
+      existing.values = [...(existing.values ?? []), ...type.values];
+    if (type.members) {
+      existing.members = [...(existing.members ?? []), ...type.members];
+    }
+    if (type.interfaces) {
+      existing.interfaces = [
+        ...(existing.interfaces ?? []),
+        ...type.interfaces,
+      ];
+    }
+  }
+
+  private parseFields(): GraphQLField[] {
+    const fields: GraphQLField[] = [];
+    this.expect('punct', '{');
+    while (!this.skip('}')) {
+      const description = this.parseDescription();
+      const name = this.expect('name').value;
+      const args = this.peekPunct('(') ? this.parseInputValues('(', ')') : [];
+      this.expect('punct', ':');
+      const type = this.parseType();
+      const deprecated = this.parseDirectives();
+      fields.push({
+        name,
+        type,
+        args,
+        ...(description && { description }),
+        ...(deprecated && { deprecated }),
+      });
+    }
+    return fields;
+  }
+
+  private parseInputValues(open: string, close: string): GraphQLInputValue[] {
+    const values: GraphQLInputValue[] = [];
+    this.expect('punct', open);
+    while (!this.skip(close)) {
+      const description = this.parseDescription();
+      const name = this.expect('name').value;
+      this.expect('punct', ':');
+      const type = this.parseType();
+      const hasDefault = this.skip('=');
+      const defaultValue = hasDefault ? this.parseValueLiteral() : undefined;
+      const deprecated = this.parseDirectives();
+      values.push({
+        name,
+        type,
+        ...(description && { description }),
+        ...(hasDefault && { defaultValue }),
+        ...(deprecated && { deprecated }),
+      });
+    }
+    return values;
+  }
+
+  private parseType(): GraphQLTypeRef {
+    let type: GraphQLTypeRef;
+    if (this.skip('[')) {
+      type = { kind: 'list', ofType: this.parseType() };
+      this.expect('punct', ']');
+    } else {
+      type = { kind: 'named', name: this.expect('name').value };
+    }
+    return this.skip('!') ? { kind: 'nonNull', ofType: type } : type;
+  }
+
+  /**
+   * 解析指令列表
+   *
+   * @returns @deprecated 的原因(没有 @deprecated 时返回 undefined)
+   */
+  private parseDirectives(): string | undefined {
+    let deprecated: string | undefined;
+    while (this.skip('@')) {
+      const name = this.expect('name').value;
+      const args: Record<string, unknown> = {};
+      if (this.skip('(')) {
+        while (!this.skip(')')) {
+          const arg = this.expect('name').value;
+          this.expect('punct', ':');
+          args[arg] = this.parseValueLiteral();
+        }
+      }
+      if (name === 'deprecated') {
+        deprecated =
+          typeof args.reason === 'string'
+            ? args.reason
+            : DEFAULT_DEPRECATION_REASON;
+      }
+    }
+    return deprecated;
+  }
+
+  private parseValueLiteral(): unknown {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+        return Number(token.value);
+      case 'string':
+        return token.value;
+      case 'name':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'null') return null;
+        return token.value;
+      case 'punct':
+        if (token.value === '[') {
+          const list: unknown[] = [];
+          while (!this.skip(']')) list.push(this.parseValueLiteral());
+          return list;
+        }
+        if (token.value === '{') {
+          const object: Record<string, unknown> = {};
+          while (!this.skip('}')) {
+            const key = this.expect('name').value;
+            this.expect('punct', ':');
+            object[key] = this.parseValueLiteral();
+          }
+          return object;
+        }
+        if (token.value === '$') {
+          // 变量在类型定义中没有意义，按名称保留
+          return `$${this.expect('name').value}`;
+        }
+    }
+    throw this.error(`Unexpected "${token.value}"`, token);
+  }
+
+  private parseDescription(): string | undefined {
+    return this.peek().kind === 'string' ? this.next().value : undefined;
+  }
+
+  // ===================================================================================
+  // 词法分析
+  // ===================================================================================
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const text = this.source;
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i]!;
+
+      // 空白、逗号(无意义)、BOM
+      if (/[\s,\uFEFF]/.test(char)) {
+        i++;
+      } else if (char === '#') {
+        while (i < text.length && text[i] !== '\n' && text[i] !== '\r') i++;
+      } else if (text.startsWith('"""', i)) {
+        const end = text.indexOf('"""', i + 3);
+        if (end < 0) throw this.error('Unterminated block string', i);
+        tokens.push({
+          kind: 'string',
+          value: this.blockString(
+            text.slice(i + 3, end).replace(/\\"""/g, '"""'),
+          ),
+          start: i,
+        });
+        i = end + 3;
+      } else if (char === '"') {
+        const match = text.slice(i).match(/^"((?:[^"\\\n]|\\.)*)"/);
+        if (!match) throw this.error('Unterminated string', i);
+        tokens.push({
+          kind: 'string',
+          value: JSON.parse(`"${match[1]}"`) as string,
+          start: i,
+        });
+        i += match[0].length;
+      } else if (text.startsWith('...', i)) {
+        tokens.push({ kind: 'punct', value: '...', start: i });
+        i += 3;
+      } else if (PUNCTUATORS.has(char)) {
+        tokens.push({ kind: 'punct', value: char, start: i });
+        i++;
+      } else if (/[_A-Za-z]/.test(char)) {
+        const match = text.slice(i).match(/^[_A-Za-z][_0-9A-Za-z]*/)!;
+        tokens.push({ kind: 'name', value: match[0], start: i });
+        i += match[0].length;
+      } else if (/[-\d]/.test(char)) {
+        const match = text
+          .slice(i)
+          .match(/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/);
+        if (!match) throw this.error(`Unexpected "${char}"`, i);
+        tokens.push({ kind: 'number', value: match[0], start: i });
+        i += match[0].length;
+      } else {
+        throw this.error(`Unexpected "${char}"`, i);
+      }
+    }
+
+    tokens.push({ kind: 'eof', value: '<EOF>', start: text.length });
+    return tokens;
+  }
+
+  /**
+   * 块字符串：去除公共缩进与首尾空行
+   */
+  private blockString(raw: string): string {
+    const lines = raw.split(/\r\n|\r|\n/);
+    let indent = Infinity;
+    for (const line of lines.slice(1)) {
+      const leading = line.match(/^[ \t]*/)![0].length;
+      if (leading < line.length) indent = Math.min(indent, leading);
+    }
+    const result = lines.map((line, index) =>
+      index === 0 || indent === Infinity ? line : line.slice(indent),
+    );
+    while (result.length > 0 && !result[0]!.trim()) result.shift();
+    while (result.length > 0 && !result[result.length - 1]!.trim()) {
+      result.pop();
+    }
+    return result.join('\n');
+  }
+
+  // ===================================================================================
+  // 词法单元读取
+  // ===================================================================================
+
+  private peek(): Token {
+    return this.tokens[this.position]!;
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private peekName(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'name' && token.value === value;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.position++;
+    return token;
+  }
+
+  private skip(punct: string): boolean {
+    if (this.peekPunct(punct)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(kind: Token['kind'], value?: string): Token {
+    const token = this.peek();
+    if (token.kind !== kind || (value !== undefined && token.value !== value)) {
+      throw this.error(
+        `Expected ${value ? `"${value}"` : kind}, found "${token.value}"`,
+      );
+    }
+    return this.next();
+  }
+
+  /**
+   * 生成带行列号的语法错误
+   */
+  private error(message: string, at: Token | number = this.peek()): Error {
+    const offset = typeof at === 'number' ? at : at.start;
+    const before = this.source.slice(0, offset).split(/\r\n|\r|\n/);
+    const line = before.length;
+    const column = before[before.length - 1]!.length + 1;
+    return new Error(`GraphQL syntax error (${line}:${column}): ${message}`);
+  }
+}
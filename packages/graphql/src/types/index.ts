@@ -0,0 +1,157 @@
+import type { OpenAPIOptions } from '@api-codegen-universal/openapi';
+
+/**
+ * GraphQLAdapter 输入源
+ * - 字符串：SDL / 内省结果(.json)文件路径(相对路径基于 process.cwd())，或 SDL / JSON 文本
+ * - 对象：内省查询结果({ data: { __schema } } 或 { __schema })
+ */
+export type GraphQLSource = string | GraphQLIntrospectionResult;
+
+/**
+ * 适配器选项
+ * 在 OpenAPIOptions 的基础上增加 GraphQL 专属行为控制
+ */
+export interface GraphQLAdapterOptions extends OpenAPIOptions {
+  /**
+   * 合成路径前缀(默认 '/graphql')
+   * 查询与变更映射为 POST {endpoint}/query/{field}、POST {endpoint}/mutation/{field}
+   */
+  endpoint?: string;
+
+  /**
+   * 自定义标量对应的 OpenAPI Schema
+   * 未配置的自定义标量生成 unknown 类型
+   *
+   * @example
+   * { DateTime: { type: 'string', format: 'date-time' }, JSON: {} }
+   */
+  scalars?: Record<string, Record<string, unknown>>;
+}
+
+// ===================================================================================
+// 内省查询结果(只包含适配器用到的字段)
+// ===================================================================================
+
+/**
+ * 内省查询结果
+ */
+export type GraphQLIntrospectionResult =
+  | { data: { __schema: IntrospectionSchema } }
+  | { __schema: IntrospectionSchema };
+
+export interface IntrospectionSchema {
+  queryType?: { name: string } | null;
+  mutationType?: { name: string } | null;
+  subscriptionType?: { name: string } | null;
+  types: IntrospectionType[];
+}
+
+export interface IntrospectionType {
+  kind:
+    | 'SCALAR'
+    | 'OBJECT'
+    | 'INTERFACE'
+    | 'UNION'
+    | 'ENUM'
+    | 'INPUT_OBJECT'
+    | string;
+  name: string;
+  description?: string | null;
+  fields?: IntrospectionField[] | null;
+  inputFields?: IntrospectionInputValue[] | null;
+  interfaces?: Array<{ name: string }> | null;
+  enumValues?: Array<{
+    name: string;
+    description?: string | null;
+    isDeprecated?: boolean;
+    deprecationReason?: string | null;
+  }> | null;
+  possibleTypes?: Array<{ name: string }> | null;
+}
+
+export interface IntrospectionField {
+  name: string;
+  description?: string | null;
+  args?: IntrospectionInputValue[];
+  type: IntrospectionTypeRef;
+  isDeprecated?: boolean;
+  deprecationReason?: string | null;
+}
+
+export interface IntrospectionInputValue {
+  name: string;
+  description?: string | null;
+  type: IntrospectionTypeRef;
+  /** GraphQL 字面量形式的默认值(如 "10"、"\"name\""、"ASC") */
+  defaultValue?: string | null;
+}
+
+export interface IntrospectionTypeRef {
+  kind: string;
+  name?: string | null;
+  ofType?: IntrospectionTypeRef | null;
+}
+
+// ===================================================================================
+// 适配器内部的 Schema 模型(SDL 与内省结果统一转换为该结构)
+// ===================================================================================
+
+/**
+ * 类型引用
+ */
+export type GraphQLTypeRef =
+  | { kind: 'named'; name: string }
+  | { kind: 'list'; ofType: GraphQLTypeRef }
+  | { kind: 'nonNull'; ofType: GraphQLTypeRef };
+
+/**
+ * 参数或 input 字段
+ */
+export interface GraphQLInputValue {
+  name: string;
+  description?: string;
+  type: GraphQLTypeRef;
+  defaultValue?: unknown;
+  deprecated?: string;
+}
+
+/**
+ * object / interface 字段
+ */
+export interface GraphQLField {
+  name: string;
+  description?: string;
+  type: GraphQLTypeRef;
+  args: GraphQLInputValue[];
+  /** 废弃原因(已废弃时存在) */
+  deprecated?: string;
+}
+
+/**
+ * 类型定义
+ */
+export interface GraphQLTypeDefinition {
+  kind: 'object' | 'interface' | 'input' | 'enum' | 'union' | 'scalar';
+  name: string;
+  description?: string;
+  /** object / interface 字段 */
+  fields?: GraphQLField[];
+  /** input 字段 */
+  inputFields?: GraphQLInputValue[];
+  /** 枚举值 */
+  values?: Array<{ name: string; description?: string; deprecated?: string }>;
+  /** union 成员类型 */
+  members?: string[];
+  /** 实现的 interface */
+  interfaces?: string[];
+}
+
+/**
+ * Schema 模型
+ */
+export interface GraphQLSchemaModel {
+  queryType?: string;
+  mutationType?: string;
+  subscriptionType?: string;
+  types: Map<string, GraphQLTypeDefinition>;
+}
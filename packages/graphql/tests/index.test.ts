@@ -0,0 +1,193 @@
+import { test, expect } from '@rstest/core';
+import {
+  GraphQLAdapter,
+  SdlParser,
+  type GraphQLIntrospectionResult,
+} from '../src';
+
+const sdl = `
+"""
+A registered user
+"""
+type User implements Node {
+  id: ID!
+  name: String!
+  email: String
+  role: Role!
+  posts(first: Int = 10): [Post!]!
+  legacyId: Int @deprecated(reason: "Use id")
+}
+
+interface Node {
+  id: ID!
+}
+
+type Post implements Node {
+  id: ID!
+  title: String!
+  publishedAt: DateTime
+}
+
+union SearchResult = User | Post
+
+enum Role {
+  ADMIN
+  "Regular member"
+  MEMBER
+}
+
+scalar DateTime
+
+input CreateUserInput {
+  name: String!
+  role: Role = MEMBER
+}
+
+type Query {
+  "Find a user by id"
+  user(id: ID!): User
+  search(term: String!, limit: Int = 20): [SearchResult!]!
+  viewer: User!
+}
+
+type Mutation {
+  createUser(input: CreateUserInput!): User!
+}
+
+extend type Query {
+  posts: [Post!]!
+}
+`;
+
+test('GraphQLAdapter maps SDL types and root fields', async () => {
+  const adapter = new GraphQLAdapter();
+  expect(await adapter.validate(sdl)).toBe(true);
+  expect(await adapter.validate('query { viewer { id } }')).toBe(false);
+
+  const result = await adapter.parse(sdl, {
+    scalars: { DateTime: { type: 'string', format: 'date-time' } },
+  });
+
+  // 查询与变更映射为合成的 POST 接口
+  expect(result.apis.map((api) => `${api.method} ${api.path}`)).toEqual([
+    'POST /graphql/query/user',
+    'POST /graphql/query/search',
+    'POST /graphql/query/viewer',
+    'POST /graphql/query/posts',
+    'POST /graphql/mutation/createUser',
+  ]);
+  const user = result.apis.find((api) => api.operationId === 'user')!;
+  expect(user.description).toBe('Find a user by id');
+  expect(user.requestBody?.content['application/json']?.schema).toEqual({
+    type: 'ref',
+    ref: 'UserVariables',
+  });
+  expect(result.interfaces.UserVariables).toContain('id: string');
+
+  // 带默认值的参数可以省略
+  const search = result.schemas.SearchVariables!;
+  expect(search.properties?.term?.required).toBe(true);
+  expect(search.properties?.limit?.required).toBe(false);
+  expect(search.properties?.limit?.description).toBe('Default: 20');
+
+  // 对象类型：非空字段必填，可空字段可选且可为 null
+  const userType = result.interfaces.User!;
+  expect(userType).toContain('name: string');
+  expect(userType).toContain('email?: string | null');
+  expect(userType).toContain('role: Role');
+  expect(userType).toContain('posts: Post[]');
+  expect(userType).toMatch(/@deprecated[\s\S]*legacyId/);
+  expect(result.schemas.User?.properties?.legacyId?.description).toBe(
+    'Deprecated: Use id',
+  );
+
+  // 枚举、联合、自定义标量与根类型
+  expect(result.schemas.Role?.enum).toEqual(['ADMIN', 'MEMBER']);
+  expect(result.interfaces.SearchResult).toContain('User | Post');
+  expect(result.interfaces.Post).toContain('publishedAt?: DateTime | null');
+  expect(result.interfaces.DateTime).toContain('string');
+  expect(result.schemas.Query).toBeUndefined();
+  expect(result.interfaces.CreateUserInput).toContain('role?: Role');
+});
+
+test('GraphQLAdapter reads introspection results', async () => {
+  const named = (kind: string, name: string) => ({ kind, name, ofType: null });
+  const nonNull = (ofType: object) => ({
+    kind: 'NON_NULL',
+    name: null,
+    ofType,
+  });
+  const introspection: GraphQLIntrospectionResult = {
+    data: {
+      __schema: {
+        queryType: { name: 'Query' },
+        mutationType: null,
+        types: [
+          {
+            kind: 'OBJECT',
+            name: 'Query',
+            fields: [
+              {
+                name: 'books',
+                args: [
+                  {
+                    name: 'order',
+                    type: named('ENUM', 'Order'),
+                    defaultValue: 'ASC',
+                  },
+                ],
+                type: nonNull({
+                  kind: 'LIST',
+                  name: null,
+                  ofType: nonNull(named('OBJECT', 'Book')),
+                }),
+              },
+            ],
+          },
+          {
+            kind: 'OBJECT',
+            name: 'Book',
+            fields: [
+              {
+                name: 'title',
+                args: [],
+                type: nonNull(named('SCALAR', 'String')),
+              },
+              {
+                name: 'isbn',
+                args: [],
+                type: named('SCALAR', 'String'),
+                isDeprecated: true,
+                deprecationReason: null,
+              },
+            ],
+          },
+          {
+            kind: 'ENUM',
+            name: 'Order',
+            enumValues: [{ name: 'ASC' }, { name: 'DESC' }],
+          },
+          { kind: 'SCALAR', name: 'String' },
+          { kind: 'OBJECT', name: '__Type', fields: [] },
+        ],
+      },
+    },
+  };
+
+  const result = await new GraphQLAdapter().parse(introspection, {
+    endpoint: '/gateway',
+  });
+  expect(result.apis.map((api) => api.path)).toEqual(['/gateway/query/books']);
+  expect(result.interfaces.Book).toContain('title: string');
+  expect(result.interfaces.Book).toMatch(/@deprecated[\s\S]*isbn/);
+  expect(result.schemas.BooksVariables?.properties?.order?.description).toBe(
+    'Default: "ASC"',
+  );
+  expect(result.schemas.__Type).toBeUndefined();
+});
+
+test('SdlParser reports syntax errors with positions', () => {
+  expect(() => new SdlParser('type Query {\n  a: \n}').parse()).toThrow(
+    'GraphQL syntax error (3:1)',
+  );
+});
@@ -0,0 +1,739 @@
+/**
+ * HAR 转换器
+ * 将录制的请求按接口分组，合并样本推断 Schema，生成 OpenAPI 3.0 文档后交给 OpenAPIAdapter 解析
+ *
+ * 推断规则：
+ * 1. 数字、UUID、长十六进制路径段视为路径参数(/users/42 -> /users/{userId})
+ * 2. 前缀相同的路径在同一位置出现足够多的不同取值，且响应结构相近时，该位置也视为路径参数
+ *    (/users/alice、/users/bob ... -> /users/{userId})
+ * 3. 来源(origin) + method + 路径模板相同的请求归为同一接口
+ * 4. 查询参数、请求头、请求体、响应体合并所有样本推断类型，所有样本中都出现的字段为必填
+ * 5. 不同来源上的同一 method + 路径模板只生成一个 operation(使用最先出现的来源的样本)，
+ *    来源与第一个服务地址不同时生成操作级 servers
+ */
+
+import type { AdapterLogger } from '@api-codegen-universal/core';
+import { NamingUtils, SchemaInferrer } from '@api-codegen-universal/openapi';
+import type { HarAdapterOptions, HarEntry } from './types';
+
+type SchemaObject = Record<string, unknown>;
+
+/**
+ * 通过过滤的请求(尚未确定路径模板)
+ */
+interface HarRequest {
+  entry: HarEntry;
+  url: URL;
+  /** 解码后的路径段 */
+  segments: string[];
+  /** 各路径段是否为可变段 */
+  variable: boolean[];
+}
+
+/**
+ * 归入某个接口的样本
+ */
+interface HarSample {
+  entry: HarEntry;
+  url: URL;
+  /** 路径参数名 -> 实际值 */
+  params: Record<string, string>;
+}
+
+/**
+ * 同一来源上的一个接口
+ */
+interface HarGroup {
+  origin: string;
+  method: string;
+  path: string;
+  samples: HarSample[];
+}
+
+/**
+ * 已知路径模板
+ */
+interface PathTemplate {
+  path: string;
+  segments: string[];
+  paramCount: number;
+}
+
+const HTTP_METHODS = new Set([
+  'get',
+  'post',
+  'put',
+  'delete',
+  'patch',
+  'head',
+  'options',
+]);
+
+/** 浏览器或客户端自动附带的请求头，不作为 header 参数 */
+const SKIPPED_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'authorization',
+  'cache-control',
+  'connection',
+  'content-length',
+  'content-type',
+  'cookie',
+  'dnt',
+  'host',
+  'if-modified-since',
+  'if-none-match',
+  'origin',
+  'pragma',
+  'priority',
+  'referer',
+  'te',
+  'upgrade-insecure-requests',
+  'user-agent',
+]);
+
+/** 视为路径参数的路径段 */
+const VARIABLE_SEGMENTS = [
+  /^\d+$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^[0-9a-f]{24,}$/i,
+];
+
+/** 默认的可变路径段阈值：同一位置超过该数量的不同取值时视为路径参数 */
+const DEFAULT_PATH_PARAM_THRESHOLD = 3;
+
+/** 响应结构相近的判定阈值(顶层字段的 Jaccard 相似度) */
+const SIMILAR_SHAPE_RATIO = 0.5;
+
+export class HarConverter {
+  private inferrer = new SchemaInferrer();
+  private templates: PathTemplate[];
+  private schemas: Record<string, SchemaObject> = {};
+  private operationIds = new Set<string>();
+
+  /**
+   * @param options 适配器选项(filter、hosts、paths、pathParamThreshold)
+   * @param logger 适配器日志
+   */
+  constructor(
+    private options: Pick<
+      HarAdapterOptions,
+      'filter' | 'hosts' | 'paths' | 'pathParamThreshold'
+    >,
+    private logger?: AdapterLogger,
+  ) {
+    // 静态段多的模板优先匹配(/users/me 优先于 /users/{id})
+    this.templates = (options.paths ?? [])
+      .map((path) => {
+        const segments = path.split('/').filter(Boolean);
+        const paramCount = segments.filter((s) =>
+          /^\{[^{}]+\}$/.test(s),
+        ).length;
+        return { path: `/${segments.join('/')}`, segments, paramCount };
+      })
+      .sort((a, b) => a.paramCount - b.paramCount);
+  }
+
+  /**
+   * 转换 HAR 条目
+   *
+   * @param entries HAR 中的 log.entries
+   * @param title 文档标题
+   * @returns OpenAPI 文档
+   */
+  convert(entries: HarEntry[], title: string): Record<string, unknown> {
+    const groups = new Map<string, HarGroup>();
+    const servers = new Set<string>();
+    const requests: HarRequest[] = [];
+
+    for (const entry of entries) {
+      const request = this.toRequest(entry);
+      if (request) requests.push(request);
+    }
+    const skipped = entries.length - requests.length;
+
+    // 匹配已知模板的请求不参与推断
+    const templated = new Map(
+      requests.map((request) => [
+        request,
+        this.matchTemplate(request.segments),
+      ]),
+    );
+    this.markVaryingSegments(
+      requests.filter((request) => !templated.get(request)),
+    );
+
+    for (const request of requests) {
+      const { path, params } =
+        templated.get(request) ??
+        this.inferTemplate(request.segments, request.variable);
+      const method = request.entry.request.method.toLowerCase();
+      const { origin } = request.url;
+      const key = `${origin} ${method} ${path}`;
+      if (!groups.has(key)) {
+        groups.set(key, { origin, method, path, samples: [] });
+      }
+      groups
+        .get(key)!
+        .samples.push({ entry: request.entry, url: request.url, params });
+      servers.add(origin);
+    }
+
+    const paths: Record<string, Record<string, SchemaObject>> = {};
+    // operation -> 提供该接口的来源
+    const origins = new Map<SchemaObject, string[]>();
+    for (const { origin, method, path, samples } of groups.values()) {
+      const existing = paths[path]?.[method];
+      if (existing) {
+        origins.get(existing)!.push(origin);
+        continue;
+      }
+      const operation = this.convertOperation(method, path, samples);
+      paths[path] = { ...paths[path], [method]: operation };
+      origins.set(operation, [origin]);
+    }
+
+    const [primary] = servers;
+    for (const [operation, urls] of origins) {
+      if (urls.length === 1 && urls[0] === primary) continue;
+      operation.servers = urls.map((url) => ({ url }));
+    }
+
+    this.logger?.debug('Grouped HAR entries into operations.', {
+      code: 'HAR_ENTRIES_GROUPED',
+      entries: entries.length,
+      skipped,
+      operations: origins.size,
+    });
+
+    const document: Record<string, unknown> = {
+      openapi: '3.0.3',
+      info: { title, version: '1.0.0' },
+    };
+    if (servers.size > 0) {
+      document.servers = Array.from(servers, (url) => ({ url }));
+    }
+    document.paths = paths;
+    if (Object.keys(this.schemas).length > 0) {
+      document.components = { schemas: this.schemas };
+    }
+    return document;
+  }
+
+  /**
+   * 过滤条目并拆分路径段
+   */
+  private toRequest(entry: HarEntry): HarRequest | undefined {
+    const method = entry.request?.method?.toLowerCase();
+    if (!method || !HTTP_METHODS.has(method)) return undefined;
+
+    let url: URL;
+    try {
+      url = new URL(entry.request.url);
+    } catch {
+      return undefined;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+
+    const hosts = this.options.hosts;
+    if (hosts && !hosts.includes(url.host) && !hosts.includes(url.hostname)) {
+      return undefined;
+    }
+    if (!(this.options.filter ?? this.isApiEntry)(entry)) return undefined;
+
+    const segments = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => this.decode(segment));
+    const variable = segments.map((segment) =>
+      VARIABLE_SEGMENTS.some((regex) => regex.test(segment)),
+    );
+    return { entry, url, segments, variable };
+  }
+
+  /**
+   * 默认过滤：XHR/Fetch 请求，或请求体/响应为 JSON 的请求
+   */
+  private isApiEntry = (entry: HarEntry): boolean => {
+    if (entry._resourceType) {
+      return entry._resourceType === 'xhr' || entry._resourceType === 'fetch';
+    }
+    return (
+      this.isJson(entry.response?.content?.mimeType) ||
+      this.isJson(entry.request.postData?.mimeType)
+    );
+  };
+
+  /**
+   * 匹配调用方提供的路径模板
+   */
+  private matchTemplate(
+    segments: string[],
+  ): { path: string; params: Record<string, string> } | undefined {
+    for (const template of this.templates) {
+      if (template.segments.length !== segments.length) continue;
+
+      const params: Record<string, string> = {};
+      const matched = template.segments.every((part, index) => {
+        const param = part.match(/^\{([^{}]+)\}$/);
+        if (param) {
+          params[param[1]!] = segments[index]!;
+          return true;
+        }
+        return part === segments[index];
+      });
+      if (matched) return { path: template.path, params };
+    }
+    return undefined;
+  }
+
+  /**
+   * 按取值差异标记可变路径段
+   * 前缀相同的请求在同一位置出现超过 pathParamThreshold 个不同取值，
+   * 且各取值对应的资源响应结构相近时(排除 /api/users、/api/orders 这类静态的兄弟路径)，
+   * 该位置视为路径参数。从左到右逐段判断，已标记的段在前缀中视为通配，以支持多级嵌套
+   */
+  private markVaryingSegments(requests: HarRequest[]): void {
+    const threshold =
+      this.options.pathParamThreshold ?? DEFAULT_PATH_PARAM_THRESHOLD;
+    const maxLength = Math.max(0, ...requests.map((r) => r.segments.length));
+
+    for (let index = 0; index < maxLength; index++) {
+      const groups = new Map<
+        string,
+        { requests: HarRequest[]; shapes: Map<string, Set<string>> }
+      >();
+      for (const request of requests) {
+        if (request.segments.length <= index || request.variable[index]) {
+          continue;
+        }
+        const prefix = request.segments
+          .slice(0, index)
+          .map((segment, i) => (request.variable[i] ? '{}' : segment));
+        const key = prefix.join('/');
+        let group = groups.get(key);
+        if (!group) {
+          group = { requests: [], shapes: new Map() };
+          groups.set(key, group);
+        }
+        group.requests.push(request);
+
+        // 只用以该段结尾的请求(资源本身)比较响应结构
+        const value = request.segments[index]!;
+        const fields = group.shapes.get(value) ?? new Set<string>();
+        if (request.segments.length === index + 1) {
+          for (const field of this.responseFields(request.entry)) {
+            fields.add(field);
+          }
+        }
+        group.shapes.set(value, fields);
+      }
+
+      for (const { requests: members, shapes } of groups.values()) {
+        if (shapes.size <= threshold || !this.isSimilarShape(shapes)) continue;
+        for (const request of members) {
+          request.variable[index] = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * 各取值对应的响应顶层字段是否相近
+   * 没有 JSON 对象响应的取值不参与比较；可比较的取值不足两个时缺少依据，不视为参数
+   */
+  private isSimilarShape(shapes: Map<string, Set<string>>): boolean {
+    const [reference, ...others] = Array.from(shapes.values()).filter(
+      (fields) => fields.size > 0,
+    );
+    if (!reference || others.length === 0) return false;
+    return others.every((fields) => {
+      const shared = Array.from(fields).filter((f) => reference.has(f)).length;
+      const total = new Set([...reference, ...fields]).size;
+      return shared / total >= SIMILAR_SHAPE_RATIO;
+    });
+  }
+
+  /**
+   * JSON 响应的顶层字段(数组取第一个元素)
+   */
+  private responseFields(entry: HarEntry): string[] {
+    if (!this.isJson(entry.response?.content?.mimeType)) return [];
+    const text = this.responseText(entry);
+    if (!text) return [];
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return [];
+    }
+    if (Array.isArray(body)) body = body[0];
+    return typeof body === 'object' && body !== null ? Object.keys(body) : [];
+  }
+
+  /**
+   * 推断路径模板
+   * 可变路径段按前一个静态段命名：/users/42/orders/7 -> /users/{userId}/orders/{orderId}
+   *
+   * @param segments 路径段
+   * @param variable 各路径段是否为可变段
+   */
+  private inferTemplate(
+    segments: string[],
+    variable: boolean[],
+  ): {
+    path: string;
+    params: Record<string, string>;
+  } {
+    const params: Record<string, string> = {};
+    const parts = segments.map((segment, index) => {
+      if (!variable[index]) return segment;
+
+      const previous = segments[index - 1];
+      const base =
+        previous && !variable[index - 1] && /[A-Za-z]/.test(previous)
+          ? `${this.singular(
+              NamingUtils.convert(
+                previous.replace(/[^A-Za-z0-9]+/g, '_'),
+                'camelCase',
+              ),
+            )}Id`
+          : 'id';
+      let name = base;
+      for (let i = 2; name in params; i++) {
+        name = `${base}${i}`;
+      }
+      params[name] = segment;
+      return `{${name}}`;
+    });
+    return { path: `/${parts.join('/')}`, params };
+  }
+
+  /**
+   * 合并同一接口的所有样本生成 operation
+   */
+  private convertOperation(
+    method: string,
+    path: string,
+    samples: HarSample[],
+  ): SchemaObject {
+    const operationId = this.uniqueOperationId(method, path);
+    const parameters = [
+      ...this.convertPathParams(samples),
+      ...this.convertQuery(samples),
+      ...this.convertHeaders(samples),
+    ];
+    const requestBody = this.convertBody(samples);
+
+    return {
+      operationId,
+      ...(parameters.length > 0 && { parameters }),
+      ...(requestBody && { requestBody }),
+      responses: this.convertResponses(operationId, samples),
+    };
+  }
+
+  private convertPathParams(samples: HarSample[]): SchemaObject[] {
+    return Object.keys(samples[0]!.params).map((name) => {
+      const values = samples.map((sample) => sample.params[name]!);
+      return {
+        name,
+        in: 'path',
+        required: true,
+        schema: this.inferrer.infer(values.map((value) => this.coerce(value))),
+        example: this.coerce(values[0]!),
+      };
+    });
+  }
+
+  /**
+   * 查询参数：重复出现的参数推断为数组
+   */
+  private convertQuery(samples: HarSample[]): SchemaObject[] {
+    const records = samples.map((sample) => {
+      const record: Record<string, unknown> = {};
+      for (const key of new Set(sample.url.searchParams.keys())) {
+        const values = sample.url.searchParams
+          .getAll(key)
+          .map((value) => this.coerce(value));
+        record[key] = values.length > 1 ? values : values[0];
+      }
+      return record;
+    });
+    return this.toParameters('query', records);
+  }
+
+  private convertHeaders(samples: HarSample[]): SchemaObject[] {
+    const names = new Map<string, string>();
+    const records = samples.map((sample) => {
+      const record: Record<string, unknown> = {};
+      for (const header of sample.entry.request.headers ?? []) {
+        const key = header.name.toLowerCase();
+        if (
+          SKIPPED_HEADERS.has(key) ||
+          key.startsWith(':') ||
+          key.startsWith('sec-')
+        ) {
+          continue;
+        }
+        if (!names.has(key)) names.set(key, header.name);
+        record[names.get(key)!] = header.value;
+      }
+      return record;
+    });
+    return this.toParameters('header', records);
+  }
+
+  /**
+   * 将多个样本(参数名 -> 值)合并为参数列表
+   * 所有样本中都出现的参数为必填
+   */
+  private toParameters(
+    location: 'query' | 'header',
+    records: Array<Record<string, unknown>>,
+  ): SchemaObject[] {
+    const schema = this.inferrer.infer(records);
+    const required = new Set((schema.required as string[] | undefined) ?? []);
+    const properties = (schema.properties ?? {}) as Record<
+      string,
+      SchemaObject
+    >;
+    const example = records[0] ?? {};
+
+    return Object.entries(properties).map(([name, propertySchema]) => ({
+      name,
+      in: location,
+      required: required.has(name),
+      schema: propertySchema,
+      ...(example[name] !== undefined && { example: example[name] }),
+    }));
+  }
+
+  /**
+   * 请求体：按内容类型合并样本
+   */
+  private convertBody(samples: HarSample[]): SchemaObject | undefined {
+    const groups = new Map<string, unknown[]>();
+    const files = new Map<string, Set<string>>();
+    let count = 0;
+
+    for (const { entry } of samples) {
+      const postData = entry.request.postData;
+      if (!postData || (!postData.text && !postData.params?.length)) continue;
+      count++;
+
+      const contentType = this.mediaType(postData.mimeType);
+      if (!groups.has(contentType)) groups.set(contentType, []);
+      const values = groups.get(contentType)!;
+
+      if (this.isJson(contentType)) {
+        values.push(this.parseJson(postData.text ?? ''));
+      } else if (
+        contentType === 'application/x-www-form-urlencoded' ||
+        contentType === 'multipart/form-data'
+      ) {
+        const record: Record<string, unknown> = {};
+        const params =
+          postData.params ??
+          Array.from(new URLSearchParams(postData.text ?? ''), (pair) => ({
+            name: pair[0],
+            value: pair[1],
+            fileName: undefined,
+          }));
+        for (const param of params) {
+          if (param.fileName !== undefined) {
+            if (!files.has(contentType)) files.set(contentType, new Set());
+            files.get(contentType)!.add(param.name);
+          }
+          record[param.name] = this.coerce(param.value ?? '');
+        }
+        values.push(record);
+      } else {
+        values.push(postData.text);
+      }
+    }
+    if (count === 0) return undefined;
+
+    const content: Record<string, SchemaObject> = {};
+    for (const [contentType, values] of groups) {
+      const samplesOfType = values.filter((value) => value !== undefined);
+      if (typeof samplesOfType[0] === 'string' && !this.isJson(contentType)) {
+        content[contentType] = { schema: { type: 'string' } };
+        continue;
+      }
+
+      const schema = this.inferrer.infer(samplesOfType);
+      const properties = schema.properties as
+        | Record<string, SchemaObject>
+        | undefined;
+      for (const name of files.get(contentType) ?? []) {
+        if (properties) properties[name] = { type: 'string', format: 'binary' };
+      }
+      content[contentType] = {
+        schema,
+        ...(!files.has(contentType) &&
+          samplesOfType.length > 0 && { example: samplesOfType[0] }),
+      };
+    }
+
+    return { required: count === samples.length, content };
+  }
+
+  /**
+   * 响应：按状态码与内容类型合并样本
+   * 对象/数组 Schema 注册到 components.schemas(如 GetUsersResponse、GetUsers404Response)
+   */
+  private convertResponses(
+    operationId: string,
+    samples: HarSample[],
+  ): SchemaObject {
+    const groups = new Map<
+      string,
+      { description: string; content: Map<string, unknown[]> }
+    >();
+
+    for (const { entry } of samples) {
+      const status = entry.response?.status;
+      // status 0 表示请求被取消或未完成
+      if (!status) continue;
+
+      const code = String(status);
+      if (!groups.has(code)) {
+        groups.set(code, {
+          description: entry.response.statusText || 'Response',
+          content: new Map(),
+        });
+      }
+      const body = this.responseText(entry);
+      if (!body) continue;
+
+      const contentType = this.mediaType(entry.response.content?.mimeType);
+      const content = groups.get(code)!.content;
+      if (!content.has(contentType)) content.set(contentType, []);
+      content
+        .get(contentType)!
+        .push(this.isJson(contentType) ? this.parseJson(body) : body);
+    }
+
+    if (groups.size === 0) return { '200': { description: 'OK' } };
+
+    const result: SchemaObject = {};
+    const baseName = NamingUtils.convert(operationId, 'PascalCase');
+    let hasSuccess = false;
+    for (const code of Array.from(groups.keys()).sort()) {
+      const group = groups.get(code)!;
+      const content: Record<string, SchemaObject> = {};
+      for (const [contentType, values] of group.content) {
+        if (!this.isJson(contentType)) {
+          content[contentType] = { schema: { type: 'string' } };
+          continue;
+        }
+
+        const parsed = values.filter((value) => value !== undefined);
+        let schema: SchemaObject = this.inferrer.infer(parsed);
+        if (schema.type === 'object' || schema.type === 'array') {
+          const isSuccess: boolean = !hasSuccess && code.startsWith('2');
+          hasSuccess ||= isSuccess;
+          schema = this.registerSchema(
+            `${baseName}${isSuccess ? '' : code}Response`,
+            schema,
+          );
+        }
+        content[contentType] = {
+          schema,
+          ...(parsed.length > 0 && { example: parsed[0] }),
+        };
+      }
+      result[code] = {
+        description: group.description,
+        ...(group.content.size > 0 && { content }),
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 注册组件 Schema，名称冲突时追加序号
+   *
+   * @returns 指向该 Schema 的 $ref
+   */
+  private registerSchema(name: string, schema: SchemaObject): SchemaObject {
+    let unique = name;
+    for (let i = 2; this.schemas[unique]; i++) {
+      unique = `${name}${i}`;
+    }
+    this.schemas[unique] = schema;
+    return { $ref: `#/components/schemas/${unique}` };
+  }
+
+  /**
+   * 生成唯一的 operationId：method + 路径段(camelCase)
+   * GET /users/{userId} -> getUsersUserId
+   */
+  private uniqueOperationId(method: string, path: string): string {
+    const words = [method, ...path.split(/[^A-Za-z0-9]+/)].filter(Boolean);
+    const base = NamingUtils.convert(words.join('_'), 'camelCase');
+
+    let operationId = base;
+    for (let i = 2; this.operationIds.has(operationId); i++) {
+      operationId = `${base}${i}`;
+    }
+    this.operationIds.add(operationId);
+    return operationId;
+  }
+
+  /**
+   * 响应体文本(base64 编码时先解码)
+   */
+  private responseText(entry: HarEntry): string | undefined {
+    const content = entry.response.content;
+    if (!content?.text) return undefined;
+    return content.encoding === 'base64'
+      ? Buffer.from(content.text, 'base64').toString('utf-8')
+      : content.text;
+  }
+
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      this.logger?.debug('Failed to parse JSON body.', {
+        code: 'HAR_INVALID_JSON',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * 字符串值(路径、查询参数、表单字段)转换为对应的 JSON 类型
+   */
+  private coerce(value: string): unknown {
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (/^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(value)) return Number(value);
+    return value;
+  }
+
+  private singular(word: string): string {
+    if (/ies$/.test(word)) return `${word.slice(0, -3)}y`;
+    if (/(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+    if (/[^s]s$/.test(word)) return word.slice(0, -1);
+    return word;
+  }
+
+  private mediaType(mimeType: string | undefined): string {
+    return mimeType?.split(';')[0]?.trim().toLowerCase() || 'text/plain';
+  }
+
+  private isJson(mimeType: string | undefined): boolean {
+    return !!mimeType && /[/+]json\b/i.test(mimeType);
+  }
+
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
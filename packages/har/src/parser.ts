@@ -0,0 +1,102 @@
+/**
+ * HAR 适配器
+ * 根据浏览器录制的 HAR 文件推断接口定义，适用于没有任何规范文档的旧服务
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { IAdapter, StandardOutput } from '@api-codegen-universal/core';
+import { createAdapterLogger } from '@api-codegen-universal/core';
+import {
+  type InputSource,
+  OpenAPIAdapter,
+} from '@api-codegen-universal/openapi';
+import { HarConverter } from './converter';
+import type { HarAdapterOptions, HarDocument, HarSource } from './types';
+
+/**
+ * HAR 适配器类
+ * 实现 IAdapter 接口，用于将录制的请求转换为标准输出
+ */
+export class HarAdapter implements IAdapter<HarAdapterOptions, HarSource> {
+  /**
+   * 验证输入源是否为 HAR
+   *
+   * @param source HAR 文件路径、JSON 文本或对象
+   * @returns 包含 log.entries 数组时返回 true
+   */
+  async validate(source: HarSource): Promise<boolean> {
+    try {
+      const har = await this.loadHar(source);
+      return Array.isArray(har?.log?.entries);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 解析主入口
+   * 1. 读取 HAR 并过滤出接口请求
+   * 2. 推断路径模板并按 method + 路径分组，合并样本推断参数、请求体与响应 Schema
+   * 3. 使用 OpenAPIAdapter 转换为标准输出
+   *
+   * @param source HAR 文件路径、JSON 文本或对象
+   * @param options 适配器选项
+   * @returns 标准输出格式 (StandardOutput)
+   */
+  async parse(
+    source: HarSource,
+    options: HarAdapterOptions = {},
+  ): Promise<StandardOutput> {
+    const sourceLabel = this.getSourceLabel(source);
+    const logger = createAdapterLogger(options, {
+      adapter: 'har',
+      source: sourceLabel,
+    });
+
+    const har = await this.loadHar(source);
+    if (!Array.isArray(har?.log?.entries)) {
+      throw new Error(`Invalid HAR file: ${sourceLabel}`);
+    }
+
+    const { filter, hosts, paths, pathParamThreshold, ...openApiOptions } =
+      options;
+    const document = new HarConverter(
+      { filter, hosts, paths, pathParamThreshold },
+      logger,
+    ).convert(har.log.entries, sourceLabel);
+
+    const result = await new OpenAPIAdapter().parse(
+      document as unknown as InputSource,
+      openApiOptions,
+    );
+
+    if (result.metadata) {
+      result.metadata.source = sourceLabel;
+    }
+    return result;
+  }
+
+  /**
+   * 读取 HAR
+   * 字符串以 { 开头时视为 JSON 文本，否则视为文件路径
+   */
+  private async loadHar(source: HarSource): Promise<HarDocument> {
+    if (typeof source !== 'string') {
+      return source;
+    }
+    const text = source.trimStart().startsWith('{')
+      ? source
+      : await fs.readFile(path.resolve(source), 'utf-8');
+    return JSON.parse(text) as HarDocument;
+  }
+
+  /**
+   * 数据源的显示名称(用于日志、文档标题与 metadata.source)
+   */
+  private getSourceLabel(source: HarSource): string {
+    return typeof source === 'string' && !source.trimStart().startsWith('{')
+      ? `HAR ${source}`
+      : 'HAR Recording';
+  }
+}
@@ -0,0 +1,116 @@
+import type { OpenAPIOptions } from '@api-codegen-universal/openapi';
+
+/**
+ * HarAdapter 输入源
+ * - 字符串：HAR 文件路径(相对路径基于 process.cwd())或 JSON 文本
+ * - 对象：已解析的 HAR(不会被修改)
+ */
+export type HarSource = string | HarDocument;
+
+/**
+ * 适配器选项
+ * 在 OpenAPIOptions 的基础上增加 HAR 专属行为控制
+ */
+export interface HarAdapterOptions extends OpenAPIOptions {
+  /**
+   * 条目过滤
+   * 默认只保留 XHR/Fetch 请求，以及请求体或响应为 JSON 的请求(忽略页面、脚本、图片等静态资源)
+   */
+  filter?: (entry: HarEntry) => boolean;
+
+  /**
+   * 只保留这些主机的请求(如 ['api.example.com'])，默认保留全部
+   */
+  hosts?: string[];
+
+  /**
+   * 已知的路径模板(如 ['/users/{userId}/orders/{orderId}'])
+   * 匹配的请求直接使用该模板，其余请求按数字、UUID 等可变路径段自动推断
+   */
+  paths?: string[];
+
+  /**
+   * 可变路径段阈值(默认 3)
+   * 前缀相同的路径在同一位置出现超过该数量的不同取值、且响应结构相近时，该位置视为路径参数，
+   * 用于识别 /users/alice 这类非数字 ID。设置为 Infinity 时只按数字、UUID 等格式推断
+   */
+  pathParamThreshold?: number;
+}
+
+// ===================================================================================
+// HAR 1.2 结构(只包含适配器用到的字段)
+// ===================================================================================
+
+/**
+ * HAR 文档
+ */
+export interface HarDocument {
+  log: {
+    version?: string;
+    creator?: { name?: string; version?: string };
+    entries: HarEntry[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * 一次请求/响应记录
+ */
+export interface HarEntry {
+  startedDateTime?: string;
+  request: HarRequest;
+  response: HarResponse;
+  /** Chrome DevTools 导出的资源类型(xhr、fetch、document、script 等) */
+  _resourceType?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * 名称/值对(请求头、查询参数等)
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * 请求
+ */
+export interface HarRequest {
+  method: string;
+  url: string;
+  headers?: HarNameValue[];
+  queryString?: HarNameValue[];
+  postData?: HarPostData;
+  [key: string]: unknown;
+}
+
+/**
+ * 请求体
+ */
+export interface HarPostData {
+  mimeType?: string;
+  text?: string;
+  params?: Array<{
+    name: string;
+    value?: string;
+    fileName?: string;
+    contentType?: string;
+  }>;
+}
+
+/**
+ * 响应
+ */
+export interface HarResponse {
+  status: number;
+  statusText?: string;
+  headers?: HarNameValue[];
+  content?: {
+    size?: number;
+    mimeType?: string;
+    text?: string;
+    encoding?: string;
+  };
+  [key: string]: unknown;
+}
@@ -0,0 +1,235 @@
+import { test, expect } from '@rstest/core';
+import { HarAdapter, type HarDocument, type HarEntry } from '../src';
+
+const json = (value: unknown) => ({
+  mimeType: 'application/json; charset=utf-8',
+  text: JSON.stringify(value),
+});
+
+const entry = (
+  method: string,
+  url: string,
+  response: { status: number; body?: unknown },
+  extra: Partial<HarEntry['request']> = {},
+): HarEntry => ({
+  _resourceType: 'fetch',
+  request: {
+    method,
+    url,
+    headers: [
+      { name: 'Accept', value: 'application/json' },
+      { name: 'sec-ch-ua', value: '"Chromium"' },
+      { name: 'X-Tenant', value: 'acme' },
+    ],
+    ...extra,
+  },
+  response: {
+    status: response.status,
+    statusText: response.status === 200 ? 'OK' : 'Not Found',
+    content:
+      response.body === undefined
+        ? { mimeType: 'text/plain' }
+        : json(response.body),
+  },
+});
+
+const har: HarDocument = {
+  log: {
+    version: '1.2',
+    entries: [
+      entry('GET', 'https://api.example.com/users/42?page=1&tag=a&tag=b', {
+        status: 200,
+        body: { id: 42, name: 'Ann', email: 'ann@example.com' },
+      }),
+      entry('GET', 'https://api.example.com/users/7?page=2', {
+        status: 200,
+        body: { id: 7, name: 'Bob' },
+      }),
+      entry(
+        'GET',
+        'https://api.example.com/users/3f1c2a9e-8b7d-4c6e-9a1b-2d3e4f5a6b7c',
+        { status: 404, body: { message: 'not found' } },
+      ),
+      entry(
+        'POST',
+        'https://api.example.com/users/42/orders',
+        { status: 200, body: { orderId: 1 } },
+        { postData: json({ sku: 'A1', quantity: 2, note: 'gift' }) },
+      ),
+      entry(
+        'POST',
+        'https://api.example.com/users/7/orders',
+        { status: 200, body: { orderId: 2 } },
+        { postData: json({ sku: 'B2', quantity: 1.5 }) },
+      ),
+      // 静态资源与其他主机的请求
+      {
+        _resourceType: 'script',
+        request: { method: 'GET', url: 'https://api.example.com/app.js' },
+        response: { status: 200, content: { mimeType: 'text/javascript' } },
+      },
+      entry('GET', 'https://cdn.example.com/config', {
+        status: 200,
+        body: { theme: 'dark' },
+      }),
+    ],
+  },
+};
+
+test('HarAdapter groups entries into endpoints and infers schemas', async () => {
+  const adapter = new HarAdapter();
+  expect(await adapter.validate(har)).toBe(true);
+  expect(await adapter.validate('{"log":{}}')).toBe(false);
+
+  const result = await adapter.parse(har, { hosts: ['api.example.com'] });
+  expect(result.apis.map((api) => `${api.method} ${api.path}`).sort()).toEqual([
+    'GET /users/{userId}',
+    'POST /users/{userId}/orders',
+  ]);
+  expect(result.metadata?.servers).toEqual([
+    { url: 'https://api.example.com' },
+  ]);
+
+  // 数字与 UUID 路径段归为同一接口
+  const getUser = result.apis.find((api) => api.method === 'GET')!;
+  expect(getUser.operationId).toBe('getUsersUserId');
+  expect(result.interfaces.GetUsersUserIdPathParams).toContain('userId');
+
+  // 查询参数：404 样本中没有 page，因此为可选；重复出现的推断为数组
+  const query = result.interfaces.GetUsersUserIdQueryParams!;
+  expect(query).toContain('page?: number');
+  expect(query).toContain('tag?: string[]');
+
+  // 浏览器自动附带的请求头被忽略
+  const headers = result.interfaces.GetUsersUserIdHeaderParams!;
+  expect(headers).toContain('"X-Tenant": string');
+  expect(headers).not.toContain('Accept');
+  expect(headers).not.toContain('sec-ch-ua');
+
+  // 响应：合并样本，所有样本中都出现的字段为必填
+  expect(
+    getUser.responses['200']!.content!['application/json']!.schema,
+  ).toEqual({ type: 'ref', ref: 'GetUsersUserIdResponse' });
+  const response = result.interfaces.GetUsersUserIdResponse!;
+  expect(response).toContain('id: number');
+  expect(response).toContain('email?: string');
+  expect(result.interfaces.GetUsersUserId404Response).toContain(
+    'message: string',
+  );
+
+  // 请求体：整数与小数合并为 number
+  const createOrder = result.apis.find((api) => api.method === 'POST')!;
+  expect(createOrder.requestBody?.required).toBe(true);
+  const body =
+    result.interfaces[
+      createOrder.requestBody!.content['application/json']!.schema!.ref!
+    ]!;
+  expect(body).toContain('sku: string');
+  expect(body).toContain('quantity: number');
+  expect(body).toContain('note?: string');
+});
+
+test('HarAdapter uses known path templates before inferring', async () => {
+  const result = await new HarAdapter().parse(JSON.stringify(har), {
+    hosts: ['api.example.com'],
+    paths: ['/users/{id}'],
+  });
+
+  const paths = result.apis.map((api) => api.path).sort();
+  expect(paths).toEqual(['/users/{id}', '/users/{userId}/orders']);
+});
+
+test('HarAdapter infers path parameters from segments that vary across samples', async () => {
+  const user = (login: string, extra: Record<string, unknown> = {}) =>
+    entry('GET', `https://api.example.com/users/${login}`, {
+      status: 200,
+      body: { login, name: login.toUpperCase(), ...extra },
+    });
+  const list = (name: string, item: Record<string, unknown>) =>
+    entry('GET', `https://api.example.com/api/${name}`, {
+      status: 200,
+      body: [item],
+    });
+  const recording: HarDocument = {
+    log: {
+      version: '1.2',
+      entries: [
+        user('alice', { bio: 'hi' }),
+        user('bob'),
+        user('carol'),
+        user('dave', { bio: 'yo' }),
+        entry('DELETE', 'https://api.example.com/users/erin', { status: 204 }),
+        entry('GET', 'https://api.example.com/users/alice/repos', {
+          status: 200,
+          body: [{ name: 'dotfiles', stars: 3 }],
+        }),
+        // 静态的兄弟路径：取值足够多，但响应结构不同
+        list('users', { id: 1, email: 'a@example.com' }),
+        list('orders', { id: 1, total: 9.5, status: 'paid' }),
+        list('products', { sku: 'A1', price: 2 }),
+        list('teams', { name: 'core', members: 3 }),
+      ],
+    },
+  };
+
+  const result = await new HarAdapter().parse(recording);
+  expect(result.apis.map((api) => `${api.method} ${api.path}`).sort()).toEqual([
+    'DELETE /users/{userId}',
+    'GET /api/orders',
+    'GET /api/products',
+    'GET /api/teams',
+    'GET /api/users',
+    'GET /users/{userId}',
+    'GET /users/{userId}/repos',
+  ]);
+  const getUser = result.apis.find(
+    (api) => api.method === 'GET' && api.path === '/users/{userId}',
+  )!;
+  expect(result.interfaces[getUser.parameters!.path!.ref!]).toContain(
+    'userId: string',
+  );
+
+  // 阈值为 Infinity 时只按数字、UUID 等格式推断
+  const strict = await new HarAdapter().parse(recording, {
+    pathParamThreshold: Infinity,
+  });
+  expect(strict.apis.map((api) => api.path)).toContain('/users/alice');
+  expect(strict.apis.map((api) => api.path)).not.toContain('/users/{userId}');
+});
+
+test('HarAdapter keeps other origins out of inferred fields and emits operation servers', async () => {
+  const result = await new HarAdapter().parse({
+    log: {
+      version: '1.2',
+      entries: [
+        entry('GET', 'https://api.example.com/users/42?page=1', {
+          status: 200,
+          body: { id: 42, name: 'Ann' },
+        }),
+        entry('GET', 'https://staging.example.com/users/7', {
+          status: 200,
+          body: { id: 7 },
+        }),
+        entry('GET', 'https://files.example.com/files/9', {
+          status: 200,
+          body: { id: 9, size: 1024 },
+        }),
+      ],
+    },
+  });
+
+  expect(result.apis.map((api) => `${api.method} ${api.path}`)).toEqual([
+    'GET /users/{userId}',
+    'GET /files/{fileId}',
+  ]);
+  const [getUser, getFile] = result.apis;
+  expect(getUser!.servers).toEqual([
+    { url: 'https://api.example.com' },
+    { url: 'https://staging.example.com' },
+  ]);
+  expect(getFile!.servers).toEqual([{ url: 'https://files.example.com' }]);
+
+  // 必填字段只根据同一来源的样本推断
+  expect(result.interfaces.GetUsersUserIdQueryParams).toContain('page: number');
+  expect(result.interfaces.GetUsersUserIdResponse).toContain('name: string');
+});
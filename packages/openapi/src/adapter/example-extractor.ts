@@ -0,0 +1,116 @@
+/**
+ * 示例提取器
+ * openapi-typescript 生成的 AST 不包含 example/examples，因此直接从原始文档中提取
+ *
+ * 主要功能：
+ * 1. 为请求体与响应的每个媒体类型填充 example / examples
+ * 2. 解析文档内的 $ref (requestBodies、responses、examples)
+ */
+
+import type {
+  ApiDefinition,
+  ExampleDefinition,
+  MediaTypeDefinition,
+} from '@api-codegen-universal/core';
+import type { OpenAPIDocument } from '../types';
+
+export class ExampleExtractor {
+  constructor(private rawDocument: OpenAPIDocument | null | undefined) {}
+
+  /**
+   * 为 API 的请求体与响应填充示例
+   * 只填充 AST 中已存在的媒体类型
+   *
+   * @param apis API 定义数组(原地修改)
+   */
+  applyExamples(apis: ApiDefinition[]): void {
+    const paths = this.isRecord(this.rawDocument?.paths)
+      ? this.rawDocument.paths
+      : {};
+
+    for (const api of apis) {
+      const pathItem = this.resolve(paths[api.path]);
+      const operation = this.resolve(pathItem?.[api.method.toLowerCase()]);
+      if (!operation) continue;
+
+      const requestBody = this.resolve(operation.requestBody);
+      if (api.requestBody && requestBody) {
+        this.fillContent(api.requestBody.content, requestBody.content);
+      }
+
+      const responses = this.resolve(operation.responses) ?? {};
+      for (const [code, response] of Object.entries(api.responses)) {
+        const rawResponse = this.resolve(responses[code]);
+        if (response.content && rawResponse) {
+          this.fillContent(response.content, rawResponse.content);
+        }
+      }
+    }
+  }
+
+  private fillContent(
+    content: Record<string, MediaTypeDefinition>,
+    rawContent: unknown,
+  ): void {
+    if (!this.isRecord(rawContent)) return;
+
+    for (const [mediaType, media] of Object.entries(content)) {
+      const raw = this.resolve(rawContent[mediaType]);
+      if (!raw) continue;
+
+      if (raw.example !== undefined) media.example = raw.example;
+      const examples = this.convertExamples(raw.examples);
+      if (examples) media.examples = examples;
+    }
+  }
+
+  /**
+   * 转换 examples (Example Object 或其 $ref)
+   * 只有 externalValue 的示例无法内联，会被忽略
+   */
+  private convertExamples(
+    rawExamples: unknown,
+  ): Record<string, ExampleDefinition> | undefined {
+    if (!this.isRecord(rawExamples)) return undefined;
+
+    const examples: Record<string, ExampleDefinition> = {};
+    for (const [name, item] of Object.entries(rawExamples)) {
+      const raw = this.resolve(item);
+      if (!raw || raw.value === undefined) continue;
+
+      const example: ExampleDefinition = { value: raw.value };
+      if (typeof raw.summary === 'string') example.summary = raw.summary;
+      if (typeof raw.description === 'string') {
+        example.description = raw.description;
+      }
+      examples[name] = example;
+    }
+    return Object.keys(examples).length > 0 ? examples : undefined;
+  }
+
+  /**
+   * 解析文档内的 $ref (#/...)，循环引用或外部引用返回 undefined
+   */
+  private resolve(
+    value: unknown,
+    seen = new Set<string>(),
+  ): Record<string, unknown> | undefined {
+    if (!this.isRecord(value)) return undefined;
+    if (typeof value.$ref !== 'string') return value;
+
+    const ref = value.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) return undefined;
+    seen.add(ref);
+
+    let target: unknown = this.rawDocument;
+    for (const segment of ref.slice(2).split('/')) {
+      if (!this.isRecord(target)) return undefined;
+      target = target[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+    return this.resolve(target, seen);
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -7,7 +7,8 @@
 import openapiTS from 'openapi-typescript';
 import ts from 'typescript';
 import { load as loadYaml } from 'js-yaml';
-import { createAdapterLogger } from '@api-codegen-universal/core';
+import { bundle, createConfig } from '@redocly/openapi-core';
+import { PluginRunner, createAdapterLogger } from '@api-codegen-universal/core';
 import type {
   IAdapter,
   StandardOutput,
@@ -23,6 +24,11 @@ import { InterfaceGenerator } from './interface-generator';
 import { ParameterExtractor } from './parameter-extractor';
 import { RequestResponseExtractor } from './request-response-extractor';
 import { ApiExtractor } from './api-extractor';
+import { Swagger2Upgrader } from './swagger2-upgrader';
+import { SecurityExtractor } from './security-extractor';
+import { ServerExtractor } from './server-extractor';
+import { ExampleExtractor } from './example-extractor';
+import { VisibilitySplitter } from './visibility-splitter';
 
 /**
  * OpenAPI 适配器
@@ -32,6 +38,7 @@ import { ApiExtractor } from './api-extractor';
  * 然后遍历 AST 提取 Schema、Interface 和 API 定义。
  *
  * 处理流程:
+ * 0. Swagger 2.0 文档先在进程内升级为 OpenAPI 3.0
  * 1. 调用 openapi-typescript 获取 TypeScript AST
  * 2. 遍历 AST 提取类型信息
  * 3. 转换为标准格式
@@ -121,14 +128,54 @@ export class OpenAPIAdapter implements IAdapter<OpenAPIOptions, InputSource> {
       source: sourceLabel,
     });
 
+    // 加载原始文档以获取元数据
+    let rawDocument = await this.loadOpenAPIDocument(source, logger);
+
+    const pluginRunner = new PluginRunner(options?.plugins ?? [], {
+      adapter: 'openapi',
+      source: sourceLabel,
+      logger,
+    });
+
+    // 升级或插件处理后文档变为内存对象，外部文件的相对 $ref 会失去解析基准，
+    // 因此先从原始位置把外部引用打包进文档
+    if (
+      rawDocument &&
+      (Swagger2Upgrader.isSwagger2(rawDocument) ||
+        pluginRunner.hasDocumentHooks)
+    ) {
+      rawDocument = await this.bundleExternalRefs(source, rawDocument);
+    }
+
+    // Swagger 2.0 文档先升级为 OpenAPI 3.0 (openapi-typescript 只支持 3.x)
+    let input = source;
+    if (Swagger2Upgrader.isSwagger2(rawDocument)) {
+      const upgraded = new Swagger2Upgrader().upgrade(rawDocument!);
+      input = upgraded;
+      rawDocument = upgraded as unknown as OpenAPIDocument;
+    }
+
+    // 插件处理原始文档(拷贝后处理，避免修改调用方传入的对象)
+    if (pluginRunner.hasDocumentHooks) {
+      if (rawDocument) {
+        const transformed = await pluginRunner.runDocumentHooks(
+          structuredClone(rawDocument),
+        );
+        input = transformed as unknown as InputSource;
+        rawDocument = transformed as OpenAPIDocument;
+      } else {
+        logger.warn(
+          'Raw OpenAPI document is unavailable, transformDocument hooks are skipped.',
+          { code: 'OPENAPI_PLUGIN_DOCUMENT_UNAVAILABLE' },
+        );
+      }
+    }
+
     // 1. 使用 openapi-typescript 生成 TypeScript AST
-    const ast = await openapiTS(source, {
+    const ast = await openapiTS(input, {
       transform: options?.transform,
     });
 
-    // 加载原始文档以获取元数据
-    const rawDocument = await this.loadOpenAPIDocument(source, logger);
-
     // 2. 提取配置选项
     const pathClassificationOpts = options?.pathClassification || {};
     const codeGenOpts = options?.codeGeneration || {};
@@ -268,6 +315,13 @@ export class OpenAPIAdapter implements IAdapter<OpenAPIOptions, InputSource> {
         schemas,
         this.genericInfoMap,
       );
+      if (components?.schemas) {
+        this.schemaExtractor.applyPropertyConstraints(
+          schemas,
+          components.schemas,
+        );
+        this.schemaExtractor.applyUnionMetadata(schemas, components.schemas);
+      }
     }
 
     // 提取 interfaces
@@ -275,13 +329,48 @@ export class OpenAPIAdapter implements IAdapter<OpenAPIOptions, InputSource> {
       this.interfaceGenerator.generateInterfaceCode(componentsNode, interfaces);
     }
 
-    // 7. 返回标准格式
-    return {
+    // 为包含 readOnly/writeOnly 属性的 Schema 生成输入/输出变体
+    if (codeGenOpts.visibilityVariants && components?.schemas) {
+      new VisibilitySplitter(
+        this.namingStyle,
+        this.interfaceGenerator,
+        new Set([
+          ...this.genericInfoMap.keys(),
+          ...this.genericBaseTypes.keys(),
+        ]),
+      ).apply(
+        components.schemas,
+        componentsNode,
+        this.shouldGenerateSchemas ? schemas : undefined,
+        this.shouldGenerateInterfaces ? interfaces : undefined,
+        apis,
+      );
+    }
+
+    // 提取鉴权信息 (AST 中不包含，直接读取原始文档)
+    const securityExtractor = new SecurityExtractor();
+    securityExtractor.applyRequirements(apis, rawDocument);
+    const securitySchemes = securityExtractor.extractSchemes(rawDocument);
+
+    // 补充参数约束 (AST 中不包含，直接读取原始文档)
+    if (this.shouldGenerateSchemas) {
+      this.parameterExtractor.applyConstraints(apis, schemas, rawDocument);
+    }
+
+    // 提取路径级/操作级服务地址覆盖
+    new ServerExtractor().applyOverrides(apis, rawDocument);
+
+    // 提取请求体与响应的示例
+    new ExampleExtractor(rawDocument).applyExamples(apis);
+
+    // 7. 返回标准格式(经插件处理)
+    return pluginRunner.runOutputHooks({
       schemas,
       interfaces,
       apis,
       metadata: this.buildMetadata(source, options, rawDocument),
-    };
+      ...(securitySchemes && { securitySchemes }),
+    });
   }
 
   /**
@@ -432,9 +521,81 @@ export class OpenAPIAdapter implements IAdapter<OpenAPIOptions, InputSource> {
     }
   }
 
+  /**
+   * 将外部文件中的 $ref 打包进文档
+   * 相对路径按原始文件(或 URL)解析；输入本身是对象或文本时没有基准位置，原样返回
+   *
+   * @param source 原始输入源
+   * @param document 已加载的原始文档
+   * @returns 只包含内部引用的文档
+   */
+  private async bundleExternalRefs(
+    source: InputSource,
+    document: OpenAPIDocument,
+  ): Promise<OpenAPIDocument> {
+    const location = await this.getSourceLocation(source);
+    if (!location || !this.hasExternalRefs(document)) {
+      return document;
+    }
+    const result = await bundle({
+      ref: location,
+      config: await createConfig({}),
+    });
+    return result.bundle.parsed as OpenAPIDocument;
+  }
+
+  /**
+   * 输入源对应的文件路径或远程 URL(用于解析相对 $ref)
+   */
+  private async getSourceLocation(
+    source: InputSource,
+  ): Promise<string | undefined> {
+    const { fileURLToPath } = await import('node:url');
+    if (source instanceof URL) {
+      return source.protocol === 'file:'
+        ? fileURLToPath(source)
+        : source.toString();
+    }
+    if (typeof source !== 'string' || source.includes('\n')) {
+      return undefined;
+    }
+    if (/^https?:\/\//i.test(source)) {
+      return source;
+    }
+    const path = await import('node:path');
+    const fs = await import('node:fs/promises');
+    const filePath = source.startsWith('file://')
+      ? fileURLToPath(source)
+      : path.resolve(source);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      // 单行文本内容，不是文件路径
+      return undefined;
+    }
+  }
+
+  /**
+   * 文档中是否存在指向其他文件的 $ref
+   */
+  private hasExternalRefs(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.some((item) => this.hasExternalRefs(item));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    return Object.entries(value).some(([key, item]) =>
+      key === '$ref'
+        ? typeof item === 'string' && !item.startsWith('#')
+        : this.hasExternalRefs(item),
+    );
+  }
+
   /**
    * 构建元数据
-   * 提取文档标题、描述、BaseURL 等信息
+   * 提取文档标题、描述、BaseURL、服务地址列表等信息
    *
    * @param source 输入源
    * @param options 配置选项
@@ -457,12 +618,10 @@ export class OpenAPIAdapter implements IAdapter<OpenAPIOptions, InputSource> {
         metadata.title = rawDocument.info.title;
         metadata.description = rawDocument.info.description;
       }
-      if (
-        rawDocument.servers &&
-        Array.isArray(rawDocument.servers) &&
-        rawDocument.servers.length > 0
-      ) {
-        metadata.baseUrl = rawDocument.servers[0]?.url;
+      const servers = new ServerExtractor().extractServers(rawDocument.servers);
+      if (servers) {
+        metadata.baseUrl = servers[0]?.url;
+        metadata.servers = servers;
       }
     }
     return metadata;
@@ -477,7 +636,17 @@ export class OpenAPIAdapter implements IAdapter<OpenAPIOptions, InputSource> {
    */
   async validate(source: InputSource): Promise<boolean> {
     try {
-      await openapiTS(source);
+      const rawDocument = await this.loadOpenAPIDocument(
+        source,
+        createAdapterLogger(undefined, { adapter: 'openapi' }),
+      );
+      await openapiTS(
+        Swagger2Upgrader.isSwagger2(rawDocument)
+          ? new Swagger2Upgrader().upgrade(
+              await this.bundleExternalRefs(source, rawDocument!),
+            )
+          : source,
+      );
       return true;
     } catch {
       return false;
@@ -241,6 +241,7 @@ export class InterfaceGenerator {
    * @param isGeneric 是否为泛型接口
    * @param genericField 泛型字段名(如果 isGeneric 为 true)
    * @param genericTargetType 泛型目标类型(用于替换为 T)
+   * @param nameConverter 引用类型名称转换(默认按命名风格转换，用于生成输入/输出变体)
    */
   public generateInterfaceString(
     name: string,
@@ -248,7 +249,12 @@ export class InterfaceGenerator {
     isGeneric: boolean,
     genericField?: string,
     genericTargetType?: string,
+    nameConverter?: (name: string) => string,
   ): string {
+    const convertName =
+      nameConverter ??
+      ((name: string) => NamingUtils.convert(name, this.namingStyle));
+
     // 如果是对象字面量，生成 interface
     if (ts.isTypeLiteralNode(typeNode)) {
       const lines: string[] = [];
@@ -270,9 +276,7 @@ export class InterfaceGenerator {
           );
 
           // 应用类型引用简化和名称转换
-          memberText = simplifyTypeReference(memberText, (name) =>
-            NamingUtils.convert(name, this.namingStyle),
-          );
+          memberText = simplifyTypeReference(memberText, convertName);
 
           const propName = (member.name as ts.Identifier).text;
 
@@ -287,9 +291,7 @@ export class InterfaceGenerator {
               member.type,
               sharedSourceFile,
             );
-            const simplifiedType = simplifyTypeReference(typeText, (name) =>
-              NamingUtils.convert(name, this.namingStyle),
-            );
+            const simplifiedType = simplifyTypeReference(typeText, convertName);
 
             let newType = 'T';
             if (genericTargetType) {
@@ -340,6 +342,6 @@ export class InterfaceGenerator {
       sharedSourceFile,
     );
 
-    return `${exportKeyword}type ${name}${genericPart} = ${simplifyTypeReference(typeText)};`;
+    return `${exportKeyword}type ${name}${genericPart} = ${simplifyTypeReference(typeText, nameConverter)};`;
   }
 }
@@ -1,11 +1,13 @@
 /**
  * 参数提取器
  * 负责从 OpenAPI AST 中提取 API 参数定义（Query, Path, Header, Cookie）
- * 并根据配置生成对应的 Schema 和 Interface
+ * 并根据配置生成对应的 Schema 和 Interface；
+ * AST 中不包含的参数约束(integer、format、pattern 等)从原始文档补充
  */
 
 import ts from 'typescript';
 import type {
+  ApiDefinition,
   SchemaDefinition,
   ParametersDefinition,
   NamingStyle,
@@ -17,6 +19,7 @@ import {
 import { SchemaExtractor } from './schema-extractor';
 import { InterfaceGenerator } from './interface-generator';
 import { NamingUtils } from '../utils/naming-utils';
+import type { OpenAPIDocument } from '../types';
 
 /**
  * 参数提取器类
@@ -244,6 +247,87 @@ export class ParameterExtractor {
     return hasParameters ? parametersMap : undefined;
   }
 
+  /**
+   * 从原始文档补充参数 Schema 的约束
+   * 路径级参数与操作级参数合并(同名同位置时操作级优先)，$ref 参数从 components.parameters 解析
+   *
+   * @param apis API 定义数组
+   * @param schemas Schema 定义集合(输出)
+   * @param rawDocument 原始文档
+   */
+  applyConstraints(
+    apis: ApiDefinition[],
+    schemas: Record<string, SchemaDefinition>,
+    rawDocument: OpenAPIDocument | null | undefined,
+  ): void {
+    const paths = this.isRecord(rawDocument?.paths) ? rawDocument.paths : {};
+    const components = this.isRecord(rawDocument?.components)
+      ? rawDocument.components
+      : {};
+    const rawParameters = this.isRecord(components.parameters)
+      ? components.parameters
+      : {};
+
+    for (const api of apis) {
+      if (!api.parameters) continue;
+      const pathItem = paths[api.path];
+      if (!this.isRecord(pathItem)) continue;
+      const operation = pathItem[api.method.toLowerCase()];
+
+      const params = new Map<string, Record<string, unknown>>();
+      for (const list of [
+        pathItem.parameters,
+        this.isRecord(operation) ? operation.parameters : undefined,
+      ]) {
+        if (!Array.isArray(list)) continue;
+        for (const item of list) {
+          const param = this.resolveParameter(item, rawParameters);
+          if (param) params.set(`${param.in}:${param.name}`, param);
+        }
+      }
+
+      for (const param of params.values()) {
+        const location = param.in as keyof ParametersDefinition;
+        const ref = api.parameters[location]?.ref;
+        const prop = ref
+          ? schemas[ref]?.properties?.[param.name as string]
+          : undefined;
+        if (!prop || !this.isRecord(param.schema) || '$ref' in param.schema) {
+          continue;
+        }
+        this.schemaExtractor.applyRawPropertyConstraints(prop, param.schema);
+      }
+    }
+  }
+
+  /**
+   * 解析参数定义(支持 #/components/parameters/ 引用)
+   */
+  private resolveParameter(
+    item: unknown,
+    rawParameters: Record<string, unknown>,
+  ): Record<string, unknown> | undefined {
+    let param = item;
+    if (this.isRecord(param) && typeof param.$ref === 'string') {
+      const prefix = '#/components/parameters/';
+      param = param.$ref.startsWith(prefix)
+        ? rawParameters[param.$ref.slice(prefix.length)]
+        : undefined;
+    }
+    if (
+      !this.isRecord(param) ||
+      typeof param.name !== 'string' ||
+      typeof param.in !== 'string'
+    ) {
+      return undefined;
+    }
+    return param;
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
   /**
    * 生成参数接口名称
    * 格式：{OperationId}{Location}Params
@@ -7,11 +7,15 @@
  * 2. 解析类型定义 (TypeLiteral, UnionType, IntersectionType 等)
  * 3. 提取 JSDoc 注释 (description, example, format, enum)
  * 4. 处理泛型基类合成 (Generic Synthesis)
+ * 5. 从原始文档补充属性约束 (pattern, minLength, minimum, readOnly 等)
+ * 6. 从原始文档补充联合类型信息 (oneOf/anyOf, discriminator)
  */
 
 import ts from 'typescript';
 import type {
+  PropertyDefinition,
   SchemaDefinition,
+  SchemaReference,
   NamingStyle,
 } from '@api-codegen-universal/core';
 import {
@@ -120,6 +124,201 @@ export class SchemaExtractor {
     }
   }
 
+  /**
+   * 从原始文档补充属性约束
+   * openapi-typescript 生成的 JSDoc 不包含 pattern、minLength 等校验信息，
+   * 因此直接读取 components.schemas 中的原始定义进行补充
+   *
+   * @param schemas Schema 定义集合(输出)
+   * @param rawSchemas 原始文档中的 components.schemas
+   */
+  applyPropertyConstraints(
+    schemas: Record<string, SchemaDefinition>,
+    rawSchemas: Record<string, unknown>,
+  ): void {
+    for (const [rawName, rawSchema] of Object.entries(rawSchemas)) {
+      const schema = schemas[this.convertRawName(rawName)];
+      if (!schema?.properties || !this.isRecord(rawSchema)) continue;
+
+      // 属性可能直接定义，也可能位于 allOf 的内联成员中
+      const rawProperties: Record<string, unknown> = {};
+      const sources = [
+        rawSchema,
+        ...(Array.isArray(rawSchema.allOf) ? rawSchema.allOf : []),
+      ];
+      for (const source of sources) {
+        if (this.isRecord(source) && this.isRecord(source.properties)) {
+          Object.assign(rawProperties, source.properties);
+        }
+      }
+
+      for (const [propName, rawProp] of Object.entries(rawProperties)) {
+        const prop = schema.properties[propName];
+        if (!prop || !this.isRecord(rawProp) || '$ref' in rawProp) continue;
+
+        this.applyRawPropertyConstraints(prop, rawProp);
+      }
+    }
+  }
+
+  /**
+   * 将原始属性定义中的约束写入属性
+   * 同时用于组件属性与参数(参数 Schema 由 ParameterExtractor 补充)
+   *
+   * @param prop 属性定义(输出)
+   * @param rawProp 原始文档中的属性定义
+   */
+  applyRawPropertyConstraints(
+    prop: PropertyDefinition,
+    rawProp: Record<string, unknown>,
+  ): void {
+    if (typeof rawProp.pattern === 'string') {
+      prop.pattern = rawProp.pattern;
+    }
+    for (const key of [
+      'minLength',
+      'maxLength',
+      'minimum',
+      'maximum',
+    ] as const) {
+      const value = rawProp[key];
+      if (typeof value === 'number') {
+        prop[key] = value;
+      }
+    }
+    if (!prop.format && typeof rawProp.format === 'string') {
+      prop.format = rawProp.format;
+    }
+    if (
+      rawProp.type === 'integer' ||
+      (Array.isArray(rawProp.type) && rawProp.type.includes('integer'))
+    ) {
+      prop.integer = true;
+    }
+    if (!prop.enum && Array.isArray(rawProp.enum)) {
+      const values = rawProp.enum.filter(
+        (v): v is string | number =>
+          typeof v === 'string' || typeof v === 'number',
+      );
+      if (values.length > 0) {
+        prop.enum = values;
+      }
+    }
+    if (rawProp.readOnly === true) prop.readOnly = true;
+    if (rawProp.writeOnly === true) prop.writeOnly = true;
+    // OpenAPI 3.0 使用 nullable，3.1 使用 type: ['string', 'null']
+    if (
+      rawProp.nullable === true ||
+      (Array.isArray(rawProp.type) && rawProp.type.includes('null'))
+    ) {
+      prop.nullable = true;
+    }
+  }
+
+  /**
+   * 从原始文档补充联合类型信息
+   * AST 中 oneOf 与 anyOf 都表现为联合类型，鉴别器也不会保留，因此读取原始定义补充
+   *
+   * @param schemas Schema 定义集合(输出)
+   * @param rawSchemas 原始文档中的 components.schemas
+   */
+  applyUnionMetadata(
+    schemas: Record<string, SchemaDefinition>,
+    rawSchemas: Record<string, unknown>,
+  ): void {
+    for (const [rawName, rawSchema] of Object.entries(rawSchemas)) {
+      const schema = schemas[this.convertRawName(rawName)];
+      if (!schema || !this.isRecord(rawSchema)) continue;
+
+      const members = Array.isArray(rawSchema.oneOf)
+        ? rawSchema.oneOf
+        : Array.isArray(rawSchema.anyOf)
+          ? rawSchema.anyOf
+          : undefined;
+      if (schema.type === 'union' && members) {
+        schema.unionKind = Array.isArray(rawSchema.oneOf) ? 'oneOf' : 'anyOf';
+      }
+
+      const discriminator = rawSchema.discriminator;
+      if (
+        !this.isRecord(discriminator) ||
+        typeof discriminator.propertyName !== 'string'
+      ) {
+        continue;
+      }
+
+      // 隐式映射: 联合成员，或通过 allOf 继承该 Schema 的子类型
+      const implicitTargets = members
+        ? members.map((member) => this.refTarget(member))
+        : Object.entries(rawSchemas)
+            .filter(
+              ([, child]) =>
+                this.isRecord(child) &&
+                Array.isArray(child.allOf) &&
+                child.allOf.some((part) => this.refTarget(part) === rawName),
+            )
+            .map(([childName]) => childName);
+
+      const mapping: Record<string, string> = {};
+      const explicitTargets = new Set<string>();
+      if (this.isRecord(discriminator.mapping)) {
+        for (const [value, target] of Object.entries(discriminator.mapping)) {
+          if (typeof target !== 'string') continue;
+          const targetName = this.refTarget({ $ref: target }) ?? target;
+          mapping[value] = this.convertRawName(targetName);
+          explicitTargets.add(targetName);
+        }
+      }
+      for (const target of implicitTargets) {
+        if (target && !explicitTargets.has(target) && !(target in mapping)) {
+          mapping[target] = this.convertRawName(target);
+        }
+      }
+
+      schema.discriminator = {
+        propertyName: discriminator.propertyName,
+        ...(Object.keys(mapping).length > 0 && { mapping }),
+      };
+    }
+  }
+
+  /**
+   * 获取指向 components.schemas 的引用目标名称(已解码)
+   */
+  private refTarget(value: unknown): string | undefined {
+    if (!this.isRecord(value) || typeof value.$ref !== 'string') {
+      return undefined;
+    }
+    const prefix = '#/components/schemas/';
+    if (!value.$ref.startsWith(prefix)) return undefined;
+
+    const target = value.$ref.slice(prefix.length);
+    try {
+      return decodeURIComponent(target);
+    } catch {
+      return target;
+    }
+  }
+
+  /**
+   * 原始 Schema 名称 -> 输出中的 Schema 名称
+   */
+  private convertRawName(rawName: string): string {
+    let schemaName = rawName;
+    if (schemaName.includes('%')) {
+      try {
+        schemaName = decodeURIComponent(schemaName);
+      } catch {
+        // ignore
+      }
+    }
+    return NamingUtils.convert(schemaName, this.namingStyle);
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
   /**
    * 合成泛型基类
    * 根据具体实例 (PageVO_ApplyListVO) 推导出基类 (PageVO<T>)
@@ -432,6 +631,12 @@ export class SchemaExtractor {
             ...(format && { format }),
             ...(enumValues && { enum: enumValues }),
           };
+        } else if (ts.isIndexSignatureDeclaration(member) && member.type) {
+          // 索引签名 (additionalProperties)
+          schema.additionalProperties = {
+            type: 'ref',
+            ref: this.tsTypeToSchemaType(member.type),
+          };
         }
       }
 
@@ -440,9 +645,13 @@ export class SchemaExtractor {
       }
     } else if (ts.isUnionTypeNode(typeNode)) {
       const extracted = this.extractEnumValues(typeNode);
+      const variants = this.extractUnionVariants(name, typeNode);
       if (extracted.length > 0) {
         schema.type = 'enum';
         schema.enum = extracted;
+      } else if (variants.length > 1) {
+        schema.type = 'union';
+        schema.variants = variants;
       } else {
         schema.type = 'object';
       }
@@ -488,6 +697,11 @@ export class SchemaExtractor {
 
       if (typeStr.endsWith('[]')) {
         schema.type = 'array';
+        // 元素类型，如 (A | B)[] -> A | B
+        schema.items = {
+          type: 'ref',
+          ref: typeStr.slice(0, -2).replace(/^\((.*)\)$/s, '$1'),
+        };
       } else if (['string', 'number', 'boolean'].includes(typeStr)) {
         schema.type = 'primitive';
       } else {
@@ -573,6 +787,37 @@ export class SchemaExtractor {
     }
   }
 
+  /**
+   * 提取联合类型的成员
+   * 对象字面量成员转换为内联定义，其余成员保留类型字符串，null 成员会被忽略
+   */
+  private extractUnionVariants(
+    name: string,
+    node: ts.UnionTypeNode,
+  ): SchemaReference[] {
+    const variants: SchemaReference[] = [];
+    for (const t of node.types) {
+      if (
+        ts.isLiteralTypeNode(t) &&
+        t.literal.kind === ts.SyntaxKind.NullKeyword
+      ) {
+        continue;
+      }
+      if (ts.isTypeLiteralNode(t)) {
+        const inline: Partial<SchemaDefinition> = this.typeNodeToSchema(
+          name,
+          t,
+        );
+        // 内联成员没有独立名称，避免被误认为父级 Schema
+        delete inline.name;
+        variants.push({ type: 'inline', schema: inline });
+      } else {
+        variants.push({ type: 'ref', ref: this.tsTypeToSchemaType(t) });
+      }
+    }
+    return variants;
+  }
+
   /**
    * 尝试从 UnionTypeNode 提取枚举值
    */
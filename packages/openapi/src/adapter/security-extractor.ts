@@ -0,0 +1,193 @@
+/**
+ * 鉴权信息提取器
+ * openapi-typescript 生成的 AST 不包含鉴权信息，因此直接从原始文档中提取
+ *
+ * 主要功能：
+ * 1. 将 components.securitySchemes 转换为 SecuritySchemeDefinition
+ * 2. 为每个 API 计算生效的鉴权要求(操作级 security 覆盖文档级 security)
+ */
+
+import type {
+  ApiDefinition,
+  OAuthFlowDefinition,
+  OAuthFlowType,
+  SecurityRequirement,
+  SecuritySchemeDefinition,
+  SecuritySchemeType,
+} from '@api-codegen-universal/core';
+import type { OpenAPIDocument } from '../types';
+
+const SCHEME_TYPES: SecuritySchemeType[] = [
+  'apiKey',
+  'http',
+  'oauth2',
+  'openIdConnect',
+  'mutualTLS',
+];
+
+const FLOW_TYPES: OAuthFlowType[] = [
+  'implicit',
+  'password',
+  'clientCredentials',
+  'authorizationCode',
+];
+
+const API_KEY_LOCATIONS = ['query', 'header', 'cookie'] as const;
+
+export class SecurityExtractor {
+  /**
+   * 提取鉴权方案定义
+   * 无法识别类型的方案会被忽略
+   *
+   * @param rawDocument 原始文档
+   * @returns 方案名称 -> 定义；文档未声明时返回 undefined
+   */
+  extractSchemes(
+    rawDocument: OpenAPIDocument | null | undefined,
+  ): Record<string, SecuritySchemeDefinition> | undefined {
+    const components = rawDocument?.components;
+    if (
+      !this.isRecord(components) ||
+      !this.isRecord(components.securitySchemes)
+    ) {
+      return undefined;
+    }
+
+    const schemes: Record<string, SecuritySchemeDefinition> = {};
+    for (const [name, raw] of Object.entries(components.securitySchemes)) {
+      const scheme = this.convertScheme(name, raw);
+      if (scheme) schemes[name] = scheme;
+    }
+    return Object.keys(schemes).length > 0 ? schemes : undefined;
+  }
+
+  /**
+   * 为 API 填充生效的鉴权要求
+   *
+   * @param apis API 定义数组(原地修改)
+   * @param rawDocument 原始文档
+   */
+  applyRequirements(
+    apis: ApiDefinition[],
+    rawDocument: OpenAPIDocument | null | undefined,
+  ): void {
+    if (!rawDocument) return;
+
+    const globalSecurity = this.convertRequirements(rawDocument.security);
+    const paths = this.isRecord(rawDocument.paths) ? rawDocument.paths : {};
+
+    for (const api of apis) {
+      const pathItem = paths[api.path];
+      const operation = this.isRecord(pathItem)
+        ? pathItem[api.method.toLowerCase()]
+        : undefined;
+      const security =
+        this.isRecord(operation) && 'security' in operation
+          ? this.convertRequirements(operation.security)
+          : globalSecurity;
+      if (security) api.security = security;
+    }
+  }
+
+  /**
+   * 转换单个鉴权方案
+   */
+  private convertScheme(
+    name: string,
+    raw: unknown,
+  ): SecuritySchemeDefinition | undefined {
+    if (!this.isRecord(raw)) return undefined;
+    const type = SCHEME_TYPES.find((t) => t === raw.type);
+    if (!type) return undefined;
+
+    const scheme: SecuritySchemeDefinition = { name, type };
+    if (typeof raw.description === 'string') {
+      scheme.description = raw.description;
+    }
+
+    switch (type) {
+      case 'apiKey': {
+        const location = API_KEY_LOCATIONS.find((l) => l === raw.in);
+        if (location) scheme.in = location;
+        if (typeof raw.name === 'string') scheme.parameterName = raw.name;
+        break;
+      }
+      case 'http':
+        if (typeof raw.scheme === 'string') {
+          // scheme 大小写不敏感(RFC 7235)，统一为小写便于生成器判断
+          scheme.scheme = raw.scheme.toLowerCase();
+        }
+        if (typeof raw.bearerFormat === 'string') {
+          scheme.bearerFormat = raw.bearerFormat;
+        }
+        break;
+      case 'oauth2':
+        if (this.isRecord(raw.flows)) {
+          scheme.flows = this.convertFlows(raw.flows);
+        }
+        break;
+      case 'openIdConnect':
+        if (typeof raw.openIdConnectUrl === 'string') {
+          scheme.openIdConnectUrl = raw.openIdConnectUrl;
+        }
+        break;
+    }
+
+    return scheme;
+  }
+
+  /**
+   * 转换 OAuth2 授权流程
+   */
+  private convertFlows(
+    rawFlows: Record<string, unknown>,
+  ): Partial<Record<OAuthFlowType, OAuthFlowDefinition>> {
+    const flows: Partial<Record<OAuthFlowType, OAuthFlowDefinition>> = {};
+    for (const flowType of FLOW_TYPES) {
+      const raw = rawFlows[flowType];
+      if (!this.isRecord(raw)) continue;
+
+      const flow: OAuthFlowDefinition = { scopes: {} };
+      for (const key of [
+        'authorizationUrl',
+        'tokenUrl',
+        'refreshUrl',
+      ] as const) {
+        if (typeof raw[key] === 'string') flow[key] = raw[key];
+      }
+      if (this.isRecord(raw.scopes)) {
+        for (const [scope, description] of Object.entries(raw.scopes)) {
+          flow.scopes[scope] =
+            typeof description === 'string' ? description : '';
+        }
+      }
+      flows[flowType] = flow;
+    }
+    return flows;
+  }
+
+  /**
+   * 转换鉴权要求列表
+   * 非数组返回 undefined(视为未声明)，扩展字段(x-*)会被忽略
+   */
+  private convertRequirements(raw: unknown): SecurityRequirement[] | undefined {
+    if (!Array.isArray(raw)) return undefined;
+
+    return raw
+      .filter((item): item is Record<string, unknown> => this.isRecord(item))
+      .map((item) => {
+        const requirement: SecurityRequirement = {};
+        for (const [name, scopes] of Object.entries(item)) {
+          if (name.startsWith('x-')) continue;
+          requirement[name] = Array.isArray(scopes)
+            ? scopes.filter((s): s is string => typeof s === 'string')
+            : [];
+        }
+        return requirement;
+      });
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 服务地址提取器
+ * openapi-typescript 生成的 AST 不包含 servers，因此直接从原始文档中提取
+ *
+ * 主要功能：
+ * 1. 提取文档级 servers (含地址变量)
+ * 2. 为每个 API 填充路径级/操作级 servers 覆盖
+ */
+
+import type {
+  ApiDefinition,
+  ServerDefinition,
+  ServerVariableDefinition,
+} from '@api-codegen-universal/core';
+import type { OpenAPIDocument } from '../types';
+
+export class ServerExtractor {
+  /**
+   * 转换 servers 列表
+   * 缺少 url 的项会被忽略
+   *
+   * @param raw 原始 servers 字段
+   * @returns 服务地址列表；非数组或为空时返回 undefined
+   */
+  extractServers(raw: unknown): ServerDefinition[] | undefined {
+    if (!Array.isArray(raw)) return undefined;
+
+    const servers: ServerDefinition[] = [];
+    for (const item of raw) {
+      if (!this.isRecord(item) || typeof item.url !== 'string') continue;
+
+      const server: ServerDefinition = { url: item.url };
+      if (typeof item.description === 'string') {
+        server.description = item.description;
+      }
+      if (this.isRecord(item.variables)) {
+        const variables = this.convertVariables(item.variables);
+        if (variables) server.variables = variables;
+      }
+      servers.push(server);
+    }
+    return servers.length > 0 ? servers : undefined;
+  }
+
+  /**
+   * 为 API 填充服务地址覆盖
+   * 操作级 servers 优先，其次为路径级 servers
+   *
+   * @param apis API 定义数组(原地修改)
+   * @param rawDocument 原始文档
+   */
+  applyOverrides(
+    apis: ApiDefinition[],
+    rawDocument: OpenAPIDocument | null | undefined,
+  ): void {
+    const paths = this.isRecord(rawDocument?.paths) ? rawDocument.paths : {};
+
+    for (const api of apis) {
+      const pathItem = paths[api.path];
+      if (!this.isRecord(pathItem)) continue;
+
+      const operation = pathItem[api.method.toLowerCase()];
+      const servers =
+        (this.isRecord(operation)
+          ? this.extractServers(operation.servers)
+          : undefined) ?? this.extractServers(pathItem.servers);
+      if (servers) api.servers = servers;
+    }
+  }
+
+  /**
+   * 转换地址变量
+   * 缺少 default 的变量不符合规范，会被忽略
+   */
+  private convertVariables(
+    rawVariables: Record<string, unknown>,
+  ): Record<string, ServerVariableDefinition> | undefined {
+    const variables: Record<string, ServerVariableDefinition> = {};
+    for (const [name, raw] of Object.entries(rawVariables)) {
+      if (!this.isRecord(raw) || raw.default === undefined) continue;
+
+      const variable: ServerVariableDefinition = {
+        default: String(raw.default),
+      };
+      if (Array.isArray(raw.enum)) {
+        variable.enum = raw.enum.map((value) => String(value));
+      }
+      if (typeof raw.description === 'string') {
+        variable.description = raw.description;
+      }
+      variables[name] = variable;
+    }
+    return Object.keys(variables).length > 0 ? variables : undefined;
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
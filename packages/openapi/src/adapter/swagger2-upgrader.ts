@@ -0,0 +1,550 @@
+/**
+ * Swagger 2.0 升级器
+ * 在进程内将 Swagger 2.0 文档转换为 OpenAPI 3.0，供 openapi-typescript 解析
+ */
+
+import type { OpenAPI3 } from 'openapi-typescript';
+import type { OpenAPIDocument } from '../types';
+
+type RawObject = Record<string, unknown>;
+
+/** 转换后的 OpenAPI 版本 */
+const TARGET_VERSION = '3.0.3';
+
+/** 未声明 consumes/produces 时使用的媒体类型 */
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+/** 表单参数可用的媒体类型 */
+const FORM_MEDIA_TYPES = [
+  'multipart/form-data',
+  'application/x-www-form-urlencoded',
+];
+
+/** 路径对象中的 HTTP 方法 */
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+];
+
+/** 非 body 参数中需要移入 schema 的字段 */
+const PARAMETER_SCHEMA_KEYS = [
+  'type',
+  'format',
+  'items',
+  'enum',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'multipleOf',
+];
+
+/** Swagger 2.0 内部引用前缀 -> OpenAPI 3.0 内部引用前缀 */
+const REF_PREFIXES: Array<[string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+/**
+ * Swagger 2.0 -> OpenAPI 3.0 升级器
+ *
+ * 映射规则:
+ * - definitions -> components.schemas
+ * - parameters(in: body) -> requestBody，媒体类型取自 consumes
+ * - parameters(in: formData) -> requestBody(multipart/form-data 或 application/x-www-form-urlencoded)
+ * - 其他参数的 type/format/items 等字段 -> parameter.schema
+ * - responses.schema -> responses.content，媒体类型取自 produces
+ * - schemes/host/basePath -> servers
+ * - securityDefinitions -> components.securitySchemes
+ * - type: file -> type: string, format: binary；x-nullable -> nullable
+ */
+export class Swagger2Upgrader {
+  /** 原始文档(只读) */
+  private source: RawObject = {};
+
+  /**
+   * 是否为 Swagger 2.0 文档
+   */
+  static isSwagger2(document: unknown): boolean {
+    return (
+      typeof document === 'object' &&
+      document !== null &&
+      String((document as Record<string, unknown>).swagger).startsWith('2')
+    );
+  }
+
+  /**
+   * 升级文档
+   * 不会修改传入的对象
+   *
+   * @param document Swagger 2.0 文档
+   * @returns OpenAPI 3.0 文档
+   */
+  upgrade(document: OpenAPIDocument): OpenAPI3 {
+    this.source = structuredClone(document);
+    const source = this.source;
+
+    const result: RawObject = {
+      openapi: TARGET_VERSION,
+      ...pickExtensions(source),
+      info: source.info ?? { title: '', version: '' },
+    };
+
+    const servers = this.buildServers();
+    if (servers.length > 0) result.servers = servers;
+    if (source.tags) result.tags = source.tags;
+    if (source.externalDocs) result.externalDocs = source.externalDocs;
+    if (source.security) result.security = source.security;
+
+    const paths: RawObject = {};
+    for (const [path, pathItem] of Object.entries(asRecord(source.paths))) {
+      paths[path] = this.convertPathItem(asRecord(pathItem));
+    }
+    result.paths = paths;
+
+    const components: RawObject = {};
+    if (isRecord(source.definitions)) {
+      components.schemas = mapValues(source.definitions, (schema) =>
+        convertSchema(schema),
+      );
+    }
+    // body/formData 参数在引用处内联为 requestBody，这里只保留其他参数
+    const parameters = Object.entries(asRecord(source.parameters)).filter(
+      ([, parameter]) => !isBodyParameter(parameter),
+    );
+    if (parameters.length > 0) {
+      components.parameters = Object.fromEntries(
+        parameters.map(([name, parameter]) => [
+          name,
+          convertParameter(asRecord(parameter)),
+        ]),
+      );
+    }
+    if (isRecord(source.responses)) {
+      components.responses = mapValues(source.responses, (response) =>
+        this.convertResponse(response, asStrings(source.produces)),
+      );
+    }
+    if (isRecord(source.securityDefinitions)) {
+      components.securitySchemes = mapValues(
+        source.securityDefinitions,
+        convertSecurityScheme,
+      );
+    }
+    if (Object.keys(components).length > 0) result.components = components;
+
+    return rewriteRefs(result) as OpenAPI3;
+  }
+
+  /**
+   * schemes + host + basePath -> servers
+   * 没有 host 时只使用 basePath(相对于文档所在服务)
+   */
+  private buildServers(): Array<{ url: string }> {
+    const { host, basePath, schemes } = this.source;
+    const path =
+      typeof basePath === 'string' && basePath !== '/' ? basePath : '';
+
+    if (typeof host !== 'string' || !host) {
+      return path ? [{ url: path }] : [];
+    }
+
+    const protocols = asStrings(schemes) ?? [];
+    return (protocols.length > 0 ? protocols : ['https']).map((scheme) => ({
+      url: `${scheme}://${host}${path}`,
+    }));
+  }
+
+  /**
+   * 转换路径对象
+   * 路径级的 body/formData 参数会合并到每个操作的 requestBody 中
+   */
+  private convertPathItem(pathItem: RawObject): RawObject {
+    const result: RawObject = {};
+    const sharedParameters = asArray(pathItem.parameters);
+
+    for (const [key, value] of Object.entries(pathItem)) {
+      if (key === 'parameters') {
+        const parameters = sharedParameters
+          .filter((p) => !isBodyParameter(this.resolveParameter(p)))
+          .map((p) => convertParameter(asRecord(p)));
+        if (parameters.length > 0) result.parameters = parameters;
+      } else if (HTTP_METHODS.includes(key)) {
+        result[key] = this.convertOperation(asRecord(value), sharedParameters);
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 转换操作对象
+   */
+  private convertOperation(
+    operation: RawObject,
+    sharedParameters: unknown[],
+  ): RawObject {
+    const parameters = asArray(operation.parameters);
+    const result: RawObject = { ...operation };
+    for (const key of ['parameters', 'consumes', 'produces', 'schemes']) {
+      Reflect.deleteProperty(result, key);
+    }
+
+    // 操作级参数覆盖同名(name + in)的路径级参数
+    const ownParameters = parameters.map((p) => this.resolveParameter(p));
+    const ownKeys = new Set(ownParameters.map(parameterKey));
+    const effective = [
+      ...sharedParameters
+        .map((p) => this.resolveParameter(p))
+        .filter((p) => !ownKeys.has(parameterKey(p))),
+      ...ownParameters,
+    ];
+
+    const bodyParameter = effective.find((p) => p.in === 'body');
+    const formParameters = effective.filter((p) => p.in === 'formData');
+
+    // 路径级参数已经保留在路径对象上，这里只转换操作自身的参数
+    const converted = parameters
+      .filter((p) => !isBodyParameter(this.resolveParameter(p)))
+      .map((p) => convertParameter(asRecord(p)));
+    if (converted.length > 0) result.parameters = converted;
+
+    const consumeTypes = asStrings(operation.consumes) ??
+      asStrings(this.source.consumes) ?? [DEFAULT_MEDIA_TYPE];
+    if (bodyParameter) {
+      result.requestBody = this.convertBodyParameter(
+        bodyParameter,
+        consumeTypes,
+      );
+    } else if (formParameters.length > 0) {
+      result.requestBody = this.convertFormParameters(
+        formParameters,
+        consumeTypes,
+      );
+    }
+
+    const produceTypes =
+      asStrings(operation.produces) ?? asStrings(this.source.produces);
+    result.responses = mapValues(asRecord(operation.responses), (response) =>
+      this.convertResponse(response, produceTypes),
+    );
+
+    return result;
+  }
+
+  /**
+   * in: body -> requestBody
+   */
+  private convertBodyParameter(
+    parameter: RawObject,
+    consumes: string[],
+  ): RawObject {
+    const schema = convertSchema(parameter.schema ?? {});
+    const requestBody: RawObject = {
+      content: Object.fromEntries(
+        consumes.map((mediaType) => [mediaType, { schema }]),
+      ),
+    };
+    if (parameter.description) requestBody.description = parameter.description;
+    if (parameter.required) requestBody.required = true;
+    return requestBody;
+  }
+
+  /**
+   * in: formData -> requestBody
+   * 所有表单参数合并为一个对象 Schema
+   */
+  private convertFormParameters(
+    parameters: RawObject[],
+    consumes: string[],
+  ): RawObject {
+    const properties: RawObject = {};
+    const required: string[] = [];
+
+    for (const parameter of parameters) {
+      const name = String(parameter.name);
+      const schema = asRecord(convertSchema(pickParameterSchema(parameter)));
+      if (parameter.description) schema.description = parameter.description;
+      properties[name] = schema;
+      if (parameter.required) required.push(name);
+    }
+
+    const schema: RawObject = { type: 'object', properties };
+    if (required.length > 0) schema.required = required;
+
+    let mediaTypes = consumes.filter((type) => FORM_MEDIA_TYPES.includes(type));
+    if (mediaTypes.length === 0) {
+      const hasFile = parameters.some((p) => p.type === 'file');
+      mediaTypes = [hasFile ? FORM_MEDIA_TYPES[0]! : FORM_MEDIA_TYPES[1]!];
+    }
+
+    return {
+      required: required.length > 0,
+      content: Object.fromEntries(
+        mediaTypes.map((mediaType) => [mediaType, { schema }]),
+      ),
+    };
+  }
+
+  /**
+   * 转换响应对象
+   * schema 按 produces 展开为 content，examples 按媒体类型填入 example
+   */
+  private convertResponse(response: unknown, produces?: string[]): RawObject {
+    const raw = asRecord(response);
+    if (raw.$ref) return raw;
+
+    const { schema, examples, headers, ...rest } = raw;
+    const result: RawObject = { ...rest, description: raw.description ?? '' };
+
+    if (schema) {
+      const mediaTypes =
+        produces && produces.length > 0 ? produces : [DEFAULT_MEDIA_TYPE];
+      const converted = convertSchema(schema);
+      const mediaExamples = asRecord(examples);
+      result.content = Object.fromEntries(
+        mediaTypes.map((mediaType) => {
+          const media: RawObject = { schema: converted };
+          if (mediaExamples[mediaType] !== undefined) {
+            media.example = mediaExamples[mediaType];
+          }
+          return [mediaType, media];
+        }),
+      );
+    }
+
+    if (isRecord(headers)) {
+      result.headers = mapValues(headers, (header) => {
+        const { description, ...schema } = asRecord(header);
+        const converted: RawObject = { schema: convertSchema(schema) };
+        if (description) converted.description = description;
+        return converted;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 解析参数引用(#/parameters/xxx)
+   */
+  private resolveParameter(parameter: unknown): RawObject {
+    const raw = asRecord(parameter);
+    const ref = raw.$ref;
+    if (typeof ref === 'string' && ref.startsWith('#/parameters/')) {
+      const name = decodeURIComponent(ref.slice('#/parameters/'.length));
+      const resolved = asRecord(this.source.parameters)[name];
+      return isRecord(resolved) ? resolved : raw;
+    }
+    return raw;
+  }
+}
+
+/**
+ * 转换非 body 参数
+ */
+function convertParameter(parameter: RawObject): RawObject {
+  if (parameter.$ref) return parameter;
+
+  const result: RawObject = {};
+  for (const [key, value] of Object.entries(parameter)) {
+    if (PARAMETER_SCHEMA_KEYS.includes(key) || key === 'collectionFormat') {
+      continue;
+    }
+    result[key] = value;
+  }
+  result.schema = convertSchema(pickParameterSchema(parameter));
+
+  // collectionFormat -> style/explode
+  if (parameter.type === 'array') {
+    switch (parameter.collectionFormat) {
+      case 'multi':
+        result.style = 'form';
+        result.explode = true;
+        break;
+      case 'ssv':
+        result.style = 'spaceDelimited';
+        result.explode = false;
+        break;
+      case 'pipes':
+        result.style = 'pipeDelimited';
+        result.explode = false;
+        break;
+      default:
+        // csv(默认)
+        result.style = parameter.in === 'query' ? 'form' : 'simple';
+        result.explode = false;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 取出参数中描述取值的字段
+ */
+function pickParameterSchema(parameter: RawObject): RawObject {
+  const schema: RawObject = {};
+  for (const key of PARAMETER_SCHEMA_KEYS) {
+    if (parameter[key] !== undefined) schema[key] = parameter[key];
+  }
+  return schema;
+}
+
+/**
+ * 转换 Schema 中 2.0 特有的写法
+ */
+function convertSchema(schema: unknown): unknown {
+  if (!isRecord(schema)) return schema;
+
+  const result: RawObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    switch (key) {
+      case 'x-nullable':
+        if (value === true) result.nullable = true;
+        break;
+      case 'collectionFormat':
+        // items 对象上的 collectionFormat 在 3.0 中没有对应字段
+        break;
+      case 'discriminator':
+        result.discriminator =
+          typeof value === 'string' ? { propertyName: value } : value;
+        break;
+      case 'properties':
+        result.properties = isRecord(value)
+          ? mapValues(value, convertSchema)
+          : value;
+        break;
+      case 'items':
+      case 'additionalProperties':
+      case 'not':
+        result[key] = convertSchema(value);
+        break;
+      case 'allOf':
+      case 'anyOf':
+      case 'oneOf':
+        result[key] = Array.isArray(value) ? value.map(convertSchema) : value;
+        break;
+      default:
+        result[key] = value;
+    }
+  }
+
+  if (result.type === 'file') {
+    result.type = 'string';
+    result.format = 'binary';
+  }
+
+  return result;
+}
+
+/**
+ * 转换安全定义
+ */
+function convertSecurityScheme(scheme: unknown): unknown {
+  if (!isRecord(scheme)) return scheme;
+
+  if (scheme.type === 'basic') {
+    const result: RawObject = { type: 'http', scheme: 'basic' };
+    if (scheme.description) result.description = scheme.description;
+    return result;
+  }
+
+  if (scheme.type === 'oauth2') {
+    const { flow, authorizationUrl, tokenUrl, scopes, ...rest } = scheme;
+    const flowName =
+      flow === 'application'
+        ? 'clientCredentials'
+        : flow === 'accessCode'
+          ? 'authorizationCode'
+          : String(flow);
+    const flowObject: RawObject = { scopes: scopes ?? {} };
+    if (authorizationUrl) flowObject.authorizationUrl = authorizationUrl;
+    if (tokenUrl) flowObject.tokenUrl = tokenUrl;
+    return { ...rest, flows: { [flowName]: flowObject } };
+  }
+
+  return scheme;
+}
+
+/**
+ * 将 2.0 的内部引用改写为 3.0 的位置
+ */
+function rewriteRefs(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(rewriteRefs);
+  if (!isRecord(node)) return node;
+
+  const result: RawObject = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '$ref' && typeof value === 'string') {
+      const prefix = REF_PREFIXES.find(([from]) => value.startsWith(from));
+      result[key] = prefix ? prefix[1] + value.slice(prefix[0].length) : value;
+    } else {
+      result[key] = rewriteRefs(value);
+    }
+  }
+  return result;
+}
+
+function isBodyParameter(parameter: unknown): boolean {
+  const location = asRecord(parameter).in;
+  return location === 'body' || location === 'formData';
+}
+
+function parameterKey(parameter: RawObject): string {
+  return `${String(parameter.in)}:${String(parameter.name)}`;
+}
+
+function pickExtensions(node: RawObject): RawObject {
+  return Object.fromEntries(
+    Object.entries(node).filter(([key]) => key.startsWith('x-')),
+  );
+}
+
+function mapValues(
+  record: RawObject,
+  fn: (value: unknown) => unknown,
+): RawObject {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, fn(value)]),
+  );
+}
+
+function isRecord(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 非对象值按空对象处理(文档中缺失或格式错误的字段)
+ */
+function asRecord(value: unknown): RawObject {
+  return isRecord(value) ? value : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * 字符串数组字段(consumes、produces、schemes)，未声明时返回 undefined
+ */
+function asStrings(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined;
+}
@@ -0,0 +1,345 @@
+/**
+ * 输入/输出变体生成器
+ * 为包含 readOnly/writeOnly 属性的 Schema 生成请求(Input)与响应(Output)两个变体
+ *
+ * 主要功能：
+ * 1. 从原始文档收集 readOnly/writeOnly 属性，并沿 $ref 传播到引用方
+ * 2. 生成 XxxInput(去除 readOnly) 与 XxxOutput(去除 writeOnly) 的 Schema 和接口代码
+ * 3. 将请求体引用替换为 Input 变体，响应引用替换为 Output 变体
+ *
+ * 只处理 Schema 顶层(含 allOf 内联成员)的属性，嵌套内联对象中的标记不会被拆分
+ */
+
+import ts from 'typescript';
+import type {
+  ApiDefinition,
+  MediaTypeDefinition,
+  NamingStyle,
+  SchemaDefinition,
+  SchemaReference,
+} from '@api-codegen-universal/core';
+import { extractStringFromNode } from './ast-utils';
+import type { InterfaceGenerator } from './interface-generator';
+import { NamingUtils } from '../utils/naming-utils';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+type Direction = 'input' | 'output';
+
+/** 单个 Schema 的可见性信息(原始名称) */
+interface VisibilityInfo {
+  /** 只读属性 */
+  readOnly: Set<string>;
+  /** 只写属性 */
+  writeOnly: Set<string>;
+  /** 引用的其他 Schema */
+  refs: Set<string>;
+}
+
+export class VisibilitySplitter {
+  /** 原始名称 -> 可见性信息 */
+  private visibility = new Map<string, VisibilityInfo>();
+  /** 需要拆分的 Schema(原始名称) */
+  private affected = new Set<string>();
+  /** 输出名称 -> 各方向的变体名称 */
+  private variantNames = new Map<string, Record<Direction, string>>();
+
+  constructor(
+    private namingStyle: NamingStyle,
+    private interfaceGenerator: InterfaceGenerator,
+    /** 泛型相关 Schema(原始名称)，不参与拆分 */
+    private excluded: Set<string> = new Set(),
+  ) {}
+
+  /**
+   * 生成变体并更新 API 引用
+   *
+   * @param rawSchemas 原始文档中的 components.schemas
+   * @param componentsNode components 接口节点(生成接口代码时需要)
+   * @param schemas Schema 定义集合(输出，为空时跳过)
+   * @param interfaces 接口代码集合(输出，为空时跳过)
+   * @param apis API 定义数组(原地修改)
+   */
+  apply(
+    rawSchemas: Record<string, unknown>,
+    componentsNode: ts.InterfaceDeclaration | undefined,
+    schemas: Record<string, SchemaDefinition> | undefined,
+    interfaces: Record<string, string> | undefined,
+    apis: ApiDefinition[],
+  ): void {
+    this.collectVisibility(rawSchemas);
+    this.resolveAffected();
+    if (this.affected.size === 0) return;
+
+    if (schemas) this.generateSchemas(schemas);
+    if (interfaces && componentsNode) {
+      this.generateInterfaces(componentsNode, interfaces);
+    }
+
+    for (const api of apis) {
+      if (api.requestBody) {
+        this.renameContent(api.requestBody.content, 'input');
+      }
+      for (const response of Object.values(api.responses)) {
+        if (response.content) this.renameContent(response.content, 'output');
+      }
+    }
+  }
+
+  /**
+   * 收集每个 Schema 的 readOnly/writeOnly 属性与引用关系
+   */
+  private collectVisibility(rawSchemas: Record<string, unknown>): void {
+    for (const [rawName, rawSchema] of Object.entries(rawSchemas)) {
+      const info: VisibilityInfo = {
+        readOnly: new Set(),
+        writeOnly: new Set(),
+        refs: new Set(),
+      };
+      if (this.isRecord(rawSchema)) {
+        const sources = [
+          rawSchema,
+          ...(Array.isArray(rawSchema.allOf) ? rawSchema.allOf : []),
+        ];
+        for (const source of sources) {
+          if (!this.isRecord(source) || !this.isRecord(source.properties)) {
+            continue;
+          }
+          for (const [propName, prop] of Object.entries(source.properties)) {
+            if (!this.isRecord(prop)) continue;
+            if (prop.readOnly === true) info.readOnly.add(propName);
+            if (prop.writeOnly === true) info.writeOnly.add(propName);
+          }
+        }
+        this.collectRefs(rawSchema, info.refs);
+      }
+      this.visibility.set(this.decode(rawName), info);
+    }
+  }
+
+  /**
+   * 计算需要拆分的 Schema：自身包含标记，或(间接)引用了需要拆分的 Schema
+   */
+  private resolveAffected(): void {
+    for (const [name, info] of this.visibility) {
+      if (
+        !this.excluded.has(name) &&
+        (info.readOnly.size > 0 || info.writeOnly.size > 0)
+      ) {
+        this.affected.add(name);
+      }
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [name, info] of this.visibility) {
+        if (this.affected.has(name) || this.excluded.has(name)) continue;
+        if (Array.from(info.refs).some((ref) => this.affected.has(ref))) {
+          this.affected.add(name);
+          changed = true;
+        }
+      }
+    }
+
+    for (const name of this.affected) {
+      const convert = (value: string) =>
+        NamingUtils.convert(value, this.namingStyle);
+      this.variantNames.set(convert(name), {
+        input: convert(`${name}_Input`),
+        output: convert(`${name}_Output`),
+      });
+    }
+  }
+
+  /**
+   * 生成 Schema 定义变体
+   */
+  private generateSchemas(schemas: Record<string, SchemaDefinition>): void {
+    for (const name of this.affected) {
+      const info = this.visibility.get(name)!;
+      const schema = schemas[NamingUtils.convert(name, this.namingStyle)];
+      if (!schema) continue;
+
+      for (const direction of ['input', 'output'] as const) {
+        const omitted = direction === 'input' ? info.readOnly : info.writeOnly;
+        const variant: SchemaDefinition = structuredClone(schema);
+        variant.name = this.variantNames.get(schema.name)![direction];
+
+        if (variant.properties) {
+          for (const prop of omitted) delete variant.properties[prop];
+        }
+        if (variant.required) {
+          variant.required = variant.required.filter((r) => !omitted.has(r));
+        }
+        this.renameSchema(variant, direction);
+        schemas[variant.name] = variant;
+      }
+    }
+  }
+
+  /**
+   * 生成接口代码变体
+   */
+  private generateInterfaces(
+    componentsNode: ts.InterfaceDeclaration,
+    interfaces: Record<string, string>,
+  ): void {
+    for (const [name, typeNode] of this.schemaTypeNodes(componentsNode)) {
+      if (!this.affected.has(name)) continue;
+      const info = this.visibility.get(name)!;
+      const names = this.variantNames.get(
+        NamingUtils.convert(name, this.namingStyle),
+      )!;
+
+      for (const direction of ['input', 'output'] as const) {
+        const omitted = direction === 'input' ? info.readOnly : info.writeOnly;
+        const node = ts.isTypeLiteralNode(typeNode)
+          ? ts.factory.createTypeLiteralNode(
+              typeNode.members.filter(
+                (member) =>
+                  !(
+                    ts.isPropertySignature(member) &&
+                    omitted.has(extractStringFromNode(member.name) ?? '')
+                  ),
+              ),
+            )
+          : typeNode;
+
+        interfaces[names[direction]] =
+          this.interfaceGenerator.generateInterfaceString(
+            names[direction],
+            node,
+            false,
+            undefined,
+            undefined,
+            (ref) => this.variantName(this.decode(ref), direction),
+          );
+      }
+    }
+  }
+
+  /**
+   * 遍历 components.schemas 中的类型节点
+   */
+  private *schemaTypeNodes(
+    componentsNode: ts.InterfaceDeclaration,
+  ): Generator<[string, ts.TypeNode]> {
+    for (const member of componentsNode.members) {
+      if (
+        !ts.isPropertySignature(member) ||
+        extractStringFromNode(member.name) !== 'schemas' ||
+        !member.type ||
+        !ts.isTypeLiteralNode(member.type)
+      ) {
+        continue;
+      }
+      for (const schemaMember of member.type.members) {
+        if (!ts.isPropertySignature(schemaMember) || !schemaMember.type) {
+          continue;
+        }
+        const name = extractStringFromNode(schemaMember.name);
+        if (name) yield [this.decode(name), schemaMember.type];
+      }
+    }
+  }
+
+  /**
+   * 替换 Schema 定义中对其他变体 Schema 的引用
+   */
+  private renameSchema(
+    schema: Partial<SchemaDefinition>,
+    direction: Direction,
+  ): void {
+    const renameRef = (ref: SchemaReference | undefined) => {
+      if (!ref) return;
+      if (ref.ref) ref.ref = this.renameType(ref.ref, direction);
+      if (ref.schema) this.renameSchema(ref.schema, direction);
+    };
+
+    for (const prop of Object.values(schema.properties ?? {})) {
+      prop.type = this.renameType(prop.type, direction);
+    }
+    renameRef(schema.items);
+    renameRef(schema.additionalProperties);
+    schema.variants?.forEach(renameRef);
+    if (schema.extends) {
+      schema.extends = schema.extends.map((base) =>
+        this.renameType(base, direction),
+      );
+    }
+    const mapping = schema.discriminator?.mapping;
+    if (mapping) {
+      for (const [value, target] of Object.entries(mapping)) {
+        mapping[value] = this.renameType(target, direction);
+      }
+    }
+  }
+
+  /**
+   * 替换请求体/响应中的 Schema 引用
+   */
+  private renameContent(
+    content: Record<string, MediaTypeDefinition>,
+    direction: Direction,
+  ): void {
+    for (const media of Object.values(content)) {
+      if (media.schema.type === 'ref' && media.schema.ref) {
+        media.schema.ref = this.renameType(media.schema.ref, direction);
+      }
+    }
+  }
+
+  /**
+   * 替换类型字符串中的 Schema 名称(如 User[] | null -> UserInput[] | null)
+   */
+  private renameType(type: string, direction: Direction): string {
+    // 字符串字面量(如鉴别值 "User")保持不变
+    return type.replace(
+      /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[A-Za-z_$][\w$]*/g,
+      (token) => this.variantNames.get(token)?.[direction] ?? token,
+    );
+  }
+
+  /**
+   * 原始名称 -> 输出名称(需要拆分时返回对应方向的变体名称)
+   */
+  private variantName(rawName: string, direction: Direction): string {
+    const name = NamingUtils.convert(rawName, this.namingStyle);
+    return this.variantNames.get(name)?.[direction] ?? name;
+  }
+
+  /**
+   * 收集 $ref 指向的 Schema 名称
+   */
+  private collectRefs(node: unknown, refs: Set<string>): void {
+    if (Array.isArray(node)) {
+      for (const item of node) this.collectRefs(item, refs);
+    } else if (this.isRecord(node)) {
+      for (const [key, value] of Object.entries(node)) {
+        if (
+          key === '$ref' &&
+          typeof value === 'string' &&
+          value.startsWith(SCHEMA_REF_PREFIX)
+        ) {
+          refs.add(this.decode(value.slice(SCHEMA_REF_PREFIX.length)));
+        } else {
+          this.collectRefs(value, refs);
+        }
+      }
+    }
+  }
+
+  private decode(name: string): string {
+    if (!name.includes('%')) return name;
+    try {
+      return decodeURIComponent(name);
+    } catch {
+      return name;
+    }
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -70,6 +70,15 @@ export interface CodeGenerationOptions {
 
   /** 输出控制 */
   output?: OutputControlOptions;
+
+  /**
+   * 是否为包含 readOnly/writeOnly 属性的 Schema 生成输入/输出变体(默认 false)
+   *
+   * 开启后生成 `XxxInput`(去除 readOnly 属性) 与 `XxxOutput`(去除 writeOnly 属性)，
+   * 请求体引用 Input 变体，响应引用 Output 变体；
+   * 间接引用了这类 Schema 的 Schema 同样会生成变体，其余 Schema 保持共用
+   */
+  visibilityVariants?: boolean;
 }
 
 /**
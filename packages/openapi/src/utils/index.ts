@@ -5,3 +5,4 @@
 export * from './path-classifier';
 export * from './generic-detector';
 export * from './naming-utils';
+export * from './schema-inferrer';
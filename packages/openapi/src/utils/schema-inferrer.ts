@@ -0,0 +1,134 @@
+/**
+ * Schema 推断器
+ * 根据 JSON 样本推断 OpenAPI 3.0 Schema Object，供没有 Schema 的数据源(Postman、HAR 等)使用
+ */
+
+/**
+ * 推断得到的 Schema Object
+ */
+export type InferredSchema = Record<string, unknown>;
+
+type SampleKind =
+  | 'boolean'
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'array'
+  | 'object';
+
+/** 字符串格式检测(按顺序匹配，所有样本都满足时才标注) */
+const STRING_FORMATS: Array<[string, RegExp]> = [
+  [
+    'date-time',
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  ],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^https?:\/\/\S+$/i],
+];
+
+export class SchemaInferrer {
+  /**
+   * 合并多个样本推断 Schema
+   * - 所有样本中都出现的字段标记为 required
+   * - 出现 null 时标记 nullable
+   * - 整数与小数混合时推断为 number，其他类型混合时使用 oneOf
+   *
+   * @param samples JSON 样本(undefined 会被忽略)
+   * @returns Schema Object；没有样本时返回空 Schema(任意类型)
+   */
+  infer(samples: unknown[]): InferredSchema {
+    const values = samples.filter((value) => value !== undefined);
+    const nullable = values.some((value) => value === null);
+
+    const groups = new Map<SampleKind, unknown[]>();
+    for (const value of values) {
+      const kind = this.kindOf(value);
+      if (!kind) continue;
+      if (!groups.has(kind)) groups.set(kind, []);
+      groups.get(kind)!.push(value);
+    }
+
+    // 整数与小数混合时统一为 number
+    if (groups.has('integer') && groups.has('number')) {
+      groups.get('number')!.push(...groups.get('integer')!);
+      groups.delete('integer');
+    }
+
+    const schemas = Array.from(groups, ([kind, items]) =>
+      this.inferKind(kind, items),
+    );
+    const schema: InferredSchema =
+      schemas.length === 1
+        ? schemas[0]!
+        : schemas.length > 1
+          ? { oneOf: schemas }
+          : {};
+    if (nullable) schema.nullable = true;
+    return schema;
+  }
+
+  private kindOf(value: unknown): SampleKind | undefined {
+    if (value === null) return undefined;
+    if (Array.isArray(value)) return 'array';
+    switch (typeof value) {
+      case 'boolean':
+        return 'boolean';
+      case 'number':
+        return Number.isInteger(value) ? 'integer' : 'number';
+      case 'string':
+        return 'string';
+      case 'object':
+        return 'object';
+      default:
+        return undefined;
+    }
+  }
+
+  private inferKind(kind: SampleKind, values: unknown[]): InferredSchema {
+    switch (kind) {
+      case 'string': {
+        const format = STRING_FORMATS.find(([, regex]) =>
+          values.every((value) => regex.test(value as string)),
+        )?.[0];
+        return { type: 'string', ...(format && { format }) };
+      }
+      case 'array':
+        return {
+          type: 'array',
+          items: this.infer((values as unknown[][]).flat()),
+        };
+      case 'object':
+        return this.inferObject(values as Array<Record<string, unknown>>);
+      default:
+        return { type: kind };
+    }
+  }
+
+  /**
+   * 合并对象样本：字段按首次出现的顺序排列
+   */
+  private inferObject(values: Array<Record<string, unknown>>): InferredSchema {
+    const keys: string[] = [];
+    for (const value of values) {
+      for (const key of Object.keys(value)) {
+        if (!keys.includes(key)) keys.push(key);
+      }
+    }
+
+    const properties: Record<string, InferredSchema> = {};
+    const required: string[] = [];
+    for (const key of keys) {
+      const present = values.filter((value) => value[key] !== undefined);
+      properties[key] = this.infer(present.map((value) => value[key]));
+      if (present.length === values.length) required.push(key);
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    };
+  }
+}
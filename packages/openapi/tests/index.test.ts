@@ -1,7 +1,10 @@
 import { test, expect } from '@rstest/core';
+import type { AdapterPlugin } from '@api-codegen-universal/core';
 import { OpenAPIAdapter } from '../src';
 import path from 'node:path';
 import fs from 'node:fs';
+import os from 'node:os';
+import { pathToFileURL } from 'node:url';
 
 test('OpenAPIAdapter should parse fixture openapi.json', async () => {
   const openapiPath = path.resolve(__dirname, './fixtures/valid-openapi.json');
@@ -188,3 +191,780 @@ test('OpenAPIAdapter should build metadata from raw document', async () => {
   expect(result.metadata?.description).toBe('desc');
   expect(result.metadata?.baseUrl).toBe('https://example.com');
 });
+
+test('OpenAPIAdapter should fill property constraints, items and additionalProperties', async () => {
+  const openapiDoc = {
+    openapi: '3.0.0',
+    info: { title: 'Constraints API', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: {
+              type: 'string',
+              pattern: '^[a-z]+$',
+              minLength: 2,
+              maxLength: 20,
+              nullable: true,
+            },
+            age: { type: 'integer', minimum: 0, maximum: 150 },
+          },
+        },
+        UserList: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/User' },
+        },
+        UserMap: {
+          type: 'object',
+          additionalProperties: { $ref: '#/components/schemas/User' },
+        },
+      },
+    },
+  };
+
+  const result = await new OpenAPIAdapter().parse(openapiDoc);
+  const { name, age } = result.schemas.User!.properties!;
+
+  expect(name).toMatchObject({
+    pattern: '^[a-z]+$',
+    minLength: 2,
+    maxLength: 20,
+    nullable: true,
+  });
+  expect(age).toMatchObject({ minimum: 0, maximum: 150 });
+  expect(result.schemas.UserList!.items).toEqual({ type: 'ref', ref: 'User' });
+  expect(result.schemas.UserMap!.additionalProperties).toEqual({
+    type: 'ref',
+    ref: 'User',
+  });
+});
+
+test('OpenAPIAdapter should upgrade Swagger 2.0 documents', async () => {
+  const swagger = {
+    swagger: '2.0',
+    info: { title: 'Legacy API', version: '1.0.0' },
+    host: 'legacy.example.com',
+    basePath: '/v1',
+    schemes: ['https'],
+    consumes: ['application/json'],
+    produces: ['application/json'],
+    paths: {
+      '/pets/{id}': {
+        parameters: [
+          { name: 'id', in: 'path', required: true, type: 'integer' },
+        ],
+        get: {
+          operationId: 'getPet',
+          parameters: [
+            {
+              name: 'tags',
+              in: 'query',
+              type: 'array',
+              items: { type: 'string' },
+              collectionFormat: 'multi',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'ok',
+              schema: { $ref: '#/definitions/Pet' },
+            },
+          },
+        },
+        put: {
+          operationId: 'updatePet',
+          parameters: [
+            {
+              name: 'body',
+              in: 'body',
+              required: true,
+              schema: { $ref: '#/definitions/Pet' },
+            },
+          ],
+          responses: { '204': { description: 'updated' } },
+        },
+      },
+      '/pets/{id}/photo': {
+        post: {
+          operationId: 'uploadPhoto',
+          consumes: ['multipart/form-data'],
+          parameters: [
+            { name: 'id', in: 'path', required: true, type: 'integer' },
+            { name: 'file', in: 'formData', required: true, type: 'file' },
+            { name: 'caption', in: 'formData', type: 'string' },
+          ],
+          responses: { '200': { description: 'ok' } },
+        },
+      },
+    },
+    definitions: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', maxLength: 32 },
+          owner: { type: 'string', 'x-nullable': true },
+        },
+      },
+    },
+  };
+
+  const result = await new OpenAPIAdapter().parse(swagger);
+
+  expect(result.metadata?.baseUrl).toBe('https://legacy.example.com/v1');
+  expect(result.schemas.Pet?.properties?.name).toMatchObject({
+    type: 'string',
+    required: true,
+    maxLength: 32,
+  });
+  expect(result.schemas.Pet?.properties?.owner?.nullable).toBe(true);
+
+  const getPet = result.apis.find((a) => a.operationId === 'getPet');
+  expect(
+    getPet?.responses['200']?.content?.['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'Pet' });
+  expect(getPet?.parameters?.path?.ref).toBe('GetPetPathParams');
+  expect(result.schemas.GetPetQueryParams?.properties?.tags?.type).toBe(
+    'string[]',
+  );
+
+  const updatePet = result.apis.find((a) => a.operationId === 'updatePet');
+  expect(updatePet?.requestBody?.required).toBe(true);
+  expect(updatePet?.requestBody?.content['application/json']?.schema).toEqual({
+    type: 'ref',
+    ref: 'Pet',
+  });
+
+  const upload = result.apis.find((a) => a.operationId === 'uploadPhoto');
+  expect(Object.keys(upload?.requestBody?.content ?? {})).toEqual([
+    'multipart/form-data',
+  ]);
+
+  expect(await new OpenAPIAdapter().validate(swagger)).toBe(true);
+});
+
+test('OpenAPIAdapter should extract security schemes and requirements', async () => {
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Secure API', version: '1.0.0' },
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/users': {
+        get: {
+          operationId: 'listUsers',
+          responses: { '200': { description: 'ok' } },
+        },
+        post: {
+          operationId: 'createUser',
+          security: [{ oauth: ['write:users'] }, { apiKey: [] }],
+          responses: { '201': { description: 'created' } },
+        },
+      },
+      '/health': {
+        get: {
+          operationId: 'health',
+          security: [],
+          responses: { '200': { description: 'ok' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'Bearer', bearerFormat: 'JWT' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        oauth: {
+          type: 'oauth2',
+          flows: {
+            clientCredentials: {
+              tokenUrl: 'https://auth.example.com/token',
+              scopes: { 'write:users': 'Modify users' },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  const result = await new OpenAPIAdapter().parse(doc);
+
+  expect(result.securitySchemes).toEqual({
+    bearerAuth: {
+      name: 'bearerAuth',
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+    },
+    apiKey: {
+      name: 'apiKey',
+      type: 'apiKey',
+      in: 'header',
+      parameterName: 'X-API-Key',
+    },
+    oauth: {
+      name: 'oauth',
+      type: 'oauth2',
+      flows: {
+        clientCredentials: {
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: { 'write:users': 'Modify users' },
+        },
+      },
+    },
+  });
+
+  const security = Object.fromEntries(
+    result.apis.map((api) => [api.operationId, api.security]),
+  );
+  expect(security).toEqual({
+    listUsers: [{ bearerAuth: [] }],
+    createUser: [{ oauth: ['write:users'] }, { apiKey: [] }],
+    health: [],
+  });
+
+  const plain = await new OpenAPIAdapter().parse({
+    openapi: '3.0.3',
+    info: { title: 'Open API', version: '1.0.0' },
+    paths: {
+      '/ping': { get: { responses: { '200': { description: 'ok' } } } },
+    },
+  });
+  expect(plain.securitySchemes).toBeUndefined();
+  expect(plain.apis[0]?.security).toBeUndefined();
+});
+
+test('OpenAPIAdapter should keep all servers and path/operation overrides', async () => {
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Servers API', version: '1.0.0' },
+    servers: [
+      {
+        url: 'https://{region}.example.com/{basePath}',
+        description: 'Production',
+        variables: {
+          region: { default: 'eu', enum: ['eu', 'us'] },
+          basePath: { default: 'v1' },
+        },
+      },
+      { url: 'http://localhost:3000' },
+    ],
+    paths: {
+      '/files': {
+        servers: [{ url: 'https://upload.example.com' }],
+        post: {
+          operationId: 'uploadFile',
+          responses: { '201': { description: 'created' } },
+        },
+        get: {
+          operationId: 'listFiles',
+          servers: [{ url: 'https://cdn.example.com', description: 'CDN' }],
+          responses: { '200': { description: 'ok' } },
+        },
+      },
+      '/ping': {
+        get: {
+          operationId: 'ping',
+          responses: { '200': { description: 'ok' } },
+        },
+      },
+    },
+  };
+
+  const result = await new OpenAPIAdapter().parse(doc);
+
+  expect(result.metadata?.baseUrl).toBe(
+    'https://{region}.example.com/{basePath}',
+  );
+  expect(result.metadata?.servers).toEqual([
+    {
+      url: 'https://{region}.example.com/{basePath}',
+      description: 'Production',
+      variables: {
+        region: { default: 'eu', enum: ['eu', 'us'] },
+        basePath: { default: 'v1' },
+      },
+    },
+    { url: 'http://localhost:3000' },
+  ]);
+
+  const servers = Object.fromEntries(
+    result.apis.map((api) => [api.operationId, api.servers]),
+  );
+  expect(servers).toEqual({
+    uploadFile: [{ url: 'https://upload.example.com' }],
+    listFiles: [{ url: 'https://cdn.example.com', description: 'CDN' }],
+    ping: undefined,
+  });
+});
+
+test('OpenAPIAdapter should extract oneOf/anyOf unions and discriminators', async () => {
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Union API', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        Pet: {
+          oneOf: [
+            { $ref: '#/components/schemas/Cat' },
+            { $ref: '#/components/schemas/Dog' },
+          ],
+          discriminator: {
+            propertyName: 'petType',
+            mapping: { cat: '#/components/schemas/Cat' },
+          },
+        },
+        Cat: {
+          type: 'object',
+          required: ['petType'],
+          properties: { petType: { type: 'string' } },
+        },
+        Dog: {
+          type: 'object',
+          required: ['petType'],
+          properties: { petType: { type: 'string' } },
+        },
+        Id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+        Shape: {
+          oneOf: [
+            { type: 'object', properties: { radius: { type: 'number' } } },
+            { $ref: '#/components/schemas/Dog' },
+          ],
+        },
+        Vehicle: {
+          type: 'object',
+          required: ['kind'],
+          properties: { kind: { type: 'string' } },
+          discriminator: { propertyName: 'kind' },
+        },
+        Car: {
+          allOf: [
+            { $ref: '#/components/schemas/Vehicle' },
+            { type: 'object', properties: { doors: { type: 'integer' } } },
+          ],
+        },
+      },
+    },
+  };
+
+  const { schemas } = await new OpenAPIAdapter().parse(doc);
+
+  expect(schemas.Pet).toMatchObject({
+    type: 'union',
+    unionKind: 'oneOf',
+    variants: [
+      { type: 'ref', ref: 'Cat' },
+      { type: 'ref', ref: 'Dog' },
+    ],
+    discriminator: {
+      propertyName: 'petType',
+      mapping: { cat: 'Cat', Dog: 'Dog' },
+    },
+  });
+  expect(schemas.Id).toMatchObject({
+    type: 'union',
+    unionKind: 'anyOf',
+    variants: [
+      { type: 'ref', ref: 'string' },
+      { type: 'ref', ref: 'number' },
+    ],
+  });
+  expect(schemas.Id?.discriminator).toBeUndefined();
+
+  const [inline, ref] = schemas.Shape?.variants ?? [];
+  expect(inline?.type).toBe('inline');
+  expect(inline?.schema?.name).toBeUndefined();
+  expect(inline?.schema?.properties?.radius?.type).toBe('number');
+  expect(ref).toEqual({ type: 'ref', ref: 'Dog' });
+
+  expect(schemas.Vehicle?.type).toBe('object');
+  expect(schemas.Vehicle?.discriminator).toEqual({
+    propertyName: 'kind',
+    mapping: { Car: 'Car' },
+  });
+});
+
+test('OpenAPIAdapter should generate readOnly/writeOnly input and output variants', async () => {
+  const json = (ref: string) => ({
+    content: { 'application/json': { schema: { $ref: ref } } },
+  });
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Visibility API', version: '1.0.0' },
+    paths: {
+      '/users': {
+        post: {
+          operationId: 'createUser',
+          requestBody: json('#/components/schemas/User'),
+          responses: {
+            '201': {
+              description: 'created',
+              ...json('#/components/schemas/User'),
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          required: ['id', 'name', 'password'],
+          properties: {
+            id: { type: 'integer', readOnly: true },
+            name: { type: 'string' },
+            password: { type: 'string', writeOnly: true },
+            profile: { $ref: '#/components/schemas/Profile' },
+          },
+        },
+        Profile: {
+          type: 'object',
+          properties: {
+            createdAt: { type: 'string', readOnly: true },
+            bio: { type: 'string' },
+          },
+        },
+        Tag: { type: 'object', properties: { label: { type: 'string' } } },
+      },
+    },
+  };
+
+  const plain = await new OpenAPIAdapter().parse(doc);
+  expect(plain.schemas.User?.properties?.id?.readOnly).toBe(true);
+  expect(plain.schemas.User?.properties?.password?.writeOnly).toBe(true);
+  expect(plain.schemas.UserInput).toBeUndefined();
+  expect(
+    plain.apis[0]?.requestBody?.content['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'User' });
+
+  const result = await new OpenAPIAdapter().parse(doc, {
+    codeGeneration: { visibilityVariants: true },
+  });
+
+  expect(Object.keys(result.schemas).sort()).toEqual([
+    'Profile',
+    'ProfileInput',
+    'ProfileOutput',
+    'Tag',
+    'User',
+    'UserInput',
+    'UserOutput',
+  ]);
+  expect(Object.keys(result.schemas.UserInput?.properties ?? {})).toEqual([
+    'name',
+    'password',
+    'profile',
+  ]);
+  expect(result.schemas.UserInput?.required).toEqual(['name', 'password']);
+  expect(result.schemas.UserInput?.properties?.profile?.type).toBe(
+    'ProfileInput',
+  );
+  expect(Object.keys(result.schemas.UserOutput?.properties ?? {})).toEqual([
+    'id',
+    'name',
+    'profile',
+  ]);
+
+  expect(result.interfaces.UserInput).toBe(
+    [
+      'export interface UserInput {',
+      '  name: string;',
+      '  password: string;',
+      '  profile?: ProfileInput;',
+      '}',
+    ].join('\n'),
+  );
+  expect(result.interfaces.UserOutput).toContain('readonly id: number;');
+  expect(result.interfaces.UserOutput).not.toContain('password');
+  expect(result.interfaces.ProfileInput).not.toContain('createdAt');
+
+  const [api] = result.apis;
+  expect(api?.requestBody?.content['application/json']?.schema).toEqual({
+    type: 'ref',
+    ref: 'UserInput',
+  });
+  expect(api?.responses['201']?.content?.['application/json']?.schema).toEqual({
+    type: 'ref',
+    ref: 'UserOutput',
+  });
+});
+
+test('OpenAPIAdapter should keep request and response examples', async () => {
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Examples API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        post: {
+          operationId: 'createPet',
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { name: { type: 'string' } },
+                },
+                examples: {
+                  cat: { $ref: '#/components/examples/Cat' },
+                  empty: { summary: 'No value' },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { id: { type: 'integer' } },
+                  },
+                  example: { id: 1 },
+                },
+              },
+            },
+            '400': {
+              description: 'bad request',
+              content: {
+                'application/json': {
+                  schema: { type: 'object' },
+                  examples: {
+                    invalid: { $ref: '#/components/examples/Invalid' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      examples: {
+        Cat: { summary: 'A cat', value: { name: 'Tom' } },
+        Invalid: { value: { message: 'invalid' } },
+      },
+    },
+  };
+
+  const result = await new OpenAPIAdapter().parse(doc);
+  const api = result.apis.find((item) => item.operationId === 'createPet')!;
+
+  expect(api.requestBody?.content['application/json']?.examples).toEqual({
+    cat: { summary: 'A cat', value: { name: 'Tom' } },
+  });
+  expect(api.responses['201']?.content?.['application/json']?.example).toEqual({
+    id: 1,
+  });
+  expect(api.responses['400']?.content?.['application/json']?.examples).toEqual(
+    { invalid: { value: { message: 'invalid' } } },
+  );
+});
+
+test('OpenAPIAdapter should run plugin hooks around parsing', async () => {
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Plugin API', version: '1.0.0' },
+    paths: {
+      '/users/me': {
+        get: {
+          operationId: 'getUser',
+          responses: {
+            '200': {
+              description: 'ok',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/User' },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/internal/ping': {
+        get: {
+          operationId: 'ping',
+          'x-internal': true,
+          responses: { '204': { description: 'pong' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            team: { $ref: '#/components/schemas/Team' },
+          },
+        },
+        Team: {
+          type: 'object',
+          properties: { User: { type: 'string' } },
+        },
+        Legacy: { type: 'object', properties: { id: { type: 'string' } } },
+      },
+    },
+  };
+
+  const stages: string[] = [];
+  const plugins: AdapterPlugin[] = [
+    {
+      name: 'drop-internal',
+      transformDocument(document) {
+        stages.push('document');
+        const paths = document.paths as Record<
+          string,
+          { get?: Record<string, unknown> }
+        >;
+        for (const [path, item] of Object.entries(paths)) {
+          if (item.get?.['x-internal']) delete paths[path];
+        }
+      },
+    },
+    {
+      name: 'rename-and-enrich',
+      transformSchema(schema) {
+        stages.push(`schema:${schema.name}`);
+        if (schema.name === 'Legacy') return null;
+        if (schema.name === 'User') return { ...schema, name: 'Member' };
+        schema.description = 'enriched';
+      },
+      transformApi(api) {
+        stages.push(`api:${api.operationId}`);
+        return [api, { ...api, operationId: 'getUserCopy' }];
+      },
+      transformOutput(output) {
+        stages.push('output');
+        return {
+          ...output,
+          metadata: { ...output.metadata, title: 'Patched' },
+        };
+      },
+    },
+  ];
+
+  const result = await new OpenAPIAdapter().parse(doc, { plugins });
+
+  expect(stages).toEqual([
+    'document',
+    'schema:User',
+    'schema:Team',
+    'schema:Legacy',
+    'api:getUser',
+    'output',
+  ]);
+  // 调用方传入的文档不会被修改
+  expect(doc.paths['/internal/ping']).toBeDefined();
+
+  expect(Object.keys(result.schemas)).toEqual(['Member', 'Team']);
+  expect(result.schemas.Team?.description).toBe('enriched');
+  expect(Object.keys(result.interfaces)).toEqual(['Member', 'Team']);
+  expect(result.interfaces.Member).toContain('export interface Member {');
+  // 属性名与其他 Schema 同名时不受重命名影响
+  expect(result.interfaces.Team).toContain('User?: string;');
+
+  expect(result.apis.map((api) => api.operationId)).toEqual([
+    'getUser',
+    'getUserCopy',
+  ]);
+  expect(
+    result.apis[0]!.responses['200']?.content?.['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'Member' });
+  expect(result.metadata?.title).toBe('Patched');
+
+  await expect(
+    new OpenAPIAdapter().parse(doc, {
+      plugins: [
+        {
+          name: 'broken',
+          transformApi() {
+            throw new Error('boom');
+          },
+        },
+      ],
+    }),
+  ).rejects.toThrow('Plugin "broken" failed in transformApi: boom');
+});
+
+/**
+ * 写入一份引用外部文件的多文件规范，返回入口文件路径
+ */
+function writeMultiFileSpec(root: string, rootDocument: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-refs-'));
+  fs.mkdirSync(path.join(dir, 'spec'));
+  fs.writeFileSync(path.join(dir, 'spec', root), rootDocument);
+  fs.writeFileSync(
+    path.join(dir, 'spec', 'user.yaml'),
+    [
+      'type: object',
+      'required: [id]',
+      'properties:',
+      '  id: { type: integer }',
+      '  name: { type: string }',
+    ].join('\n'),
+  );
+  return path.join(dir, 'spec', root);
+}
+
+test('OpenAPIAdapter should resolve relative external $refs when document hooks run', async () => {
+  const file = writeMultiFileSpec(
+    'openapi.yaml',
+    [
+      'openapi: 3.0.3',
+      'info: { title: Multi-file API, version: 1.0.0 }',
+      'paths:',
+      '  /users/me:',
+      '    get:',
+      '      operationId: getMe',
+      '      responses:',
+      "        '200':",
+      '          description: ok',
+      '          content:',
+      '            application/json:',
+      "              schema: { $ref: './user.yaml' }",
+    ].join('\n'),
+  );
+
+  const result = await new OpenAPIAdapter().parse(pathToFileURL(file), {
+    plugins: [{ name: 'noop', transformDocument: (document) => document }],
+  });
+
+  expect(result.metadata?.title).toBe('Multi-file API');
+  expect(result.interfaces.User).toContain('id: number;');
+  expect(
+    result.apis[0]!.responses['200']?.content?.['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'User' });
+});
+
+test('OpenAPIAdapter should resolve relative external $refs in Swagger 2.0 files', async () => {
+  const file = writeMultiFileSpec(
+    'swagger.yaml',
+    [
+      "swagger: '2.0'",
+      'info: { title: Multi-file Swagger, version: 1.0.0 }',
+      'paths:',
+      '  /users/me:',
+      '    get:',
+      '      operationId: getMe',
+      '      produces: [application/json]',
+      '      responses:',
+      "        '200':",
+      '          description: ok',
+      "          schema: { $ref: './user.yaml' }",
+    ].join('\n'),
+  );
+
+  const adapter = new OpenAPIAdapter();
+  expect(await adapter.validate(file)).toBe(true);
+
+  const result = await adapter.parse(file);
+
+  expect(result.metadata?.title).toBe('Multi-file Swagger');
+  expect(result.interfaces.User).toContain('id: number;');
+  expect(
+    result.apis[0]!.responses['200']?.content?.['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'User' });
+});
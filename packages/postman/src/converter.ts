@@ -0,0 +1,771 @@
+/**
+ * Postman Collection 转换器
+ * 将 Postman Collection v2.1 转换为 OpenAPI 3.0 文档，再交给 OpenAPIAdapter 解析
+ *
+ * 映射规则：
+ * 1. 文件夹 -> tags (最内层文件夹)，文件夹链另行记录用于生成 CategoryInfo
+ * 2. 请求 -> operation；:id 与 {{id}} 路径段 -> path 参数
+ * 3. 保存的示例响应 -> 按状态码分组的 examples
+ * 4. JSON 请求体/响应体 -> 推断 Schema
+ * 5. 请求主机 -> servers；不同主机上的同一 method + path 合并为一个 operation，
+ *    主机与第一个服务地址不同时生成操作级 servers
+ */
+
+import type { AdapterLogger } from '@api-codegen-universal/core';
+import { NamingUtils, SchemaInferrer } from '@api-codegen-universal/openapi';
+import type {
+  PostmanBody,
+  PostmanCollection,
+  PostmanDescription,
+  PostmanHeader,
+  PostmanItem,
+  PostmanQueryParam,
+  PostmanRequest,
+  PostmanResponse,
+  PostmanUrl,
+  PostmanVariable,
+} from './types';
+
+/**
+ * 转换结果
+ */
+export interface PostmanConversionResult {
+  /** OpenAPI 3.0 文档 */
+  document: Record<string, unknown>;
+  /** operationId -> 所在文件夹名称(由外到内) */
+  folders: Map<string, string[]>;
+}
+
+/**
+ * 标准化后的请求地址
+ */
+interface NormalizedUrl {
+  protocol?: string;
+  host: string[];
+  port?: string;
+  path: string[];
+  query: PostmanQueryParam[];
+  variable: PostmanVariable[];
+}
+
+type SchemaObject = Record<string, unknown>;
+
+const HTTP_METHODS = new Set([
+  'get',
+  'post',
+  'put',
+  'delete',
+  'patch',
+  'head',
+  'options',
+]);
+
+/** 由客户端或鉴权配置决定的请求头，不作为 header 参数 */
+const SKIPPED_HEADERS = new Set([
+  'accept',
+  'authorization',
+  'content-length',
+  'content-type',
+  'cookie',
+  'host',
+  'user-agent',
+]);
+
+/** raw 请求体语言 -> 内容类型 */
+const RAW_LANGUAGE_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain',
+};
+
+/** 示例响应预览语言 -> 内容类型 */
+const PREVIEW_LANGUAGE_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  text: 'text/plain',
+};
+
+export class PostmanConverter {
+  private inferrer = new SchemaInferrer();
+  private paths: Record<string, Record<string, unknown>> = {};
+  private schemas: Record<string, SchemaObject> = {};
+  private tags = new Map<string, string | undefined>();
+  private servers = new Map<string, Record<string, { default: string }>>();
+  /** operation -> 请求所在的服务地址(相对地址记为空字符串) */
+  private operationServers = new Map<SchemaObject, string[]>();
+  private operationIds = new Set<string>();
+  private folders = new Map<string, string[]>();
+
+  /**
+   * @param variables 变量值(Collection 变量与调用方传入的变量合并后)
+   * @param logger 适配器日志
+   */
+  constructor(
+    private variables: Record<string, string>,
+    private logger?: AdapterLogger,
+  ) {}
+
+  /**
+   * 转换 Collection
+   *
+   * @param collection Postman Collection v2.1
+   * @returns OpenAPI 文档与文件夹信息
+   */
+  convert(collection: PostmanCollection): PostmanConversionResult {
+    this.walk(collection.item ?? [], []);
+
+    const info = collection.info ?? { name: 'Postman Collection' };
+    const description = this.description(info.description);
+    const document: Record<string, unknown> = {
+      openapi: '3.0.3',
+      info: {
+        title: info.name,
+        version: this.version(info.version),
+        ...(description && { description }),
+      },
+    };
+    if (this.servers.size > 0) {
+      document.servers = Array.from(this.servers.keys(), (url) =>
+        this.serverObject(url),
+      );
+    }
+    this.applyOperationServers();
+    if (this.tags.size > 0) {
+      document.tags = Array.from(this.tags, ([name, tagDescription]) => ({
+        name,
+        ...(tagDescription && { description: tagDescription }),
+      }));
+    }
+    document.paths = this.paths;
+    if (Object.keys(this.schemas).length > 0) {
+      document.components = { schemas: this.schemas };
+    }
+
+    return { document, folders: this.folders };
+  }
+
+  /**
+   * 遍历文件夹与请求
+   */
+  private walk(items: PostmanItem[], folders: string[]): void {
+    for (const item of items) {
+      if (Array.isArray(item.item)) {
+        const name = item.name?.trim();
+        if (!name) {
+          this.walk(item.item, folders);
+          continue;
+        }
+        if (!this.tags.has(name)) {
+          this.tags.set(name, this.description(item.description));
+        }
+        this.walk(item.item, [...folders, name]);
+      } else if (item.request) {
+        this.addRequest(item, folders);
+      }
+    }
+  }
+
+  /**
+   * 将单个请求转换为 operation
+   */
+  private addRequest(item: PostmanItem, folders: string[]): void {
+    const request: PostmanRequest =
+      typeof item.request === 'string'
+        ? { url: item.request, method: 'GET' }
+        : item.request!;
+    const method = (request.method ?? 'GET').toLowerCase();
+    if (!HTTP_METHODS.has(method)) {
+      this.logger?.warn(`Unsupported HTTP method "${request.method}".`, {
+        code: 'POSTMAN_UNSUPPORTED_METHOD',
+        request: item.name,
+      });
+      return;
+    }
+
+    const url = this.normalizeUrl(request.url);
+    const { path, parameters } = this.convertPath(url);
+    const server = this.addServer(url) ?? '';
+    const existing = this.paths[path]?.[method] as SchemaObject | undefined;
+    if (existing) {
+      // 同一主机上的重复请求跳过；其他主机上的同一接口只记录服务地址
+      const servers = this.operationServers.get(existing)!;
+      if (servers.includes(server)) {
+        this.logger?.warn(
+          `Duplicate request ${method.toUpperCase()} ${path} is skipped.`,
+          { code: 'POSTMAN_DUPLICATE_REQUEST', request: item.name },
+        );
+      } else {
+        servers.push(server);
+      }
+      return;
+    }
+
+    const headers = Array.isArray(request.header) ? request.header : [];
+    parameters.push(
+      ...this.convertQuery(url.query),
+      ...this.convertHeaders(headers),
+    );
+
+    const operationId = this.uniqueOperationId(item.name, method, path);
+    const description = this.description(
+      request.description ?? item.description,
+    );
+    const requestBody = this.convertBody(request.body, headers);
+    const operation: Record<string, unknown> = {
+      operationId,
+      ...(item.name && { summary: item.name }),
+      ...(description && { description }),
+      ...(folders.length > 0 && { tags: [folders[folders.length - 1]] }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(requestBody && { requestBody }),
+      responses: this.convertResponses(operationId, item.response ?? []),
+    };
+
+    this.paths[path] = { ...this.paths[path], [method]: operation };
+    this.operationServers.set(operation, [server]);
+    this.folders.set(operationId, folders);
+  }
+
+  /**
+   * 标准化请求地址(字符串或对象)
+   */
+  private normalizeUrl(url: PostmanUrl | string | undefined): NormalizedUrl {
+    if (!url) return { host: [], path: [], query: [], variable: [] };
+    if (typeof url === 'string') return this.parseRawUrl(url);
+
+    if (url.host === undefined && url.path === undefined && url.raw) {
+      const parsed = this.parseRawUrl(url.raw);
+      return {
+        ...parsed,
+        query: url.query ?? parsed.query,
+        variable: url.variable ?? [],
+      };
+    }
+
+    return {
+      protocol: url.protocol,
+      host: Array.isArray(url.host)
+        ? url.host
+        : url.host
+          ? url.host.split('.')
+          : [],
+      port: url.port,
+      path: Array.isArray(url.path)
+        ? url.path
+        : url.path
+          ? url.path.split('/')
+          : [],
+      query: url.query ?? [],
+      variable: url.variable ?? [],
+    };
+  }
+
+  /**
+   * 解析原始地址: {{baseUrl}}/users/:id?page=1
+   */
+  private parseRawUrl(raw: string): NormalizedUrl {
+    let rest = raw.trim().split('#')[0]!;
+    let queryString = '';
+    const queryIndex = rest.indexOf('?');
+    if (queryIndex >= 0) {
+      queryString = rest.slice(queryIndex + 1);
+      rest = rest.slice(0, queryIndex);
+    }
+
+    let protocol: string | undefined;
+    const protocolMatch = rest.match(/^([a-z][\w+.-]*):\/\//i);
+    if (protocolMatch) {
+      protocol = protocolMatch[1];
+      rest = rest.slice(protocolMatch[0].length);
+    }
+
+    const segments = rest.split('/');
+    // 带协议、变量、域名或端口的第一段视为主机
+    let host: string | undefined;
+    let port: string | undefined;
+    const first = segments[0] ?? '';
+    if (
+      protocol ||
+      first.includes('{{') ||
+      first.includes('.') ||
+      first.includes(':') ||
+      first === 'localhost'
+    ) {
+      host = segments.shift();
+      const portMatch = host?.match(/^(.*):(\d+)$/);
+      if (portMatch) {
+        host = portMatch[1];
+        port = portMatch[2];
+      }
+    }
+
+    const query: PostmanQueryParam[] = queryString
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key, ...value] = pair.split('=');
+        return { key: this.decode(key!), value: this.decode(value.join('=')) };
+      });
+
+    return {
+      protocol,
+      host: host ? [host] : [],
+      port,
+      path: segments,
+      query,
+      variable: [],
+    };
+  }
+
+  /**
+   * 记录服务地址，已知变量替换为变量值，未知变量转换为服务地址变量
+   *
+   * @returns 服务地址，相对地址返回 undefined
+   */
+  private addServer(url: NormalizedUrl): string | undefined {
+    if (url.host.length === 0) return undefined;
+
+    const variables: Record<string, { default: string }> = {};
+    const host = url.host
+      .join('.')
+      .replace(/\{\{([^{}]+)\}\}/g, (_, rawName: string) => {
+        const name = rawName.trim();
+        const value = this.variables[name];
+        if (value !== undefined) return value;
+        variables[name] = { default: '' };
+        return `{${name}}`;
+      });
+
+    let server = `${host}${url.port ? `:${url.port}` : ''}`;
+    if (url.protocol) {
+      server = `${url.protocol}://${server}`;
+    } else if (!server.includes('://') && !server.startsWith('{')) {
+      // 与 Postman 一致，未写协议时使用 http
+      server = `http://${server}`;
+    }
+    server = server.replace(/\/+$/, '');
+
+    if (!this.servers.has(server)) this.servers.set(server, variables);
+    return server;
+  }
+
+  /**
+   * 请求主机与第一个服务地址不同的 operation 生成操作级 servers
+   * 相对地址的请求使用第一个服务地址
+   */
+  private applyOperationServers(): void {
+    const primary = Array.from(this.servers.keys())[0];
+    if (primary === undefined) return;
+
+    for (const [operation, servers] of this.operationServers) {
+      const urls: string[] = Array.from(
+        new Set(servers.map((url) => url || primary)),
+      );
+      if (urls.length === 1 && urls[0] === primary) continue;
+      operation.servers = urls.map((url) => this.serverObject(url));
+    }
+  }
+
+  private serverObject(url: string): SchemaObject {
+    const variables = this.servers.get(url) ?? {};
+    return {
+      url,
+      ...(Object.keys(variables).length > 0 && { variables }),
+    };
+  }
+
+  /**
+   * 转换路径并生成 path 参数
+   * /users/:id、/users/{{userId}} -> /users/{id}、/users/{userId}
+   */
+  private convertPath(url: NormalizedUrl): {
+    path: string;
+    parameters: SchemaObject[];
+  } {
+    const names: string[] = [];
+    const segments = url.path
+      .filter((segment) => segment !== '')
+      .map((segment) => {
+        if (/^:[^/]+$/.test(segment)) {
+          names.push(segment.slice(1));
+          return `{${segment.slice(1)}}`;
+        }
+        return segment.replace(/\{\{([^{}]+)\}\}/g, (_, rawName: string) => {
+          names.push(rawName.trim());
+          return `{${rawName.trim()}}`;
+        });
+      });
+
+    const parameters = Array.from(new Set(names), (name) => {
+      const variable = url.variable.find(
+        (item) => (item.key ?? item.id) === name,
+      );
+      const description = this.description(variable?.description);
+      const example = this.example(variable?.value);
+      return {
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+        ...(description && { description }),
+        ...(example !== undefined && { example }),
+      };
+    });
+
+    return { path: `/${segments.join('/')}`, parameters };
+  }
+
+  private convertQuery(query: PostmanQueryParam[]): SchemaObject[] {
+    const seen = new Set<string>();
+    const parameters: SchemaObject[] = [];
+    for (const param of query) {
+      if (!param.key || seen.has(param.key)) continue;
+      seen.add(param.key);
+
+      const description = this.description(param.description);
+      const example = this.example(param.value);
+      parameters.push({
+        name: param.key,
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        ...(description && { description }),
+        ...(example !== undefined && { example }),
+      });
+    }
+    return parameters;
+  }
+
+  private convertHeaders(headers: PostmanHeader[]): SchemaObject[] {
+    const seen = new Set<string>();
+    const parameters: SchemaObject[] = [];
+    for (const header of headers) {
+      const key = header.key?.trim();
+      if (!key || SKIPPED_HEADERS.has(key.toLowerCase())) continue;
+      if (seen.has(key.toLowerCase())) continue;
+      seen.add(key.toLowerCase());
+
+      const description = this.description(header.description);
+      const example = this.example(header.value);
+      parameters.push({
+        name: key,
+        in: 'header',
+        required: false,
+        schema: { type: 'string' },
+        ...(description && { description }),
+        ...(example !== undefined && { example }),
+      });
+    }
+    return parameters;
+  }
+
+  /**
+   * 转换请求体
+   */
+  private convertBody(
+    body: PostmanBody | undefined,
+    headers: PostmanHeader[],
+  ): SchemaObject | undefined {
+    if (!body || body.disabled) return undefined;
+
+    const headerType = headers
+      .find((h) => !h.disabled && h.key?.toLowerCase() === 'content-type')
+      ?.value?.split(';')[0]
+      ?.trim();
+    let content: Record<string, SchemaObject> | undefined;
+
+    switch (body.mode) {
+      case 'raw': {
+        const text = body.raw ?? '';
+        if (!text.trim()) return undefined;
+
+        const language = body.options?.raw?.language;
+        const isJson =
+          language === 'json' ||
+          (!!headerType && /json/i.test(headerType)) ||
+          (!language && !headerType && /^\s*[[{]/.test(text));
+        if (isJson) {
+          content = {
+            [headerType ?? 'application/json']: this.jsonMedia([text]),
+          };
+        } else {
+          content = {
+            [headerType ??
+            RAW_LANGUAGE_TYPES[language ?? 'text'] ??
+            'text/plain']: {
+              schema: { type: 'string' },
+              example: text,
+            },
+          };
+        }
+        break;
+      }
+      case 'urlencoded':
+      case 'formdata': {
+        const fields = (body[body.mode] ?? []).filter(
+          (field) => field.key && !field.disabled,
+        );
+        const properties: Record<string, SchemaObject> = {};
+        const example: Record<string, string> = {};
+        for (const field of fields) {
+          const description = this.description(field.description);
+          properties[field.key] =
+            field.type === 'file'
+              ? { type: 'string', format: 'binary' }
+              : { type: 'string' };
+          if (description) properties[field.key]!.description = description;
+          if (
+            field.type !== 'file' &&
+            this.example(field.value) !== undefined
+          ) {
+            example[field.key] = field.value!;
+          }
+        }
+        const schema = { type: 'object', properties };
+        content = {
+          [body.mode === 'urlencoded'
+            ? 'application/x-www-form-urlencoded'
+            : 'multipart/form-data']: {
+            schema,
+            ...(body.mode === 'urlencoded' &&
+              Object.keys(example).length > 0 && { example }),
+          },
+        };
+        break;
+      }
+      case 'file':
+        content = {
+          [headerType ?? 'application/octet-stream']: {
+            schema: { type: 'string', format: 'binary' },
+          },
+        };
+        break;
+      case 'graphql': {
+        const variables = body.graphql?.variables?.trim()
+          ? this.parseJson(body.graphql.variables)
+          : undefined;
+        const value = {
+          query: body.graphql?.query ?? '',
+          ...(variables !== undefined && { variables }),
+        };
+        content = {
+          'application/json': {
+            schema: this.inferrer.infer([value]),
+            example: value,
+          },
+        };
+        break;
+      }
+      default:
+        return undefined;
+    }
+
+    return { required: true, content };
+  }
+
+  /**
+   * 转换示例响应，同一状态码的多个示例合并推断 Schema
+   * 对象/数组 Schema 注册到 components.schemas(如 GetUserResponse、GetUser404Response)
+   */
+  private convertResponses(
+    operationId: string,
+    responses: PostmanResponse[],
+  ): SchemaObject {
+    const groups = new Map<
+      string,
+      {
+        description: string;
+        content: Map<
+          string,
+          { samples: string[]; examples: Record<string, SchemaObject> }
+        >;
+      }
+    >();
+
+    for (const [index, response] of responses.entries()) {
+      const code = String(response.code ?? 200);
+      if (!groups.has(code)) {
+        groups.set(code, {
+          description: response.status || response.name || 'Response',
+          content: new Map(),
+        });
+      }
+      const body = response.body;
+      if (body === undefined || body === null || body === '') continue;
+
+      const headers = Array.isArray(response.header) ? response.header : [];
+      const contentType =
+        headers
+          .find((h) => h.key?.toLowerCase() === 'content-type')
+          ?.value?.split(';')[0]
+          ?.trim() ??
+        PREVIEW_LANGUAGE_TYPES[response._postman_previewlanguage ?? ''] ??
+        (/^\s*[[{]/.test(body) ? 'application/json' : 'text/plain');
+
+      const group = groups.get(code)!;
+      if (!group.content.has(contentType)) {
+        group.content.set(contentType, { samples: [], examples: {} });
+      }
+      const media = group.content.get(contentType)!;
+      media.samples.push(body);
+
+      let name = response.name?.trim() || `example${index + 1}`;
+      for (let i = 2; media.examples[name]; i++) {
+        name = `${response.name?.trim() || 'example'}${i}`;
+      }
+      media.examples[name] = {
+        ...(response.name && { summary: response.name }),
+        value: /json/i.test(contentType)
+          ? (this.parseJson(body) ?? body)
+          : body,
+      };
+    }
+
+    if (groups.size === 0) return { '200': { description: 'OK' } };
+
+    const result: SchemaObject = {};
+    const baseName = NamingUtils.convert(operationId, 'PascalCase');
+    let hasSuccess = false;
+    for (const code of Array.from(groups.keys()).sort()) {
+      const group = groups.get(code)!;
+      const content: Record<string, SchemaObject> = {};
+      for (const [contentType, media] of group.content) {
+        let schema: unknown = { type: 'string' };
+        if (/json/i.test(contentType)) {
+          schema = this.jsonMedia(media.samples).schema;
+          const type = (schema as SchemaObject).type;
+          if (type === 'object' || type === 'array') {
+            const isSuccess: boolean = !hasSuccess && code.startsWith('2');
+            hasSuccess ||= isSuccess;
+            schema = this.registerSchema(
+              `${baseName}${isSuccess ? '' : code}Response`,
+              schema as SchemaObject,
+            );
+          }
+        }
+        content[contentType] = { schema, examples: media.examples };
+      }
+      result[code] = {
+        description: group.description,
+        ...(group.content.size > 0 && { content }),
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 注册组件 Schema，名称冲突时追加序号
+   *
+   * @returns 指向该 Schema 的 $ref
+   */
+  private registerSchema(name: string, schema: SchemaObject): SchemaObject {
+    let unique = name;
+    for (let i = 2; this.schemas[unique]; i++) {
+      unique = `${name}${i}`;
+    }
+    this.schemas[unique] = schema;
+    return { $ref: `#/components/schemas/${unique}` };
+  }
+
+  /**
+   * JSON 媒体类型：合并样本推断 Schema，第一个样本作为示例
+   */
+  private jsonMedia(texts: string[]): SchemaObject {
+    const values = texts
+      .map((text) => this.parseJson(text))
+      .filter((value) => value !== undefined);
+    if (values.length === 0) return { schema: {} };
+    return { schema: this.inferrer.infer(values), example: values[0] };
+  }
+
+  /**
+   * 解析 JSON 文本
+   * 未加引号的 {{变量}} 占位符(如 "id": {{id}})按 null 处理
+   */
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      try {
+        return JSON.parse(
+          text.replace(
+            /("(?:[^"\\]|\\.)*")|\{\{[^{}]*\}\}/g,
+            (_, str: string | undefined) => str ?? 'null',
+          ),
+        );
+      } catch {
+        this.logger?.debug('Failed to parse JSON body.', {
+          code: 'POSTMAN_INVALID_JSON',
+        });
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * 生成唯一的 operationId
+   * 请求名称转换为 camelCase，无法转换时使用 method + path
+   */
+  private uniqueOperationId(
+    name: string | undefined,
+    method: string,
+    path: string,
+  ): string {
+    const toCamel = (text: string) =>
+      NamingUtils.convert(
+        text
+          .split(/[^A-Za-z0-9]+/)
+          .filter(Boolean)
+          .join('_'),
+        'camelCase',
+      );
+
+    let base = toCamel(name ?? '');
+    if (!base || /^\d/.test(base)) {
+      base = toCamel(`${method} ${path.replace(/[{}]/g, '')}`);
+    }
+
+    let operationId = base;
+    for (let i = 2; this.operationIds.has(operationId); i++) {
+      operationId = `${base}${i}`;
+    }
+    this.operationIds.add(operationId);
+    return operationId;
+  }
+
+  private description(description: PostmanDescription | undefined) {
+    const text =
+      typeof description === 'string' ? description : description?.content;
+    return text?.trim() || undefined;
+  }
+
+  /**
+   * 参数示例值(空值与变量占位符不作为示例)
+   */
+  private example(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const text = String(value);
+    return text === '' || text.includes('{{') ? undefined : text;
+  }
+
+  private version(version: PostmanCollection['info']['version']): string {
+    if (typeof version === 'string' && version) return version;
+    if (version && typeof version === 'object') {
+      return [version.major ?? 1, version.minor ?? 0, version.patch ?? 0].join(
+        '.',
+      );
+    }
+    return '1.0.0';
+  }
+
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+      return value;
+    }
+  }
+}
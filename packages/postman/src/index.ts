@@ -0,0 +1,3 @@
+export * from './converter';
+export * from './parser';
+export * from './types';
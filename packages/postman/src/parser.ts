@@ -0,0 +1,188 @@
+/**
+ * Postman 适配器
+ * 将 Postman Collection v2.1 转换为 OpenAPI 文档，再复用 OpenAPIAdapter 生成标准输出
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  AdapterPlugin,
+  CategoryInfo,
+  IAdapter,
+  StandardOutput,
+} from '@api-codegen-universal/core';
+import { createAdapterLogger } from '@api-codegen-universal/core';
+import {
+  type InputSource,
+  OpenAPIAdapter,
+} from '@api-codegen-universal/openapi';
+import { PostmanConverter } from './converter';
+import type {
+  PostmanAdapterOptions,
+  PostmanCollection,
+  PostmanSource,
+} from './types';
+
+/**
+ * Postman 适配器类
+ * 实现 IAdapter 接口，用于处理 Postman Collection 的导入和转换
+ */
+export class PostmanAdapter
+  implements IAdapter<PostmanAdapterOptions, PostmanSource>
+{
+  /**
+   * 验证输入源是否为 Postman Collection
+   *
+   * @param source Collection 文件路径、JSON 文本或对象
+   * @returns 包含 info 与 item 数组时返回 true
+   */
+  async validate(source: PostmanSource): Promise<boolean> {
+    try {
+      const collection = await this.loadCollection(source);
+      return (
+        !!collection &&
+        typeof collection.info === 'object' &&
+        Array.isArray(collection.item)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 解析主入口
+   * 1. 读取 Collection(传入对象时使用克隆副本)
+   * 2. 转换为 OpenAPI 文档：文件夹 -> tags，示例响应 -> examples，JSON 样本 -> 推断 Schema
+   * 3. 使用 OpenAPIAdapter 转换为标准输出，文件夹结构写入 CategoryInfo
+   *
+   * @param source Collection 文件路径、JSON 文本或对象
+   * @param options 适配器选项
+   * @returns 标准输出格式 (StandardOutput)
+   */
+  async parse(
+    source: PostmanSource,
+    options: PostmanAdapterOptions = {},
+  ): Promise<StandardOutput> {
+    const sourceLabel = this.getSourceLabel(source);
+    const logger = createAdapterLogger(options, {
+      adapter: 'postman',
+      source: sourceLabel,
+    });
+
+    const collection = await this.loadCollection(source);
+    if (!collection || !Array.isArray(collection.item)) {
+      throw new Error(`Invalid Postman collection: ${sourceLabel}`);
+    }
+
+    const variables: Record<string, string> = {};
+    for (const variable of collection.variable ?? []) {
+      const key = variable.key ?? variable.id;
+      if (key && !variable.disabled && variable.value !== undefined) {
+        variables[key] = String(variable.value);
+      }
+    }
+    Object.assign(variables, options.variables);
+
+    const { document, folders } = new PostmanConverter(
+      variables,
+      logger,
+    ).convert(collection);
+    logger.debug('Converted Postman collection to OpenAPI.', {
+      code: 'POSTMAN_CONVERTED',
+      operations: folders.size,
+    });
+
+    // 文件夹信息需要在用户插件之前写入，用户插件可以继续调整
+    const plugins: AdapterPlugin[] = [
+      this.createFolderPlugin(folders, options),
+      ...(options.plugins ?? []),
+    ];
+
+    const result = await new OpenAPIAdapter().parse(
+      document as unknown as InputSource,
+      {
+        ...options,
+        plugins,
+      },
+    );
+
+    if (result.metadata) {
+      result.metadata.source = sourceLabel;
+      // 内部插件不属于用户配置
+      result.metadata.options = options;
+    }
+    return result;
+  }
+
+  /**
+   * 写入文件夹信息的内部插件
+   * - tags：最内层文件夹名称
+   * - category：文件夹名称转换为 kebab-case 路径段；不在文件夹中的请求保留按路径分类的结果
+   */
+  private createFolderPlugin(
+    folders: Map<string, string[]>,
+    options: PostmanAdapterOptions,
+  ): AdapterPlugin {
+    const outputPrefix = options.pathClassification?.outputPrefix || 'api';
+    const maxDepth = options.pathClassification?.maxDepth || 2;
+    const folderCategories = options.folderCategories ?? true;
+
+    return {
+      name: 'postman:folders',
+      transformApi: (api) => {
+        const chain = folders.get(api.operationId) ?? [];
+        if (chain.length === 0) return api;
+
+        const tags = api.tags ?? [chain[chain.length - 1]!];
+        if (!folderCategories) return { ...api, tags };
+
+        const segments = chain
+          .map((folder) =>
+            folder
+              .replace(/[^\p{L}\p{N}]+/gu, '-')
+              .replace(/^-+|-+$/g, '')
+              .toLowerCase(),
+          )
+          .filter(Boolean)
+          .slice(0, maxDepth);
+        if (segments.length === 0) return { ...api, tags };
+
+        const category: CategoryInfo = {
+          segments,
+          depth: segments.length,
+          isUnclassified: false,
+          filePath: `${outputPrefix}/${segments.join('/')}/index.ts`,
+        };
+        return { ...api, tags, category };
+      },
+    };
+  }
+
+  /**
+   * 读取 Collection
+   * 字符串以 { 开头时视为 JSON 文本，否则视为文件路径
+   */
+  private async loadCollection(
+    source: PostmanSource,
+  ): Promise<PostmanCollection> {
+    if (typeof source !== 'string') {
+      return structuredClone(source);
+    }
+    const text = source.trimStart().startsWith('{')
+      ? source
+      : await fs.readFile(path.resolve(source), 'utf-8');
+    return JSON.parse(text) as PostmanCollection;
+  }
+
+  /**
+   * 数据源的显示名称(用于日志与 metadata.source)
+   */
+  private getSourceLabel(source: PostmanSource): string {
+    if (typeof source !== 'string') {
+      return `Postman Collection ${source.info?.name ?? ''}`.trim();
+    }
+    return source.trimStart().startsWith('{')
+      ? 'Postman Collection'
+      : `Postman Collection ${source}`;
+  }
+}
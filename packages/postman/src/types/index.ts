@@ -0,0 +1,164 @@
+import type { OpenAPIOptions } from '@api-codegen-universal/openapi';
+
+/**
+ * PostmanAdapter 输入源
+ * - 字符串：Collection 文件路径(相对路径基于 process.cwd())或 JSON 文本
+ * - 对象：已解析的 Collection(不会被修改)
+ */
+export type PostmanSource = string | PostmanCollection;
+
+/**
+ * 适配器选项
+ * 在 OpenAPIOptions 的基础上增加 Postman 专属行为控制
+ */
+export interface PostmanAdapterOptions extends OpenAPIOptions {
+  /**
+   * 是否按文件夹生成 CategoryInfo(默认 true)
+   * 文件夹名称转换为路径段，深度受 pathClassification.maxDepth 限制；
+   * 不在文件夹中的请求仍按 URL 路径分类
+   */
+  folderCategories?: boolean;
+
+  /**
+   * 变量值(如 Postman 环境变量)
+   * 覆盖 Collection 中的同名变量，用于解析服务地址中的 {{baseUrl}} 等变量
+   */
+  variables?: Record<string, string>;
+}
+
+// ===================================================================================
+// Postman Collection v2.1 结构(只包含适配器用到的字段)
+// ===================================================================================
+
+/**
+ * 描述(字符串或带格式的对象)
+ */
+export type PostmanDescription =
+  | string
+  | { content?: string; type?: string }
+  | null;
+
+/**
+ * Collection
+ */
+export interface PostmanCollection {
+  info: {
+    name: string;
+    description?: PostmanDescription;
+    schema?: string;
+    version?: string | { major?: number; minor?: number; patch?: number };
+    [key: string]: unknown;
+  };
+  item: PostmanItem[];
+  variable?: PostmanVariable[];
+  [key: string]: unknown;
+}
+
+/**
+ * 文件夹(item 不为空)或请求
+ */
+export interface PostmanItem {
+  name?: string;
+  description?: PostmanDescription;
+  /** 文件夹中的子项 */
+  item?: PostmanItem[];
+  /** 请求定义 */
+  request?: PostmanRequest | string;
+  /** 保存的示例响应 */
+  response?: PostmanResponse[];
+  [key: string]: unknown;
+}
+
+/**
+ * 请求
+ */
+export interface PostmanRequest {
+  method?: string;
+  url?: PostmanUrl | string;
+  header?: PostmanHeader[] | string;
+  body?: PostmanBody;
+  description?: PostmanDescription;
+  [key: string]: unknown;
+}
+
+/**
+ * 请求地址
+ */
+export interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string[] | string;
+  port?: string;
+  path?: string[] | string;
+  query?: PostmanQueryParam[];
+  variable?: PostmanVariable[];
+}
+
+/**
+ * 查询参数
+ */
+export interface PostmanQueryParam {
+  key: string | null;
+  value?: string | null;
+  disabled?: boolean;
+  description?: PostmanDescription;
+}
+
+/**
+ * 请求头/响应头
+ */
+export interface PostmanHeader {
+  key: string;
+  value?: string;
+  disabled?: boolean;
+  description?: PostmanDescription;
+}
+
+/**
+ * 变量(Collection 变量或路径变量)
+ */
+export interface PostmanVariable {
+  key?: string;
+  id?: string;
+  value?: unknown;
+  type?: string;
+  disabled?: boolean;
+  description?: PostmanDescription;
+}
+
+/**
+ * 表单字段
+ */
+export interface PostmanFormParam {
+  key: string;
+  value?: string;
+  type?: 'text' | 'file' | string;
+  disabled?: boolean;
+  description?: PostmanDescription;
+}
+
+/**
+ * 请求体
+ */
+export interface PostmanBody {
+  mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql' | string;
+  raw?: string;
+  urlencoded?: PostmanFormParam[];
+  formdata?: PostmanFormParam[];
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+  disabled?: boolean;
+}
+
+/**
+ * 保存的示例响应
+ */
+export interface PostmanResponse {
+  name?: string;
+  status?: string;
+  code?: number;
+  header?: PostmanHeader[] | string | null;
+  body?: string | null;
+  _postman_previewlanguage?: string | null;
+  [key: string]: unknown;
+}
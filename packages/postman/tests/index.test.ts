@@ -0,0 +1,179 @@
+import { test, expect } from '@rstest/core';
+import { PostmanAdapter, type PostmanCollection } from '../src';
+
+const collection: PostmanCollection = {
+  info: {
+    name: 'Shop API',
+    schema:
+      'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  variable: [{ key: 'baseUrl', value: 'https://api.example.com' }],
+  item: [
+    {
+      name: 'User Admin',
+      description: 'User management',
+      item: [
+        {
+          name: 'Get User',
+          request: {
+            method: 'GET',
+            url: {
+              raw: '{{baseUrl}}/users/:id?expand=profile',
+              host: ['{{baseUrl}}'],
+              path: ['users', ':id'],
+              query: [{ key: 'expand', value: 'profile' }],
+              variable: [
+                { key: 'id', value: '1', description: 'User identifier' },
+              ],
+            },
+            header: [
+              { key: 'X-Tenant', value: 'acme' },
+              { key: 'Accept', value: 'application/json' },
+            ],
+          },
+          response: [
+            {
+              name: 'Found',
+              status: 'OK',
+              code: 200,
+              header: [{ key: 'Content-Type', value: 'application/json' }],
+              body: '{"id":1,"name":"Ann","email":"ann@example.com"}',
+            },
+            {
+              name: 'Found without email',
+              status: 'OK',
+              code: 200,
+              header: [{ key: 'Content-Type', value: 'application/json' }],
+              body: '{"id":2,"name":"Bob","email":null}',
+            },
+            {
+              name: 'Missing',
+              status: 'Not Found',
+              code: 404,
+              _postman_previewlanguage: 'json',
+              body: '{"message":"not found"}',
+            },
+          ],
+        },
+        {
+          name: 'Create User',
+          request: {
+            method: 'POST',
+            url: '{{baseUrl}}/users',
+            body: {
+              mode: 'raw',
+              raw: '{"name":"Ann","age":{{age}},"tags":["a"]}',
+              options: { raw: { language: 'json' } },
+            },
+          },
+        },
+      ],
+    },
+    {
+      name: 'Upload Avatar',
+      request: {
+        method: 'POST',
+        url: '{{baseUrl}}/avatars',
+        body: {
+          mode: 'formdata',
+          formdata: [
+            { key: 'file', type: 'file' },
+            { key: 'caption', value: 'me', type: 'text' },
+          ],
+        },
+      },
+    },
+  ],
+};
+
+test('PostmanAdapter converts folders, requests and saved responses', async () => {
+  const adapter = new PostmanAdapter();
+  expect(await adapter.validate(collection)).toBe(true);
+  expect(await adapter.validate('{"info":{}}')).toBe(false);
+
+  const result = await adapter.parse(collection);
+  const getUser = result.apis.find((api) => api.operationId === 'getUser')!;
+  expect(getUser.path).toBe('/users/{id}');
+  expect(getUser.method).toBe('GET');
+  expect(getUser.tags).toEqual(['User Admin']);
+  expect(getUser.category.segments).toEqual(['user-admin']);
+  expect(getUser.category.filePath).toBe('api/user-admin/index.ts');
+  expect(result.metadata?.servers).toEqual([
+    { url: 'https://api.example.com' },
+  ]);
+  expect(result.metadata?.source).toBe('Postman Collection Shop API');
+
+  // path、query、header 参数(Accept 由客户端决定，不作为参数)
+  expect(result.interfaces.GetUserPathParams).toContain('User identifier');
+  expect(result.interfaces.GetUserQueryParams).toContain('expand?: string');
+  expect(result.interfaces.GetUserHeaderParams).toContain('X-Tenant');
+  expect(result.interfaces.GetUserHeaderParams).not.toContain('Accept');
+
+  // 同一状态码的多个示例合并推断 Schema，null 推断为可空
+  const ok = getUser.responses['200']!.content!['application/json']!;
+  expect(Object.keys(ok.examples ?? {})).toEqual([
+    'Found',
+    'Found without email',
+  ]);
+  expect(ok.schema).toEqual({ type: 'ref', ref: 'GetUserResponse' });
+  expect(result.interfaces.GetUserResponse).toContain('email: string | null');
+  expect(getUser.responses['404']!.description).toBe('Not Found');
+  expect(result.interfaces.GetUser404Response).toContain('message: string');
+
+  // raw JSON 中未加引号的 {{变量}} 按 null 处理
+  const createUser = result.apis.find(
+    (api) => api.operationId === 'createUser',
+  )!;
+  const createBody = createUser.requestBody!.content['application/json']!;
+  expect(createBody.example).toEqual({ name: 'Ann', age: null, tags: ['a'] });
+
+  // 不在文件夹中的请求按路径分类，文件字段为二进制
+  const upload = result.apis.find((api) => api.operationId === 'uploadAvatar')!;
+  expect(upload.category.segments).toEqual(['avatars']);
+  expect(upload.requestBody!.content['multipart/form-data']).toBeDefined();
+});
+
+test('PostmanAdapter supports variables and folder category opt-out', async () => {
+  const result = await new PostmanAdapter().parse(JSON.stringify(collection), {
+    folderCategories: false,
+    variables: { baseUrl: 'https://staging.example.com/v1' },
+  });
+
+  const getUser = result.apis.find((api) => api.operationId === 'getUser')!;
+  expect(getUser.category.segments).toEqual(['users']);
+  expect(result.metadata?.baseUrl).toBe('https://staging.example.com/v1');
+
+  // 传入的对象不会被修改
+  expect(collection.item).toHaveLength(2);
+});
+
+test('PostmanAdapter emits operation servers for requests on other hosts', async () => {
+  const plugin = { name: 'user-plugin' };
+  const result = await new PostmanAdapter().parse(
+    {
+      info: { name: 'Hosts' },
+      item: [
+        { name: 'List Users', request: 'https://api.example.com/users' },
+        { name: 'List Files', request: 'https://files.example.com/files' },
+        { name: 'Users Mirror', request: 'https://eu.example.com/users' },
+        { name: 'Users Again', request: 'https://api.example.com/users' },
+      ],
+    },
+    { plugins: [plugin] },
+  );
+
+  expect(result.apis.map((api) => api.operationId)).toEqual([
+    'listUsers',
+    'listFiles',
+  ]);
+  const [listUsers, listFiles] = result.apis;
+  expect(listUsers!.servers).toEqual([
+    { url: 'https://api.example.com' },
+    { url: 'https://eu.example.com' },
+  ]);
+  expect(listFiles!.servers).toEqual([{ url: 'https://files.example.com' }]);
+  expect(result.metadata?.baseUrl).toBe('https://api.example.com');
+
+  // 内部插件不出现在 metadata.options 中
+  expect(result.metadata?.options?.plugins).toEqual([plugin]);
+});
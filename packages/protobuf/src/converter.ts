@@ -0,0 +1,703 @@
+/**
+ * Protobuf 转换器
+ * 将 .proto 文件集合转换为 OpenAPI 3.0 文档，再交给 OpenAPIAdapter 解析
+ *
+ * 映射规则(与 gRPC-Gateway 的 JSON 编码一致)：
+ * 1. message -> object Schema；enum -> 字符串枚举(枚举值名称)
+ * 2. repeated -> array；map<K, V> -> object + additionalProperties；oneof 字段为可选属性
+ * 3. 64 位整数 -> string(format int64/uint64)；bytes -> string(format byte)；google.protobuf 常用类型 -> 对应的 JSON 类型
+ * 4. 带 google.api.http 选项的 RPC -> 接口：路径模板中的字段为路径参数，body 绑定的字段为请求体，其余字段为查询参数
+ */
+
+import type { AdapterLogger } from '@api-codegen-universal/core';
+import { NamingUtils } from '@api-codegen-universal/openapi';
+import type { ProtoFileSet } from './loader';
+import type {
+  ProtoEnum,
+  ProtoField,
+  ProtoFile,
+  ProtoMessage,
+  ProtoMethod,
+  ProtoOptionValue,
+  ProtoService,
+} from './types';
+
+type SchemaObject = Record<string, unknown>;
+
+/**
+ * 标量类型
+ * 64 位整数在 JSON 中编码为字符串
+ */
+const SCALARS: Record<string, SchemaObject> = {
+  double: { type: 'number', format: 'double' },
+  float: { type: 'number', format: 'float' },
+  int32: { type: 'integer', format: 'int32' },
+  sint32: { type: 'integer', format: 'int32' },
+  sfixed32: { type: 'integer', format: 'int32' },
+  uint32: { type: 'integer', format: 'int64' },
+  fixed32: { type: 'integer', format: 'int64' },
+  int64: { type: 'string', format: 'int64' },
+  sint64: { type: 'string', format: 'int64' },
+  sfixed64: { type: 'string', format: 'int64' },
+  uint64: { type: 'string', format: 'uint64' },
+  fixed64: { type: 'string', format: 'uint64' },
+  bool: { type: 'boolean' },
+  string: { type: 'string' },
+  bytes: { type: 'string', format: 'byte' },
+};
+
+/**
+ * google.protobuf 常用类型的 JSON 表示
+ */
+const WELL_KNOWN_TYPES: Record<string, SchemaObject> = {
+  '.google.protobuf.Timestamp': { type: 'string', format: 'date-time' },
+  '.google.protobuf.Duration': { type: 'string' },
+  '.google.protobuf.FieldMask': { type: 'string' },
+  '.google.protobuf.Empty': { type: 'object' },
+  '.google.protobuf.Struct': { type: 'object', additionalProperties: {} },
+  '.google.protobuf.Value': {},
+  '.google.protobuf.ListValue': { type: 'array', items: {} },
+  '.google.protobuf.NullValue': { nullable: true },
+  '.google.protobuf.Any': {
+    type: 'object',
+    properties: { '@type': { type: 'string' } },
+    additionalProperties: {},
+  },
+  '.google.protobuf.DoubleValue': { ...SCALARS.double, nullable: true },
+  '.google.protobuf.FloatValue': { ...SCALARS.float, nullable: true },
+  '.google.protobuf.Int64Value': { ...SCALARS.int64, nullable: true },
+  '.google.protobuf.UInt64Value': { ...SCALARS.uint64, nullable: true },
+  '.google.protobuf.Int32Value': { ...SCALARS.int32, nullable: true },
+  '.google.protobuf.UInt32Value': { ...SCALARS.uint32, nullable: true },
+  '.google.protobuf.BoolValue': { ...SCALARS.bool, nullable: true },
+  '.google.protobuf.StringValue': { ...SCALARS.string, nullable: true },
+  '.google.protobuf.BytesValue': { ...SCALARS.bytes, nullable: true },
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch'] as const;
+
+/**
+ * 消息或枚举
+ */
+interface TypeEntry {
+  message?: ProtoMessage;
+  enum?: ProtoEnum;
+  /** 生成的 Schema 名称 */
+  schemaName: string;
+}
+
+/**
+ * HTTP 绑定(google.api.http 或其中的 additional_bindings)
+ */
+interface HttpBinding {
+  method: string;
+  template: string;
+  body?: string;
+  responseBody?: string;
+}
+
+export class ProtobufConverter {
+  private types = new Map<string, TypeEntry>();
+  private schemas: Record<string, SchemaObject> = {};
+  private emitted = new Set<string>();
+  private operationIds = new Set<string>();
+
+  /**
+   * @param fileSet 加载的文件集合
+   * @param options 字段命名方式
+   * @param logger 适配器日志
+   */
+  constructor(
+    private fileSet: ProtoFileSet,
+    private options: { useProtoNames?: boolean } = {},
+    private logger?: AdapterLogger,
+  ) {}
+
+  /**
+   * 转换为 OpenAPI 文档
+   * 入口文件中的类型全部生成；依赖文件中的类型只在被引用时生成
+   *
+   * @param title 文档标题
+   * @returns OpenAPI 文档
+   */
+  convert(title: string): Record<string, unknown> {
+    this.indexTypes();
+
+    const emitAll = (messages: ProtoMessage[], enums: ProtoEnum[]) => {
+      for (const message of messages) {
+        this.schemaRef(message.fullName);
+        emitAll(message.messages, message.enums);
+      }
+      for (const item of enums) this.schemaRef(item.fullName);
+    };
+    for (const file of this.fileSet.roots) {
+      emitAll(file.messages, file.enums);
+    }
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const file of this.fileSet.roots) {
+      for (const service of file.services) {
+        for (const method of service.methods) {
+          this.convertMethod(service, method, paths);
+        }
+      }
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: { title, version: '1.0.0' },
+      paths,
+      components: { schemas: this.schemas },
+    };
+  }
+
+  // ===================================================================================
+  // 类型
+  // ===================================================================================
+
+  /**
+   * 收集所有消息与枚举
+   * Schema 名称为嵌套路径拼接(如 User.Address -> UserAddress)，不同包中重名时加上包名前缀
+   */
+  private indexTypes(): void {
+    const entries: Array<[string, TypeEntry, ProtoFile]> = [];
+    const collect = (
+      file: ProtoFile,
+      messages: ProtoMessage[],
+      enums: ProtoEnum[],
+    ) => {
+      for (const message of messages) {
+        entries.push([message.fullName, { message, schemaName: '' }, file]);
+        collect(file, message.messages, message.enums);
+      }
+      for (const item of enums) {
+        entries.push([item.fullName, { enum: item, schemaName: '' }, file]);
+      }
+    };
+    for (const file of this.fileSet.files) {
+      collect(file, file.messages, file.enums);
+    }
+
+    const localName = (fullName: string, file: ProtoFile) =>
+      this.identifier(
+        fullName.slice(file.package ? file.package.length + 2 : 1),
+      );
+    const counts = new Map<string, number>();
+    for (const [fullName, , file] of entries) {
+      const name = localName(fullName, file);
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+    for (const [fullName, entry, file] of entries) {
+      const name = localName(fullName, file);
+      entry.schemaName =
+        (counts.get(name) ?? 0) > 1
+          ? `${this.identifier(file.package ?? '')}${name}`
+          : name;
+      this.types.set(fullName, entry);
+    }
+  }
+
+  /**
+   * 消息/枚举的引用(首次引用时生成 Schema)
+   */
+  private schemaRef(fullName: string): SchemaObject {
+    const entry = this.types.get(fullName)!;
+    if (!this.emitted.has(fullName)) {
+      this.emitted.add(fullName);
+      // 先占位，保证嵌套引用时 Schema 顺序与声明顺序一致
+      this.schemas[entry.schemaName] = {};
+      this.schemas[entry.schemaName] = entry.message
+        ? this.messageSchema(entry.message)
+        : this.enumSchema(entry.enum!);
+    }
+    return { $ref: `#/components/schemas/${entry.schemaName}` };
+  }
+
+  private messageSchema(message: ProtoMessage): SchemaObject {
+    const properties: Record<string, SchemaObject> = {};
+    const required: string[] = [];
+
+    for (const field of message.fields) {
+      const name = this.jsonName(field);
+      const behaviors = this.fieldBehaviors(field);
+      const oneofFields = field.oneof
+        ? message.fields
+            .filter((item) => item.oneof === field.oneof)
+            .map((item) => `\`${this.jsonName(item)}\``)
+        : [];
+      const description = [
+        field.description,
+        field.oneof &&
+          `Only one of ${oneofFields.join(', ')} can be set (oneof ${field.oneof}).`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      properties[name] = this.withMetadata(
+        this.fieldSchema(field, message.fullName),
+        {
+          ...(description && { description }),
+          ...(behaviors.has('OUTPUT_ONLY') && { readOnly: true }),
+          ...(behaviors.has('INPUT_ONLY') && { writeOnly: true }),
+          ...(field.options.deprecated === true && { deprecated: true }),
+        },
+      );
+      if (behaviors.has('REQUIRED') || field.label === 'required') {
+        required.push(name);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+      ...(message.description && { description: message.description }),
+      ...(message.options.deprecated === true && { deprecated: true }),
+    };
+  }
+
+  private enumSchema(item: ProtoEnum): SchemaObject {
+    const documented = item.values.filter((value) => value.description);
+    const description = [
+      item.description,
+      ...documented.map((value) => `- ${value.name}: ${value.description}`),
+    ]
+      .filter(Boolean)
+      .join('\n');
+    return {
+      type: 'string',
+      enum: item.values.map((value) => value.name),
+      ...(description && { description }),
+    };
+  }
+
+  /**
+   * 字段 -> Schema(处理 repeated 与 map)
+   */
+  private fieldSchema(field: ProtoField, scope: string): SchemaObject {
+    const value = this.typeSchema(field.type, scope);
+    if (field.keyType) {
+      return { type: 'object', additionalProperties: value };
+    }
+    if (field.label === 'repeated') {
+      return { type: 'array', items: value };
+    }
+    return value;
+  }
+
+  /**
+   * 类型名 -> Schema
+   */
+  private typeSchema(type: string, scope: string): SchemaObject {
+    if (SCALARS[type]) return { ...SCALARS[type] };
+    const fullName = this.resolveType(type, scope);
+    if (fullName && WELL_KNOWN_TYPES[fullName]) {
+      return structuredClone(WELL_KNOWN_TYPES[fullName]);
+    }
+    if (fullName) return this.schemaRef(fullName);
+
+    this.logger?.warn(`Unknown protobuf type "${type}".`, {
+      code: 'PROTOBUF_UNKNOWN_TYPE',
+      type,
+      scope,
+    });
+    return {};
+  }
+
+  /**
+   * 按 protobuf 作用域规则解析类型名：从当前作用域逐级向外查找
+   *
+   * @param type 类型名(如 Address、User.Address、.acme.v1.User)
+   * @param scope 当前作用域的全限定名(如 .acme.v1.User)
+   * @returns 全限定名；找不到时返回 undefined
+   */
+  private resolveType(type: string, scope: string): string | undefined {
+    const known = (name: string) =>
+      this.types.has(name) || !!WELL_KNOWN_TYPES[name];
+    if (type.startsWith('.')) return known(type) ? type : undefined;
+
+    const parts = scope.split('.').filter(Boolean);
+    for (let i = parts.length; i >= 0; i--) {
+      const candidate = `.${[...parts.slice(0, i), type].join('.')}`;
+      if (known(candidate)) return candidate;
+    }
+    return undefined;
+  }
+
+  private messageOf(type: string, scope: string): ProtoMessage | undefined {
+    const fullName = this.resolveType(type, scope);
+    return fullName ? this.types.get(fullName)?.message : undefined;
+  }
+
+  // ===================================================================================
+  // 服务
+  // ===================================================================================
+
+  private convertMethod(
+    service: ProtoService,
+    method: ProtoMethod,
+    paths: Record<string, Record<string, unknown>>,
+  ): void {
+    const bindings = this.httpBindings(method);
+    if (bindings.length === 0) {
+      this.logger?.debug(
+        `RPC "${service.name}.${method.name}" has no google.api.http option, skipped.`,
+        { code: 'PROTOBUF_RPC_UNBOUND', rpc: `${service.name}.${method.name}` },
+      );
+      return;
+    }
+    if (method.requestStream || method.responseStream) {
+      this.logger?.debug(
+        `Streaming RPC "${service.name}.${method.name}" is skipped.`,
+        {
+          code: 'PROTOBUF_STREAMING_SKIPPED',
+          rpc: `${service.name}.${method.name}`,
+        },
+      );
+      return;
+    }
+
+    const scope = service.fullName.slice(0, -service.name.length - 1);
+    const request = this.messageOf(method.requestType, scope);
+    const response = this.messageOf(method.responseType, scope);
+
+    for (const binding of bindings) {
+      const { path, parameters, pathFields } = this.convertTemplate(
+        binding.template,
+        request,
+      );
+      if (paths[path]?.[binding.method]) {
+        this.logger?.warn(
+          `Duplicate binding ${binding.method.toUpperCase()} ${path}, skipped.`,
+          { code: 'PROTOBUF_DUPLICATE_BINDING', path, method: binding.method },
+        );
+        continue;
+      }
+
+      // body: "*" 时除路径参数外的字段都在请求体中；body: "field" 时其余字段为查询参数
+      let requestBody: SchemaObject | undefined;
+      const bodyFields = new Set<string>();
+      if (binding.body === '*') {
+        request?.fields.forEach((field) => bodyFields.add(field.name));
+        requestBody = this.bodySchema(method, request, pathFields, scope);
+      } else if (binding.body) {
+        const field = request?.fields.find(
+          (item) => item.name === binding.body,
+        );
+        if (field) {
+          bodyFields.add(field.name);
+          requestBody = this.fieldSchema(field, request!.fullName);
+        } else {
+          this.logger?.warn(
+            `Body field "${binding.body}" not found in ${method.requestType}.`,
+            { code: 'PROTOBUF_BODY_FIELD_NOT_FOUND', field: binding.body },
+          );
+        }
+      }
+      if (request) {
+        for (const field of request.fields) {
+          if (pathFields.has(field.name) || bodyFields.has(field.name)) {
+            continue;
+          }
+          parameters.push(
+            ...this.queryParameters(field, request.fullName, '', new Set()),
+          );
+        }
+      }
+
+      let responseSchema = this.typeSchema(method.responseType, scope);
+      if (binding.responseBody) {
+        const field = response?.fields.find(
+          (item) => item.name === binding.responseBody,
+        );
+        if (field) responseSchema = this.fieldSchema(field, response!.fullName);
+      }
+
+      paths[path] ??= {};
+      paths[path][binding.method] = {
+        operationId: this.operationId(service, method),
+        tags: [service.name],
+        ...(method.description && { description: method.description }),
+        ...(method.options.deprecated === true && { deprecated: true }),
+        ...(parameters.length > 0 && { parameters }),
+        ...(requestBody && {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: requestBody } },
+          },
+        }),
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: responseSchema } },
+          },
+        },
+      };
+    }
+  }
+
+  /**
+   * google.api.http 选项 -> HTTP 绑定列表(包括 additional_bindings)
+   */
+  private httpBindings(method: ProtoMethod): HttpBinding[] {
+    const rule = method.options['(google.api.http)'];
+    if (!this.isRecord(rule)) return [];
+
+    const rules = [rule, ...this.toArray(rule.additional_bindings)];
+    const bindings: HttpBinding[] = [];
+    for (const item of rules) {
+      if (!this.isRecord(item)) continue;
+      const base = {
+        ...(typeof item.body === 'string' && item.body && { body: item.body }),
+        ...(typeof item.response_body === 'string' &&
+          item.response_body && { responseBody: item.response_body }),
+      };
+      const method = HTTP_METHODS.find(
+        (name) => typeof item[name] === 'string',
+      );
+      if (method) {
+        bindings.push({ method, template: item[method] as string, ...base });
+        continue;
+      }
+      // custom: { kind: "HEAD", path: "/v1/..." }
+      const custom = item.custom;
+      if (
+        this.isRecord(custom) &&
+        typeof custom.kind === 'string' &&
+        typeof custom.path === 'string' &&
+        ['head', 'options'].includes(custom.kind.toLowerCase())
+      ) {
+        bindings.push({
+          method: custom.kind.toLowerCase(),
+          template: custom.path,
+          ...base,
+        });
+      }
+    }
+    return bindings;
+  }
+
+  /**
+   * 路径模板 -> OpenAPI 路径与路径参数
+   * {name=shelves/*} -> {name}，原模板转换为参数的 pattern
+   */
+  private convertTemplate(
+    template: string,
+    request: ProtoMessage | undefined,
+  ): {
+    path: string;
+    parameters: SchemaObject[];
+    /** 绑定到路径的顶层字段名 */
+    pathFields: Set<string>;
+  } {
+    const parameters: SchemaObject[] = [];
+    const pathFields = new Set<string>();
+
+    const path = template.replace(
+      /\{([^}=]+)(?:=([^}]*))?\}/g,
+      (_match, fieldPath: string, segments?: string) => {
+        const names = fieldPath.trim().split('.');
+        pathFields.add(names[0]!);
+
+        // 沿字段路径查找字段(如 user.id)
+        let message = request;
+        let field: ProtoField | undefined;
+        const jsonNames: string[] = [];
+        for (const name of names) {
+          field = message?.fields.find((item) => item.name === name);
+          jsonNames.push(field ? this.jsonName(field) : name);
+          message =
+            field && message
+              ? this.messageOf(field.type, message.fullName)
+              : undefined;
+        }
+        const parameterName = jsonNames.join('.');
+
+        const schema: SchemaObject =
+          field && message === undefined
+            ? this.fieldSchema(field, this.parentScope(request, names))
+            : { type: 'string' };
+        if (segments && segments !== '*') {
+          schema.pattern = `^${segments
+            .split('/')
+            .map((segment) =>
+              segment === '**'
+                ? '.+'
+                : segment === '*'
+                  ? '[^/]+'
+                  : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+            )
+            .join('/')}$`;
+        }
+        parameters.push({
+          name: parameterName,
+          in: 'path',
+          required: true,
+          schema,
+          ...(field?.description && { description: field.description }),
+        });
+        return `{${parameterName}}`;
+      },
+    );
+    return { path, parameters, pathFields };
+  }
+
+  /**
+   * 字段路径中最后一个字段所在消息的作用域
+   */
+  private parentScope(request: ProtoMessage | undefined, names: string[]) {
+    let message = request;
+    for (const name of names.slice(0, -1)) {
+      const field = message?.fields.find((item) => item.name === name);
+      message =
+        field && message
+          ? this.messageOf(field.type, message.fullName)
+          : message;
+    }
+    return message?.fullName ?? '';
+  }
+
+  /**
+   * body: "*" 的请求体
+   * 没有路径参数时直接引用请求消息，否则生成去掉路径字段的 {Method}Body
+   */
+  private bodySchema(
+    method: ProtoMethod,
+    request: ProtoMessage | undefined,
+    pathFields: Set<string>,
+    scope: string,
+  ): SchemaObject {
+    if (!request || pathFields.size === 0) {
+      return this.typeSchema(method.requestType, scope);
+    }
+
+    const schema = this.messageSchema(request);
+    const properties = schema.properties as Record<string, SchemaObject>;
+    const removed = new Set(
+      request.fields
+        .filter((field) => pathFields.has(field.name))
+        .map((field) => this.jsonName(field)),
+    );
+    for (const name of removed) delete properties[name];
+    if (Array.isArray(schema.required)) {
+      schema.required = schema.required.filter((name) => !removed.has(name));
+      if ((schema.required as string[]).length === 0) delete schema.required;
+    }
+
+    const baseName = `${this.identifier(method.name)}Body`;
+    let name = baseName;
+    for (let i = 2; this.schemas[name]; i++) name = `${baseName}${i}`;
+    this.schemas[name] = schema;
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  /**
+   * 字段 -> 查询参数
+   * 消息类型的字段展开为 parent.child 形式(与 gRPC-Gateway 一致)，map 字段不支持查询参数
+   */
+  private queryParameters(
+    field: ProtoField,
+    scope: string,
+    prefix: string,
+    visited: Set<string>,
+  ): SchemaObject[] {
+    if (field.keyType) return [];
+    const name = `${prefix}${this.jsonName(field)}`;
+    const message = this.messageOf(field.type, scope);
+    if (message) {
+      if (field.label === 'repeated' || visited.has(message.fullName)) {
+        return [];
+      }
+      const nested = new Set(visited).add(message.fullName);
+      return message.fields.flatMap((item) =>
+        this.queryParameters(item, message.fullName, `${name}.`, nested),
+      );
+    }
+    return [
+      {
+        name,
+        in: 'query',
+        ...(this.fieldBehaviors(field).has('REQUIRED') && { required: true }),
+        schema: this.fieldSchema(field, scope),
+        ...(field.description && { description: field.description }),
+      },
+    ];
+  }
+
+  private operationId(service: ProtoService, method: ProtoMethod): string {
+    const candidates = [
+      NamingUtils.convert(method.name, 'camelCase'),
+      NamingUtils.convert(`${service.name}_${method.name}`, 'camelCase'),
+    ];
+    let operationId =
+      candidates.find((candidate) => !this.operationIds.has(candidate)) ??
+      candidates[1]!;
+    const base = operationId;
+    for (let i = 2; this.operationIds.has(operationId); i++) {
+      operationId = `${base}${i}`;
+    }
+    this.operationIds.add(operationId);
+    return operationId;
+  }
+
+  // ===================================================================================
+  // 工具方法
+  // ===================================================================================
+
+  /**
+   * JSON 字段名：json_name 选项 > lowerCamelCase(与 protojson 一致)
+   */
+  private jsonName(field: ProtoField): string {
+    if (this.options.useProtoNames) return field.name;
+    if (typeof field.options.json_name === 'string') {
+      return field.options.json_name;
+    }
+    return field.name.replace(/_+(.)?/g, (_match, char?: string) =>
+      char ? char.toUpperCase() : '',
+    );
+  }
+
+  /**
+   * google.api.field_behavior 选项(如 REQUIRED、OUTPUT_ONLY)
+   */
+  private fieldBehaviors(field: ProtoField): Set<string> {
+    const behaviors = this.toArray(
+      field.options['(google.api.field_behavior)'],
+    ).flatMap((value) => this.toArray(value));
+    return new Set(behaviors.map((value) => String(value).split('.').pop()!));
+  }
+
+  /**
+   * 为 Schema 附加描述等信息($ref 不能与其他字段并列，使用 allOf 包装)
+   */
+  private withMetadata(
+    schema: SchemaObject,
+    metadata: SchemaObject,
+  ): SchemaObject {
+    if (Object.keys(metadata).length === 0) return schema;
+    return '$ref' in schema
+      ? { allOf: [schema], ...metadata }
+      : { ...schema, ...metadata };
+  }
+
+  private toArray(value: ProtoOptionValue | undefined): ProtoOptionValue[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private isRecord(
+    value: ProtoOptionValue | undefined,
+  ): value is Record<string, ProtoOptionValue> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * 任意名称 -> PascalCase 标识符(如 acme.v1 -> AcmeV1，User.Address -> UserAddress)
+   */
+  private identifier(name: string): string {
+    return NamingUtils.convert(
+      name.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, ''),
+      'PascalCase',
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export * from './converter';
+export * from './loader';
+export * from './parser';
+export * from './proto-parser';
+export * from './types';
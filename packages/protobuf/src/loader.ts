@@ -0,0 +1,119 @@
+/**
+ * .proto 文件加载器
+ * 读取入口文件并递归加载 import 的文件(查找顺序与 protoc 类似)
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AdapterLogger } from '@api-codegen-universal/core';
+import { ProtoParser } from './proto-parser';
+import type { ProtoFile } from './types';
+
+/**
+ * 内置处理的 import 前缀
+ * google/protobuf 中的常用类型直接映射为 JSON 类型，google/api 只包含选项定义
+ */
+const BUILT_IN_IMPORTS = ['google/protobuf/', 'google/api/'];
+
+/**
+ * 加载结果
+ */
+export interface ProtoFileSet {
+  /** 全部文件(入口文件及其依赖) */
+  files: ProtoFile[];
+  /** 入口文件(只有其中的服务会生成接口) */
+  roots: ProtoFile[];
+}
+
+export class ProtoLoader {
+  /** 已加载的绝对路径 */
+  private loaded = new Set<string>();
+
+  /**
+   * @param includePaths import 查找目录
+   * @param logger 适配器日志
+   */
+  constructor(
+    private includePaths: string[] = [],
+    private logger?: AdapterLogger,
+  ) {}
+
+  /**
+   * 加载入口文件及其依赖
+   *
+   * @param sources 文件路径或 proto 文本(包含换行时视为文本)
+   * @returns 文件集合
+   */
+  async load(sources: string[]): Promise<ProtoFileSet> {
+    const result: ProtoFileSet = { files: [], roots: [] };
+    const queue: Array<{ file: ProtoFile; dir: string }> = [];
+
+    for (const source of sources) {
+      let entry: { file: ProtoFile; dir: string } | undefined;
+      if (source.includes('\n')) {
+        entry = { file: new ProtoParser(source).parse(), dir: process.cwd() };
+      } else {
+        const absolute = path.resolve(source);
+        if (this.loaded.has(absolute)) continue;
+        this.loaded.add(absolute);
+        entry = {
+          file: new ProtoParser(
+            await fs.readFile(absolute, 'utf-8'),
+            source,
+          ).parse(),
+          dir: path.dirname(absolute),
+        };
+      }
+      result.files.push(entry.file);
+      result.roots.push(entry.file);
+      queue.push(entry);
+    }
+
+    while (queue.length > 0) {
+      const { file, dir } = queue.shift()!;
+      for (const name of file.imports) {
+        if (BUILT_IN_IMPORTS.some((prefix) => name.startsWith(prefix))) {
+          continue;
+        }
+        const absolute = await this.resolveImport(name, dir);
+        if (!absolute) {
+          this.logger?.warn(`Cannot find imported file "${name}".`, {
+            code: 'PROTOBUF_IMPORT_NOT_FOUND',
+            import: name,
+            importer: file.path,
+          });
+          continue;
+        }
+        if (this.loaded.has(absolute)) continue;
+        this.loaded.add(absolute);
+
+        const imported = new ProtoParser(
+          await fs.readFile(absolute, 'utf-8'),
+          name,
+        ).parse();
+        result.files.push(imported);
+        queue.push({ file: imported, dir: path.dirname(absolute) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 依次在导入方所在目录、includePaths、当前目录中查找
+   */
+  private async resolveImport(
+    name: string,
+    dir: string,
+  ): Promise<string | undefined> {
+    for (const base of [dir, ...this.includePaths, process.cwd()]) {
+      const candidate = path.resolve(base, name);
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // 继续查找下一个目录
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Protobuf 适配器
+ * 不依赖 protoc，直接解析 .proto 文件：消息与枚举映射为 Schema，
+ * 带 google.api.http 选项的 RPC 按 gRPC-Gateway 的 HTTP 绑定映射为接口
+ */
+
+import type { IAdapter, StandardOutput } from '@api-codegen-universal/core';
+import { createAdapterLogger } from '@api-codegen-universal/core';
+import {
+  type InputSource,
+  OpenAPIAdapter,
+} from '@api-codegen-universal/openapi';
+import { ProtobufConverter } from './converter';
+import { ProtoLoader } from './loader';
+import type { ProtobufAdapterOptions, ProtobufSource } from './types';
+
+/**
+ * Protobuf 适配器类
+ * 实现 IAdapter 接口，用于处理 .proto 文件的导入和转换
+ */
+export class ProtobufAdapter
+  implements IAdapter<ProtobufAdapterOptions, ProtobufSource>
+{
+  /**
+   * 验证输入源是否为可解析的 .proto 文件
+   *
+   * @param source 文件路径、proto 文本或它们的数组
+   * @returns 可以解析且包含消息、枚举或服务时返回 true
+   */
+  async validate(source: ProtobufSource): Promise<boolean> {
+    try {
+      const { roots } = await new ProtoLoader().load(this.toArray(source));
+      return roots.some(
+        (file) =>
+          file.messages.length > 0 ||
+          file.enums.length > 0 ||
+          file.services.length > 0,
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 解析主入口
+   * 1. 解析入口文件并递归加载 import 的文件
+   * 2. 转换为 OpenAPI 文档：消息/枚举 -> components.schemas，HTTP 绑定 -> paths
+   * 3. 使用 OpenAPIAdapter 转换为标准输出
+   *
+   * @param source 文件路径、proto 文本或它们的数组
+   * @param options 适配器选项
+   * @returns 标准输出格式 (StandardOutput)
+   */
+  async parse(
+    source: ProtobufSource,
+    options: ProtobufAdapterOptions = {},
+  ): Promise<StandardOutput> {
+    const sourceLabel = this.getSourceLabel(source);
+    const logger = createAdapterLogger(options, {
+      adapter: 'protobuf',
+      source: sourceLabel,
+    });
+
+    const { includePaths, useProtoNames, ...openApiOptions } = options;
+    const fileSet = await new ProtoLoader(includePaths, logger).load(
+      this.toArray(source),
+    );
+    const document = new ProtobufConverter(
+      fileSet,
+      { useProtoNames },
+      logger,
+    ).convert(sourceLabel);
+
+    const result = await new OpenAPIAdapter().parse(
+      document as unknown as InputSource,
+      openApiOptions,
+    );
+
+    if (result.metadata) {
+      result.metadata.source = sourceLabel;
+    }
+    return result;
+  }
+
+  private toArray(source: ProtobufSource): string[] {
+    return Array.isArray(source) ? source : [source];
+  }
+
+  /**
+   * 数据源的显示名称(用于日志、文档标题与 metadata.source)
+   */
+  private getSourceLabel(source: ProtobufSource): string {
+    const paths = this.toArray(source).filter((item) => !item.includes('\n'));
+    return paths.length > 0
+      ? `Protobuf ${paths.join(', ')}`
+      : 'Protobuf Schema';
+  }
+}
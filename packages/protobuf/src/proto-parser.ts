@@ -0,0 +1,747 @@
+/**
+ * Protobuf 解析器
+ * 不依赖 protoc，直接解析 .proto 文本(proto3，兼容 proto2 的 optional/required 标签)
+ * 只保留生成代码需要的部分：消息、枚举、服务及其选项；extend、reserved 等声明解析后丢弃
+ */
+
+import type {
+  ProtoEnum,
+  ProtoField,
+  ProtoFile,
+  ProtoMessage,
+  ProtoMethod,
+  ProtoOptionValue,
+  ProtoOptions,
+  ProtoService,
+} from './types';
+
+/**
+ * 词法单元
+ */
+interface Token {
+  kind: 'punct' | 'name' | 'number' | 'string' | 'eof';
+  value: string;
+  /** 字符偏移(用于错误信息) */
+  start: number;
+  /** 紧邻的前置注释 */
+  comment?: string;
+  /** 同一行的行尾注释 */
+  trailing?: string;
+}
+
+const PUNCTUATORS = new Set([
+  '{',
+  '}',
+  '(',
+  ')',
+  '[',
+  ']',
+  '<',
+  '>',
+  ';',
+  '=',
+  ',',
+  '.',
+  ':',
+  '-',
+  '+',
+]);
+
+const FIELD_LABELS = new Set(['repeated', 'optional', 'required']);
+
+export class ProtoParser {
+  private tokens: Token[] = [];
+  private position = 0;
+
+  /**
+   * @param source proto 文本
+   * @param path 文件路径(用于错误信息与 ProtoFile.path)
+   */
+  constructor(
+    private source: string,
+    private path?: string,
+  ) {}
+
+  /**
+   * 解析 .proto 文件
+   *
+   * @returns 文件结构；未声明 syntax 时按 proto2 处理(与 protoc 一致)
+   */
+  parse(): ProtoFile {
+    this.tokens = this.tokenize();
+    this.position = 0;
+
+    const file: ProtoFile = {
+      ...(this.path && { path: this.path }),
+      syntax: 'proto2',
+      imports: [],
+      messages: [],
+      enums: [],
+      services: [],
+    };
+    const fileOptions: ProtoOptions = {};
+
+    while (this.peek().kind !== 'eof') {
+      if (this.skip(';')) continue;
+      const first = this.peek();
+      const keyword = this.expect('name').value;
+      switch (keyword) {
+        case 'syntax':
+        case 'edition':
+          this.expect('punct', '=');
+          file.syntax =
+            keyword === 'edition' ? 'editions' : this.expect('string').value;
+          if (keyword === 'edition') this.expect('string');
+          this.expect('punct', ';');
+          break;
+        case 'package':
+          file.package = this.parseFullIdent();
+          this.expect('punct', ';');
+          break;
+        case 'import':
+          if (this.peekName('public') || this.peekName('weak')) this.next();
+          file.imports.push(this.expect('string').value);
+          this.expect('punct', ';');
+          break;
+        case 'option':
+          this.parseOptionStatement(fileOptions);
+          break;
+        case 'message':
+          file.messages.push(this.parseMessage(this.packageScope(file), first));
+          break;
+        case 'enum':
+          file.enums.push(this.parseEnum(this.packageScope(file), first));
+          break;
+        case 'service':
+          file.services.push(this.parseService(this.packageScope(file), first));
+          break;
+        case 'extend':
+          this.parseTypeName();
+          this.skipBlock();
+          break;
+        default:
+          throw this.error(`Unexpected "${keyword}"`, first);
+      }
+    }
+    return file;
+  }
+
+  private packageScope(file: ProtoFile): string {
+    return file.package ? `.${file.package}` : '';
+  }
+
+  // ===================================================================================
+  // 定义
+  // ===================================================================================
+
+  private parseMessage(scope: string, first: Token): ProtoMessage {
+    const name = this.expect('name').value;
+    const message: ProtoMessage = {
+      name,
+      fullName: `${scope}.${name}`,
+      ...(first.comment && { description: first.comment }),
+      fields: [],
+      messages: [],
+      enums: [],
+      options: {},
+    };
+
+    this.expect('punct', '{');
+    while (!this.skip('}')) {
+      if (this.skip(';')) continue;
+      const token = this.peek();
+      // message/enum/oneof 后接名称和 { 时为定义，否则为该名称的字段类型
+      const isDefinition =
+        token.kind === 'name' && this.peekAt(2).value === '{';
+
+      if (isDefinition && token.value === 'message') {
+        this.next();
+        message.messages.push(this.parseMessage(message.fullName, token));
+      } else if (isDefinition && token.value === 'enum') {
+        this.next();
+        message.enums.push(this.parseEnum(message.fullName, token));
+      } else if (isDefinition && token.value === 'oneof') {
+        this.next();
+        this.parseOneof(message);
+      } else if (this.peekName('option')) {
+        this.next();
+        this.parseOptionStatement(message.options);
+      } else if (this.peekName('reserved') || this.peekName('extensions')) {
+        this.skipStatement();
+      } else if (this.peekName('extend')) {
+        this.next();
+        this.parseTypeName();
+        this.skipBlock();
+      } else {
+        message.fields.push(this.parseField());
+      }
+    }
+    return message;
+  }
+
+  /**
+   * oneof 中的字段直接加入消息，记录所属 oneof 名称
+   */
+  private parseOneof(message: ProtoMessage): void {
+    const name = this.expect('name').value;
+    this.expect('punct', '{');
+    while (!this.skip('}')) {
+      if (this.skip(';')) continue;
+      if (this.peekName('option')) {
+        this.next();
+        this.parseOptionStatement({});
+        continue;
+      }
+      message.fields.push(this.parseField(name));
+    }
+  }
+
+  /**
+   * [label] type name = number [options];
+   * map<K, V> name = number [options];
+   */
+  private parseField(oneof?: string): ProtoField {
+    const first = this.peek();
+    let label: ProtoField['label'];
+    if (
+      first.kind === 'name' &&
+      FIELD_LABELS.has(first.value) &&
+      this.peekAt(2).value !== '='
+    ) {
+      label = this.next().value as ProtoField['label'];
+    }
+
+    let type: string;
+    let keyType: string | undefined;
+    if (this.peekName('map') && this.peekAt(1).value === '<') {
+      this.next();
+      this.expect('punct', '<');
+      keyType = this.expect('name').value;
+      this.expect('punct', ',');
+      type = this.parseTypeName();
+      this.expect('punct', '>');
+    } else {
+      type = this.parseTypeName();
+      if (type === 'group') {
+        throw this.error('Groups are not supported', first);
+      }
+    }
+
+    const name = this.expect('name').value;
+    this.expect('punct', '=');
+    const number = this.parseInteger();
+    const options: ProtoOptions = {};
+    if (this.skip('[')) {
+      do {
+        this.parseOptionAssignment(options);
+      } while (this.skip(','));
+      this.expect('punct', ']');
+    }
+    const end = this.expect('punct', ';');
+    const description = first.comment ?? end.trailing;
+
+    return {
+      name,
+      type,
+      number,
+      ...(label && { label }),
+      ...(keyType && { keyType }),
+      ...(oneof && { oneof }),
+      ...(description && { description }),
+      options,
+    };
+  }
+
+  private parseEnum(scope: string, first: Token): ProtoEnum {
+    const name = this.expect('name').value;
+    const result: ProtoEnum = {
+      name,
+      fullName: `${scope}.${name}`,
+      ...(first.comment && { description: first.comment }),
+      values: [],
+    };
+
+    this.expect('punct', '{');
+    while (!this.skip('}')) {
+      if (this.skip(';')) continue;
+      if (this.peekName('option')) {
+        this.next();
+        this.parseOptionStatement({});
+        continue;
+      }
+      if (this.peekName('reserved')) {
+        this.skipStatement();
+        continue;
+      }
+      const valueToken = this.expect('name');
+      this.expect('punct', '=');
+      const number = this.parseInteger();
+      const options: ProtoOptions = {};
+      if (this.skip('[')) {
+        do {
+          this.parseOptionAssignment(options);
+        } while (this.skip(','));
+        this.expect('punct', ']');
+      }
+      const end = this.expect('punct', ';');
+      const description = valueToken.comment ?? end.trailing;
+      result.values.push({
+        name: valueToken.value,
+        number,
+        ...(description && { description }),
+        options,
+      });
+    }
+    return result;
+  }
+
+  private parseService(scope: string, first: Token): ProtoService {
+    const name = this.expect('name').value;
+    const service: ProtoService = {
+      name,
+      fullName: `${scope}.${name}`,
+      ...(first.comment && { description: first.comment }),
+      methods: [],
+    };
+
+    this.expect('punct', '{');
+    while (!this.skip('}')) {
+      if (this.skip(';')) continue;
+      const token = this.expect('name');
+      if (token.value === 'option') {
+        this.parseOptionStatement({});
+      } else if (token.value === 'rpc') {
+        service.methods.push(this.parseMethod(token));
+      } else {
+        throw this.error(`Unexpected "${token.value}"`, token);
+      }
+    }
+    return service;
+  }
+
+  /**
+   * rpc Name (stream Request) returns (stream Response) { option ...; }
+   */
+  private parseMethod(first: Token): ProtoMethod {
+    const name = this.expect('name').value;
+    const [requestStream, requestType] = this.parseMethodType();
+    if (!this.peekName('returns')) {
+      throw this.error(`Expected "returns", found "${this.peek().value}"`);
+    }
+    this.next();
+    const [responseStream, responseType] = this.parseMethodType();
+
+    const options: ProtoOptions = {};
+    if (this.skip('{')) {
+      while (!this.skip('}')) {
+        if (this.skip(';')) continue;
+        if (!this.peekName('option')) {
+          throw this.error(`Unexpected "${this.peek().value}"`);
+        }
+        this.next();
+        this.parseOptionStatement(options);
+      }
+    } else {
+      this.expect('punct', ';');
+    }
+
+    return {
+      name,
+      requestType,
+      responseType,
+      requestStream,
+      responseStream,
+      ...(first.comment && { description: first.comment }),
+      options,
+    };
+  }
+
+  private parseMethodType(): [boolean, string] {
+    this.expect('punct', '(');
+    // stream 后接类型名时为流式，否则 stream 本身是类型名
+    const stream = this.peekName('stream') && this.peekAt(1).value !== ')';
+    if (stream) this.next();
+    const type = this.parseTypeName();
+    this.expect('punct', ')');
+    return [stream, type];
+  }
+
+  // ===================================================================================
+  // 选项
+  // ===================================================================================
+
+  private parseOptionStatement(options: ProtoOptions): void {
+    this.parseOptionAssignment(options);
+    this.expect('punct', ';');
+  }
+
+  /**
+   * name = constant
+   * name 可以是 deprecated、(google.api.http) 或 (google.api.http).get
+   */
+  private parseOptionAssignment(options: ProtoOptions): void {
+    let name: string;
+    if (this.skip('(')) {
+      name = `(${this.parseTypeName()})`;
+      this.expect('punct', ')');
+    } else {
+      name = this.expect('name').value;
+    }
+    const path: string[] = [];
+    while (this.skip('.')) path.push(this.expect('name').value);
+    this.expect('punct', '=');
+    const value = this.parseConstant();
+
+    if (path.length === 0) {
+      this.setOption(options, name, value);
+      return;
+    }
+    // (google.api.http).get = "..." 合并到 (google.api.http) 对象中
+    let target: Record<string, ProtoOptionValue> = options;
+    for (const key of [name, ...path.slice(0, -1)]) {
+      const child = target[key];
+      if (child && typeof child === 'object' && !Array.isArray(child)) {
+        target = child;
+      } else {
+        const created: Record<string, ProtoOptionValue> = {};
+        target[key] = created;
+        target = created;
+      }
+    }
+    this.setOption(target, path[path.length - 1]!, value);
+  }
+
+  /**
+   * 重复出现的键合并为数组(如 additional_bindings、field_behavior)
+   */
+  private setOption(
+    options: Record<string, ProtoOptionValue>,
+    key: string,
+    value: ProtoOptionValue,
+  ): void {
+    if (!(key in options)) {
+      options[key] = value;
+      return;
+    }
+    const existing = options[key]!;
+    options[key] = Array.isArray(existing)
+      ? [...existing, value]
+      : [existing, value];
+  }
+
+  private parseConstant(): ProtoOptionValue {
+    if (this.skip('{')) return this.parseAggregate('}');
+    if (this.skip('<')) return this.parseAggregate('>');
+    if (this.skip('[')) {
+      const list: ProtoOptionValue[] = [];
+      while (!this.skip(']')) {
+        list.push(this.parseConstant());
+        this.skip(',');
+      }
+      return list;
+    }
+
+    const token = this.peek();
+    if (token.kind === 'string') {
+      // 相邻字符串拼接
+      let value = '';
+      while (this.peek().kind === 'string') value += this.next().value;
+      return value;
+    }
+    if (token.kind === 'number' || this.peekPunct('-') || this.peekPunct('+')) {
+      return this.parseNumber();
+    }
+    if (token.kind === 'name') {
+      if (token.value === 'true' || token.value === 'false') {
+        this.next();
+        return token.value === 'true';
+      }
+      if (token.value === 'inf' || token.value === 'nan') {
+        return this.parseNumber();
+      }
+      return this.parseTypeName();
+    }
+    throw this.error(`Unexpected "${token.value}"`);
+  }
+
+  /**
+   * 文本格式的聚合值：{ key: value key { ... } key: [a, b] }
+   */
+  private parseAggregate(close: '}' | '>'): ProtoOptionValue {
+    const result: Record<string, ProtoOptionValue> = {};
+    while (!this.skip(close)) {
+      let key: string;
+      if (this.skip('[')) {
+        // 扩展字段 [google.api.http]
+        key = `[${this.parseTypeName()}]`;
+        this.expect('punct', ']');
+      } else {
+        key = this.expect('name').value;
+      }
+      const hasColon = this.skip(':');
+      if (!hasColon && !this.peekPunct('{') && !this.peekPunct('<')) {
+        throw this.error(`Expected ":", found "${this.peek().value}"`);
+      }
+      this.setOption(result, key, this.parseConstant());
+      if (!this.skip(',')) this.skip(';');
+    }
+    return result;
+  }
+
+  // ===================================================================================
+  // 基础元素
+  // ===================================================================================
+
+  /**
+   * 类型名(可以带前导 . 表示全限定名)，如 User、google.protobuf.Timestamp、.acme.v1.User
+   */
+  private parseTypeName(): string {
+    let name = this.skip('.') ? '.' : '';
+    name += this.expect('name').value;
+    while (this.peekPunct('.')) {
+      this.next();
+      name += `.${this.expect('name').value}`;
+    }
+    return name;
+  }
+
+  private parseFullIdent(): string {
+    const first = this.peek();
+    const name = this.parseTypeName();
+    if (name.startsWith('.')) throw this.error('Unexpected "."', first);
+    return name;
+  }
+
+  private parseInteger(): number {
+    const token = this.peek();
+    const value = this.parseNumber();
+    if (!Number.isInteger(value)) {
+      throw this.error(`Expected integer, found "${token.value}"`, token);
+    }
+    return value;
+  }
+
+  private parseNumber(): number {
+    let sign = 1;
+    if (this.skip('-')) sign = -1;
+    else this.skip('+');
+    const token = this.next();
+    if (token.kind === 'name' && token.value === 'inf') return sign * Infinity;
+    if (token.kind === 'name' && token.value === 'nan') return NaN;
+    if (token.kind !== 'number') {
+      throw this.error(`Expected number, found "${token.value}"`, token);
+    }
+    const text = token.value;
+    let value: number;
+    if (/^0[xX]/.test(text)) value = parseInt(text.slice(2), 16);
+    else if (/^0[0-7]+$/.test(text)) value = parseInt(text.slice(1), 8);
+    else value = Number(text);
+    return sign * value;
+  }
+
+  private skipStatement(): void {
+    while (!this.skip(';')) {
+      if (this.peek().kind === 'eof') throw this.error('Expected ";"');
+      this.next();
+    }
+  }
+
+  private skipBlock(): void {
+    this.expect('punct', '{');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'eof') throw this.error('Expected "}"', token);
+      if (token.kind === 'punct' && token.value === '{') depth++;
+      if (token.kind === 'punct' && token.value === '}') depth--;
+    }
+  }
+
+  // ===================================================================================
+  // 词法分析
+  // ===================================================================================
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const text = this.source;
+    let i = 0;
+    let line = 1;
+    /** 最后一个词法单元所在行 */
+    let lastTokenLine = 0;
+    /** 尚未归属的连续注释块 */
+    let pending: { text: string[]; endLine: number } | undefined;
+
+    const push = (token: Omit<Token, 'comment'>) => {
+      // 注释与词法单元之间有空行时不作为说明(与 protoc 的 detached comment 一致)
+      const comment =
+        pending && pending.endLine >= line - 1
+          ? pending.text.join('\n').trim()
+          : undefined;
+      pending = undefined;
+      tokens.push({ ...token, ...(comment && { comment }) });
+      lastTokenLine = line;
+    };
+
+    const addComment = (content: string, startLine: number) => {
+      const last = tokens[tokens.length - 1];
+      if (last && !pending && startLine === lastTokenLine) {
+        last.trailing = content.trim();
+        return;
+      }
+      if (pending && startLine <= pending.endLine + 1) {
+        pending.text.push(content);
+        pending.endLine = line;
+      } else {
+        pending = { text: [content], endLine: line };
+      }
+    };
+
+    while (i < text.length) {
+      const char = text[i]!;
+
+      if (char === '\n') {
+        line++;
+        i++;
+      } else if (/[\s\uFEFF]/.test(char)) {
+        i++;
+      } else if (text.startsWith('//', i)) {
+        const end = text.indexOf('\n', i);
+        const content = text.slice(i + 2, end < 0 ? text.length : end);
+        addComment(content.replace(/^ /, '').replace(/\r$/, ''), line);
+        i = end < 0 ? text.length : end;
+      } else if (text.startsWith('/*', i)) {
+        const end = text.indexOf('*/', i + 2);
+        if (end < 0) throw this.error('Unterminated comment', i);
+        const startLine = line;
+        const raw = text.slice(i + 2, end);
+        line += raw.split('\n').length - 1;
+        addComment(
+          raw
+            .split(/\r?\n/)
+            .map((item) => item.replace(/^\s*\*? ?/, ''))
+            .join('\n'),
+          startLine,
+        );
+        i = end + 2;
+      } else if (char === '"' || char === "'") {
+        const pattern =
+          char === '"' ? /^"((?:[^"\\\n]|\\.)*)"/ : /^'((?:[^'\\\n]|\\.)*)'/;
+        const match = text.slice(i).match(pattern);
+        if (!match) throw this.error('Unterminated string', i);
+        push({ kind: 'string', value: this.unescape(match[1]!), start: i });
+        i += match[0].length;
+      } else if (/[A-Za-z_]/.test(char)) {
+        const match = text.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+        push({ kind: 'name', value: match[0], start: i });
+        i += match[0].length;
+      } else if (/\d/.test(char)) {
+        const match = text
+          .slice(i)
+          .match(/^(0[xX][0-9a-fA-F]+|\d+(\.\d*)?([eE][+-]?\d+)?)/)!;
+        push({ kind: 'number', value: match[0], start: i });
+        i += match[0].length;
+      } else if (PUNCTUATORS.has(char)) {
+        push({ kind: 'punct', value: char, start: i });
+        i++;
+      } else {
+        throw this.error(`Unexpected "${char}"`, i);
+      }
+    }
+
+    tokens.push({ kind: 'eof', value: '<EOF>', start: text.length });
+    return tokens;
+  }
+
+  /**
+   * 字符串转义：\n、\xHH、\ooo、\uXXXX 等
+   */
+  private unescape(raw: string): string {
+    const simple: Record<string, string> = {
+      a: '\x07',
+      b: '\b',
+      f: '\f',
+      n: '\n',
+      r: '\r',
+      t: '\t',
+      v: '\v',
+    };
+    return raw.replace(
+      /\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|u[0-9a-fA-F]{4}|.)/g,
+      (_match, escape: string) => {
+        if (/^x/.test(escape)) {
+          return String.fromCharCode(parseInt(escape.slice(1), 16));
+        }
+        if (/^u/.test(escape)) {
+          return String.fromCharCode(parseInt(escape.slice(1), 16));
+        }
+        if (/^[0-7]/.test(escape)) {
+          return String.fromCharCode(parseInt(escape, 8));
+        }
+        return simple[escape] ?? escape;
+      },
+    );
+  }
+
+  // ===================================================================================
+  // 词法单元读取
+  // ===================================================================================
+
+  private peek(): Token {
+    return this.tokens[this.position]!;
+  }
+
+  private peekAt(offset: number): Token {
+    return (
+      this.tokens[this.position + offset] ??
+      this.tokens[this.tokens.length - 1]!
+    );
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private peekName(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'name' && token.value === value;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.position++;
+    return token;
+  }
+
+  private skip(punct: string): boolean {
+    if (this.peekPunct(punct)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(kind: Token['kind'], value?: string): Token {
+    const token = this.peek();
+    if (token.kind !== kind || (value !== undefined && token.value !== value)) {
+      throw this.error(
+        `Expected ${value ? `"${value}"` : kind}, found "${token.value}"`,
+      );
+    }
+    return this.next();
+  }
+
+  /**
+   * 生成带文件名与行列号的语法错误
+   */
+  private error(message: string, at: Token | number = this.peek()): Error {
+    const offset = typeof at === 'number' ? at : at.start;
+    const before = this.source.slice(0, offset).split(/\r\n|\r|\n/);
+    const line = before.length;
+    const column = before[before.length - 1]!.length + 1;
+    const location = this.path
+      ? `${this.path}:${line}:${column}`
+      : `${line}:${column}`;
+    return new Error(`Protobuf syntax error (${location}): ${message}`);
+  }
+}
@@ -0,0 +1,139 @@
+import type { OpenAPIOptions } from '@api-codegen-universal/openapi';
+
+/**
+ * ProtobufAdapter 输入源
+ * - 字符串：.proto 文件路径(相对路径基于 process.cwd())或 proto 文本
+ * - 字符串数组：多个文件路径/文本，按顺序解析
+ */
+export type ProtobufSource = string | string[];
+
+/**
+ * 适配器选项
+ * 在 OpenAPIOptions 的基础上增加 Protobuf 专属行为控制
+ */
+export interface ProtobufAdapterOptions extends OpenAPIOptions {
+  /**
+   * import 的查找目录(相当于 protoc 的 -I)
+   * 先基于导入方文件所在目录查找，再依次查找这些目录；
+   * google/protobuf、google/api 下的文件不需要提供
+   */
+  includePaths?: string[];
+
+  /**
+   * 是否使用 proto 字段名(如 user_id)作为 JSON 字段名(默认 false)
+   * 默认与 gRPC-Gateway / protojson 一致，使用 lowerCamelCase(如 userId)或 json_name 选项
+   */
+  useProtoNames?: boolean;
+}
+
+// ===================================================================================
+// 解析结果
+// ===================================================================================
+
+/**
+ * 选项值
+ * 标量常量、枚举标识符，或 { ... } 聚合值(文本格式消息，重复的键合并为数组)
+ */
+export type ProtoOptionValue =
+  | string
+  | number
+  | boolean
+  | ProtoOptionValue[]
+  | { [key: string]: ProtoOptionValue };
+
+/**
+ * 选项集合
+ * 键为选项名称，如 deprecated、json_name、(google.api.http)
+ */
+export type ProtoOptions = Record<string, ProtoOptionValue>;
+
+/**
+ * .proto 文件
+ */
+export interface ProtoFile {
+  /** 文件路径(文本输入时为 undefined) */
+  path?: string;
+  /** proto2 / proto3 */
+  syntax: string;
+  /** 包名 */
+  package?: string;
+  /** import 的文件路径 */
+  imports: string[];
+  messages: ProtoMessage[];
+  enums: ProtoEnum[];
+  services: ProtoService[];
+}
+
+/**
+ * 消息
+ */
+export interface ProtoMessage {
+  name: string;
+  /** 全限定名，如 .acme.v1.User.Address */
+  fullName: string;
+  description?: string;
+  fields: ProtoField[];
+  /** 嵌套消息 */
+  messages: ProtoMessage[];
+  /** 嵌套枚举 */
+  enums: ProtoEnum[];
+  options: ProtoOptions;
+}
+
+/**
+ * 字段
+ */
+export interface ProtoField {
+  name: string;
+  /** 类型名称(标量类型或消息/枚举的引用名)；map 字段为值类型 */
+  type: string;
+  number: number;
+  /** 字段标签 */
+  label?: 'repeated' | 'optional' | 'required';
+  /** map 字段的键类型 */
+  keyType?: string;
+  /** 所属 oneof 名称 */
+  oneof?: string;
+  description?: string;
+  options: ProtoOptions;
+}
+
+/**
+ * 枚举
+ */
+export interface ProtoEnum {
+  name: string;
+  /** 全限定名 */
+  fullName: string;
+  description?: string;
+  values: Array<{
+    name: string;
+    number: number;
+    description?: string;
+    options: ProtoOptions;
+  }>;
+}
+
+/**
+ * 服务
+ */
+export interface ProtoService {
+  name: string;
+  /** 全限定名 */
+  fullName: string;
+  description?: string;
+  methods: ProtoMethod[];
+}
+
+/**
+ * RPC 方法
+ */
+export interface ProtoMethod {
+  name: string;
+  requestType: string;
+  responseType: string;
+  requestStream: boolean;
+  responseStream: boolean;
+  description?: string;
+  options: ProtoOptions;
+}
@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test, expect } from '@rstest/core';
+import { ProtobufAdapter, ProtoParser } from '../src';
+
+const common = `
+syntax = "proto3";
+
+package acme.common;
+
+// Page of results
+message PageRequest {
+  int32 page_size = 1;
+  string page_token = 2;
+}
+`;
+
+const library = `
+syntax = "proto3";
+
+package acme.library.v1;
+
+import "google/api/annotations.proto";
+import "google/api/field_behavior.proto";
+import "google/protobuf/timestamp.proto";
+import "common/page.proto";
+
+// A book on a shelf
+message Book {
+  // Resource name, e.g. shelves/1/books/2
+  string name = 1 [(google.api.field_behavior) = IDENTIFIER];
+  string title = 2 [(google.api.field_behavior) = REQUIRED];
+  repeated string authors = 3;
+  int64 page_count = 4; // Serialized as a string
+  Genre genre = 5;
+  map<string, string> labels = 6;
+  google.protobuf.Timestamp create_time = 7 [(google.api.field_behavior) = OUTPUT_ONLY];
+  oneof source {
+    string isbn = 8;
+    Scan scan = 9;
+  }
+  string legacy_id = 10 [deprecated = true, json_name = "oldId"];
+
+  message Scan {
+    bytes data = 1;
+  }
+}
+
+enum Genre {
+  GENRE_UNSPECIFIED = 0;
+  // Made up stories
+  FICTION = 1;
+}
+
+service LibraryService {
+  // Gets a book
+  rpc GetBook(GetBookRequest) returns (Book) {
+    option (google.api.http) = {
+      get: "/v1/{name=shelves/*/books/*}"
+      additional_bindings { get: "/v1/books/{name}" }
+    };
+  }
+  rpc ListBooks(ListBooksRequest) returns (ListBooksResponse) {
+    option (google.api.http).get = "/v1/{parent=shelves/*}/books";
+  }
+  rpc CreateBook(CreateBookRequest) returns (Book) {
+    option (google.api.http) = {
+      post: "/v1/{parent=shelves/*}/books"
+      body: "book"
+    };
+  }
+  rpc UpdateShelf(UpdateShelfRequest) returns (UpdateShelfRequest) {
+    option (google.api.http) = { patch: "/v1/shelves/{shelf_id}" body: "*" };
+  }
+  rpc WatchBooks(ListBooksRequest) returns (stream Book) {
+    option (google.api.http) = { get: "/v1/books:watch" };
+  }
+  rpc Internal(GetBookRequest) returns (Book);
+}
+
+message GetBookRequest {
+  string name = 1;
+}
+
+message ListBooksRequest {
+  string parent = 1;
+  acme.common.PageRequest page = 2;
+  Genre genre = 3;
+}
+
+message ListBooksResponse {
+  repeated Book books = 1;
+  string next_page_token = 2;
+}
+
+message CreateBookRequest {
+  string parent = 1;
+  Book book = 2;
+  string request_id = 3;
+}
+
+message UpdateShelfRequest {
+  int64 shelf_id = 1;
+  string theme = 2;
+}
+`;
+
+test('ProtobufAdapter maps messages and gRPC-Gateway bindings', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'protobuf-'));
+  fs.mkdirSync(path.join(dir, 'common'));
+  fs.writeFileSync(path.join(dir, 'common/page.proto'), common);
+  const file = path.join(dir, 'library.proto');
+  fs.writeFileSync(file, library);
+
+  const adapter = new ProtobufAdapter();
+  expect(await adapter.validate(file)).toBe(true);
+  expect(await adapter.validate('message {\n')).toBe(false);
+
+  const result = await adapter.parse(file);
+
+  // 消息：lowerCamelCase 字段名、64 位整数为字符串、map、oneof、field_behavior
+  const book = result.schemas.Book!;
+  expect(book.required).toEqual(['title']);
+  expect(book.properties?.pageCount?.type).toBe('string');
+  expect(book.properties?.pageCount?.description).toBe(
+    'Serialized as a string',
+  );
+  expect(book.properties?.createTime?.readOnly).toBe(true);
+  expect(book.properties?.isbn?.description).toBe(
+    'Only one of `isbn`, `scan` can be set (oneof source).',
+  );
+  const bookInterface = result.interfaces.Book!;
+  expect(bookInterface).toContain('title: string');
+  expect(bookInterface).toContain('authors?: string[]');
+  expect(bookInterface).toContain('genre?: Genre');
+  expect(bookInterface).toMatch(
+    /labels\?: \{\s*\[key: string\]: string;?\s*\}/,
+  );
+  expect(bookInterface).toContain('scan?: BookScan');
+  expect(bookInterface).toMatch(/@deprecated[\s\S]*oldId\?: string/);
+  expect(result.schemas.Genre?.enum).toEqual(['GENRE_UNSPECIFIED', 'FICTION']);
+  // 依赖文件中的类型只在被引用时生成
+  expect(result.schemas.PageRequest).toBeDefined();
+
+  // 接口：路径模板、additional_bindings、body 绑定与查询参数
+  expect(result.apis.map((api) => `${api.method} ${api.path}`)).toEqual([
+    'GET /v1/{name}',
+    'GET /v1/books/{name}',
+    'GET /v1/{parent}/books',
+    'POST /v1/{parent}/books',
+    'PATCH /v1/shelves/{shelfId}',
+  ]);
+  const [getBook, getBookAlt, listBooks, createBook, updateShelf] = result.apis;
+  expect(getBook?.operationId).toBe('getBook');
+  expect(getBook?.description).toBe('Gets a book');
+  expect(getBookAlt?.operationId).toBe('libraryServiceGetBook');
+  expect(
+    getBook?.responses['200']?.content?.['application/json']?.schema,
+  ).toEqual({ type: 'ref', ref: 'Book' });
+
+  const listQuery = result.interfaces[listBooks!.parameters!.query!.ref!]!;
+  expect(listQuery).toContain('"page.pageSize"?: number');
+  expect(listQuery).toContain('"page.pageToken"?: string');
+  expect(listQuery).toContain('genre?: Genre');
+
+  expect(createBook?.requestBody?.content['application/json']?.schema).toEqual({
+    type: 'ref',
+    ref: 'Book',
+  });
+  const createQuery = result.interfaces[createBook!.parameters!.query!.ref!]!;
+  expect(createQuery).toContain('requestId?: string');
+  expect(createQuery).not.toContain('book');
+
+  // body: "*" 且有路径参数时，请求体去掉路径字段
+  expect(updateShelf?.requestBody?.content['application/json']?.schema).toEqual(
+    { type: 'ref', ref: 'UpdateShelfBody' },
+  );
+  expect(result.interfaces.UpdateShelfBody).toContain('theme?: string');
+  expect(result.interfaces.UpdateShelfBody).not.toContain('shelfId');
+  expect(result.interfaces[updateShelf!.parameters!.path!.ref!]).toContain(
+    'shelfId: string',
+  );
+});
+
+test('ProtoParser reports syntax errors with positions', () => {
+  expect(() =>
+    new ProtoParser('message A {\n  string name = ;\n}', 'a.proto').parse(),
+  ).toThrow('Protobuf syntax error (a.proto:2:17)');
+});